@@ -11,6 +11,7 @@ import { TestRig } from './test-helper.js';
 test('reads a file', (t) => {
   const rig = new TestRig();
   rig.setup(t.name);
+  rig.useFixture('file-system-reads-a-file');
   rig.createFile('test.txt', 'hello world');
 
   const output = rig.run(`read the file name test.txt`);
@@ -21,6 +22,7 @@ test('reads a file', (t) => {
 test('writes a file', (t) => {
   const rig = new TestRig();
   rig.setup(t.name);
+  rig.useFixture('file-system-writes-a-file');
   rig.createFile('test.txt', '');
 
   rig.run(`edit test.txt to have a hello world message`);
@@ -11,6 +11,7 @@ import { TestRig } from './test-helper.js';
 test('should be able to list a directory', async (t) => {
   const rig = new TestRig();
   rig.setup(t.name);
+  rig.useFixture('list-directory');
   rig.createFile('file1.txt', 'file 1 content');
   rig.mkdir('subdir');
   rig.sync();
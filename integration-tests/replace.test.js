@@ -11,6 +11,7 @@ import { TestRig } from './test-helper.js';
 test('should be able to replace content in a file', async (t) => {
   const rig = new TestRig();
   rig.setup(t.name);
+  rig.useFixture('replace');
 
   const fileName = 'file_to_replace.txt';
   rig.createFile(fileName, 'original content');
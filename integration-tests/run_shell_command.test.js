@@ -11,6 +11,7 @@ import { TestRig } from './test-helper.js';
 test('should be able to run a shell command', async (t) => {
   const rig = new TestRig();
   rig.setup(t.name);
+  rig.useFixture('run-shell-command');
   rig.createFile('blah.txt', 'some content');
 
   const prompt = `Can you use ls to list the contexts of the current folder`;
@@ -22,6 +23,7 @@ test('should be able to run a shell command', async (t) => {
 test('should be able to run a shell command via stdin', async (t) => {
   const rig = new TestRig();
   rig.setup(t.name);
+  rig.useFixture('run-shell-command-via-stdin');
   rig.createFile('blah.txt', 'some content');
 
   const prompt = `Can you use ls to list the contexts of the current folder`;
@@ -21,7 +21,7 @@ function sanitizeTestName(name) {
 
 export class TestRig {
   constructor() {
-    this.bundlePath = join(__dirname, '..', 'bundle/gemini.js');
+    this.bundlePath = join(__dirname, '..', 'bundle/yak.js');
     this.testDir = null;
   }
 
@@ -42,6 +42,40 @@ export class TestRig {
     mkdirSync(join(this.testDir, dir));
   }
 
+  /**
+   * Serves the model responses of the test from the fixture
+   * integration-tests/fixtures/<name>.json, so that the test runs without
+   * network access. With RECORD_FIXTURES=true, the test runs against the
+   * configured model and records the fixture instead.
+   */
+  useFixture(name) {
+    this.fixturePath = join(__dirname, 'fixtures', `${name}.json`);
+    // Both modes write the settings file, so that the folder structure in
+    // the prompt is the same when recording and replaying
+    const settings =
+      env.RECORD_FIXTURES === 'true'
+        ? {}
+        : {
+            selectedAuthType: 'llm-provider',
+            defaultLLMProvider: 'replay',
+            llmProviders: {
+              replay: {
+                name: 'replay',
+                displayName: 'Replay',
+                type: 'replay',
+                apiKey: '',
+                replay: { fixture: this.fixturePath },
+              },
+            },
+          };
+    // The workspace settings directory of the CLI, SETTINGS_DIRECTORY_NAME
+    mkdirSync(join(this.testDir, '.yakchat'), { recursive: true });
+    this.createFile(
+      '.yakchat/settings.json',
+      JSON.stringify(settings, null, 2),
+    );
+  }
+
   sync() {
     // ensure file system is done before spawning
     execSync('sync', { cwd: this.testDir });
@@ -68,6 +102,10 @@ export class TestRig {
       }
     }
 
+    if (this.fixturePath && env.RECORD_FIXTURES === 'true') {
+      command += ` --record "${this.fixturePath}"`;
+    }
+
     command += ` ${args.join(' ')}`;
 
     const output = execSync(command, execOptions);
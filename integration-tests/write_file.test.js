@@ -11,6 +11,7 @@ import { TestRig } from './test-helper.js';
 test('should be able to write a file', async (t) => {
   const rig = new TestRig();
   rig.setup(t.name);
+  rig.useFixture('write-file');
   const prompt = `show me an example of using the write tool. put a dad joke in dad.txt`;
 
   await rig.run(prompt);
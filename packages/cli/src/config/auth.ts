@@ -45,5 +45,10 @@ export const validateAuthMethod = (authMethod: string): string | null => {
     return null;
   }
 
+  if (authMethod === AuthType.USE_LLM_PROVIDER) {
+    // The provider itself is resolved and validated from settings on refreshAuth.
+    return null;
+  }
+
   return 'Invalid auth method selected.';
 };
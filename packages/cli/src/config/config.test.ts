@@ -260,6 +260,56 @@ describe('loadCliConfig', () => {
     const config = await loadCliConfig(settings, [], 'test-session', argv);
     expect(config.getProxy()).toBe('http://localhost:7890');
   });
+
+  it('should pass LLM providers from settings and the --provider flag', async () => {
+    process.argv = ['node', 'script.js', '--provider', 'local-gateway'];
+    const argv = await parseArguments();
+    const llmProviders = {
+      'local-gateway': {
+        name: 'local-gateway',
+        displayName: 'OpenAI Compatible',
+        type: ServerConfig.LLMProviderType.OPENAI_COMPATIBLE,
+        apiKey: 'local-key',
+        baseUrl: 'http://localhost:8080/v1',
+      },
+    };
+    const settings: Settings = {
+      llmProviders,
+      defaultLLMProvider: 'openrouter-primary',
+    };
+    const config = await loadCliConfig(settings, [], 'test-session', argv);
+    expect(config.getLLMProviders()).toEqual(llmProviders);
+    expect(config.getDefaultLLMProvider()).toBe('openrouter-primary');
+    expect(config.getLLMProvider()).toBe('local-gateway');
+  });
+
+  it('should tell an explicit --model from the default one', async () => {
+    delete process.env.GEMINI_MODEL;
+    process.argv = ['node', 'script.js'];
+    let config = await loadCliConfig(
+      {},
+      [],
+      'test-session',
+      await parseArguments(),
+    );
+    expect(config.getModel()).toBe(ServerConfig.DEFAULT_GEMINI_MODEL);
+    expect(config.isModelExplicit()).toBe(false);
+
+    process.argv = [
+      'node',
+      'script.js',
+      '-m',
+      ServerConfig.DEFAULT_GEMINI_MODEL,
+    ];
+    config = await loadCliConfig(
+      {},
+      [],
+      'test-session',
+      await parseArguments(),
+    );
+    expect(config.getModel()).toBe(ServerConfig.DEFAULT_GEMINI_MODEL);
+    expect(config.isModelExplicit()).toBe(true);
+  });
 });
 
 describe('loadCliConfig telemetry', () => {
@@ -290,6 +290,68 @@ describe('Settings Loading and Merging', () => {
       });
     });
 
+    it('should refine system providers with user settings, except for locked fields', () => {
+      (mockFsExistsSync as Mock).mockReturnValue(true);
+      const systemSettingsContent = {
+        llmProviders: {
+          gateway: {
+            name: 'gateway',
+            displayName: 'Gateway',
+            type: 'openai-compatible',
+            apiKey: '',
+            baseUrl: 'https://llm.example.com/v1',
+            model: 'gpt-4o',
+            locked: ['baseUrl', 'headers'],
+          },
+        },
+      };
+      const userSettingsContent = {
+        llmProviders: {
+          gateway: {
+            apiKey: 'secret:gateway',
+            baseUrl: 'https://elsewhere.example.com/v1',
+            headers: { 'X-Team': 'user' },
+            model: 'gpt-4o-mini',
+            locked: [],
+          },
+          local: {
+            name: 'local',
+            displayName: 'Ollama',
+            type: 'ollama',
+            apiKey: '',
+          },
+        },
+      };
+
+      (fs.readFileSync as Mock).mockImplementation(
+        (p: fs.PathOrFileDescriptor) => {
+          if (p === getSystemSettingsPath())
+            return JSON.stringify(systemSettingsContent);
+          if (p === USER_SETTINGS_PATH)
+            return JSON.stringify(userSettingsContent);
+          return '{}';
+        },
+      );
+
+      const settings = loadSettings(MOCK_WORKSPACE_DIR);
+
+      expect(settings.merged.llmProviders).toEqual({
+        gateway: {
+          ...systemSettingsContent.llmProviders.gateway,
+          apiKey: 'secret:gateway',
+          model: 'gpt-4o-mini',
+        },
+        local: userSettingsContent.llmProviders.local,
+      });
+      expect(settings.getLLMProviderScopes('gateway')).toEqual([
+        SettingScope.System,
+        SettingScope.User,
+      ]);
+      expect(settings.getLLMProviderScopes('local')).toEqual([
+        SettingScope.User,
+      ]);
+    });
+
     it('should handle contextFileName correctly when only in user settings', () => {
       (mockFsExistsSync as Mock).mockImplementation(
         (p: fs.PathLike) => p === USER_SETTINGS_PATH,
@@ -620,6 +682,43 @@ describe('Settings Loading and Merging', () => {
       delete process.env.TEST_API_KEY;
     });
 
+    it('should keep environment variable references of provider API keys', () => {
+      process.env.TEST_OPENROUTER_KEY = 'sk-or-from-env';
+      const userSettingsContent = {
+        llmProviders: {
+          openrouter: {
+            name: 'openrouter',
+            displayName: 'OpenRouter',
+            type: 'openrouter',
+            apiKey: '$TEST_OPENROUTER_KEY',
+            baseUrl: '${TEST_OPENROUTER_KEY}',
+          },
+        },
+      };
+      (mockFsExistsSync as Mock).mockImplementation(
+        (p: fs.PathLike) => p === USER_SETTINGS_PATH,
+      );
+      (fs.readFileSync as Mock).mockImplementation(
+        (p: fs.PathOrFileDescriptor) => {
+          if (p === USER_SETTINGS_PATH)
+            return JSON.stringify(userSettingsContent);
+          return '{}';
+        },
+      );
+      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+
+      const settings = loadSettings(MOCK_WORKSPACE_DIR);
+      const provider = settings.merged.llmProviders?.['openrouter'];
+      expect(provider?.apiKey).toBe('$TEST_OPENROUTER_KEY');
+      expect(provider?.baseUrl).toBe('sk-or-from-env');
+
+      settings.setValue(SettingScope.User, 'theme', 'matrix');
+      const written = vi.mocked(fs.writeFileSync).mock.calls[0][1] as string;
+      expect(written).toContain('"apiKey": "$TEST_OPENROUTER_KEY"');
+      expect(written).not.toContain('"apiKey": "sk-or-from-env"');
+      delete process.env.TEST_OPENROUTER_KEY;
+    });
+
     it('should resolve environment variables in workspace settings', () => {
       process.env.WORKSPACE_ENDPOINT = 'workspace_endpoint_from_env';
       const workspaceSettingsContent = {
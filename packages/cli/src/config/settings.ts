@@ -16,6 +16,9 @@ import {
   TelemetrySettings,
   AuthType,
   LLMProviderConfig,
+  BudgetSettings,
+  GenerationParams,
+  isSecretReference,
 } from 'yak-core';
 import stripJsonComments from 'strip-json-comments';
 import { DefaultLight } from '../ui/themes/default-light.js';
@@ -123,6 +126,14 @@ export interface Settings {
   // LLM Provider settings
   llmProviders?: Record<string, LLMProviderConfig>;
   defaultLLMProvider?: string;
+  // Providers to fail over to, in order, as "provider" or "provider:model"
+  providerFallbacks?: string[];
+  // Generation parameters for all models, providers and their models can
+  // override them with their own `params`
+  generationParams?: GenerationParams;
+  // Spending limits in USD per session and per day, soft limits warn and
+  // hard limits stop the turn
+  budget?: BudgetSettings;
 
   // Add other settings here.
   ideMode?: boolean;
@@ -181,14 +192,26 @@ export class LoadedSettings {
         ...(workspace.mcpServers || {}),
         ...(system.mcpServers || {}),
       },
-      llmProviders: {
-        ...(user.llmProviders || {}),
-        ...(workspace.llmProviders || {}),
-        ...(system.llmProviders || {}),
-      },
+      llmProviders: mergeLLMProviders(
+        system.llmProviders || {},
+        user.llmProviders || {},
+        workspace.llmProviders || {},
+      ),
     };
   }
 
+  /**
+   * Gets the scopes that define a provider, the system settings first
+   * @param name The provider name
+   */
+  getLLMProviderScopes(name: string): SettingScope[] {
+    return [
+      SettingScope.System,
+      SettingScope.Workspace,
+      SettingScope.User,
+    ].filter((scope) => this.forScope(scope).settings.llmProviders?.[name]);
+  }
+
   forScope(scope: SettingScope): SettingsFile {
     switch (scope) {
       case SettingScope.User:
@@ -214,6 +237,31 @@ export class LoadedSettings {
   }
 }
 
+/**
+ * Merges the providers of all scopes. A provider of the workspace settings
+ * replaces the one of the user settings, and both refine the provider of
+ * the system settings field by field, except for the fields it locks.
+ */
+function mergeLLMProviders(
+  system: Record<string, LLMProviderConfig>,
+  user: Record<string, LLMProviderConfig>,
+  workspace: Record<string, LLMProviderConfig>,
+): Record<string, LLMProviderConfig> {
+  const providers = { ...user, ...workspace };
+  for (const [name, base] of Object.entries(system)) {
+    const locked = Object.fromEntries(
+      (base.locked ?? []).map((field) => [field, base[field]]),
+    );
+    providers[name] = {
+      ...base,
+      ...providers[name],
+      ...locked,
+      locked: base.locked,
+    };
+  }
+  return providers;
+}
+
 function resolveEnvVarsInString(value: string): string {
   const envVarRegex = /\$(?:(\w+)|{([^}]+)})/g; // Find $VAR_NAME or ${VAR_NAME}
   return value.replace(envVarRegex, (match, varName1, varName2) => {
@@ -256,6 +304,25 @@ function resolveEnvVarsInObject<T>(obj: T): T {
   return obj;
 }
 
+/**
+ * Resolves the environment variables of a settings file. API keys of
+ * providers that refer to an environment variable keep the reference, so
+ * that saving the settings does not write the key into the file; it is
+ * resolved when the provider is used.
+ */
+function resolveEnvVarsInSettings(settings: Settings): Settings {
+  const resolved = resolveEnvVarsInObject(settings);
+  for (const [name, provider] of Object.entries(settings.llmProviders ?? {})) {
+    if (isSecretReference(provider?.apiKey) && resolved.llmProviders?.[name]) {
+      resolved.llmProviders[name] = {
+        ...resolved.llmProviders[name],
+        apiKey: provider.apiKey,
+      };
+    }
+  }
+  return resolved;
+}
+
 function findEnvFile(startDir: string): string | null {
   let currentDir = path.resolve(startDir);
   while (true) {
@@ -337,7 +404,7 @@ export function loadSettings(workspaceDir: string): LoadedSettings {
       const parsedSystemSettings = JSON.parse(
         stripJsonComments(systemContent),
       ) as Settings;
-      systemSettings = resolveEnvVarsInObject(parsedSystemSettings);
+      systemSettings = resolveEnvVarsInSettings(parsedSystemSettings);
     }
   } catch (error: unknown) {
     settingsErrors.push({
@@ -353,7 +420,7 @@ export function loadSettings(workspaceDir: string): LoadedSettings {
       const parsedUserSettings = JSON.parse(
         stripJsonComments(userContent),
       ) as Settings;
-      userSettings = resolveEnvVarsInObject(parsedUserSettings);
+      userSettings = resolveEnvVarsInSettings(parsedUserSettings);
       // Support legacy theme names
       if (userSettings.theme && userSettings.theme === 'VS') {
         userSettings.theme = DefaultLight.name;
@@ -381,7 +448,7 @@ export function loadSettings(workspaceDir: string): LoadedSettings {
       const parsedWorkspaceSettings = JSON.parse(
         stripJsonComments(projectContent),
       ) as Settings;
-      workspaceSettings = resolveEnvVarsInObject(parsedWorkspaceSettings);
+      workspaceSettings = resolveEnvVarsInSettings(parsedWorkspaceSettings);
       if (workspaceSettings.theme && workspaceSettings.theme === 'VS') {
         workspaceSettings.theme = DefaultLight.name;
       } else if (
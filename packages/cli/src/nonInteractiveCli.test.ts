@@ -39,6 +39,7 @@ describe('runNonInteractive', () => {
     };
     mockGeminiClient = {
       getChat: vi.fn().mockResolvedValue(mockChat),
+      checkBudget: vi.fn().mockResolvedValue({ warnings: [] }),
     } as unknown as GeminiClient;
     mockToolRegistry = {
       getFunctionDeclarations: vi.fn().mockReturnValue([]),
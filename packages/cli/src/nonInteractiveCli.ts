@@ -76,6 +76,16 @@ export async function runNonInteractive(
         );
         return;
       }
+      const budgetCheck = await geminiClient.checkBudget(
+        currentMessages[0]?.parts || [],
+      );
+      for (const warning of budgetCheck.warnings) {
+        console.error(`\n ${warning}`);
+      }
+      if (budgetCheck.exceeded) {
+        console.error(`\n ${budgetCheck.exceeded}`);
+        return;
+      }
       const functionCalls: FunctionCall[] = [];
 
       const responseStream = await chat.sendMessageStream(
@@ -12,6 +12,7 @@ import { authCommand } from '../ui/commands/authCommand.js';
 import { bugCommand } from '../ui/commands/bugCommand.js';
 import { chatCommand } from '../ui/commands/chatCommand.js';
 import { clearCommand } from '../ui/commands/clearCommand.js';
+import { compareCommand } from '../ui/commands/compareCommand.js';
 import { copyCommand } from '../ui/commands/copyCommand.js';
 import { corgiCommand } from '../ui/commands/corgiCommand.js';
 import { docsCommand } from '../ui/commands/docsCommand.js';
@@ -19,6 +20,8 @@ import { extensionsCommand } from '../ui/commands/extensionsCommand.js';
 import { helpCommand } from '../ui/commands/helpCommand.js';
 import { mcpCommand } from '../ui/commands/mcpCommand.js';
 import { memoryCommand } from '../ui/commands/memoryCommand.js';
+import { modelCommand } from '../ui/commands/modelCommand.js';
+import { paramsCommand } from '../ui/commands/paramsCommand.js';
 import { privacyCommand } from '../ui/commands/privacyCommand.js';
 import { providerCommand } from '../ui/commands/providerCommand.js';
 import { quitCommand } from '../ui/commands/quitCommand.js';
@@ -47,6 +50,7 @@ export class BuiltinCommandLoader implements ICommandLoader {
       bugCommand,
       chatCommand,
       clearCommand,
+      compareCommand,
       copyCommand,
       corgiCommand,
       docsCommand,
@@ -54,6 +58,8 @@ export class BuiltinCommandLoader implements ICommandLoader {
       helpCommand,
       mcpCommand,
       memoryCommand,
+      modelCommand,
+      paramsCommand,
       privacyCommand,
       providerCommand,
       quitCommand,
@@ -23,10 +23,12 @@ import { useLoadingIndicator } from './hooks/useLoadingIndicator.js';
 import { useThemeCommand } from './hooks/useThemeCommand.js';
 import { useAuthCommand } from './hooks/useAuthCommand.js';
 import { useProviderCommand } from './hooks/useProviderCommand.js';
+import { useModelCommand } from './hooks/useModelCommand.js';
 import { useEditorSettings } from './hooks/useEditorSettings.js';
 import { useSlashCommandProcessor } from './hooks/slashCommandProcessor.js';
 import { useAutoAcceptIndicator } from './hooks/useAutoAcceptIndicator.js';
 import { useConsoleMessages } from './hooks/useConsoleMessages.js';
+import { useRateLimitQueue } from './hooks/useRateLimitQueue.js';
 import { Header } from './components/Header.js';
 import { LoadingIndicator } from './components/LoadingIndicator.js';
 import { AutoAcceptIndicator } from './components/AutoAcceptIndicator.js';
@@ -37,6 +39,7 @@ import { ThemeDialog } from './components/ThemeDialog.js';
 import { AuthDialog } from './components/AuthDialog.js';
 import { ProviderDialog } from './components/ProviderDialog.js';
 import { ProviderListDialog } from './components/ProviderListDialog.js';
+import { ModelDialog } from './components/ModelDialog.js';
 import { AuthInProgress } from './components/AuthInProgress.js';
 import { EditorSettingsDialog } from './components/EditorSettingsDialog.js';
 import { Colors } from './colors.js';
@@ -45,6 +48,7 @@ import { loadHierarchicalGeminiMemory } from '../config/config.js';
 import { LoadedSettings } from '../config/settings.js';
 import { Tips } from './components/Tips.js';
 import { ConsolePatcher } from './utils/ConsolePatcher.js';
+import { computeSessionStats } from './utils/computeStats.js';
 import { registerCleanup } from '../utils/cleanup.js';
 import { DetailedMessagesDisplay } from './components/DetailedMessagesDisplay.js';
 import { HistoryItemDisplay } from './components/HistoryItemDisplay.js';
@@ -225,6 +229,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   const {
     isProviderDialogOpen,
     isProviderListDialogOpen,
+    providerError,
     editingProvider,
     openAddProviderDialog,
     openEditProviderDialog,
@@ -235,6 +240,17 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     setDefaultProvider,
   } = useProviderCommand(settings);
 
+  const updateCurrentModel = useCallback(() => {
+    setCurrentModel(config.getModel());
+  }, [config]);
+
+  const {
+    isModelDialogOpen,
+    openModelDialog,
+    closeModelDialog,
+    handleModelSelect,
+  } = useModelCommand(config, settings, addItem, updateCurrentModel);
+
   const toggleCorgiMode = useCallback(() => {
     setCorgiMode((prev) => !prev);
   }, []);
@@ -285,7 +301,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     }
   }, [config, addItem]);
 
-  // Watch for model changes (e.g., from Flash fallback)
+  // Watch for model changes (e.g., from Flash fallback or /model)
   useEffect(() => {
     const checkModelChange = () => {
       const configModel = config.getModel();
@@ -386,6 +402,19 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     config.setFlashFallbackHandler(flashFallbackHandler);
   }, [config, addItem, userTier]);
 
+  // Announce switches to the next provider of the fallback chain
+  useEffect(() => {
+    config.setProviderFailoverHandler((from: string, to: string) => {
+      addItem(
+        {
+          type: MessageType.INFO,
+          text: `⚡ ${from} is unavailable. Switching to ${to} for the remainder of this session.`,
+        },
+        Date.now(),
+      );
+    });
+  }, [config, addItem]);
+
   const {
     handleSlashCommand,
     slashCommands,
@@ -408,6 +437,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     openPrivacyNotice,
     openAddProviderDialog,
     openProviderListDialog,
+    openModelDialog,
   );
   const pendingHistoryItems = [...pendingSlashCommandHistoryItems];
 
@@ -541,6 +571,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   const { elapsedTime, currentLoadingPhrase } =
     useLoadingIndicator(streamingState);
   const showAutoAcceptIndicator = useAutoAcceptIndicator({ config });
+  const rateLimitQueue = useRateLimitQueue();
 
   const handleFinalSubmit = useCallback(
     (submittedValue: string) => {
@@ -866,6 +897,18 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
                 isEdit={!!editingProvider}
               />
             </Box>
+          ) : isModelDialogOpen ? (
+            <Box flexDirection="column">
+              <ModelDialog
+                providers={settings.merged.llmProviders || {}}
+                currentProvider={
+                  config.getContentGeneratorConfig()?.llmProvider?.name
+                }
+                currentModel={currentModel}
+                onSelect={handleModelSelect}
+                onCancel={closeModelDialog}
+              />
+            </Box>
           ) : isProviderListDialogOpen ? (
             <Box flexDirection="column">
               <ProviderListDialog
@@ -876,6 +919,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
                 onSetDefault={setDefaultProvider}
                 onCancel={closeProviderDialogs}
                 onAddNew={openAddProviderDialog}
+                errorMessage={providerError}
               />
             </Box>
           ) : showPrivacyNotice ? (
@@ -898,6 +942,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
                     : currentLoadingPhrase
                 }
                 elapsedTime={elapsedTime}
+                rateLimitQueue={rateLimitQueue}
               />
               <Box
                 marginTop={1}
@@ -1007,6 +1052,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
           )}
           <Footer
             model={currentModel}
+            providerName={config.getContentGeneratorConfig()?.llmProvider?.name}
             targetDir={config.getTargetDir()}
             debugMode={config.getDebugMode()}
             branchName={branchName}
@@ -1018,6 +1064,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
               config.getDebugMode() || config.getShowMemoryUsage()
             }
             promptTokenCount={sessionStats.lastPromptTokenCount}
+            sessionCost={computeSessionStats(sessionStats.metrics).totalCost}
             nightly={nightly}
           />
         </Box>
@@ -25,6 +25,7 @@ describe('aboutCommand', () => {
       services: {
         config: {
           getModel: vi.fn(),
+          getGenerationParams: () => ({ temperature: 0.7, topP: 1 }),
         },
         settings: {
           merged: {
@@ -76,6 +77,7 @@ describe('aboutCommand', () => {
         sandboxEnv: 'no sandbox',
         modelVersion: 'test-model',
         selectedAuthType: 'test-auth',
+        generationParams: 'temperature=0.7, topP=1',
       },
       expect.any(Number),
     );
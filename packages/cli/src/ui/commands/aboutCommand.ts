@@ -8,6 +8,7 @@ import { getCliVersion } from '../../utils/version.js';
 import { CommandKind, SlashCommand } from './types.js';
 import process from 'node:process';
 import { MessageType, type HistoryItemAbout } from '../types.js';
+import { formatGenerationParams } from 'yak-core';
 
 export const aboutCommand: SlashCommand = {
   name: 'about',
@@ -27,6 +28,9 @@ export const aboutCommand: SlashCommand = {
     const cliVersion = await getCliVersion();
     const selectedAuthType =
       context.services.settings.merged.selectedAuthType || '';
+    const generationParams = context.services.config
+      ? formatGenerationParams(context.services.config.getGenerationParams())
+      : 'Unknown';
 
     const aboutItem: Omit<HistoryItemAbout, 'id'> = {
       type: MessageType.ABOUT,
@@ -35,6 +39,7 @@ export const aboutCommand: SlashCommand = {
       sandboxEnv,
       modelVersion,
       selectedAuthType,
+      generationParams,
     };
 
     context.ui.addItem(aboutItem, Date.now());
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ComparisonAnswer,
+  ComparisonOptions,
+  GeminiClient,
+  PendingComparison,
+} from 'yak-core';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { compareCommand } from './compareCommand.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { MessageType } from '../types.js';
+import { CommandContext } from './types.js';
+
+const answers: ComparisonAnswer[] = [
+  {
+    provider: 'openai',
+    model: 'gpt-4o',
+    text: 'Use a Map.',
+    done: true,
+    latencyMs: 1200,
+    promptTokens: 40,
+    outputTokens: 4,
+  },
+  {
+    provider: 'local',
+    model: 'qwen3:8b',
+    text: '',
+    done: true,
+    latencyMs: 30,
+    error: 'fetch failed',
+  },
+];
+
+describe('compareCommand', () => {
+  let context: CommandContext;
+  let mockCompareModels: ReturnType<typeof vi.fn>;
+  let mockAdoptComparisonAnswer: ReturnType<typeof vi.fn>;
+  let pendingComparison: PendingComparison | undefined;
+
+  const adopt = compareCommand.subCommands!.find((c) => c.name === 'adopt')!;
+
+  beforeEach(() => {
+    pendingComparison = undefined;
+    mockCompareModels = vi.fn(
+      async (
+        _entries: string[],
+        prompt: string,
+        options: ComparisonOptions,
+      ) => {
+        options.onUpdate?.(answers);
+        pendingComparison = { prompt, answers };
+        return answers;
+      },
+    );
+    mockAdoptComparisonAnswer = vi.fn(() => {
+      pendingComparison = undefined;
+    });
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getGeminiClient: () =>
+            ({
+              compareModels: mockCompareModels,
+              adoptComparisonAnswer: mockAdoptComparisonAnswer,
+              getPendingComparison: () => pendingComparison,
+              discardComparison: () => {
+                pendingComparison = undefined;
+              },
+            }) as unknown as GeminiClient,
+        },
+      },
+    });
+  });
+
+  it('shows the usage without two models and a prompt', async () => {
+    const result = await compareCommand.action!(context, 'openai:gpt-4o -- hi');
+
+    expect(result).toMatchObject({
+      type: 'message',
+      messageType: 'error',
+      content: expect.stringContaining('Usage: /compare'),
+    });
+    expect(mockCompareModels).not.toHaveBeenCalled();
+  });
+
+  it('streams the answers and adopts the chosen one', async () => {
+    await compareCommand.action!(
+      context,
+      'openai:gpt-4o local:qwen3:8b -- How do I count words -- fast?',
+    );
+
+    expect(mockCompareModels).toHaveBeenCalledWith(
+      ['openai:gpt-4o', 'local:qwen3:8b'],
+      'How do I count words -- fast?',
+      expect.any(Object),
+    );
+    expect(context.ui.setPendingItem).toHaveBeenCalledWith(
+      expect.objectContaining({ type: MessageType.COMPARISON, answers }),
+    );
+    expect(context.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.COMPARISON,
+        prompt: 'How do I count words -- fast?',
+        answers,
+      },
+      expect.any(Number),
+    );
+    expect(context.ui.setPendingItem).toHaveBeenLastCalledWith(null);
+
+    expect(await adopt.action!(context, '2')).toMatchObject({
+      messageType: 'error',
+      content: 'The answer of local:qwen3:8b failed and cannot be adopted.',
+    });
+    expect(await adopt.action!(context, '1')).toMatchObject({
+      messageType: 'info',
+      content: 'Added the answer of openai:gpt-4o to the conversation.',
+    });
+    expect(mockAdoptComparisonAnswer).toHaveBeenCalledWith(
+      'How do I count words -- fast?',
+      answers[0],
+    );
+
+    // Only one answer can be adopted
+    expect(await adopt.action!(context, '1')).toMatchObject({
+      messageType: 'error',
+      content: 'No comparison to adopt an answer from, run /compare first.',
+    });
+  });
+
+  it('passes the abort signal and reports the cancellation', async () => {
+    const controller = new AbortController();
+    context.abortSignal = controller.signal;
+    mockCompareModels.mockImplementation(async () => {
+      controller.abort();
+      return answers;
+    });
+
+    const result = await compareCommand.action!(
+      context,
+      'openai:gpt-4o local:qwen3:8b -- hi',
+    );
+
+    expect(mockCompareModels).toHaveBeenCalledWith(
+      expect.any(Array),
+      'hi',
+      expect.objectContaining({ signal: controller.signal }),
+    );
+    expect(context.ui.addItem).toHaveBeenCalledWith(
+      expect.objectContaining({ type: MessageType.COMPARISON, answers }),
+      expect.any(Number),
+    );
+    expect(result).toMatchObject({
+      messageType: 'info',
+      content: 'Comparison cancelled.',
+    });
+  });
+
+  it('reports providers that cannot be used', async () => {
+    mockCompareModels.mockRejectedValue(
+      new Error('LLM provider "nope" not found.'),
+    );
+
+    const result = await compareCommand.action!(
+      context,
+      'nope:a openai:gpt-4o -- hi',
+    );
+
+    expect(result).toMatchObject({
+      messageType: 'error',
+      content: 'Failed to compare models: LLM provider "nope" not found.',
+    });
+    expect(context.ui.setPendingItem).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ComparisonAnswer, getErrorMessage } from 'yak-core';
+import { HistoryItemComparison, MessageType } from '../types.js';
+import { CommandKind, SlashCommand } from './types.js';
+
+const USAGE =
+  'Usage: /compare <provider:model> <provider:model> ... -- <prompt>';
+
+const adoptSubCommand: SlashCommand = {
+  name: 'adopt',
+  description:
+    'Add an answer of the last comparison to the conversation. Usage: /compare adopt <number>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args) => {
+    const { config } = context.services;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Configuration not available.',
+      };
+    }
+    const client = config.getGeminiClient();
+    const pendingComparison = client.getPendingComparison();
+    if (!pendingComparison) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'No comparison to adopt an answer from, run /compare first.',
+      };
+    }
+
+    const number = Number(args.trim());
+    const answer = pendingComparison.answers[number - 1];
+    if (!Number.isInteger(number) || !answer) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Usage: /compare adopt <number>, a number from 1 to ${pendingComparison.answers.length}`,
+      };
+    }
+    if (answer.error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `The answer of ${answer.provider}:${answer.model} failed and cannot be adopted.`,
+      };
+    }
+
+    client.adoptComparisonAnswer(pendingComparison.prompt, answer);
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Added the answer of ${answer.provider}:${answer.model} to the conversation.`,
+    };
+  },
+};
+
+const discardSubCommand: SlashCommand = {
+  name: 'discard',
+  description: 'Drop the answers of the last comparison',
+  kind: CommandKind.BUILT_IN,
+  action: async (context) => {
+    const client = context.services.config?.getGeminiClient();
+    if (!client?.getPendingComparison()) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'No comparison to discard.',
+      };
+    }
+    client.discardComparison();
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: 'Discarded the answers of the last comparison.',
+    };
+  },
+};
+
+export const compareCommand: SlashCommand = {
+  name: 'compare',
+  description:
+    'Send a prompt to several models side by side. Usage: /compare <provider:model> <provider:model> -- <prompt>',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [adoptSubCommand, discardSubCommand],
+  action: async (context, args) => {
+    const { config } = context.services;
+    const { ui } = context;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Configuration not available.',
+      };
+    }
+
+    const [targets, ...promptParts] = args.split(/(?:^|\s)--(?:\s|$)/);
+    const entries = targets.split(/\s+/).filter(Boolean);
+    const prompt = promptParts.join(' -- ').trim();
+    if (entries.length < 2 || !prompt) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `${USAGE}\nCompares the answers of at least two models to the prompt, with the conversation so far as context.`,
+      };
+    }
+    if (ui.pendingItem) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Wait for the running request to complete.',
+      };
+    }
+
+    const pendingItem = (
+      answers: ComparisonAnswer[],
+    ): HistoryItemComparison => ({
+      type: MessageType.COMPARISON,
+      prompt,
+      answers,
+    });
+    try {
+      const answers = await config
+        .getGeminiClient()
+        .compareModels(entries, prompt, {
+          onUpdate: (updated) => ui.setPendingItem(pendingItem(updated)),
+          signal: context.abortSignal,
+        });
+      ui.addItem(pendingItem(answers), Date.now());
+      if (context.abortSignal?.aborted) {
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: 'Comparison cancelled.',
+        };
+      }
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to compare models: ${getErrorMessage(error)}`,
+      };
+    } finally {
+      ui.setPendingItem(null);
+    }
+  },
+};
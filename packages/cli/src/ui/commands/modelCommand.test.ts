@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import {
+  GeminiClient,
+  LLMProviderConfig,
+  LLMProviderType,
+  listProviderModels,
+} from 'yak-core';
+import { modelCommand } from './modelCommand.js';
+import { CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { LoadedSettings } from '../../config/settings.js';
+
+vi.mock('yak-core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('yak-core')>();
+  return {
+    ...actual,
+    listProviderModels: vi.fn(),
+  };
+});
+
+const openrouter: LLMProviderConfig = {
+  name: 'openrouter',
+  displayName: 'OpenRouter',
+  type: LLMProviderType.OPENROUTER,
+  apiKey: 'secret:openrouter',
+};
+
+const local: LLMProviderConfig = {
+  name: 'local',
+  displayName: 'Ollama',
+  type: LLMProviderType.OLLAMA,
+  apiKey: '',
+  model: 'qwen3:8b',
+};
+
+describe('modelCommand', () => {
+  let context: CommandContext;
+  const switchModel = vi.fn();
+
+  beforeEach(() => {
+    switchModel.mockReset().mockResolvedValue(undefined);
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getGeminiClient: () => ({ switchModel }) as unknown as GeminiClient,
+          getContentGeneratorConfig: () => ({
+            model: 'anthropic/claude-sonnet-4',
+            llmProvider: openrouter,
+          }),
+        },
+        settings: {
+          merged: { llmProviders: { openrouter, local } },
+        } as unknown as LoadedSettings,
+      },
+    });
+  });
+
+  it('opens the model dialog without arguments', async () => {
+    expect(await modelCommand.action!(context, '')).toEqual({
+      type: 'dialog',
+      dialog: 'model',
+    });
+  });
+
+  it('switches to the model of a provider', async () => {
+    const result = await modelCommand.action!(
+      context,
+      'openrouter:anthropic/claude-sonnet-4',
+    );
+
+    expect(switchModel).toHaveBeenCalledWith(
+      'anthropic/claude-sonnet-4',
+      openrouter,
+    );
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Switched to openrouter:anthropic/claude-sonnet-4.',
+    });
+  });
+
+  it('resolves provider names and bare models', async () => {
+    await modelCommand.action!(context, 'local');
+    expect(switchModel).toHaveBeenLastCalledWith('qwen3:8b', local);
+
+    // "gpt-4o:free" does not name a provider, so it is a model of the
+    // current provider
+    await modelCommand.action!(context, 'gpt-4o:free');
+    expect(switchModel).toHaveBeenLastCalledWith('gpt-4o:free', undefined);
+
+    expect(await modelCommand.action!(context, 'openrouter')).toMatchObject({
+      messageType: 'error',
+      content:
+        'Provider "openrouter" has no default model. Use "/model openrouter:<model>".',
+    });
+  });
+
+  it('reports failed switches', async () => {
+    switchModel.mockRejectedValue(
+      new Error('LLM provider "local" is disabled.'),
+    );
+
+    expect(await modelCommand.action!(context, 'local:llama3')).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        'Failed to switch to local:llama3: LLM provider "local" is disabled.',
+    });
+  });
+
+  it('completes the models of all providers', async () => {
+    vi.mocked(listProviderModels).mockResolvedValue([
+      { provider: 'openrouter', model: 'anthropic/claude-sonnet-4' },
+      { provider: 'openrouter', model: 'openai/gpt-4o' },
+      { provider: 'local', model: 'qwen3:8b' },
+    ]);
+
+    expect(await modelCommand.completion!(context, 'sonnet')).toEqual([
+      'openrouter:anthropic/claude-sonnet-4',
+    ]);
+    expect(await modelCommand.completion!(context, '')).toHaveLength(3);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CommandKind,
+  SlashCommand,
+  SlashCommandActionReturn,
+  CommandContext,
+} from './types.js';
+import {
+  LLMProviderConfig,
+  getErrorMessage,
+  listProviderModels,
+  parseProviderFallback,
+  searchProviderModels,
+} from 'yak-core';
+
+/**
+ * Resolves "provider:model", "provider" or "model" against the configured
+ * providers. A bare model stays with the current provider; since model ids
+ * may contain colons themselves, the part before the first colon only names
+ * a provider if one with that name exists.
+ */
+export function resolveModelTarget(
+  target: string,
+  providers: Record<string, LLMProviderConfig>,
+): { provider?: LLMProviderConfig; model?: string } {
+  const { provider: name, model } = parseProviderFallback(target);
+  const provider = providers[name];
+  if (!provider) {
+    return { model: target };
+  }
+  return { provider, model: model || provider.model };
+}
+
+export const modelCommand: SlashCommand = {
+  name: 'model',
+  description:
+    'Switch the model, keeping the conversation. Usage: /model [provider:model]',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<SlashCommandActionReturn | void> => {
+    const target = args.trim();
+    if (!target) {
+      return {
+        type: 'dialog',
+        dialog: 'model',
+      };
+    }
+
+    const { config } = context.services;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not loaded.',
+      };
+    }
+
+    const { provider, model } = resolveModelTarget(
+      target,
+      context.services.settings.merged.llmProviders || {},
+    );
+    if (!model) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Provider "${provider?.name}" has no default model. Use "/model ${provider?.name}:<model>".`,
+      };
+    }
+
+    try {
+      await config.getGeminiClient().switchModel(model, provider);
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to switch to ${target}: ${getErrorMessage(error)}`,
+      };
+    }
+
+    const providerName = config.getContentGeneratorConfig()?.llmProvider?.name;
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Switched to ${providerName ? `${providerName}:` : ''}${model}.`,
+    };
+  },
+  completion: async (
+    context: CommandContext,
+    partialArg: string,
+  ): Promise<string[]> => {
+    const models = await listProviderModels(
+      context.services.settings.merged.llmProviders || {},
+    );
+    return searchProviderModels(models, partialArg).map(
+      (model) => `${model.provider}:${model.model}`,
+    );
+  },
+};
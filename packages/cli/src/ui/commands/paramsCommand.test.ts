@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { GeminiClient, GenerationParams } from 'yak-core';
+import { paramsCommand } from './paramsCommand.js';
+import { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+function getSubCommand(name: string): SlashCommand {
+  return paramsCommand.subCommands!.find((command) => command.name === name)!;
+}
+
+describe('paramsCommand', () => {
+  let context: CommandContext;
+  let session: GenerationParams;
+  const setGenerationParams = vi.fn();
+
+  beforeEach(() => {
+    session = { temperature: 0.7 };
+    setGenerationParams.mockReset().mockImplementation(async (params) => {
+      session = params;
+    });
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getGeminiClient: () =>
+            ({ setGenerationParams }) as unknown as GeminiClient,
+          getContentGeneratorConfig: () => ({
+            llmProvider: { name: 'openrouter' },
+          }),
+          getModel: () => 'anthropic/claude-sonnet-4',
+          getGenerationParams: () => ({
+            temperature: 0.7,
+            topP: 1,
+            maxOutputTokens: 4096,
+          }),
+          getGenerationParamsLayers: () => ({
+            provider: { maxOutputTokens: 4096 },
+            session,
+          }),
+        },
+      },
+    });
+  });
+
+  it('shows the effective parameters and their sources', async () => {
+    const result = await paramsCommand.action!(context, '');
+
+    expect(result).toMatchObject({ type: 'message', messageType: 'info' });
+    const content = (result as { content: string }).content;
+    expect(content).toContain(
+      'Generation parameters for openrouter:anthropic/claude-sonnet-4',
+    );
+    expect(content).toMatch(/temperature\s.*0\.7.*\(session\)/);
+    expect(content).toMatch(/maxOutputTokens\s.*4096.*\(provider settings\)/);
+    expect(content).toMatch(/topP\s.*1.*\(default\)/);
+    expect(content).toMatch(/seed\s.*API default/);
+  });
+
+  it('overrides a parameter for the session', async () => {
+    const result = await getSubCommand('set').action!(
+      context,
+      'stopSequences END, ###',
+    );
+
+    expect(setGenerationParams).toHaveBeenCalledWith({
+      temperature: 0.7,
+      stopSequences: ['END', '###'],
+    });
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Set stopSequences to ["END","###"] for this session.',
+    });
+  });
+
+  it('rejects unknown parameters and invalid values', async () => {
+    expect(await getSubCommand('set').action!(context, 'warmth 1')).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        'Unknown generation parameter "warmth". Available: temperature, topP, topK, maxOutputTokens, stopSequences, seed, presencePenalty, frequencyPenalty, reasoningEffort',
+    });
+    expect(
+      await getSubCommand('set').action!(context, 'reasoningEffort max'),
+    ).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'reasoningEffort must be "low", "medium" or "high"',
+    });
+    expect(setGenerationParams).not.toHaveBeenCalled();
+  });
+
+  it('removes session overrides', async () => {
+    await getSubCommand('reset').action!(context, 'temperature');
+    expect(setGenerationParams).toHaveBeenLastCalledWith({});
+
+    expect(await getSubCommand('reset').completion!(context, '')).toEqual([]);
+  });
+});
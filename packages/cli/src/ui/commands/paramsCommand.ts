@@ -0,0 +1,240 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CommandKind,
+  SlashCommand,
+  SlashCommandActionReturn,
+  CommandContext,
+} from './types.js';
+import {
+  Config,
+  DEFAULT_GENERATION_PARAMS,
+  GENERATION_PARAM_NAMES,
+  GenerationParams,
+  GenerationParamsLayers,
+  getErrorMessage,
+  isGenerationParamName,
+  parseGenerationParam,
+} from 'yak-core';
+
+/**
+ * Names the layer an effective generation parameter comes from
+ */
+function describeSource(
+  name: keyof GenerationParams,
+  layers: GenerationParamsLayers,
+): string {
+  if (layers.session?.[name] !== undefined) {
+    return 'session';
+  }
+  if (layers.model?.[name] !== undefined) {
+    return 'model settings';
+  }
+  if (layers.provider?.[name] !== undefined) {
+    return 'provider settings';
+  }
+  if (layers.settings?.[name] !== undefined) {
+    return 'settings';
+  }
+  if (layers.env?.[name] !== undefined) {
+    return 'environment';
+  }
+  return DEFAULT_GENERATION_PARAMS[name] !== undefined ? 'default' : '';
+}
+
+function formatParamValue(value: unknown): string {
+  if (value === undefined) {
+    return 'API default';
+  }
+  return Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Applies new session overrides, restarting the chat so they take effect
+ */
+async function applySessionParams(
+  config: Config,
+  params: GenerationParams,
+  successMessage: string,
+): Promise<SlashCommandActionReturn> {
+  try {
+    await config.getGeminiClient().setGenerationParams(params);
+  } catch (error) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content: `Failed to update generation parameters: ${getErrorMessage(error)}`,
+    };
+  }
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: successMessage,
+  };
+}
+
+const configNotLoaded: SlashCommandActionReturn = {
+  type: 'message',
+  messageType: 'error',
+  content: 'Config not loaded.',
+};
+
+/**
+ * Shows the effective generation parameters and where they come from
+ */
+const showSubCommand: SlashCommand = {
+  name: 'show',
+  description: 'Show the effective generation parameters',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+  ): Promise<SlashCommandActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return configNotLoaded;
+    }
+
+    const params = config.getGenerationParams();
+    const layers = config.getGenerationParamsLayers();
+    const providerName = config.getContentGeneratorConfig()?.llmProvider?.name;
+    const nameWidth = Math.max(...GENERATION_PARAM_NAMES.map((n) => n.length));
+
+    let message = `Generation parameters for ${providerName ? `${providerName}:` : ''}${config.getModel()}:\n\n`;
+    for (const name of GENERATION_PARAM_NAMES) {
+      const source = describeSource(name, layers);
+      message += `  \u001b[36m${name.padEnd(nameWidth)}\u001b[0m  ${formatParamValue(params[name])}`;
+      message += source ? ` \u001b[90m(${source})\u001b[0m\n` : '\n';
+    }
+    message +=
+      '\nUse "/params set <name> <value>" to override a parameter for this session, "/params reset [name]" to undo.';
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: message,
+    };
+  },
+};
+
+/**
+ * Overrides a generation parameter for the current session
+ */
+const setSubCommand: SlashCommand = {
+  name: 'set',
+  description:
+    'Override a generation parameter for this session. Usage: /params set <name> <value>',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<SlashCommandActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return configNotLoaded;
+    }
+
+    const [name, ...rest] = args.trim().split(/\s+/);
+    const input = rest.join(' ');
+    if (!name || !input) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Usage: /params set <name> <value>',
+      };
+    }
+    if (!isGenerationParamName(name)) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Unknown generation parameter "${name}". Available: ${GENERATION_PARAM_NAMES.join(', ')}`,
+      };
+    }
+
+    let value: GenerationParams[typeof name];
+    try {
+      value = parseGenerationParam(name, input);
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: getErrorMessage(error),
+      };
+    }
+
+    return applySessionParams(
+      config,
+      { ...config.getGenerationParamsLayers().session, [name]: value },
+      `Set ${name} to ${formatParamValue(value)} for this session.`,
+    );
+  },
+  completion: async (
+    _context: CommandContext,
+    partialArg: string,
+  ): Promise<string[]> =>
+    GENERATION_PARAM_NAMES.filter((name) => name.startsWith(partialArg)),
+};
+
+/**
+ * Removes session overrides of generation parameters
+ */
+const resetSubCommand: SlashCommand = {
+  name: 'reset',
+  description:
+    'Remove the session override of a parameter, or of all. Usage: /params reset [name]',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<SlashCommandActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return configNotLoaded;
+    }
+
+    const name = args.trim();
+    if (!name) {
+      return applySessionParams(
+        config,
+        {},
+        'Removed all session overrides of generation parameters.',
+      );
+    }
+    if (!isGenerationParamName(name)) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Unknown generation parameter "${name}". Available: ${GENERATION_PARAM_NAMES.join(', ')}`,
+      };
+    }
+
+    const session = { ...config.getGenerationParamsLayers().session };
+    delete session[name];
+    return applySessionParams(
+      config,
+      session,
+      `Removed the session override of ${name}.`,
+    );
+  },
+  completion: async (
+    context: CommandContext,
+    partialArg: string,
+  ): Promise<string[]> =>
+    Object.keys(
+      context.services.config?.getGenerationParamsLayers().session ?? {},
+    ).filter((name) => name.startsWith(partialArg)),
+};
+
+export const paramsCommand: SlashCommand = {
+  name: 'params',
+  description: 'View or override generation parameters for this session',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+  ): Promise<SlashCommandActionReturn | void> =>
+    showSubCommand.action!(context, ''),
+  subCommands: [showSubCommand, setSubCommand, resetSubCommand],
+};
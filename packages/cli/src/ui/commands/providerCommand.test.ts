@@ -0,0 +1,449 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  LLMProviderType,
+  ModelCatalog,
+  loadModelCatalog,
+  refreshModelCatalog,
+  resolveSecret,
+  storeProviderApiKey,
+  testProvider,
+} from 'yak-core';
+import { providerCommand } from './providerCommand.js';
+import { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { LoadedSettings, SettingScope } from '../../config/settings.js';
+import { MessageType } from '../types.js';
+
+vi.mock('yak-core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('yak-core')>();
+  return {
+    ...actual,
+    loadModelCatalog: vi.fn(),
+    refreshModelCatalog: vi.fn(),
+    testProvider: vi.fn(),
+    resolveSecret: vi.fn(),
+    getSecretStore: vi.fn(async () => ({ name: 'encrypted secrets file' })),
+    storeProviderApiKey: vi.fn(async (name: string, apiKey: string) =>
+      apiKey && !apiKey.startsWith('$') ? `secret:${name}` : apiKey,
+    ),
+  };
+});
+
+const catalog: ModelCatalog = {
+  provider: 'openrouter',
+  fetchedAt: 0,
+  models: [
+    {
+      id: 'anthropic/claude-sonnet-4',
+      contextLength: 200000,
+      pricing: { prompt: 3, completion: 15 },
+      inputModalities: ['text', 'image'],
+    },
+    { id: 'openai/gpt-4o' },
+  ],
+};
+
+describe('providerCommand', () => {
+  let context: CommandContext;
+  const modelsCommand = providerCommand.subCommands!.find(
+    (cmd) => cmd.name === 'models',
+  ) as SlashCommand;
+
+  beforeEach(() => {
+    vi.mocked(loadModelCatalog).mockReset();
+    vi.mocked(refreshModelCatalog).mockReset();
+    vi.mocked(testProvider).mockReset();
+    context = createMockCommandContext({
+      services: {
+        settings: {
+          merged: {
+            llmProviders: {
+              openrouter: {
+                name: 'openrouter',
+                displayName: 'OpenRouter',
+                type: LLMProviderType.OPENROUTER,
+                apiKey: 'key',
+              },
+            },
+          },
+        } as unknown as LoadedSettings,
+      },
+    });
+  });
+
+  describe('models', () => {
+    it('lists the cached models matching the search', async () => {
+      vi.mocked(loadModelCatalog).mockResolvedValue(catalog);
+
+      await modelsCommand.action!(context, 'openrouter claude');
+
+      expect(refreshModelCatalog).not.toHaveBeenCalled();
+      const [item] = vi.mocked(context.ui.addItem).mock.calls[0];
+      expect(item.type).toBe(MessageType.INFO);
+      expect(item.text).toContain('anthropic/claude-sonnet-4');
+      expect(item.text).toContain('200k context');
+      expect(item.text).toContain('$3/$15 per 1M tokens');
+      expect(item.text).toContain('[text, image]');
+      expect(item.text).not.toContain('openai/gpt-4o');
+    });
+
+    it('fetches the catalog when none is cached or --refresh is passed', async () => {
+      vi.mocked(loadModelCatalog).mockResolvedValue(null);
+      vi.mocked(refreshModelCatalog).mockResolvedValue(catalog);
+
+      await modelsCommand.action!(context, 'openrouter');
+      await modelsCommand.action!(context, 'openrouter --refresh');
+
+      expect(loadModelCatalog).toHaveBeenCalledTimes(1);
+      expect(refreshModelCatalog).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports unknown providers and fetch errors', async () => {
+      expect(await modelsCommand.action!(context, 'missing')).toMatchObject({
+        type: 'message',
+        messageType: 'error',
+      });
+
+      vi.mocked(loadModelCatalog).mockResolvedValue(null);
+      vi.mocked(refreshModelCatalog).mockRejectedValue(
+        new Error('Failed to list models'),
+      );
+      expect(await modelsCommand.action!(context, 'openrouter')).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: 'Failed to list models',
+      });
+    });
+
+    it('completes provider names, then model names from the cache', async () => {
+      vi.mocked(loadModelCatalog).mockResolvedValue(catalog);
+
+      expect(await modelsCommand.completion!(context, 'open')).toEqual([
+        'openrouter',
+      ]);
+      expect(
+        await modelsCommand.completion!(context, 'openrouter gpt'),
+      ).toEqual(['openai/gpt-4o']);
+    });
+  });
+
+  describe('test', () => {
+    const testCommand = providerCommand.subCommands!.find(
+      (cmd) => cmd.name === 'test',
+    ) as SlashCommand;
+
+    it('reports the result and latency of each check', async () => {
+      vi.mocked(testProvider).mockResolvedValue({
+        provider: 'openrouter',
+        model: 'openai/gpt-4o',
+        checks: [
+          { name: 'Base URL', status: 'pass', latencyMs: 120, detail: 'Ok' },
+          {
+            name: 'Tool calling',
+            status: 'fail',
+            latencyMs: 800,
+            detail: 'Not supported: tools are not supported',
+          },
+          { name: 'Vision', status: 'skip', latencyMs: 0, detail: 'Skipped' },
+        ],
+        capabilities: { tools: false },
+      });
+
+      await testCommand.action!(context, 'openrouter openai/gpt-4o');
+
+      expect(testProvider).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'openrouter' }),
+        'openai/gpt-4o',
+      );
+      const [item] = vi.mocked(context.ui.addItem).mock.calls[1];
+      expect(item.type).toBe(MessageType.ERROR);
+      expect(item.text).toContain('Base URL         120 ms  Ok');
+      expect(item.text).toContain(
+        'Tool calling     800 ms  Not supported: tools are not supported',
+      );
+      expect(item.text).toContain('detected capabilities');
+    });
+
+    it('requires a known provider', async () => {
+      expect(await testCommand.action!(context, '')).toMatchObject({
+        messageType: 'error',
+      });
+      expect(await testCommand.action!(context, 'missing')).toMatchObject({
+        messageType: 'error',
+      });
+      expect(testProvider).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('migrate-secrets', () => {
+    const migrateCommand = providerCommand.subCommands!.find(
+      (cmd) => cmd.name === 'migrate-secrets',
+    ) as SlashCommand;
+
+    it('replaces plaintext keys with references to the secret store', async () => {
+      const userProviders = {
+        openrouter: {
+          name: 'openrouter',
+          displayName: 'OpenRouter',
+          type: LLMProviderType.OPENROUTER,
+          apiKey: 'sk-or-plaintext',
+        },
+        deepseek: {
+          name: 'deepseek',
+          displayName: 'DeepSeek',
+          type: LLMProviderType.OPENAI_COMPATIBLE,
+          apiKey: '$DEEPSEEK_API_KEY',
+        },
+      };
+      const setValue = vi.fn();
+      context = createMockCommandContext({
+        services: {
+          settings: {
+            forScope: (scope: SettingScope) => ({
+              settings:
+                scope === SettingScope.User
+                  ? { llmProviders: userProviders }
+                  : {},
+            }),
+            setValue,
+          } as unknown as LoadedSettings,
+        },
+      });
+
+      await migrateCommand.action!(context, '');
+
+      expect(setValue).toHaveBeenCalledTimes(1);
+      expect(setValue).toHaveBeenCalledWith(SettingScope.User, 'llmProviders', {
+        openrouter: {
+          ...userProviders.openrouter,
+          apiKey: 'secret:openrouter',
+        },
+        deepseek: userProviders.deepseek,
+      });
+      const [item] = vi.mocked(context.ui.addItem).mock.calls[0];
+      expect(item.text).toContain('encrypted secrets file');
+      expect(item.text).toContain('openrouter (user settings)');
+
+      setValue.mockClear();
+      userProviders.openrouter.apiKey = 'secret:openrouter';
+      expect(await migrateCommand.action!(context, '')).toMatchObject({
+        messageType: 'info',
+        content: 'No plaintext API keys found in the settings.',
+      });
+      expect(setValue).not.toHaveBeenCalled();
+    });
+
+    it('keeps keys that would replace the secret of the other scope', async () => {
+      const provider = (apiKey: string) => ({
+        name: 'openrouter',
+        displayName: 'OpenRouter',
+        type: LLMProviderType.OPENROUTER,
+        apiKey,
+      });
+      const userProviders = { openrouter: provider('secret:openrouter') };
+      const workspaceProviders = {
+        openrouter: provider('sk-or-workspace'),
+        groq: { ...provider('gsk-plaintext'), name: 'groq' },
+      };
+      const setValue = vi.fn();
+      context = createMockCommandContext({
+        services: {
+          settings: {
+            forScope: (scope: SettingScope) => ({
+              settings: {
+                llmProviders:
+                  scope === SettingScope.User
+                    ? userProviders
+                    : workspaceProviders,
+              },
+            }),
+            setValue,
+          } as unknown as LoadedSettings,
+        },
+      });
+
+      await migrateCommand.action!(context, '');
+
+      expect(storeProviderApiKey).not.toHaveBeenCalledWith(
+        'openrouter',
+        'sk-or-workspace',
+      );
+      expect(setValue).toHaveBeenCalledTimes(1);
+      expect(setValue).toHaveBeenCalledWith(
+        SettingScope.Workspace,
+        'llmProviders',
+        {
+          openrouter: workspaceProviders.openrouter,
+          groq: { ...workspaceProviders.groq, apiKey: 'secret:groq' },
+        },
+      );
+      const [conflict] = vi.mocked(context.ui.addItem).mock.calls[0];
+      expect(conflict.type).toBe(MessageType.ERROR);
+      expect(conflict.text).toContain('openrouter (workspace settings)');
+      const [moved] = vi.mocked(context.ui.addItem).mock.calls[1];
+      expect(moved.text).toContain('groq (workspace settings)');
+    });
+  });
+
+  describe('remove', () => {
+    const removeCommand = providerCommand.subCommands!.find(
+      (cmd) => cmd.name === 'remove',
+    ) as SlashCommand;
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'provider-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('writes only the providers of the user settings', async () => {
+      const provider = (name: string) => ({
+        name,
+        displayName: name,
+        type: LLMProviderType.OPENAI_COMPATIBLE,
+        apiKey: 'key',
+        baseUrl: 'https://llm.example.com/v1',
+      });
+      const userPath = path.join(tmpDir, 'user.json');
+      const settings = new LoadedSettings(
+        {
+          path: path.join(tmpDir, 'system.json'),
+          settings: {
+            llmProviders: { gateway: { ...provider('gateway'), locked: [] } },
+          },
+        },
+        {
+          path: userPath,
+          settings: {
+            llmProviders: { mine: provider('mine'), old: provider('old') },
+          },
+        },
+        {
+          path: path.join(tmpDir, 'workspace.json'),
+          settings: { llmProviders: { team: provider('team') } },
+        },
+        [],
+      );
+      context = createMockCommandContext();
+      context.services.settings = settings;
+
+      await removeCommand.action!(context, 'old');
+
+      const written = JSON.parse(fs.readFileSync(userPath, 'utf-8'));
+      expect(Object.keys(written.llmProviders)).toEqual(['mine']);
+      expect(settings.getLLMProviderScopes('gateway')).toEqual([
+        SettingScope.System,
+      ]);
+      expect(await removeCommand.action!(context, 'team')).toMatchObject({
+        messageType: 'error',
+        content: expect.stringContaining('defined in the workspace settings'),
+      });
+      expect(await removeCommand.action!(context, 'gateway')).toMatchObject({
+        messageType: 'error',
+        content: expect.stringContaining('defined in the system settings'),
+      });
+    });
+  });
+
+  describe('export and import', () => {
+    const exportCommand = providerCommand.subCommands!.find(
+      (cmd) => cmd.name === 'export',
+    ) as SlashCommand;
+    const importCommand = providerCommand.subCommands!.find(
+      (cmd) => cmd.name === 'import',
+    ) as SlashCommand;
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'provider-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('shares a provider without its API key', async () => {
+      const file = path.join(tmpDir, 'gateway.json');
+      const gateway = {
+        name: 'gateway',
+        displayName: 'Gateway',
+        type: LLMProviderType.OPENAI_COMPATIBLE,
+        apiKey: 'sk-plaintext',
+        baseUrl: 'https://llm.example.com/v1',
+        headers: { 'X-Team': 'platform' },
+        enabled: true,
+        isDefault: true,
+      };
+      const setValue = vi.fn();
+      context = createMockCommandContext({
+        services: {
+          settings: {
+            merged: { llmProviders: { gateway } },
+            user: { settings: {} },
+            setValue,
+          } as unknown as LoadedSettings,
+        },
+      });
+      vi.mocked(resolveSecret).mockRejectedValue(new Error('not found'));
+
+      expect(await exportCommand.action!(context, `gateway ${file}`)).toEqual(
+        expect.objectContaining({
+          messageType: 'info',
+          content: expect.stringContaining(`without its API key to ${file}`),
+        }),
+      );
+      const exported = fs.readFileSync(file, 'utf-8');
+      expect(exported).not.toContain('sk-plaintext');
+      expect(JSON.parse(exported)).toEqual({
+        name: 'gateway',
+        displayName: 'Gateway',
+        type: LLMProviderType.OPENAI_COMPATIBLE,
+        baseUrl: 'https://llm.example.com/v1',
+        headers: { 'X-Team': 'platform' },
+        enabled: true,
+      });
+
+      await importCommand.action!(context, file);
+
+      expect(setValue).toHaveBeenCalledWith(SettingScope.User, 'llmProviders', {
+        gateway: {
+          ...gateway,
+          apiKey: 'secret:gateway',
+          isDefault: false,
+        },
+      });
+      const [item] = vi.mocked(context.ui.addItem).mock.calls[0];
+      expect(item.text).toContain('Imported provider "gateway"');
+      expect(item.text).toContain('/provider edit gateway');
+    });
+
+    it('reports files that are not provider definitions', async () => {
+      const file = path.join(tmpDir, 'broken.json');
+      fs.writeFileSync(file, JSON.stringify({ name: 'broken' }));
+      context = createMockCommandContext({
+        services: {
+          settings: {
+            user: { settings: {} },
+          } as unknown as LoadedSettings,
+        },
+      });
+
+      expect(await importCommand.action!(context, file)).toMatchObject({
+        messageType: 'error',
+        content: `Failed to import a provider from ${file}: Valid provider type is required`,
+      });
+    });
+  });
+});
@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import * as fs from 'fs/promises';
+import path from 'path';
 import {
   CommandKind,
   SlashCommand,
@@ -11,8 +13,64 @@ import {
   CommandContext,
 } from './types.js';
 import { MessageType } from '../types.js';
-import { PROVIDER_DISPLAY_NAMES } from 'yak-core';
-import { SettingScope } from '../../config/settings.js';
+import {
+  LLMProviderConfig,
+  ModelCatalogEntry,
+  PROVIDER_DISPLAY_NAMES,
+  ProviderCheck,
+  SECRET_REFERENCE_PREFIX,
+  fromLLMProviderDefinition,
+  getErrorMessage,
+  getSecretStore,
+  isSecretReference,
+  loadModelCatalog,
+  modelRegistry,
+  refreshModelCatalog,
+  resolveSecret,
+  searchModelCatalog,
+  storeProviderApiKey,
+  testProvider,
+  toLLMProviderDefinition,
+} from 'yak-core';
+import { LoadedSettings, SettingScope } from '../../config/settings.js';
+
+/**
+ * Describes where the API key of a provider comes from, without revealing it
+ */
+async function describeApiKey(config: LLMProviderConfig): Promise<string> {
+  if (!config.apiKey) {
+    return 'Not set';
+  }
+  if (!isSecretReference(config.apiKey)) {
+    return `${'*'.repeat(8)} (plaintext in settings, run "/provider migrate-secrets")`;
+  }
+  const source = config.apiKey.startsWith(SECRET_REFERENCE_PREFIX)
+    ? `the ${(await getSecretStore()).name}`
+    : 'the environment';
+  try {
+    await resolveSecret(config.apiKey);
+    return `${'*'.repeat(8)} (${config.apiKey}, from ${source})`;
+  } catch {
+    return `Missing (${config.apiKey} not found in ${source})`;
+  }
+}
+
+/**
+ * Describes the settings files a provider is defined in, e.g. "system
+ * (locked: baseUrl), user"
+ */
+function describeScopes(settings: LoadedSettings, name: string): string {
+  return settings
+    .getLLMProviderScopes(name)
+    .map((scope) => {
+      const locked =
+        scope === SettingScope.System
+          ? settings.system.settings.llmProviders?.[name]?.locked
+          : undefined;
+      return `${scope.toLowerCase()}${locked?.length ? ` (locked: ${locked.join(', ')})` : ''}`;
+    })
+    .join(', ');
+}
 
 /**
  * Lists all configured LLM providers
@@ -37,7 +95,7 @@ const listSubCommand: SlashCommand = {
     }
 
     let message = 'Configured LLM Providers:\n\n';
-    Object.entries(providers).forEach(([name, config]) => {
+    for (const [name, config] of Object.entries(providers)) {
       const isDefault = name === defaultProvider;
       const status = config.enabled ? '✓' : '✗';
       const defaultMark = isDefault ? ' (default)' : '';
@@ -45,14 +103,23 @@ const listSubCommand: SlashCommand = {
       message += `  ${status} \u001b[36m${config.displayName}\u001b[0m (${name})${defaultMark}\n`;
       message += `    Type: ${config.type}\n`;
       message += `    Base URL: ${config.baseUrl || 'Default'}\n`;
-      message += `    API Key: ${'*'.repeat(8)}\n\n`;
-    });
+      message += `    Model: ${config.model || 'Not set'}\n`;
+      message += `    API Key: ${await describeApiKey(config)}\n`;
+      message += `    Settings: ${describeScopes(context.services.settings, name)}\n\n`;
+    }
 
     message += 'Commands:\n';
     message += '  /provider add     - Add a new provider\n';
     message += '  /provider edit <name>     - Edit an existing provider\n';
     message += '  /provider remove <name>   - Remove a provider\n';
     message += '  /provider set-default <name> - Set default provider\n';
+    message +=
+      '  /provider models <name> [search] - List models of a provider\n';
+    message +=
+      '  /provider migrate-secrets - Move plaintext API keys into the secret store\n';
+    message +=
+      '  /provider export <name> [file] - Share a provider without its API key\n';
+    message += '  /provider import <file> - Add a shared provider\n';
 
     context.ui.addItem(
       {
@@ -188,10 +255,10 @@ const removeSubCommand: SlashCommand = {
       };
     }
 
-    const existingProviders =
-      context.services.settings.merged.llmProviders || {};
+    const { settings } = context.services;
+    const scopes = settings.getLLMProviderScopes(providerName);
 
-    if (!existingProviders[providerName]) {
+    if (scopes.length === 0) {
       return {
         type: 'message',
         messageType: 'error',
@@ -199,28 +266,54 @@ const removeSubCommand: SlashCommand = {
       };
     }
 
+    if (scopes.includes(SettingScope.System)) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Provider "${providerName}" is defined in the system settings and cannot be removed.`,
+      };
+    }
+
+    if (!scopes.includes(SettingScope.User)) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Provider "${providerName}" is defined in the workspace settings. Remove it from ${settings.workspace.path}.`,
+      };
+    }
+
+    // Only the user settings are written, the workspace settings keep
+    // their providers
+    const existingProviders = settings.user.settings.llmProviders || {};
+
     // Check if this is the default provider
-    const defaultProvider = context.services.settings.merged.defaultLLMProvider;
+    const defaultProvider = settings.merged.defaultLLMProvider;
     const isDefault = providerName === defaultProvider;
 
+    // Drop the stored API key along with the provider
+    if (
+      existingProviders[providerName].apiKey ===
+      `${SECRET_REFERENCE_PREFIX}${providerName}`
+    ) {
+      try {
+        await (await getSecretStore()).delete(providerName);
+      } catch (error) {
+        console.warn(
+          `Failed to delete the API key of "${providerName}": ${getErrorMessage(error)}`,
+        );
+      }
+    }
+
     // Remove the provider
     const updatedProviders = { ...existingProviders };
     delete updatedProviders[providerName];
 
     // Update the settings
-    context.services.settings.setValue(
-      SettingScope.User,
-      'llmProviders',
-      updatedProviders,
-    );
+    settings.setValue(SettingScope.User, 'llmProviders', updatedProviders);
 
     // If this was the default provider, clear the default
     if (isDefault) {
-      context.services.settings.setValue(
-        SettingScope.User,
-        'defaultLLMProvider',
-        undefined,
-      );
+      settings.setValue(SettingScope.User, 'defaultLLMProvider', undefined);
     }
 
     let message = `Provider "${providerName}" removed successfully.`;
@@ -331,6 +424,458 @@ const setDefaultSubCommand: SlashCommand = {
   },
 };
 
+const MAX_LISTED_MODELS = 50;
+
+function formatModelCatalogEntry(model: ModelCatalogEntry): string {
+  let line = `  \u001b[36m${model.id}\u001b[0m`;
+  if (model.contextLength) {
+    line += `  ${Math.round(model.contextLength / 1000)}k context`;
+  }
+  if (model.pricing) {
+    line += `  $${model.pricing.prompt}/$${model.pricing.completion} per 1M tokens`;
+  }
+  if (model.inputModalities?.some((modality) => modality !== 'text')) {
+    line += `  [${model.inputModalities.join(', ')}]`;
+  }
+  return line;
+}
+
+/**
+ * Lists the models a provider serves, from the cached catalog
+ */
+const modelsSubCommand: SlashCommand = {
+  name: 'models',
+  description:
+    'List the models of a provider. Usage: /provider models <name> [search] [--refresh]',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<SlashCommandActionReturn | void> => {
+    const parts = args.trim().split(/\s+/).filter(Boolean);
+    const refresh = parts.includes('--refresh');
+    const [providerName, ...queryParts] = parts.filter(
+      (part) => part !== '--refresh',
+    );
+
+    if (!providerName) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content:
+          'Usage: /provider models <name> [search] [--refresh]\n\nUse "/provider list" to see available providers.',
+      };
+    }
+
+    const provider = (context.services.settings.merged.llmProviders || {})[
+      providerName
+    ];
+    if (!provider) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Provider "${providerName}" not found. Use "/provider list" to see available providers.`,
+      };
+    }
+
+    let catalog = refresh ? null : await loadModelCatalog(providerName);
+    if (!catalog) {
+      try {
+        catalog = await refreshModelCatalog(provider);
+        modelRegistry.registerCatalog(providerName, catalog.models);
+      } catch (error) {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: getErrorMessage(error),
+        };
+      }
+    }
+
+    const query = queryParts.join(' ');
+    const models = searchModelCatalog(catalog.models, query);
+    if (models.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: query
+          ? `No models of "${providerName}" match "${query}".`
+          : `Provider "${providerName}" did not report any models.`,
+      };
+    }
+
+    let message = `Models of "${providerName}"${query ? ` matching "${query}"` : ''} (${models.length}, fetched ${new Date(catalog.fetchedAt).toLocaleString()}):\n\n`;
+    message += models
+      .slice(0, MAX_LISTED_MODELS)
+      .map(formatModelCatalogEntry)
+      .join('\n');
+    if (models.length > MAX_LISTED_MODELS) {
+      message += `\n\n...and ${models.length - MAX_LISTED_MODELS} more. Add a search term to narrow the list.`;
+    }
+    message += '\n\nUse --refresh to fetch the current list from the provider.';
+
+    context.ui.addItem(
+      {
+        type: MessageType.INFO,
+        text: message,
+      },
+      Date.now(),
+    );
+  },
+  completion: async (
+    context: CommandContext,
+    partialArg: string,
+  ): Promise<string[]> => {
+    const providers = context.services.settings.merged.llmProviders || {};
+    const parts = partialArg.trim().split(/\s+/);
+
+    if (parts.length <= 1) {
+      return Object.keys(providers).filter((name) =>
+        name.toLowerCase().startsWith(parts[0].toLowerCase()),
+      );
+    }
+
+    // Complete model names from the cached catalog of the provider
+    const catalog = providers[parts[0]]
+      ? await loadModelCatalog(parts[0])
+      : null;
+    return searchModelCatalog(
+      catalog?.models ?? [],
+      parts[parts.length - 1],
+    ).map((model) => model.id);
+  },
+};
+
+const CHECK_SYMBOLS: Record<ProviderCheck['status'], string> = {
+  pass: '\u001b[32m✓\u001b[0m',
+  fail: '\u001b[31m✗\u001b[0m',
+  skip: '\u001b[90m-\u001b[0m',
+};
+
+function formatProviderCheck(check: ProviderCheck): string {
+  const latency = check.status === 'skip' ? '' : `${check.latencyMs} ms`;
+  return `  ${CHECK_SYMBOLS[check.status]} ${check.name.padEnd(14)} ${latency.padStart(8)}  ${check.detail}`;
+}
+
+/**
+ * Checks the connection to a provider and what a model supports
+ */
+const testSubCommand: SlashCommand = {
+  name: 'test',
+  description:
+    'Check the connection, API key and model capabilities of a provider. Usage: /provider test <name> [model]',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<SlashCommandActionReturn | void> => {
+    const [providerName, requestedModel] = args.trim().split(/\s+/);
+    if (!providerName) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content:
+          'Usage: /provider test <name> [model]\n\nUse "/provider list" to see available providers.',
+      };
+    }
+
+    const provider = (context.services.settings.merged.llmProviders || {})[
+      providerName
+    ];
+    if (!provider) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Provider "${providerName}" not found. Use "/provider list" to see available providers.`,
+      };
+    }
+
+    // Without a model, the one in use is tested if it belongs to the provider
+    const { config } = context.services;
+    const model =
+      requestedModel ||
+      provider.model ||
+      (config?.getContentGeneratorConfig()?.llmProvider?.name === providerName
+        ? config.getModel()
+        : undefined);
+
+    context.ui.addItem(
+      {
+        type: MessageType.INFO,
+        text: `Testing provider "${providerName}"${model ? ` with model "${model}"` : ''}...`,
+      },
+      Date.now(),
+    );
+
+    const report = await testProvider(provider, model);
+    const failed = report.checks.filter((check) => check.status === 'fail');
+    let message = `Test of provider "${providerName}"${model ? ` with model "${model}"` : ''}:\n\n`;
+    message += report.checks.map(formatProviderCheck).join('\n');
+    if (!model) {
+      message +=
+        '\n\nAdd a model to also check completions and capabilities: /provider test <name> <model>';
+    } else if (Object.keys(report.capabilities).length > 0) {
+      message +=
+        '\n\nThe detected capabilities are used for the rest of this session.';
+    }
+
+    context.ui.addItem(
+      {
+        type: failed.length > 0 ? MessageType.ERROR : MessageType.INFO,
+        text: message,
+      },
+      Date.now(),
+    );
+  },
+  completion: async (
+    context: CommandContext,
+    partialArg: string,
+  ): Promise<string[]> => {
+    const providers = context.services.settings.merged.llmProviders || {};
+    const parts = partialArg.trim().split(/\s+/);
+
+    if (parts.length <= 1) {
+      return Object.keys(providers).filter((name) =>
+        name.toLowerCase().startsWith(parts[0].toLowerCase()),
+      );
+    }
+
+    const catalog = providers[parts[0]]
+      ? await loadModelCatalog(parts[0])
+      : null;
+    return searchModelCatalog(
+      catalog?.models ?? [],
+      parts[parts.length - 1],
+    ).map((model) => model.id);
+  },
+};
+
+/**
+ * Moves plaintext API keys from the user and workspace settings into the
+ * secret store, leaving "secret:<name>" references behind
+ */
+const migrateSecretsSubCommand: SlashCommand = {
+  name: 'migrate-secrets',
+  description: 'Move plaintext provider API keys into the secret store',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+  ): Promise<SlashCommandActionReturn | void> => {
+    const { settings } = context.services;
+    const migrated: string[] = [];
+    const conflicts: string[] = [];
+    const scopes = [SettingScope.User, SettingScope.Workspace];
+
+    try {
+      for (const scope of scopes) {
+        const providers = settings.forScope(scope).settings.llmProviders;
+        if (!providers) {
+          continue;
+        }
+        const updatedProviders = { ...providers };
+        let changed = false;
+        for (const [name, config] of Object.entries(providers)) {
+          // Secrets are stored by provider name, so a key must not replace
+          // the secret of the same provider in the other scope
+          const otherScope = scopes.find((other) => other !== scope)!;
+          const otherKey =
+            settings.forScope(otherScope).settings.llmProviders?.[name]?.apiKey;
+          if (
+            config.apiKey &&
+            !isSecretReference(config.apiKey) &&
+            otherKey !== undefined &&
+            otherKey !== config.apiKey &&
+            (otherKey === `${SECRET_REFERENCE_PREFIX}${name}` ||
+              !isSecretReference(otherKey))
+          ) {
+            conflicts.push(`${name} (${scope.toLowerCase()} settings)`);
+            continue;
+          }
+          const apiKey = await storeProviderApiKey(name, config.apiKey);
+          if (apiKey !== config.apiKey) {
+            updatedProviders[name] = { ...config, apiKey };
+            migrated.push(`${name} (${scope.toLowerCase()} settings)`);
+            changed = true;
+          }
+        }
+        if (changed) {
+          settings.setValue(scope, 'llmProviders', updatedProviders);
+        }
+      }
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to migrate API keys: ${getErrorMessage(error)}`,
+      };
+    }
+
+    if (conflicts.length > 0) {
+      context.ui.addItem(
+        {
+          type: MessageType.ERROR,
+          text: `Kept the plaintext API keys of ${conflicts.length} provider(s), whose name is used with another key in the other settings scope. Rename one of them and run /provider migrate-secrets again:\n\n${conflicts.map((entry) => `  ${entry}`).join('\n')}`,
+        },
+        Date.now(),
+      );
+    }
+
+    if (migrated.length === 0) {
+      return conflicts.length > 0
+        ? undefined
+        : {
+            type: 'message',
+            messageType: 'info',
+            content: 'No plaintext API keys found in the settings.',
+          };
+    }
+
+    context.ui.addItem(
+      {
+        type: MessageType.INFO,
+        text: `Moved the API keys of ${migrated.length} provider(s) into the ${(await getSecretStore()).name}:\n\n${migrated.map((entry) => `  ${entry}`).join('\n')}`,
+      },
+      Date.now(),
+    );
+  },
+};
+
+/**
+ * Writes the definition of a provider, without its API key, to a file
+ */
+const exportSubCommand: SlashCommand = {
+  name: 'export',
+  description:
+    'Write a provider without its API key to a file. Usage: /provider export <name> [file]',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<SlashCommandActionReturn | void> => {
+    const [providerName, file] = args.trim().split(/\s+/);
+    if (!providerName) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content:
+          'Usage: /provider export <name> [file]\n\nUse "/provider list" to see available providers.',
+      };
+    }
+
+    const provider = (context.services.settings.merged.llmProviders || {})[
+      providerName
+    ];
+    if (!provider) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Provider "${providerName}" not found. Use "/provider list" to see available providers.`,
+      };
+    }
+
+    const filePath = path.resolve(file || `${providerName}.provider.json`);
+    try {
+      await fs.writeFile(
+        filePath,
+        `${JSON.stringify(toLLMProviderDefinition(provider), null, 2)}\n`,
+        'utf-8',
+      );
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to export provider "${providerName}": ${getErrorMessage(error)}`,
+      };
+    }
+
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Exported provider "${providerName}" without its API key to ${filePath}.\n\nAdd it with "/provider import ${path.basename(filePath)}", or to the "llmProviders" of the system settings to provide it to all users.`,
+    };
+  },
+  completion: async (
+    context: CommandContext,
+    partialArg: string,
+  ): Promise<string[]> => {
+    const providers = context.services.settings.merged.llmProviders || {};
+    return Object.keys(providers).filter((name) =>
+      name.toLowerCase().startsWith(partialArg.toLowerCase()),
+    );
+  },
+};
+
+/**
+ * Adds a provider from a definition written by /provider export to the user
+ * settings
+ */
+const importSubCommand: SlashCommand = {
+  name: 'import',
+  description:
+    'Add a provider from a file written by /provider export. Usage: /provider import <file>',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<SlashCommandActionReturn | void> => {
+    const file = args.trim();
+    if (!file) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Usage: /provider import <file>',
+      };
+    }
+
+    const { settings } = context.services;
+    const userProviders = settings.user.settings.llmProviders || {};
+    let provider: LLMProviderConfig;
+    try {
+      const definition = JSON.parse(
+        await fs.readFile(path.resolve(file), 'utf-8'),
+      ) as { name?: string };
+      // Importing a provider again keeps its API key
+      provider = fromLLMProviderDefinition(
+        definition,
+        definition.name ? userProviders[definition.name]?.apiKey : undefined,
+      );
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to import a provider from ${file}: ${getErrorMessage(error)}`,
+      };
+    }
+
+    const existed = !!userProviders[provider.name];
+    settings.setValue(SettingScope.User, 'llmProviders', {
+      ...userProviders,
+      [provider.name]: provider,
+    });
+
+    let message = `${existed ? 'Updated' : 'Imported'} provider "${provider.name}" in the user settings.`;
+    if (provider.apiKey.startsWith(SECRET_REFERENCE_PREFIX)) {
+      try {
+        await resolveSecret(provider.apiKey);
+      } catch {
+        message += `\n\nSet its API key with "/provider edit ${provider.name}".`;
+      }
+    }
+    const locked = settings.merged.llmProviders?.[provider.name]?.locked;
+    if (locked?.length) {
+      message += `\n\nThe system settings define this provider and lock: ${locked.join(', ')}.`;
+    }
+
+    context.ui.addItem(
+      {
+        type: MessageType.INFO,
+        text: message,
+      },
+      Date.now(),
+    );
+  },
+};
+
 /**
  * Shows available provider types
  */
@@ -345,8 +890,12 @@ const typesSubCommand: SlashCommand = {
       message += `  \u001b[36m${displayName}\u001b[0m (${type})\n`;
     });
 
-    message += '\nCurrently supported: OpenRouter\n';
-    message += 'More providers will be added in future updates.';
+    message +=
+      '\nAnthropic providers use the native Messages API and Ollama providers the native Ollama API; all other types use the OpenAI-compatible API.';
+    message +=
+      '\nAzure OpenAI providers send requests to the deployment of each model, set as "deployment" in their "models" setting, and default to the model name.';
+    message +=
+      '\nReplay providers serve responses recorded with --record from the fixture file in their "replay.fixture" setting.';
 
     context.ui.addItem(
       {
@@ -375,6 +924,11 @@ export const providerCommand: SlashCommand = {
     editSubCommand,
     removeSubCommand,
     setDefaultSubCommand,
+    modelsSubCommand,
+    testSubCommand,
+    migrateSecretsSubCommand,
+    exportSubCommand,
+    importSubCommand,
     typesSubCommand,
   ],
 };
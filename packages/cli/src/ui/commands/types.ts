@@ -54,6 +54,8 @@ export interface CommandContext {
   session: {
     stats: SessionStatsState;
   };
+  /** Aborted when the user cancels the running command with Esc */
+  abortSignal?: AbortSignal;
 }
 
 /**
@@ -93,7 +95,8 @@ export interface OpenDialogActionReturn {
     | 'editor'
     | 'privacy'
     | 'provider'
-    | 'provider-list';
+    | 'provider-list'
+    | 'model';
 }
 
 /**
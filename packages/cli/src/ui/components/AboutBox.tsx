@@ -15,6 +15,7 @@ interface AboutBoxProps {
   sandboxEnv: string;
   modelVersion: string;
   selectedAuthType: string;
+  generationParams: string;
 }
 
 export const AboutBox: React.FC<AboutBoxProps> = ({
@@ -23,6 +24,7 @@ export const AboutBox: React.FC<AboutBoxProps> = ({
   sandboxEnv,
   modelVersion,
   selectedAuthType,
+  generationParams,
 }) => (
   <Box
     borderStyle="round"
@@ -101,5 +103,15 @@ export const AboutBox: React.FC<AboutBoxProps> = ({
         </Text>
       </Box>
     </Box>
+    <Box flexDirection="row">
+      <Box width="35%">
+        <Text bold color={Colors.LightBlue}>
+          Generation Parameters
+        </Text>
+      </Box>
+      <Box>
+        <Text>{generationParams}</Text>
+      </Box>
+    </Box>
   </Box>
 );
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import Spinner from 'ink-spinner';
+import { ComparisonAnswer } from 'yak-core';
+import { Colors } from '../colors.js';
+import { formatDuration } from '../utils/formatters.js';
+
+/** Narrowest panel shown side by side, narrower panels are stacked. */
+const MIN_PANEL_WIDTH = 40;
+
+interface ComparisonDisplayProps {
+  answers: ComparisonAnswer[];
+  terminalWidth: number;
+  isPending: boolean;
+}
+
+/**
+ * Latency and token counts of an answer, e.g. "2.1s · first token 350ms ·
+ * 812 → 96 tokens"
+ */
+export function formatAnswerStats(answer: ComparisonAnswer): string {
+  const stats = [formatDuration(answer.latencyMs)];
+  if (answer.firstTokenMs !== undefined) {
+    stats.push(`first token ${formatDuration(answer.firstTokenMs)}`);
+  }
+  if (answer.promptTokens !== undefined || answer.outputTokens !== undefined) {
+    stats.push(
+      `${answer.promptTokens ?? '?'} → ${answer.outputTokens ?? '?'} tokens`,
+    );
+  }
+  return stats.join(' · ');
+}
+
+const AnswerPanel: React.FC<{
+  index: number;
+  answer: ComparisonAnswer;
+  width: number | string;
+}> = ({ index, answer, width }) => (
+  <Box
+    borderStyle="round"
+    borderColor={answer.error ? Colors.AccentRed : Colors.Gray}
+    flexDirection="column"
+    paddingX={1}
+    width={width}
+  >
+    <Box>
+      <Text bold color={Colors.AccentPurple}>
+        {index + 1}. {answer.provider}:{answer.model}
+      </Text>
+    </Box>
+    <Box marginY={1}>
+      {answer.error ? (
+        <Text color={Colors.AccentRed}>{answer.error}</Text>
+      ) : (
+        <Text wrap="wrap">{answer.text}</Text>
+      )}
+    </Box>
+    <Box>
+      {!answer.done && (
+        <Box marginRight={1}>
+          <Spinner type="dots" />
+        </Box>
+      )}
+      <Text color={Colors.Gray}>{formatAnswerStats(answer)}</Text>
+    </Box>
+  </Box>
+);
+
+/*
+ * Shows the answers of /compare as panels, side by side when the terminal is
+ * wide enough and stacked otherwise, each with its latency and token counts.
+ */
+export const ComparisonDisplay: React.FC<ComparisonDisplayProps> = ({
+  answers,
+  terminalWidth,
+  isPending,
+}) => {
+  const sideBySide = terminalWidth / answers.length >= MIN_PANEL_WIDTH;
+  const panelWidth = sideBySide
+    ? Math.floor(terminalWidth / answers.length)
+    : '100%';
+  const failed = answers.every((answer) => answer.error);
+
+  return (
+    <Box flexDirection="column" marginY={1}>
+      <Box flexDirection={sideBySide ? 'row' : 'column'}>
+        {answers.map((answer, index) => (
+          <AnswerPanel
+            key={`${answer.provider}:${answer.model}:${index}`}
+            index={index}
+            answer={answer}
+            width={panelWidth}
+          />
+        ))}
+      </Box>
+      {!isPending && !failed && (
+        <Text color={Colors.Gray}>
+          {
+            'Use /compare adopt <number> to add an answer to the conversation, or /compare discard to drop them.'
+          }
+        </Text>
+      )}
+    </Box>
+  );
+};
@@ -7,7 +7,7 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import { Colors } from '../colors.js';
-import { shortenPath, tildeifyPath, tokenLimit } from 'yak-core';
+import { formatCost, shortenPath, tildeifyPath, tokenLimit } from 'yak-core';
 import { ConsoleSummaryDisplay } from './ConsoleSummaryDisplay.js';
 import process from 'node:process';
 import Gradient from 'ink-gradient';
@@ -15,6 +15,8 @@ import { MemoryUsageDisplay } from './MemoryUsageDisplay.js';
 
 interface FooterProps {
   model: string;
+  /** Name of the LLM provider serving the model, if any */
+  providerName?: string;
   targetDir: string;
   branchName?: string;
   debugMode: boolean;
@@ -24,11 +26,14 @@ interface FooterProps {
   showErrorDetails: boolean;
   showMemoryUsage?: boolean;
   promptTokenCount: number;
+  /** Cost of the session in USD, undefined while no price is known */
+  sessionCost?: number;
   nightly: boolean;
 }
 
 export const Footer: React.FC<FooterProps> = ({
   model,
+  providerName,
   targetDir,
   branchName,
   debugMode,
@@ -38,9 +43,10 @@ export const Footer: React.FC<FooterProps> = ({
   showErrorDetails,
   showMemoryUsage,
   promptTokenCount,
+  sessionCost,
   nightly,
 }) => {
-  const limit = tokenLimit(model);
+  const limit = tokenLimit(model, providerName);
   const percentage = promptTokenCount / limit;
 
   return (
@@ -98,6 +104,12 @@ export const Footer: React.FC<FooterProps> = ({
             ({((1 - percentage) * 100).toFixed(0)}% context left)
           </Text>
         </Text>
+        {sessionCost !== undefined && (
+          <Text>
+            <Text color={Colors.Gray}>| </Text>
+            <Text color={Colors.AccentYellow}>{formatCost(sessionCost)} </Text>
+          </Text>
+        )}
         {corgiMode && (
           <Text>
             <Text color={Colors.Gray}>| </Text>
@@ -58,6 +58,7 @@ describe('<HistoryItemDisplay />', () => {
       sandboxEnv: 'test-env',
       modelVersion: 'test-model',
       selectedAuthType: 'test-auth',
+      generationParams: 'temperature=0, topP=1',
     };
     const { lastFrame } = render(
       <HistoryItemDisplay {...baseItem} item={item} />,
@@ -108,4 +109,41 @@ describe('<HistoryItemDisplay />', () => {
     );
     expect(lastFrame()).toContain('Agent powering down. Goodbye!');
   });
+
+  it('renders ComparisonDisplay for "comparison" type', () => {
+    const item: HistoryItem = {
+      ...baseItem,
+      type: MessageType.COMPARISON,
+      prompt: 'Hi',
+      answers: [
+        {
+          provider: 'openai',
+          model: 'gpt-4o',
+          text: 'Hello!',
+          done: true,
+          latencyMs: 1500,
+          firstTokenMs: 300,
+          promptTokens: 12,
+          outputTokens: 3,
+        },
+        {
+          provider: 'local',
+          model: 'llama3',
+          text: '',
+          done: true,
+          latencyMs: 20,
+          error: 'fetch failed',
+        },
+      ],
+    };
+    const { lastFrame } = render(
+      <HistoryItemDisplay {...baseItem} item={item} />,
+    );
+    const output = lastFrame();
+    expect(output).toContain('1. openai:gpt-4o');
+    expect(output).toContain('Hello!');
+    expect(output).toContain('1.5s · first token 300ms · 12 → 3');
+    expect(output).toContain('fetch failed');
+    expect(output).toContain('/compare adopt <number>');
+  });
 });
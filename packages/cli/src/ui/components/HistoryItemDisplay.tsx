@@ -20,6 +20,7 @@ import { StatsDisplay } from './StatsDisplay.js';
 import { ModelStatsDisplay } from './ModelStatsDisplay.js';
 import { ToolStatsDisplay } from './ToolStatsDisplay.js';
 import { SessionSummaryDisplay } from './SessionSummaryDisplay.js';
+import { ComparisonDisplay } from './ComparisonDisplay.js';
 import { Config } from 'yak-core';
 
 interface HistoryItemDisplayProps {
@@ -68,6 +69,7 @@ export const HistoryItemDisplay: React.FC<HistoryItemDisplayProps> = ({
         sandboxEnv={item.sandboxEnv}
         modelVersion={item.modelVersion}
         selectedAuthType={item.selectedAuthType}
+        generationParams={item.generationParams}
       />
     )}
     {item.type === 'stats' && <StatsDisplay duration={item.duration} />}
@@ -87,5 +89,12 @@ export const HistoryItemDisplay: React.FC<HistoryItemDisplayProps> = ({
     {item.type === 'compression' && (
       <CompressionMessage compression={item.compression} />
     )}
+    {item.type === 'comparison' && (
+      <ComparisonDisplay
+        answers={item.answers}
+        terminalWidth={terminalWidth}
+        isPending={isPending}
+      />
+    )}
   </Box>
 );
@@ -186,6 +186,21 @@ describe('<LoadingIndicator />', () => {
     expect(output).toContain('Loading...');
   });
 
+  it('should display how long requests wait for a rate limit', () => {
+    const { lastFrame } = renderWithContext(
+      <LoadingIndicator
+        {...defaultProps}
+        rateLimitQueue={{
+          provider: 'groq',
+          queued: 2,
+          waitingSince: Date.now() - 3_500,
+        }}
+      />,
+      StreamingState.Responding,
+    );
+    expect(lastFrame()).toContain('queued 3s for the groq rate limit');
+  });
+
   it('should display the subject of a thought', () => {
     const props = {
       thought: {
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { ThoughtSummary } from 'yak-core';
+import { RateLimitQueueStatus, ThoughtSummary } from 'yak-core';
 import React from 'react';
 import { Box, Text } from 'ink';
 import { Colors } from '../colors.js';
@@ -18,6 +18,8 @@ interface LoadingIndicatorProps {
   elapsedTime: number;
   rightContent?: React.ReactNode;
   thought?: ThoughtSummary | null;
+  /** Queue of the requests waiting for the rate limit of a provider */
+  rateLimitQueue?: RateLimitQueueStatus;
 }
 
 export const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({
@@ -25,6 +27,7 @@ export const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({
   elapsedTime,
   rightContent,
   thought,
+  rateLimitQueue,
 }) => {
   const streamingState = useStreamingContext();
 
@@ -33,6 +36,10 @@ export const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({
   }
 
   const primaryText = thought?.subject || currentLoadingPhrase;
+  const queuedSeconds =
+    rateLimitQueue?.waitingSince !== undefined
+      ? Math.floor((Date.now() - rateLimitQueue.waitingSince) / 1000)
+      : undefined;
 
   return (
     <Box marginTop={1} paddingLeft={0} flexDirection="column">
@@ -53,6 +60,11 @@ export const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({
             ? ''
             : ` (esc to cancel, ${elapsedTime < 60 ? `${elapsedTime}s` : formatDuration(elapsedTime * 1000)})`}
         </Text>
+        {rateLimitQueue && queuedSeconds !== undefined && (
+          <Text color={Colors.AccentYellow}>
+            {` queued ${queuedSeconds < 60 ? `${queuedSeconds}s` : formatDuration(queuedSeconds * 1000)} for the ${rateLimitQueue.provider} rate limit`}
+          </Text>
+        )}
         <Box flexGrow={1}>{/* Spacer */}</Box>
         {rightContent && <Box>{rightContent}</Box>}
       </Box>
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Box, Text } from 'ink';
+import { Colors } from '../colors.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import {
+  LLMProviderConfig,
+  ProviderModel,
+  listProviderModels,
+  searchProviderModels,
+} from 'yak-core';
+
+export interface ModelDialogProps {
+  /** All configured providers */
+  providers: Record<string, LLMProviderConfig>;
+  /** Name of the provider of the current session, if any */
+  currentProvider?: string;
+  /** Model of the current session */
+  currentModel: string;
+  /** Called with the selected provider and model */
+  onSelect: (providerName: string, model: string) => void;
+  /** Called when dialog is cancelled */
+  onCancel: () => void;
+}
+
+const MAX_VISIBLE_MODELS = 10;
+
+export const ModelDialog: React.FC<ModelDialogProps> = ({
+  providers,
+  currentProvider,
+  currentModel,
+  onSelect,
+  onCancel,
+}) => {
+  // Models of all providers, undefined while loading
+  const [models, setModels] = useState<ProviderModel[] | undefined>(undefined);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    listProviderModels(providers)
+      .then((result) => !cancelled && setModels(result))
+      .catch(() => !cancelled && setModels([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [providers]);
+
+  const matches = searchProviderModels(models ?? [], query);
+
+  const updateQuery = (newQuery: string) => {
+    setQuery(newQuery);
+    setActiveIndex(0);
+  };
+
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        onCancel();
+      } else if (key.name === 'return') {
+        const match = matches[activeIndex];
+        if (match) {
+          onSelect(match.provider, match.model);
+        }
+      } else if (key.name === 'up') {
+        setActiveIndex((index) =>
+          index > 0 ? index - 1 : Math.max(matches.length - 1, 0),
+        );
+      } else if (key.name === 'down') {
+        setActiveIndex((index) => (index < matches.length - 1 ? index + 1 : 0));
+      } else if (key.name === 'backspace' || key.name === 'delete') {
+        updateQuery(query.slice(0, -1));
+      } else if (key.sequence && !key.ctrl && !key.meta) {
+        updateQuery(query + key.sequence.trim());
+      }
+    },
+    { isActive: true },
+  );
+
+  const scrollOffset = Math.max(0, activeIndex - MAX_VISIBLE_MODELS + 1);
+  const visibleMatches = matches.slice(
+    scrollOffset,
+    scrollOffset + MAX_VISIBLE_MODELS,
+  );
+
+  const renderModels = () => {
+    if (!models) {
+      return <Text color={Colors.Gray}>Loading models...</Text>;
+    }
+    if (models.length === 0) {
+      return (
+        <Text color={Colors.Gray}>
+          No models found. Add a provider with &quot;/provider add&quot; or
+          fetch its models with &quot;/provider models &lt;name&gt;&quot;.
+        </Text>
+      );
+    }
+    if (matches.length === 0) {
+      return (
+        <Text color={Colors.Gray}>No models match &quot;{query}&quot;</Text>
+      );
+    }
+    return visibleMatches.map((match, index) => {
+      const isActive = scrollOffset + index === activeIndex;
+      const isCurrent =
+        match.provider === currentProvider && match.model === currentModel;
+      return (
+        <Box key={`${match.provider}:${match.model}`}>
+          <Text color={isActive ? Colors.AccentGreen : Colors.Foreground}>
+            {isActive ? '● ' : '  '}
+            {match.provider}:{match.model}
+          </Text>
+          {!!match.entry?.contextLength && (
+            <Text color={Colors.Gray}>
+              {'  '}
+              {Math.round(match.entry.contextLength / 1000)}k context
+            </Text>
+          )}
+          {isCurrent && <Text color={Colors.Gray}> (current)</Text>}
+        </Box>
+      );
+    });
+  };
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={Colors.AccentBlue}
+      flexDirection="column"
+      padding={1}
+      width="100%"
+    >
+      <Box marginBottom={1}>
+        <Text bold color={Colors.Foreground}>
+          Switch Model
+        </Text>
+      </Box>
+
+      <Box>
+        <Text color={Colors.AccentPurple}>Search: </Text>
+        <Text>
+          {query}
+          <Text color={Colors.AccentBlue}>█</Text>
+        </Text>
+      </Box>
+
+      <Box marginTop={1} flexDirection="column">
+        {renderModels()}
+      </Box>
+
+      {matches.length > MAX_VISIBLE_MODELS && (
+        <Box marginTop={1}>
+          <Text color={Colors.Gray}>
+            {activeIndex + 1} of {matches.length} models
+          </Text>
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        <Text color={Colors.Gray}>
+          Type to filter, ↑/↓ to choose, Enter to switch, Esc to cancel
+        </Text>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from 'ink-testing-library';
+import { describe, it, expect, vi } from 'vitest';
+import { ProviderDialog } from './ProviderDialog.js';
+import { LLMProviderConfig, LLMProviderType } from 'yak-core';
+
+describe('ProviderDialog', () => {
+  const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('keeps the options that the dialog does not edit', async () => {
+    const initialConfig: LLMProviderConfig = {
+      name: 'local',
+      displayName: 'Local vLLM',
+      type: LLMProviderType.OPENAI_COMPATIBLE,
+      apiKey: '$LOCAL_API_KEY',
+      baseUrl: 'http://localhost:8000/v1',
+      model: 'qwen',
+      enabled: false,
+      params: { temperature: 0.2 },
+      locked: ['baseUrl'],
+    };
+    const onSave = vi.fn();
+    const { stdin, lastFrame } = render(
+      <ProviderDialog
+        onSave={onSave}
+        onCancel={() => {}}
+        initialConfig={initialConfig}
+        isEdit
+      />,
+    );
+
+    // Accept the current values up to the confirmation
+    for (let i = 0; i < 10 && onSave.mock.calls.length === 0; i++) {
+      await wait();
+      stdin.write('\r');
+    }
+    await wait();
+
+    expect(lastFrame()).not.toContain('Error');
+    expect(onSave).toHaveBeenCalledWith(
+      expect.objectContaining({
+        displayName: 'Local vLLM',
+        enabled: false,
+        params: { temperature: 0.2 },
+        locked: ['baseUrl'],
+        model: 'qwen',
+      }),
+    );
+  });
+});
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { Colors } from '../colors.js';
 import { InputField, InputFieldType } from './shared/InputField.js';
@@ -17,11 +17,18 @@ import {
   validateLLMProviderConfig,
   PROVIDER_DISPLAY_NAMES,
   DEFAULT_PROVIDER_BASE_URLS,
+  OllamaModel,
+  listOllamaModels,
+  providerRequiresApiKey,
+  getErrorMessage,
+  isSecretReference,
+  ProviderCheck,
+  testProvider,
 } from 'yak-core';
 
 export interface ProviderDialogProps {
-  /** Called when provider is saved */
-  onSave: (config: LLMProviderConfig) => void;
+  /** Called when provider is saved, a rejection is shown as an error */
+  onSave: (config: LLMProviderConfig) => void | Promise<void>;
   /** Called when dialog is cancelled */
   onCancel: () => void;
   /** Initial provider configuration (for editing) */
@@ -35,9 +42,80 @@ enum DialogStep {
   PROVIDER_NAME = 'provider_name',
   API_KEY = 'api_key',
   BASE_URL = 'base_url',
+  MODEL = 'model',
+  HEADERS = 'headers',
+  QUERY_PARAMS = 'query_params',
+  ROUTING = 'routing',
   CONFIRMATION = 'confirmation',
 }
 
+/**
+ * Formats headers as "Name: value; Name: value" for editing
+ */
+function formatHeaders(headers: Record<string, string> = {}): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('; ');
+}
+
+/**
+ * Parses headers entered as "Name: value; Name: value"
+ * @returns The headers, undefined if none were entered
+ */
+function parseHeaders(input: string): Record<string, string> | undefined {
+  const headers: Record<string, string> = {};
+  for (const entry of input.split(';')) {
+    const separator = entry.indexOf(':');
+    if (separator > 0) {
+      headers[entry.slice(0, separator).trim()] = entry
+        .slice(separator + 1)
+        .trim();
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+/**
+ * Parses query parameters entered as "name=value&name=value"
+ * @returns The parameters, undefined if none were entered
+ */
+function parseQueryParams(input: string): Record<string, string> | undefined {
+  const params = Object.fromEntries(new URLSearchParams(input.trim()));
+  return Object.keys(params).length > 0 ? params : undefined;
+}
+
+/**
+ * Parses a comma separated list
+ * @returns The items, undefined if none were entered
+ */
+function parseList(input: string): string[] | undefined {
+  const items = input
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Color of a connection test check, read when rendering to follow the theme
+ */
+function getCheckColor(status: ProviderCheck['status']): string {
+  switch (status) {
+    case 'pass':
+      return Colors.AccentGreen;
+    case 'fail':
+      return Colors.AccentRed;
+    default:
+      return Colors.Gray;
+  }
+}
+
+const CHECK_SYMBOLS: Record<ProviderCheck['status'], string> = {
+  pass: '✓',
+  fail: '✗',
+  skip: '-',
+};
+
 export const ProviderDialog: React.FC<ProviderDialogProps> = ({
   onSave,
   onCancel,
@@ -55,15 +133,55 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
   const [providerName, setProviderName] = useState(initialConfig.name || '');
   const [apiKey, setApiKey] = useState(initialConfig.apiKey || '');
   const [baseUrl, setBaseUrl] = useState(initialConfig.baseUrl || '');
+  const [model, setModel] = useState(initialConfig.model || '');
+  const [headers, setHeaders] = useState(formatHeaders(initialConfig.headers));
+  const [queryParams, setQueryParams] = useState(
+    new URLSearchParams(initialConfig.queryParams).toString(),
+  );
+  const [providerOrder, setProviderOrder] = useState(
+    initialConfig.openrouter?.order?.join(', ') || '',
+  );
   const [error, setError] = useState<string | null>(null);
+  // Models installed on the Ollama server, undefined while loading
+  const [ollamaModels, setOllamaModels] = useState<OllamaModel[] | undefined>(
+    undefined,
+  );
+  const [enterModelManually, setEnterModelManually] = useState(false);
+  // Checks of the connection test offered before saving a new provider
+  const [testChecks, setTestChecks] = useState<ProviderCheck[] | undefined>(
+    undefined,
+  );
+  const [testing, setTesting] = useState(false);
+
+  const discoversModels =
+    providerType === LLMProviderType.OLLAMA && !enterModelManually;
+
+  useEffect(() => {
+    if (currentStep !== DialogStep.MODEL || !discoversModels) {
+      return;
+    }
+    const controller = new AbortController();
+    setOllamaModels(undefined);
+    listOllamaModels(
+      baseUrl || DEFAULT_PROVIDER_BASE_URLS[providerType],
+      controller.signal,
+    )
+      .then(setOllamaModels)
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          setOllamaModels([]);
+        }
+      });
+    return () => controller.abort();
+  }, [currentStep, discoversModels, baseUrl, providerType]);
 
-  // Available provider types
-  const providerTypeItems = Object.entries(PROVIDER_DISPLAY_NAMES).map(
-    ([type, displayName]) => ({
+  // Available provider types, replay providers are set up in settings.json
+  const providerTypeItems = Object.entries(PROVIDER_DISPLAY_NAMES)
+    .filter(([type]) => type !== LLMProviderType.REPLAY)
+    .map(([type, displayName]) => ({
       label: displayName,
       value: type as LLMProviderType,
-    }),
-  );
+    }));
 
   const handleProviderTypeSelect = (selectedType: LLMProviderType) => {
     setProviderType(selectedType);
@@ -82,7 +200,7 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
   };
 
   const handleApiKeySubmit = (key: string) => {
-    if (!key.trim()) {
+    if (providerRequiresApiKey(providerType) && !key.trim()) {
       setError('API key is required');
       return;
     }
@@ -94,24 +212,109 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
   const handleBaseUrlSubmit = (url: string) => {
     setBaseUrl(url.trim());
     setError(null);
+    setCurrentStep(DialogStep.MODEL);
+  };
+
+  const handleModelSubmit = (modelName: string) => {
+    if (!modelName && discoversModels) {
+      // "Enter manually" was selected from the installed models
+      setEnterModelManually(true);
+      return;
+    }
+    setModel(modelName.trim());
+    setError(null);
+    setCurrentStep(DialogStep.HEADERS);
+  };
+
+  const handleHeadersSubmit = (value: string) => {
+    setHeaders(value.trim());
+    setError(null);
+    setCurrentStep(DialogStep.QUERY_PARAMS);
+  };
+
+  const handleQueryParamsSubmit = (value: string) => {
+    setQueryParams(value.trim());
+    setError(null);
+    setCurrentStep(
+      providerType === LLMProviderType.OPENROUTER
+        ? DialogStep.ROUTING
+        : DialogStep.CONFIRMATION,
+    );
+  };
+
+  const handleRoutingSubmit = (value: string) => {
+    setProviderOrder(value.trim());
+    setError(null);
     setCurrentStep(DialogStep.CONFIRMATION);
   };
 
-  const handleConfirmation = () => {
-    const config = createDefaultProviderConfig(
+  /**
+   * Builds the provider configuration from the entered values
+   * @returns The configuration, undefined if it is invalid
+   */
+  const buildConfig = (): LLMProviderConfig | undefined => {
+    // Routing options other than the order can only be set in settings.json
+    const openrouter =
+      providerType === LLMProviderType.OPENROUTER
+        ? { ...initialConfig.openrouter, order: parseList(providerOrder) }
+        : undefined;
+    const defaults = createDefaultProviderConfig(
       providerType,
       providerName,
       apiKey,
       baseUrl || undefined,
+      model || undefined,
     );
+    // Only the fields of the dialog are overlaid, the options that can only
+    // be set in settings.json survive an edit
+    const config: LLMProviderConfig = {
+      ...initialConfig,
+      ...defaults,
+      displayName:
+        initialConfig.type === providerType
+          ? (initialConfig.displayName ?? defaults.displayName)
+          : defaults.displayName,
+      isDefault: initialConfig.isDefault ?? defaults.isDefault,
+      enabled: initialConfig.enabled ?? defaults.enabled,
+      headers: parseHeaders(headers),
+      queryParams: parseQueryParams(queryParams),
+      openrouter:
+        openrouter && Object.values(openrouter).some((v) => v !== undefined)
+          ? openrouter
+          : undefined,
+    };
 
     const validationError = validateLLMProviderConfig(config);
     if (validationError) {
       setError(validationError);
+      return undefined;
+    }
+    return config;
+  };
+
+  const handleConfirmation = () => {
+    const config = buildConfig();
+    if (!config) {
       return;
     }
+    Promise.resolve(onSave(config)).catch((saveError: unknown) =>
+      setError(getErrorMessage(saveError)),
+    );
+  };
 
-    onSave(config);
+  const handleTest = () => {
+    const config = buildConfig();
+    if (!config) {
+      return;
+    }
+    setError(null);
+    setTesting(true);
+    setTestChecks([]);
+    testProvider(config, model || undefined, {
+      onCheck: (check) => setTestChecks((checks) => [...(checks ?? []), check]),
+    })
+      .catch((testError: unknown) => setError(getErrorMessage(testError)))
+      .finally(() => setTesting(false));
   };
 
   const handleCancel = () => {
@@ -121,6 +324,7 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
 
   const handleBack = () => {
     setError(null);
+    setTestChecks(undefined);
     switch (currentStep) {
       case DialogStep.PROVIDER_NAME:
         setCurrentStep(DialogStep.PROVIDER_TYPE);
@@ -131,8 +335,28 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
       case DialogStep.BASE_URL:
         setCurrentStep(DialogStep.API_KEY);
         break;
+      case DialogStep.MODEL:
+        if (enterModelManually) {
+          setEnterModelManually(false);
+        } else {
+          setCurrentStep(DialogStep.BASE_URL);
+        }
+        break;
+      case DialogStep.HEADERS:
+        setCurrentStep(DialogStep.MODEL);
+        break;
+      case DialogStep.QUERY_PARAMS:
+        setCurrentStep(DialogStep.HEADERS);
+        break;
+      case DialogStep.ROUTING:
+        setCurrentStep(DialogStep.QUERY_PARAMS);
+        break;
       case DialogStep.CONFIRMATION:
-        setCurrentStep(DialogStep.BASE_URL);
+        setCurrentStep(
+          providerType === LLMProviderType.OPENROUTER
+            ? DialogStep.ROUTING
+            : DialogStep.QUERY_PARAMS,
+        );
         break;
       default:
         // Stay on current step if no specific handler
@@ -151,6 +375,49 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
     }
   });
 
+  const renderOllamaModelStep = () => {
+    if (!ollamaModels) {
+      return (
+        <Text color={Colors.Gray}>
+          Looking for installed models at{' '}
+          {baseUrl || DEFAULT_PROVIDER_BASE_URLS[providerType]}...
+        </Text>
+      );
+    }
+    const items = [
+      ...ollamaModels.map((ollamaModel) => ({
+        label: ollamaModel.details?.parameter_size
+          ? `${ollamaModel.name} (${ollamaModel.details.parameter_size})`
+          : ollamaModel.name,
+        value: ollamaModel.name,
+      })),
+      { label: 'Enter manually', value: '' },
+    ];
+    const initialIndex = items.findIndex((item) => item.value === model);
+    return (
+      <Box flexDirection="column">
+        <Text bold color={Colors.AccentPurple}>
+          Default Model (Optional):
+        </Text>
+        <Box marginTop={1}>
+          <Text color={Colors.Gray}>
+            {ollamaModels.length > 0
+              ? 'Select one of the models installed on the Ollama server'
+              : 'No installed models found, pull one with "ollama pull <model>"'}
+          </Text>
+        </Box>
+        <Box marginTop={1}>
+          <RadioButtonSelect
+            items={items}
+            initialIndex={initialIndex >= 0 ? initialIndex : 0}
+            onSelect={handleModelSubmit}
+            isFocused={true}
+          />
+        </Box>
+      </Box>
+    );
+  };
+
   const renderStep = () => {
     switch (currentStep) {
       case DialogStep.PROVIDER_TYPE:
@@ -207,11 +474,19 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
         return (
           <Box flexDirection="column">
             <Text bold color={Colors.AccentPurple}>
-              API Key:
+              {providerRequiresApiKey(providerType)
+                ? 'API Key:'
+                : 'API Key (Optional):'}
             </Text>
-            <Box marginTop={1}>
+            <Box marginTop={1} flexDirection="column">
+              <Text color={Colors.Gray}>
+                {providerRequiresApiKey(providerType)
+                  ? `Enter your ${PROVIDER_DISPLAY_NAMES[providerType]} API key`
+                  : `${PROVIDER_DISPLAY_NAMES[providerType]} runs without an API key, leave empty unless a proxy requires one`}
+              </Text>
               <Text color={Colors.Gray}>
-                Enter your {PROVIDER_DISPLAY_NAMES[providerType]} API key
+                The key is kept in the secret store, or enter $ENV_VAR to read
+                it from the environment
               </Text>
             </Box>
             <Box marginTop={1}>
@@ -220,7 +495,7 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
                 type={InputFieldType.PASSWORD}
                 placeholder="Enter your API key"
                 initialValue={apiKey}
-                required={true}
+                required={providerRequiresApiKey(providerType)}
                 onSubmit={handleApiKeySubmit}
                 onCancel={handleCancel}
               />
@@ -239,8 +514,9 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
                 Custom base URL for {PROVIDER_DISPLAY_NAMES[providerType]} API
               </Text>
               <Text color={Colors.Gray}>
-                Leave empty to use default:{' '}
-                {DEFAULT_PROVIDER_BASE_URLS[providerType]}
+                {providerType === LLMProviderType.AZURE_OPENAI
+                  ? 'The endpoint of your resource, e.g. https://<resource>.openai.azure.com/openai'
+                  : `Leave empty to use default: ${DEFAULT_PROVIDER_BASE_URLS[providerType]}`}
               </Text>
             </Box>
             <Box marginTop={1}>
@@ -257,6 +533,122 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
           </Box>
         );
 
+      case DialogStep.MODEL:
+        if (discoversModels) {
+          return renderOllamaModelStep();
+        }
+        return (
+          <Box flexDirection="column">
+            <Text bold color={Colors.AccentPurple}>
+              Default Model (Optional):
+            </Text>
+            <Box marginTop={1}>
+              <Text color={Colors.Gray}>
+                Model to use with this provider unless one is passed with -m
+              </Text>
+            </Box>
+            <Box marginTop={1}>
+              <InputField
+                label="Model"
+                placeholder="e.g., anthropic/claude-sonnet-4"
+                initialValue={model}
+                required={false}
+                onSubmit={handleModelSubmit}
+                onCancel={handleCancel}
+              />
+            </Box>
+          </Box>
+        );
+
+      case DialogStep.HEADERS:
+        return (
+          <Box flexDirection="column">
+            <Text bold color={Colors.AccentPurple}>
+              Extra Headers (Optional):
+            </Text>
+            <Box marginTop={1} flexDirection="column">
+              <Text color={Colors.Gray}>
+                Headers sent with every request, e.g. organization IDs or
+                HTTP-Referer and X-Title for OpenRouter attribution
+              </Text>
+              <Text color={Colors.Gray}>
+                Separate headers with semicolons: Name: value; Name: value
+              </Text>
+            </Box>
+            <Box marginTop={1}>
+              <InputField
+                label="Headers"
+                placeholder="e.g., X-Title: yakchat"
+                initialValue={headers}
+                required={false}
+                onSubmit={handleHeadersSubmit}
+                onCancel={handleCancel}
+                validate={(value) => {
+                  const invalid = value
+                    .split(';')
+                    .find((entry) => entry.trim() && !(entry.indexOf(':') > 0));
+                  return invalid
+                    ? `"${invalid.trim()}" is not in the form Name: value`
+                    : null;
+                }}
+              />
+            </Box>
+          </Box>
+        );
+
+      case DialogStep.QUERY_PARAMS:
+        return (
+          <Box flexDirection="column">
+            <Text bold color={Colors.AccentPurple}>
+              Query Parameters (Optional):
+            </Text>
+            <Box marginTop={1}>
+              <Text color={Colors.Gray}>
+                Parameters added to every request URL, e.g. api-version for
+                Azure
+              </Text>
+            </Box>
+            <Box marginTop={1}>
+              <InputField
+                label="Query Parameters"
+                placeholder="e.g., api-version=2024-10-21"
+                initialValue={queryParams}
+                required={false}
+                onSubmit={handleQueryParamsSubmit}
+                onCancel={handleCancel}
+              />
+            </Box>
+          </Box>
+        );
+
+      case DialogStep.ROUTING:
+        return (
+          <Box flexDirection="column">
+            <Text bold color={Colors.AccentPurple}>
+              Provider Order (Optional):
+            </Text>
+            <Box marginTop={1} flexDirection="column">
+              <Text color={Colors.Gray}>
+                Comma separated upstream providers OpenRouter tries first
+              </Text>
+              <Text color={Colors.Gray}>
+                allowFallbacks, dataCollection and transforms can be set in
+                settings.json
+              </Text>
+            </Box>
+            <Box marginTop={1}>
+              <InputField
+                label="Provider Order"
+                placeholder="e.g., anthropic, amazon-bedrock"
+                initialValue={providerOrder}
+                required={false}
+                onSubmit={handleRoutingSubmit}
+                onCancel={handleCancel}
+              />
+            </Box>
+          </Box>
+        );
+
       case DialogStep.CONFIRMATION:
         return (
           <Box flexDirection="column">
@@ -280,7 +672,13 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
                 <Text bold color={Colors.LightBlue}>
                   API Key:{' '}
                 </Text>
-                <Text>{'*'.repeat(8)}</Text>
+                <Text>
+                  {apiKey
+                    ? isSecretReference(apiKey)
+                      ? apiKey
+                      : '*'.repeat(8)
+                    : 'Not set'}
+                </Text>
               </Box>
               <Box>
                 <Text bold color={Colors.LightBlue}>
@@ -290,10 +688,74 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
                   {baseUrl || DEFAULT_PROVIDER_BASE_URLS[providerType]}
                 </Text>
               </Box>
+              <Box>
+                <Text bold color={Colors.LightBlue}>
+                  Model:{' '}
+                </Text>
+                <Text>{model || 'Not set'}</Text>
+              </Box>
+              {headers && (
+                <Box>
+                  <Text bold color={Colors.LightBlue}>
+                    Headers:{' '}
+                  </Text>
+                  <Text>{headers}</Text>
+                </Box>
+              )}
+              {initialConfig.apiKeyHeader && (
+                <Box>
+                  <Text bold color={Colors.LightBlue}>
+                    API Key Header:{' '}
+                  </Text>
+                  <Text>{initialConfig.apiKeyHeader}</Text>
+                </Box>
+              )}
+              {queryParams && (
+                <Box>
+                  <Text bold color={Colors.LightBlue}>
+                    Query Parameters:{' '}
+                  </Text>
+                  <Text>{queryParams}</Text>
+                </Box>
+              )}
+              {providerType === LLMProviderType.OPENROUTER && providerOrder && (
+                <Box>
+                  <Text bold color={Colors.LightBlue}>
+                    Provider Order:{' '}
+                  </Text>
+                  <Text>{providerOrder}</Text>
+                </Box>
+              )}
             </Box>
+            {testChecks && (
+              <Box marginTop={1} flexDirection="column">
+                <Text bold color={Colors.AccentPurple}>
+                  Connection Test:
+                </Text>
+                {testChecks.map((check) => (
+                  <Box key={check.name}>
+                    <Text color={getCheckColor(check.status)}>
+                      {CHECK_SYMBOLS[check.status]} {check.name.padEnd(14)}
+                    </Text>
+                    <Text color={Colors.Gray}>
+                      {(check.status === 'skip'
+                        ? ''
+                        : `${check.latencyMs} ms`
+                      ).padStart(8)}{' '}
+                    </Text>
+                    <Text>{check.detail}</Text>
+                  </Box>
+                ))}
+                {testing && (
+                  <Text color={Colors.Gray}>Testing the connection...</Text>
+                )}
+              </Box>
+            )}
             <Box marginTop={2}>
               <Text color={Colors.Gray}>
-                Press Enter to save, Ctrl+Backspace to go back, Esc to cancel
+                {isEdit
+                  ? 'Press Enter to save, Ctrl+Backspace to go back, Esc to cancel'
+                  : 'Press Enter to save, T to test the connection first, Ctrl+Backspace to go back, Esc to cancel'}
               </Text>
             </Box>
           </Box>
@@ -306,8 +768,10 @@ export const ProviderDialog: React.FC<ProviderDialogProps> = ({
 
   useInput((input, key) => {
     if (currentStep === DialogStep.CONFIRMATION) {
-      if (key.return) {
+      if (key.return && !testing) {
         handleConfirmation();
+      } else if (input.toLowerCase() === 't' && !isEdit && !testing) {
+        handleTest();
       } else if (key.escape) {
         handleCancel();
       }
@@ -25,6 +25,8 @@ export interface ProviderListDialogProps {
   onCancel: () => void;
   /** Called when user wants to add a new provider */
   onAddNew: () => void;
+  /** Why the last action was refused */
+  errorMessage?: string | null;
 }
 
 enum DialogAction {
@@ -50,6 +52,7 @@ export const ProviderListDialog: React.FC<ProviderListDialogProps> = ({
   onSetDefault,
   onCancel,
   onAddNew,
+  errorMessage,
 }) => {
   const [selectedIndex, _setSelectedIndex] = useState(0);
   const [showConfirmation, setShowConfirmation] = useState(false);
@@ -249,6 +252,12 @@ export const ProviderListDialog: React.FC<ProviderListDialogProps> = ({
         />
       </Box>
 
+      {errorMessage && (
+        <Box marginTop={1}>
+          <Text color={Colors.AccentRed}>{errorMessage}</Text>
+        </Box>
+      )}
+
       {/* Help text */}
       <Box marginTop={1} flexDirection="column">
         {hasProviders && (
@@ -213,6 +213,38 @@ describe('<StatsDisplay />', () => {
       expect(output).not.toContain('Efficiency & Optimizations');
       expect(output).toMatchSnapshot();
     });
+
+    it('shows the cost when the price of a model is known', () => {
+      const tokens = {
+        prompt: 100,
+        candidates: 100,
+        total: 200,
+        cached: 0,
+        thoughts: 0,
+        tool: 0,
+      };
+      const api = { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 };
+      const metrics: SessionMetrics = {
+        models: {
+          'openai/gpt-4o': { api, tokens, cost: 0.0125 },
+          'local-model': { api, tokens },
+        },
+        tools: {
+          totalCalls: 0,
+          totalSuccess: 0,
+          totalFail: 0,
+          totalDurationMs: 0,
+          totalDecisions: { accept: 0, reject: 0, modify: 0 },
+          byName: {},
+        },
+      };
+
+      const output = renderWithMockedStats(metrics).lastFrame();
+
+      expect(output).toContain('Session Cost:');
+      expect(output).toMatch(/openai\/gpt-4o.*\$0\.0125/);
+      expect(output).toMatch(/local-model.*-/);
+    });
   });
 
   describe('Conditional Color Tests', () => {
@@ -7,6 +7,7 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import Gradient from 'ink-gradient';
+import { formatCost } from 'yak-core';
 import { Colors } from '../colors.js';
 import { formatDuration } from '../utils/formatters.js';
 import { useSessionStats, ModelMetrics } from '../contexts/SessionContext.js';
@@ -73,6 +74,10 @@ const ModelUsageTable: React.FC<{
   const requestsWidth = 8;
   const inputTokensWidth = 15;
   const outputTokensWidth = 15;
+  const costWidth = 12;
+  const showCost = Object.values(models).some(
+    (modelMetrics) => modelMetrics.cost !== undefined,
+  );
 
   return (
     <Box flexDirection="column" marginTop={1}>
@@ -90,6 +95,11 @@ const ModelUsageTable: React.FC<{
         <Box width={outputTokensWidth} justifyContent="flex-end">
           <Text bold>Output Tokens</Text>
         </Box>
+        {showCost && (
+          <Box width={costWidth} justifyContent="flex-end">
+            <Text bold>Cost</Text>
+          </Box>
+        )}
       </Box>
       {/* Divider */}
       <Box
@@ -98,7 +108,13 @@ const ModelUsageTable: React.FC<{
         borderTop={false}
         borderLeft={false}
         borderRight={false}
-        width={nameWidth + requestsWidth + inputTokensWidth + outputTokensWidth}
+        width={
+          nameWidth +
+          requestsWidth +
+          inputTokensWidth +
+          outputTokensWidth +
+          (showCost ? costWidth : 0)
+        }
       ></Box>
 
       {/* Rows */}
@@ -120,6 +136,15 @@ const ModelUsageTable: React.FC<{
               {modelMetrics.tokens.candidates.toLocaleString()}
             </Text>
           </Box>
+          {showCost && (
+            <Box width={costWidth} justifyContent="flex-end">
+              <Text color={Colors.AccentYellow}>
+                {modelMetrics.cost !== undefined
+                  ? formatCost(modelMetrics.cost)
+                  : '-'}
+              </Text>
+            </Box>
+          )}
         </Box>
       ))}
       {cacheEfficiency > 0 && (
@@ -247,6 +272,16 @@ export const StatsDisplay: React.FC<StatsDisplayProps> = ({
         </SubStatRow>
       </Section>
 
+      {computed.totalCost !== undefined && (
+        <Section title="Cost">
+          <StatRow title="Session Cost:">
+            <Text color={Colors.AccentYellow}>
+              {formatCost(computed.totalCost)}
+            </Text>
+          </StatRow>
+        </Section>
+      )}
+
       {Object.keys(models).length > 0 && (
         <ModelUsageTable
           models={models}
@@ -38,6 +38,8 @@ export interface ComputedSessionStats {
   agreementRate: number;
   totalCachedTokens: number;
   totalPromptTokens: number;
+  /** Cost in USD, undefined if the price of none of the models is known */
+  totalCost?: number;
 }
 
 // Defines the final "value" of our context, including the state
@@ -43,6 +43,7 @@ export const useSlashCommandProcessor = (
   openPrivacyNotice: () => void,
   openProviderDialog: () => void,
   openProviderListDialog: () => void,
+  openModelDialog: () => void,
 ) => {
   const session = useSessionStats();
   const [commands, setCommands] = useState<readonly SlashCommand[]>([]);
@@ -83,6 +84,7 @@ export const useSlashCommandProcessor = (
           sandboxEnv: message.sandboxEnv,
           modelVersion: message.modelVersion,
           selectedAuthType: message.selectedAuthType,
+          generationParams: message.generationParams,
         };
       } else if (message.type === MessageType.STATS) {
         historyItemContent = {
@@ -182,6 +184,7 @@ export const useSlashCommandProcessor = (
   const handleSlashCommand = useCallback(
     async (
       rawQuery: PartListUnion,
+      abortSignal?: AbortSignal,
     ): Promise<SlashCommandProcessorResult | false> => {
       if (typeof rawQuery !== 'string') {
         return false;
@@ -229,7 +232,10 @@ export const useSlashCommandProcessor = (
         const args = parts.slice(pathIndex).join(' ');
 
         if (commandToExecute.action) {
-          const result = await commandToExecute.action(commandContext, args);
+          const result = await commandToExecute.action(
+            abortSignal ? { ...commandContext, abortSignal } : commandContext,
+            args,
+          );
 
           if (result) {
             switch (result.type) {
@@ -274,6 +280,9 @@ export const useSlashCommandProcessor = (
                   case 'provider-list':
                     openProviderListDialog();
                     return { type: 'handled' };
+                  case 'model':
+                    openModelDialog();
+                    return { type: 'handled' };
                   default: {
                     const unhandled: never = result.dialog;
                     throw new Error(
@@ -339,6 +348,7 @@ export const useSlashCommandProcessor = (
       setQuittingMessages,
       openProviderDialog,
       openProviderListDialog,
+      openModelDialog,
     ],
   );
 
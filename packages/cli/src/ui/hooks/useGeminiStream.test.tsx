@@ -936,6 +936,36 @@ describe('useGeminiStream', () => {
       );
     });
 
+    it('should abort a running command when escape is pressed', async () => {
+      let commandSignal: AbortSignal | undefined;
+      mockHandleSlashCommand.mockImplementation(
+        (_query: string, signal: AbortSignal) => {
+          commandSignal = signal;
+          return new Promise((resolve) => {
+            signal.addEventListener('abort', () =>
+              resolve({ type: 'handled' }),
+            );
+          });
+        },
+      );
+
+      const { result } = renderTestHook();
+
+      let submitted: Promise<void>;
+      act(() => {
+        submitted = result.current.submitQuery('/compare a:b c:d -- hi');
+      });
+      await waitFor(() => expect(commandSignal).toBeDefined());
+
+      simulateEscapeKeyPress();
+      await act(async () => {
+        await submitted;
+      });
+
+      expect(commandSignal!.aborted).toBe(true);
+      expect(mockSendMessageStream).not.toHaveBeenCalled();
+    });
+
     it('should prevent further processing after cancellation', async () => {
       let continueStream: () => void;
       const streamPromise = new Promise<void>((resolve) => {
@@ -1053,7 +1083,10 @@ describe('useGeminiStream', () => {
       });
 
       await waitFor(() => {
-        expect(mockHandleSlashCommand).toHaveBeenCalledWith('/help');
+        expect(mockHandleSlashCommand).toHaveBeenCalledWith(
+          '/help',
+          expect.any(AbortSignal),
+        );
         expect(mockScheduleToolCalls).not.toHaveBeenCalled();
         expect(mockSendMessageStream).not.toHaveBeenCalled(); // No LLM call made
       });
@@ -87,6 +87,7 @@ export const useGeminiStream = (
   onDebugMessage: (message: string) => void,
   handleSlashCommand: (
     cmd: PartListUnion,
+    abortSignal?: AbortSignal,
   ) => Promise<SlashCommandProcessorResult | false>,
   shellModeActive: boolean,
   getPreferredEditor: () => EditorType | undefined,
@@ -98,6 +99,7 @@ export const useGeminiStream = (
   const [initError, setInitError] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const turnCancelledRef = useRef(false);
+  const slashCommandRunningRef = useRef(false);
   const [isResponding, setIsResponding] = useState<boolean>(false);
   const [thought, setThought] = useState<ThoughtSummary | null>(null);
   const [pendingHistoryItemRef, setPendingHistoryItem] =
@@ -182,6 +184,11 @@ export const useGeminiStream = (
   }, [isResponding, toolCalls]);
 
   useInput((_input, key) => {
+    if (slashCommandRunningRef.current && key.escape) {
+      // The command reports its cancellation itself
+      abortControllerRef.current?.abort();
+      return;
+    }
     if (streamingState === StreamingState.Responding && key.escape) {
       if (turnCancelledRef.current) {
         return;
@@ -237,7 +244,16 @@ export const useGeminiStream = (
         await logger?.logMessage(MessageSenderType.USER, trimmedQuery);
 
         // Handle UI-only commands first
-        const slashCommandResult = await handleSlashCommand(trimmedQuery);
+        slashCommandRunningRef.current = true;
+        let slashCommandResult: SlashCommandProcessorResult | false;
+        try {
+          slashCommandResult = await handleSlashCommand(
+            trimmedQuery,
+            abortSignal,
+          );
+        } finally {
+          slashCommandRunningRef.current = false;
+        }
 
         if (slashCommandResult) {
           if (slashCommandResult.type === 'schedule_tool') {
@@ -493,6 +509,18 @@ export const useGeminiStream = (
     [addItem, config],
   );
 
+  const handleBudgetEvent = useCallback(
+    (message: string, exceeded: boolean) =>
+      addItem(
+        {
+          type: exceeded ? MessageType.ERROR : MessageType.INFO,
+          text: message,
+        },
+        Date.now(),
+      ),
+    [addItem],
+  );
+
   const handleLoopDetectedEvent = useCallback(() => {
     addItem(
       {
@@ -548,6 +576,12 @@ export const useGeminiStream = (
               userMessageTimestamp,
             );
             break;
+          case ServerGeminiEventType.BudgetWarning:
+            handleBudgetEvent(event.value, false);
+            break;
+          case ServerGeminiEventType.BudgetExceeded:
+            handleBudgetEvent(event.value, true);
+            break;
           case ServerGeminiEventType.LoopDetected:
             // handle later because we want to move pending history to history
             // before we add loop detected message to history
@@ -573,6 +607,7 @@ export const useGeminiStream = (
       handleChatCompressionEvent,
       handleFinishedEvent,
       handleMaxSessionTurnsEvent,
+      handleBudgetEvent,
     ],
   );
 
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useState, useCallback } from 'react';
+import { Config, getErrorMessage } from 'yak-core';
+import { LoadedSettings } from '../../config/settings.js';
+import { MessageType } from '../types.js';
+import { UseHistoryManagerReturn } from './useHistoryManager.js';
+
+export interface UseModelCommandReturn {
+  /** Whether the model dialog is open */
+  isModelDialogOpen: boolean;
+  /** Open the model dialog */
+  openModelDialog: () => void;
+  /** Close the model dialog */
+  closeModelDialog: () => void;
+  /** Switch to the model selected in the dialog */
+  handleModelSelect: (providerName: string, model: string) => Promise<void>;
+}
+
+export const useModelCommand = (
+  config: Config,
+  settings: LoadedSettings,
+  addItem: UseHistoryManagerReturn['addItem'],
+  onModelSwitched: () => void,
+): UseModelCommandReturn => {
+  const [isModelDialogOpen, setIsModelDialogOpen] = useState(false);
+
+  const openModelDialog = useCallback(() => {
+    setIsModelDialogOpen(true);
+  }, []);
+
+  const closeModelDialog = useCallback(() => {
+    setIsModelDialogOpen(false);
+  }, []);
+
+  const handleModelSelect = useCallback(
+    async (providerName: string, model: string) => {
+      setIsModelDialogOpen(false);
+      const provider = (settings.merged.llmProviders || {})[providerName];
+      try {
+        await config.getGeminiClient().switchModel(model, provider);
+        onModelSwitched();
+        addItem(
+          {
+            type: MessageType.INFO,
+            text: `Switched to ${providerName}:${model}.`,
+          },
+          Date.now(),
+        );
+      } catch (error) {
+        addItem(
+          {
+            type: MessageType.ERROR,
+            text: `Failed to switch to ${providerName}:${model}: ${getErrorMessage(error)}`,
+          },
+          Date.now(),
+        );
+      }
+    },
+    [config, settings, addItem, onModelSwitched],
+  );
+
+  return {
+    isModelDialogOpen,
+    openModelDialog,
+    closeModelDialog,
+    handleModelSelect,
+  };
+};
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { act } from 'react';
+import { renderHook } from '@testing-library/react';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMProviderConfig, LLMProviderType } from 'yak-core';
+import { useProviderCommand } from './useProviderCommand.js';
+import { LoadedSettings } from '../../config/settings.js';
+
+vi.mock('yak-core', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('yak-core')>();
+  return {
+    ...actual,
+    getSecretStore: vi.fn(async () => ({ delete: vi.fn() })),
+    storeProviderApiKey: vi.fn(async (_name: string, apiKey: string) => apiKey),
+  };
+});
+
+const provider = (name: string): LLMProviderConfig => ({
+  name,
+  displayName: name,
+  type: LLMProviderType.OPENAI_COMPATIBLE,
+  apiKey: 'key',
+  baseUrl: 'https://llm.example.com/v1',
+});
+
+describe('useProviderCommand', () => {
+  let tmpDir: string;
+  let settings: LoadedSettings;
+
+  const readSettings = (file: string) =>
+    JSON.parse(fs.readFileSync(path.join(tmpDir, file), 'utf-8'));
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'provider-hook-'));
+    settings = new LoadedSettings(
+      {
+        path: path.join(tmpDir, 'system.json'),
+        settings: {
+          llmProviders: {
+            gateway: { ...provider('gateway'), locked: ['baseUrl'] },
+          },
+        },
+      },
+      {
+        path: path.join(tmpDir, 'user.json'),
+        settings: { llmProviders: { mine: provider('mine') } },
+      },
+      {
+        path: path.join(tmpDir, 'workspace.json'),
+        settings: {
+          llmProviders: { team: provider('team') },
+          defaultLLMProvider: 'team',
+        },
+      },
+      [],
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('saves workspace providers to the workspace settings', async () => {
+    const { result } = renderHook(() => useProviderCommand(settings));
+
+    await act(async () => {
+      await result.current.saveProvider({
+        ...provider('team'),
+        displayName: 'Team',
+      });
+    });
+
+    expect(readSettings('workspace.json').llmProviders.team.displayName).toBe(
+      'Team',
+    );
+    expect(fs.existsSync(path.join(tmpDir, 'user.json'))).toBe(false);
+  });
+
+  it('refines system providers in the user settings without their locks', async () => {
+    const { result } = renderHook(() => useProviderCommand(settings));
+
+    await act(async () => {
+      await result.current.saveProvider({
+        ...settings.merged.llmProviders!.gateway,
+        displayName: 'Gateway',
+      });
+    });
+
+    const { gateway } = readSettings('user.json').llmProviders;
+    expect(gateway.displayName).toBe('Gateway');
+    expect(gateway).not.toHaveProperty('locked');
+    expect(settings.merged.llmProviders!.gateway.locked).toEqual(['baseUrl']);
+  });
+
+  it('refuses to delete system and workspace providers', () => {
+    const { result } = renderHook(() => useProviderCommand(settings));
+
+    act(() => {
+      result.current.deleteProvider('gateway');
+    });
+    expect(result.current.providerError).toContain('system settings');
+
+    act(() => {
+      result.current.deleteProvider('team');
+    });
+    expect(result.current.providerError).toContain('workspace settings');
+    expect(settings.merged.llmProviders).toHaveProperty('team');
+
+    act(() => {
+      result.current.deleteProvider('mine');
+    });
+    expect(readSettings('user.json').llmProviders).toEqual({});
+  });
+
+  it('sets the default where it overrides the other scopes', () => {
+    const { result } = renderHook(() => useProviderCommand(settings));
+
+    act(() => {
+      result.current.setDefaultProvider('mine');
+    });
+
+    expect(readSettings('workspace.json').defaultLLMProvider).toBe('mine');
+    expect(settings.merged.defaultLLMProvider).toBe('mine');
+  });
+});
@@ -5,7 +5,12 @@
  */
 
 import { useState, useCallback } from 'react';
-import { LLMProviderConfig } from 'yak-core';
+import {
+  LLMProviderConfig,
+  SECRET_REFERENCE_PREFIX,
+  getSecretStore,
+  storeProviderApiKey,
+} from 'yak-core';
 import { LoadedSettings, SettingScope } from '../../config/settings.js';
 
 export interface UseProviderCommandReturn {
@@ -13,6 +18,8 @@ export interface UseProviderCommandReturn {
   isProviderDialogOpen: boolean;
   /** Whether the provider list dialog is open */
   isProviderListDialogOpen: boolean;
+  /** Why the last change to a provider was refused */
+  providerError: string | null;
   /** Current provider being edited (undefined for new provider) */
   editingProvider: { name: string; config: LLMProviderConfig } | undefined;
   /** Open provider dialog for adding new provider */
@@ -23,8 +30,8 @@ export interface UseProviderCommandReturn {
   openProviderListDialog: () => void;
   /** Close all dialogs */
   closeDialogs: () => void;
-  /** Save provider configuration */
-  saveProvider: (config: LLMProviderConfig) => void;
+  /** Save provider configuration, with the API key in the secret store */
+  saveProvider: (config: LLMProviderConfig) => Promise<void>;
   /** Delete provider */
   deleteProvider: (name: string) => void;
   /** Set default provider */
@@ -44,8 +51,10 @@ export const useProviderCommand = (
       }
     | undefined
   >(undefined);
+  const [providerError, setProviderError] = useState<string | null>(null);
 
   const openAddProviderDialog = useCallback(() => {
+    setProviderError(null);
     setEditingProvider(undefined);
     setIsProviderDialogOpen(true);
     setIsProviderListDialogOpen(false);
@@ -53,6 +62,7 @@ export const useProviderCommand = (
 
   const openEditProviderDialog = useCallback(
     (name: string, config: LLMProviderConfig) => {
+      setProviderError(null);
       setEditingProvider({ name, config });
       setIsProviderDialogOpen(true);
       setIsProviderListDialogOpen(false);
@@ -61,29 +71,43 @@ export const useProviderCommand = (
   );
 
   const openProviderListDialog = useCallback(() => {
+    setProviderError(null);
     setIsProviderListDialogOpen(true);
     setIsProviderDialogOpen(false);
     setEditingProvider(undefined);
   }, []);
 
   const closeDialogs = useCallback(() => {
+    setProviderError(null);
     setIsProviderDialogOpen(false);
     setIsProviderListDialogOpen(false);
     setEditingProvider(undefined);
   }, []);
 
   const saveProvider = useCallback(
-    (config: LLMProviderConfig) => {
-      const existingProviders = settings.merged.llmProviders || {};
+    async (config: LLMProviderConfig) => {
+      // The dialog edits the merged provider, whose locked fields come from
+      // the system settings
+      const { locked: _locked, ...definition } = config;
+      const apiKey = await storeProviderApiKey(config.name, config.apiKey);
+      // A workspace provider replaces the user one, so it is edited in place.
+      // Other providers, system ones included, are refined by the user
+      // settings.
+      const scope = settings
+        .getLLMProviderScopes(config.name)
+        .includes(SettingScope.Workspace)
+        ? SettingScope.Workspace
+        : SettingScope.User;
       const updatedProviders = {
-        ...existingProviders,
-        [config.name]: config,
+        ...settings.forScope(scope).settings.llmProviders,
+        [config.name]: { ...definition, apiKey },
       };
 
       // If this is the first provider, make it the default
-      const shouldSetAsDefault = Object.keys(existingProviders).length === 0;
+      const shouldSetAsDefault =
+        Object.keys(settings.merged.llmProviders || {}).length === 0;
 
-      settings.setValue(SettingScope.User, 'llmProviders', updatedProviders);
+      settings.setValue(scope, 'llmProviders', updatedProviders);
 
       if (shouldSetAsDefault) {
         settings.setValue(SettingScope.User, 'defaultLLMProvider', config.name);
@@ -96,10 +120,34 @@ export const useProviderCommand = (
 
   const deleteProvider = useCallback(
     (name: string) => {
-      const existingProviders = settings.merged.llmProviders || {};
+      const scopes = settings.getLLMProviderScopes(name);
+      if (scopes.includes(SettingScope.System)) {
+        setProviderError(
+          `Provider "${name}" is defined in the system settings and cannot be removed.`,
+        );
+        return;
+      }
+      if (!scopes.includes(SettingScope.User)) {
+        setProviderError(
+          `Provider "${name}" is defined in the workspace settings. Remove it from ${settings.workspace.path}.`,
+        );
+        return;
+      }
+
+      const existingProviders = settings.user.settings.llmProviders || {};
       const updatedProviders = { ...existingProviders };
       delete updatedProviders[name];
 
+      if (
+        existingProviders[name]?.apiKey === `${SECRET_REFERENCE_PREFIX}${name}`
+      ) {
+        getSecretStore()
+          .then((store) => store.delete(name))
+          .catch(() => {
+            // The provider is gone either way, a stale secret is harmless
+          });
+      }
+
       settings.setValue(SettingScope.User, 'llmProviders', updatedProviders);
 
       // If this was the default provider, clear the default
@@ -114,7 +162,12 @@ export const useProviderCommand = (
 
   const setDefaultProvider = useCallback(
     (name: string) => {
-      settings.setValue(SettingScope.User, 'defaultLLMProvider', name);
+      // A default of the workspace settings would override the user one
+      const scope =
+        settings.workspace.settings.defaultLLMProvider !== undefined
+          ? SettingScope.Workspace
+          : SettingScope.User;
+      settings.setValue(scope, 'defaultLLMProvider', name);
       closeDialogs();
     },
     [settings, closeDialogs],
@@ -123,6 +176,7 @@ export const useProviderCommand = (
   return {
     isProviderDialogOpen,
     isProviderListDialogOpen,
+    providerError,
     editingProvider,
     openAddProviderDialog,
     openEditProviderDialog,
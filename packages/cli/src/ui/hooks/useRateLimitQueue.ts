@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { RateLimitQueueStatus, rateLimitEvents } from 'yak-core';
+
+/**
+ * Follows the rate limit queues of the providers
+ * @returns The queue with the longest waiting request, undefined while no
+ *   request waits for a rate limit
+ */
+export function useRateLimitQueue(): RateLimitQueueStatus | undefined {
+  const [queues, setQueues] = useState<Record<string, RateLimitQueueStatus>>(
+    {},
+  );
+
+  useEffect(() => {
+    const handleQueue = (status: RateLimitQueueStatus) => {
+      setQueues((previous) => {
+        const { [status.provider]: _previous, ...others } = previous;
+        return status.queued > 0
+          ? { ...others, [status.provider]: status }
+          : others;
+      });
+    };
+    rateLimitEvents.on('queue', handleQueue);
+    return () => {
+      rateLimitEvents.off('queue', handleQueue);
+    };
+  }, []);
+
+  return Object.values(queues).reduce<RateLimitQueueStatus | undefined>(
+    (oldest, queue) =>
+      !oldest || (queue.waitingSince ?? 0) < (oldest.waitingSince ?? 0)
+        ? queue
+        : oldest,
+    undefined,
+  );
+}
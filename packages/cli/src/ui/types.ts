@@ -4,7 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { ToolCallConfirmationDetails, ToolResultDisplay } from 'yak-core';
+import {
+  ComparisonAnswer,
+  ToolCallConfirmationDetails,
+  ToolResultDisplay,
+} from 'yak-core';
 
 // Only defining the state enum needed by the UI
 export enum StreamingState {
@@ -91,6 +95,7 @@ export type HistoryItemAbout = HistoryItemBase & {
   sandboxEnv: string;
   modelVersion: string;
   selectedAuthType: string;
+  generationParams: string;
 };
 
 export type HistoryItemStats = HistoryItemBase & {
@@ -126,6 +131,12 @@ export type HistoryItemCompression = HistoryItemBase & {
   compression: CompressionProps;
 };
 
+export type HistoryItemComparison = HistoryItemBase & {
+  type: 'comparison';
+  prompt: string;
+  answers: ComparisonAnswer[];
+};
+
 // Using Omit<HistoryItem, 'id'> seems to have some issues with typescript's
 // type inference e.g. historyItem.type === 'tool_group' isn't auto-inferring that
 // 'tools' in historyItem.
@@ -143,7 +154,8 @@ export type HistoryItemWithoutId =
   | HistoryItemModelStats
   | HistoryItemToolStats
   | HistoryItemQuit
-  | HistoryItemCompression;
+  | HistoryItemCompression
+  | HistoryItemComparison;
 
 export type HistoryItem = HistoryItemWithoutId & { id: number };
 
@@ -159,6 +171,7 @@ export enum MessageType {
   QUIT = 'quit',
   GEMINI = 'gemini',
   COMPRESSION = 'compression',
+  COMPARISON = 'comparison',
 }
 
 // Simplified message structure for internal feedback
@@ -176,6 +189,7 @@ export type Message =
       sandboxEnv: string;
       modelVersion: string;
       selectedAuthType: string;
+      generationParams: string;
       gcpProject: string;
       content?: string; // Optional content, not really used for ABOUT
     }
@@ -56,6 +56,11 @@ export const computeSessionStats = (
   );
   const cacheEfficiency =
     totalPromptTokens > 0 ? (totalCachedTokens / totalPromptTokens) * 100 : 0;
+  const costs = Object.values(models)
+    .map((model) => model.cost)
+    .filter((cost): cost is number => cost !== undefined);
+  const totalCost =
+    costs.length > 0 ? costs.reduce((acc, cost) => acc + cost, 0) : undefined;
 
   const totalDecisions =
     tools.totalDecisions.accept +
@@ -80,5 +85,6 @@ export const computeSessionStats = (
     agreementRate,
     totalCachedTokens,
     totalPromptTokens,
+    totalCost,
   };
 };
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
 import { Config, ConfigParameters, SandboxConfig } from './config.js';
 import * as path from 'path';
 import { setGeminiMdFilename as mockSetGeminiMdFilename } from '../tools/memoryTool.js';
@@ -18,6 +18,7 @@ import {
 } from '../core/contentGenerator.js';
 import { GeminiClient } from '../core/client.js';
 import { GitService } from '../services/gitService.js';
+import { LLMProviderType } from './llmProvider.js';
 import { loadServerHierarchicalMemory } from '../utils/memoryDiscovery.js';
 
 // Mock dependencies that might be called during Config construction or createServerConfig
@@ -167,6 +168,89 @@ describe('Server Config (config.ts)', () => {
     });
   });
 
+  describe('setModel', () => {
+    it('only switches to models the provider allows', async () => {
+      const config = new Config(baseParams);
+      (createContentGeneratorConfig as Mock).mockReturnValue({
+        model: 'gpt-4o',
+        authType: AuthType.USE_LLM_PROVIDER,
+        llmProvider: {
+          name: 'gateway',
+          displayName: 'Gateway',
+          type: LLMProviderType.OPENAI_COMPATIBLE,
+          apiKey: 'key',
+          allowedModels: ['gpt-4o', 'gpt-4o-mini'],
+        },
+      });
+      await config.refreshAuth(AuthType.USE_LLM_PROVIDER);
+
+      config.setModel('gpt-4o-mini');
+      expect(config.getModel()).toBe('gpt-4o-mini');
+      expect(() => config.setModel('o3')).toThrow(
+        'Model "o3" is not allowed for LLM provider "gateway". Allowed models: gpt-4o, gpt-4o-mini.',
+      );
+      expect(config.getModel()).toBe('gpt-4o-mini');
+    });
+
+    it('marks the model as explicitly chosen', async () => {
+      const config = new Config(baseParams);
+      (createContentGeneratorConfig as Mock).mockReturnValue({
+        model: 'gemini-pro',
+        authType: AuthType.USE_GEMINI,
+      });
+      await config.refreshAuth(AuthType.USE_GEMINI);
+      expect(config.isModelExplicit()).toBe(false);
+
+      config.setModel('gemini-pro');
+      expect(config.isModelExplicit()).toBe(true);
+      expect(
+        new Config({ ...baseParams, modelExplicit: true }).isModelExplicit(),
+      ).toBe(true);
+    });
+  });
+
+  describe('getGenerationParams', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('reads the legacy environment variables for custom LLMs only', async () => {
+      vi.stubEnv('CUSTOM_LLM_TEMPERATURE', '0.7');
+      const config = new Config(baseParams);
+
+      (createContentGeneratorConfig as Mock).mockReturnValue({
+        model: MODEL,
+        authType: AuthType.USE_GEMINI,
+      });
+      await config.refreshAuth(AuthType.USE_GEMINI);
+      expect(config.getGenerationParams()).toEqual({ temperature: 0, topP: 1 });
+
+      (createContentGeneratorConfig as Mock).mockReturnValue({
+        model: 'gpt-4o',
+        authType: AuthType.USE_LLM_PROVIDER,
+        llmProvider: {
+          name: 'gateway',
+          displayName: 'Gateway',
+          type: LLMProviderType.OPENAI_COMPATIBLE,
+          apiKey: 'key',
+        },
+      });
+      await config.refreshAuth(AuthType.USE_LLM_PROVIDER);
+      expect(config.getGenerationParams()).toEqual({ temperature: 0, topP: 1 });
+      expect(config.getGenerationParamsLayers().env).toBeUndefined();
+
+      (createContentGeneratorConfig as Mock).mockReturnValue({
+        model: 'local-model',
+        authType: AuthType.USE_CUSTOM_LLM,
+      });
+      await config.refreshAuth(AuthType.USE_CUSTOM_LLM);
+      expect(config.getGenerationParams()).toEqual({
+        temperature: 0.7,
+        topP: 1,
+      });
+    });
+  });
+
   it('Config constructor should store userMemory correctly', () => {
     const config = new Config(baseParams);
 
@@ -29,6 +29,7 @@ import {
 import { WebSearchTool } from '../tools/web-search.js';
 import { GeminiClient } from '../core/client.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import { BudgetService, BudgetSettings } from '../services/budgetService.js';
 import { GitService } from '../services/gitService.js';
 import { loadServerHierarchicalMemory } from '../utils/memoryDiscovery.js';
 import { getProjectTempDir } from '../utils/paths.js';
@@ -44,6 +45,13 @@ import {
   DEFAULT_GEMINI_FLASH_MODEL,
 } from './models.js';
 import { ClearcutLogger } from '../telemetry/clearcut-logger/clearcut-logger.js';
+import { LLMProviderConfig, assertModelAllowed } from './llmProvider.js';
+import {
+  GenerationParams,
+  GenerationParamsLayers,
+  getGenerationParamsFromEnv,
+  resolveGenerationParams,
+} from './generationParams.js';
 import { shouldAttemptBrowserLaunch } from '../utils/browser.js';
 
 export enum ApprovalMode {
@@ -126,6 +134,12 @@ export type FlashFallbackHandler = (
   error?: unknown,
 ) => Promise<boolean | string | null>;
 
+export type ProviderFailoverHandler = (
+  from: string,
+  to: string,
+  error?: unknown,
+) => void;
+
 export interface ConfigParameters {
   sessionId: string;
   embeddingModel?: string;
@@ -159,6 +173,8 @@ export interface ConfigParameters {
   fileDiscoveryService?: FileDiscoveryService;
   bugCommand?: BugCommandSettings;
   model: string;
+  /** Whether the model was chosen by the user rather than defaulted */
+  modelExplicit?: boolean;
   extensionContextFilePaths?: string[];
   maxSessionTurns?: number;
   experimentalAcp?: boolean;
@@ -168,6 +184,13 @@ export interface ConfigParameters {
   noBrowser?: boolean;
   summarizeToolOutput?: Record<string, SummarizeToolOutputSettings>;
   ideMode?: boolean;
+  llmProviders?: Record<string, LLMProviderConfig>;
+  defaultLLMProvider?: string;
+  llmProvider?: string;
+  providerFallbacks?: string[];
+  generationParams?: GenerationParams;
+  recordFixture?: string;
+  budget?: BudgetSettings;
 }
 
 export class Config {
@@ -206,6 +229,7 @@ export class Config {
   private readonly cwd: string;
   private readonly bugCommand: BugCommandSettings | undefined;
   private readonly model: string;
+  private readonly modelExplicit: boolean;
   private readonly extensionContextFilePaths: string[];
   private readonly noBrowser: boolean;
   private readonly ideMode: boolean;
@@ -218,11 +242,21 @@ export class Config {
     extensionName: string;
   }>;
   flashFallbackHandler?: FlashFallbackHandler;
+  providerFailoverHandler?: ProviderFailoverHandler;
   private quotaErrorOccurred: boolean = false;
   private readonly summarizeToolOutput:
     | Record<string, SummarizeToolOutputSettings>
     | undefined;
   private readonly experimentalAcp: boolean = false;
+  private readonly llmProviders: Record<string, LLMProviderConfig>;
+  private readonly defaultLLMProvider: string | undefined;
+  private readonly llmProvider: string | undefined;
+  private readonly providerFallbacks: string[];
+  private readonly generationParams: GenerationParams;
+  private sessionGenerationParams: GenerationParams = {};
+  private readonly recordFixture: string | undefined;
+  private readonly budget: BudgetSettings;
+  private budgetService: BudgetService | undefined;
 
   constructor(params: ConfigParameters) {
     this.sessionId = params.sessionId;
@@ -264,6 +298,7 @@ export class Config {
     this.fileDiscoveryService = params.fileDiscoveryService ?? null;
     this.bugCommand = params.bugCommand;
     this.model = params.model;
+    this.modelExplicit = params.modelExplicit ?? false;
     this.extensionContextFilePaths = params.extensionContextFilePaths ?? [];
     this.maxSessionTurns = params.maxSessionTurns ?? -1;
     this.experimentalAcp = params.experimentalAcp ?? false;
@@ -273,6 +308,13 @@ export class Config {
     this.noBrowser = params.noBrowser ?? false;
     this.summarizeToolOutput = params.summarizeToolOutput;
     this.ideMode = params.ideMode ?? false;
+    this.llmProviders = params.llmProviders ?? {};
+    this.defaultLLMProvider = params.defaultLLMProvider;
+    this.llmProvider = params.llmProvider;
+    this.providerFallbacks = params.providerFallbacks ?? [];
+    this.generationParams = params.generationParams ?? {};
+    this.recordFixture = params.recordFixture;
+    this.budget = params.budget ?? {};
 
     if (params.contextFileName) {
       setGeminiMdFilename(params.contextFileName);
@@ -325,8 +367,14 @@ export class Config {
     return this.contentGeneratorConfig?.model || this.model;
   }
 
+  /**
+   * @throws Error if the current provider does not allow the model
+   */
   setModel(newModel: string): void {
     if (this.contentGeneratorConfig) {
+      if (this.contentGeneratorConfig.llmProvider) {
+        assertModelAllowed(this.contentGeneratorConfig.llmProvider, newModel);
+      }
       this.contentGeneratorConfig.model = newModel;
       this.modelSwitchedDuringSession = true;
     }
@@ -336,6 +384,14 @@ export class Config {
     return this.modelSwitchedDuringSession;
   }
 
+  /**
+   * Whether the current model was chosen by the user, at startup or during
+   * the session, rather than defaulted
+   */
+  isModelExplicit(): boolean {
+    return this.modelExplicit || this.modelSwitchedDuringSession;
+  }
+
   resetModelToDefault(): void {
     if (this.contentGeneratorConfig) {
       this.contentGeneratorConfig.model = this.model; // Reset to the original default model
@@ -347,6 +403,25 @@ export class Config {
     this.flashFallbackHandler = handler;
   }
 
+  setProviderFailoverHandler(handler: ProviderFailoverHandler): void {
+    this.providerFailoverHandler = handler;
+  }
+
+  /**
+   * Switches the session to another LLM provider and model. The caller is
+   * responsible for creating the matching content generator.
+   * @throws Error if the provider does not allow the model
+   */
+  setLLMProvider(provider: LLMProviderConfig, model: string): void {
+    assertModelAllowed(provider, model);
+    if (this.contentGeneratorConfig) {
+      this.contentGeneratorConfig.authType = AuthType.USE_LLM_PROVIDER;
+      this.contentGeneratorConfig.llmProvider = provider;
+      this.contentGeneratorConfig.model = model;
+      this.modelSwitchedDuringSession = true;
+    }
+  }
+
   getMaxSessionTurns(): number {
     return this.maxSessionTurns;
   }
@@ -557,6 +632,85 @@ export class Config {
     return this.ideMode;
   }
 
+  getLLMProviders(): Record<string, LLMProviderConfig> {
+    return this.llmProviders;
+  }
+
+  getDefaultLLMProvider(): string | undefined {
+    return this.defaultLLMProvider;
+  }
+
+  /**
+   * Returns the provider explicitly requested for this session (e.g. via
+   * `--provider`), if any. Takes precedence over the default provider.
+   */
+  getLLMProvider(): string | undefined {
+    return this.llmProvider;
+  }
+
+  /**
+   * Returns the fallback chain, "provider" or "provider:model" entries in the
+   * order they are tried when the current provider fails.
+   */
+  getProviderFallbacks(): string[] {
+    return this.providerFallbacks;
+  }
+
+  /**
+   * Returns the fixture file that model requests and responses are recorded
+   * to, undefined unless recording with --record
+   */
+  getRecordFixture(): string | undefined {
+    return this.recordFixture;
+  }
+
+  /**
+   * Returns the configured spending limits of sessions and days
+   */
+  getBudget(): BudgetSettings {
+    return this.budget;
+  }
+
+  getBudgetService(): BudgetService {
+    this.budgetService ??= new BudgetService(this.budget, this.sessionId);
+    return this.budgetService;
+  }
+
+  /**
+   * Returns the configured generation parameters of the current provider
+   * and model, by layer
+   */
+  getGenerationParamsLayers(): GenerationParamsLayers {
+    const provider = this.contentGeneratorConfig?.llmProvider;
+    const authType = this.contentGeneratorConfig?.authType;
+    return {
+      // Provider-backed generators never read the CUSTOM_LLM_* variables
+      env:
+        authType === AuthType.USE_CUSTOM_LLM
+          ? getGenerationParamsFromEnv()
+          : undefined,
+      settings: this.generationParams,
+      provider: provider?.params,
+      model: provider?.models?.[this.getModel()]?.params,
+      session: this.sessionGenerationParams,
+    };
+  }
+
+  /**
+   * Returns the generation parameters requests are sent with
+   */
+  getGenerationParams(): GenerationParams {
+    return resolveGenerationParams(this.getGenerationParamsLayers());
+  }
+
+  /**
+   * Replaces the overrides of the current session. The caller is
+   * responsible for restarting the chat so that they take effect.
+   */
+  setSessionGenerationParams(params: GenerationParams): void {
+    this.sessionGenerationParams = params;
+  }
+
   async getGitService(): Promise<GitService> {
     if (!this.gitService) {
       this.gitService = new GitService(this.targetDir);
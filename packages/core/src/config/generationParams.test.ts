@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  formatGenerationParams,
+  getGenerationParamsFromEnv,
+  parseGenerationParam,
+  resolveGenerationParams,
+  toGenerateContentConfig,
+  toReasoningEffort,
+  validateGenerationParams,
+} from './generationParams.js';
+
+describe('generationParams', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('resolves the layers in order of precedence', () => {
+    vi.stubEnv('CUSTOM_LLM_TEMPERATURE', '0.2');
+    vi.stubEnv('CUSTOM_LLM_MAX_TOKENS', '4096');
+
+    expect(
+      resolveGenerationParams({
+        env: getGenerationParamsFromEnv(),
+        settings: { maxOutputTokens: 2048, seed: 1 },
+        provider: { seed: 2, topK: 40 },
+        model: { topK: 20 },
+        session: { temperature: 0.9, topP: undefined },
+      }),
+    ).toEqual({
+      temperature: 0.9,
+      topP: 1,
+      maxOutputTokens: 2048,
+      seed: 2,
+      topK: 20,
+    });
+    expect(
+      resolveGenerationParams({ env: getGenerationParamsFromEnv() }),
+    ).toEqual({
+      temperature: 0.2,
+      topP: 1,
+      maxOutputTokens: 4096,
+    });
+    expect(resolveGenerationParams({})).toEqual({ temperature: 0, topP: 1 });
+  });
+
+  it('ignores invalid values of the legacy environment variables', () => {
+    vi.stubEnv('CUSTOM_LLM_TEMPERATURE', 'abc');
+    vi.stubEnv('CUSTOM_LLM_TOP_P', '0.9');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(getGenerationParamsFromEnv()).toEqual({ topP: 0.9 });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('Ignoring CUSTOM_LLM_TEMPERATURE'),
+    );
+    warn.mockRestore();
+  });
+
+  it('sends the reasoning effort as a thinking budget', () => {
+    expect(
+      toGenerateContentConfig({ temperature: 0, reasoningEffort: 'medium' }),
+    ).toEqual({
+      temperature: 0,
+      thinkingConfig: { includeThoughts: true, thinkingBudget: 8192 },
+    });
+    expect(toReasoningEffort(8192)).toBe('medium');
+    expect(toReasoningEffort(2000)).toBe('medium');
+    expect(toReasoningEffort(100_000)).toBe('high');
+    expect(toReasoningEffort(0)).toBeUndefined();
+  });
+
+  it('parses and validates parameter values', () => {
+    expect(parseGenerationParam('temperature', '0.7')).toBe(0.7);
+    expect(parseGenerationParam('stopSequences', 'END, ###')).toEqual([
+      'END',
+      '###',
+    ]);
+    expect(parseGenerationParam('reasoningEffort', 'High')).toBe('high');
+    expect(() => parseGenerationParam('topK', '2.5')).toThrow(
+      'topK must be a non-negative integer',
+    );
+    expect(() => parseGenerationParam('temperature', 'warm')).toThrow(
+      'temperature must be a number',
+    );
+    expect(validateGenerationParams({ reasoningEffort: 'max' as 'high' })).toBe(
+      'reasoningEffort must be "low", "medium" or "high"',
+    );
+    expect(
+      validateGenerationParams({ warmth: 1 } as Record<string, number>),
+    ).toBe('Unknown generation parameter "warmth"');
+  });
+
+  it('formats parameters for display', () => {
+    expect(
+      formatGenerationParams({ temperature: 0, stopSequences: ['END'] }),
+    ).toBe('temperature=0, stopSequences=["END"]');
+    expect(formatGenerationParams({})).toBe('API defaults');
+  });
+});
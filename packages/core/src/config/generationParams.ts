@@ -0,0 +1,276 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentConfig } from '@google/genai';
+import { getErrorMessage } from '../utils/errors.js';
+
+/**
+ * How much a reasoning model thinks before it answers
+ */
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * Sampling and output settings of a model. Unset values use the defaults of
+ * the layer below, and finally the defaults of the model's API.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  reasoningEffort?: ReasoningEffort;
+}
+
+/**
+ * Layers of generation parameters, in ascending order of precedence
+ */
+export interface GenerationParamsLayers {
+  /** The legacy environment variables, only read for custom LLMs */
+  env?: GenerationParams;
+  /** The `generationParams` setting */
+  settings?: GenerationParams;
+  /** The `params` of the provider */
+  provider?: GenerationParams;
+  /** The `params` of the model in the provider's `models` */
+  model?: GenerationParams;
+  /** Overrides set with /params for the current session */
+  session?: GenerationParams;
+}
+
+/** Parameters used when nothing else is configured. */
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  temperature: 0,
+  topP: 1,
+};
+
+/**
+ * Thinking budgets in tokens that reasoning efforts are sent as to APIs that
+ * take a budget instead of an effort
+ */
+export const REASONING_EFFORT_BUDGETS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
+
+type GenerationParamKind = 'number' | 'integer' | 'list' | 'effort';
+
+const GENERATION_PARAM_KINDS: Record<
+  keyof GenerationParams,
+  GenerationParamKind
+> = {
+  temperature: 'number',
+  topP: 'number',
+  topK: 'integer',
+  maxOutputTokens: 'integer',
+  stopSequences: 'list',
+  seed: 'integer',
+  presencePenalty: 'number',
+  frequencyPenalty: 'number',
+  reasoningEffort: 'effort',
+};
+
+/** Names of all generation parameters. */
+export const GENERATION_PARAM_NAMES = Object.keys(
+  GENERATION_PARAM_KINDS,
+) as Array<keyof GenerationParams>;
+
+/**
+ * Whether a string names a generation parameter
+ */
+export function isGenerationParamName(
+  name: string,
+): name is keyof GenerationParams {
+  return Object.prototype.hasOwnProperty.call(GENERATION_PARAM_KINDS, name);
+}
+
+/**
+ * Reads the legacy CUSTOM_LLM_TEMPERATURE, CUSTOM_LLM_TOP_P and
+ * CUSTOM_LLM_MAX_TOKENS environment variables. Invalid values are ignored
+ * with a warning.
+ * @returns The parameters of the variables that are set
+ */
+export function getGenerationParamsFromEnv(): GenerationParams {
+  const readNumber = (
+    variable: string,
+    name: 'temperature' | 'topP' | 'maxOutputTokens',
+  ) => {
+    const value = process.env[variable];
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return parseGenerationParam(name, value);
+    } catch (error) {
+      console.warn(`Ignoring ${variable}: ${getErrorMessage(error)}`);
+      return undefined;
+    }
+  };
+  return removeUnset({
+    temperature: readNumber('CUSTOM_LLM_TEMPERATURE', 'temperature'),
+    topP: readNumber('CUSTOM_LLM_TOP_P', 'topP'),
+    maxOutputTokens: readNumber('CUSTOM_LLM_MAX_TOKENS', 'maxOutputTokens'),
+  });
+}
+
+/**
+ * Merges the layers of generation parameters on top of the defaults
+ * @param layers The configured layers
+ * @returns The effective parameters
+ */
+export function resolveGenerationParams(
+  layers: GenerationParamsLayers,
+): GenerationParams {
+  return {
+    ...DEFAULT_GENERATION_PARAMS,
+    ...removeUnset(layers.env),
+    ...removeUnset(layers.settings),
+    ...removeUnset(layers.provider),
+    ...removeUnset(layers.model),
+    ...removeUnset(layers.session),
+  };
+}
+
+/**
+ * Converts generation parameters to the request config of a model. A
+ * reasoning effort is sent as the matching thinking budget.
+ */
+export function toGenerateContentConfig(
+  params: GenerationParams,
+): GenerateContentConfig {
+  const { reasoningEffort, ...config } = params;
+  return removeUnset({
+    ...config,
+    thinkingConfig: reasoningEffort
+      ? {
+          includeThoughts: true,
+          thinkingBudget: REASONING_EFFORT_BUDGETS[reasoningEffort],
+        }
+      : undefined,
+  });
+}
+
+/**
+ * Maps a thinking budget back to the reasoning effort for APIs that take an
+ * effort, e.g. OpenAI's reasoning_effort
+ * @returns The smallest effort whose budget covers the given one, undefined
+ *   if thinking is off
+ */
+export function toReasoningEffort(
+  thinkingBudget: number | undefined,
+): ReasoningEffort | undefined {
+  if (!thinkingBudget || thinkingBudget <= 0) {
+    return undefined;
+  }
+  if (thinkingBudget <= REASONING_EFFORT_BUDGETS.low) {
+    return 'low';
+  }
+  if (thinkingBudget <= REASONING_EFFORT_BUDGETS.medium) {
+    return 'medium';
+  }
+  return 'high';
+}
+
+/**
+ * Validates generation parameters, e.g. from settings
+ * @returns Error message if invalid, null if valid
+ */
+export function validateGenerationParams(
+  params: GenerationParams,
+): string | null {
+  for (const [name, value] of Object.entries(params)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (!isGenerationParamName(name)) {
+      return `Unknown generation parameter "${name}"`;
+    }
+    const error = validateGenerationParam(name, value);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses the value of a generation parameter as entered by the user, e.g.
+ * with /params set
+ * @param name The parameter name
+ * @param input The value, stop sequences are separated by commas
+ * @returns The parsed value
+ * @throws Error if the name is unknown or the value invalid
+ */
+export function parseGenerationParam<K extends keyof GenerationParams>(
+  name: K,
+  input: string,
+): GenerationParams[K] {
+  const kind = GENERATION_PARAM_KINDS[name];
+  let value: unknown;
+  if (kind === 'list') {
+    value = input
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  } else if (kind === 'effort') {
+    value = input.trim().toLowerCase();
+  } else {
+    value = input.trim() === '' ? NaN : Number(input);
+  }
+  const error = validateGenerationParam(name, value);
+  if (error) {
+    throw new Error(error);
+  }
+  return value as GenerationParams[K];
+}
+
+/**
+ * Formats generation parameters as "name=value" pairs
+ */
+export function formatGenerationParams(params: GenerationParams): string {
+  const entries = GENERATION_PARAM_NAMES.filter(
+    (name) => params[name] !== undefined,
+  ).map((name) => {
+    const value = params[name];
+    return `${name}=${Array.isArray(value) ? JSON.stringify(value) : value}`;
+  });
+  return entries.length > 0 ? entries.join(', ') : 'API defaults';
+}
+
+function validateGenerationParam(
+  name: keyof GenerationParams,
+  value: unknown,
+): string | null {
+  switch (GENERATION_PARAM_KINDS[name]) {
+    case 'list':
+      return Array.isArray(value) &&
+        value.every((item) => typeof item === 'string')
+        ? null
+        : `${name} must be a list of strings`;
+    case 'effort':
+      return value === 'low' || value === 'medium' || value === 'high'
+        ? null
+        : `${name} must be "low", "medium" or "high"`;
+    case 'integer':
+      return Number.isInteger(value) && (value as number) >= 0
+        ? null
+        : `${name} must be a non-negative integer`;
+    default:
+      return typeof value === 'number' && Number.isFinite(value)
+        ? null
+        : `${name} must be a number`;
+  }
+}
+
+function removeUnset<T extends object>(value: T | undefined): T {
+  return Object.fromEntries(
+    Object.entries(value ?? {}).filter(([, v]) => v !== undefined),
+  ) as T;
+}
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  LLMProviderConfig,
+  LLMProviderType,
+  fromLLMProviderDefinition,
+  toLLMProviderDefinition,
+  validateLLMProviderConfig,
+} from './llmProvider.js';
+
+const openrouter: LLMProviderConfig = {
+  name: 'openrouter',
+  displayName: 'OpenRouter',
+  type: LLMProviderType.OPENROUTER,
+  apiKey: 'sk-or-1',
+};
+
+describe('validateLLMProviderConfig', () => {
+  it('accepts headers, query parameters and routing options', () => {
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        headers: { 'HTTP-Referer': 'https://example.com', 'X-Title': 'yak' },
+        queryParams: { 'api-version': '2024-10-21' },
+        apiKeyHeader: 'api-key',
+        openrouter: { order: ['anthropic'], dataCollection: 'deny' },
+      }),
+    ).toBeNull();
+  });
+
+  it('rejects invalid headers', () => {
+    expect(
+      validateLLMProviderConfig({ ...openrouter, headers: { 'X Title': 'a' } }),
+    ).toBe('Header "X Title" is not a valid header name');
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        headers: { 'X-Title': 'a\r\nX-Injected: b' },
+      }),
+    ).toBe('Header "X-Title" must be a single line of text');
+    expect(
+      validateLLMProviderConfig({ ...openrouter, apiKeyHeader: 'api key' }),
+    ).toBe('API key header "api key" is not a valid header name');
+  });
+
+  it('rejects invalid routing options', () => {
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        type: LLMProviderType.OPENAI_COMPATIBLE,
+        openrouter: { order: ['anthropic'] },
+      }),
+    ).toBe('OpenRouter routing options require an OpenRouter provider');
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        openrouter: {
+          dataCollection: 'never' as unknown as 'deny',
+        },
+      }),
+    ).toBe('OpenRouter dataCollection must be "allow" or "deny"');
+  });
+
+  it('validates model pricing overrides', () => {
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        models: { 'openai/o3': { pricing: { prompt: 2, completion: 8 } } },
+      }),
+    ).toBeNull();
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        models: {
+          'openai/o3': { pricing: { prompt: 2, completion: -1 } },
+        },
+      }),
+    ).toBe(
+      'Model "openai/o3": pricing.completion must be a non-negative number of USD per million tokens',
+    );
+  });
+
+  it('validates rate limits', () => {
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        rateLimit: { requestsPerMinute: 20, tokensPerMinute: 40000 },
+      }),
+    ).toBeNull();
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        rateLimit: { tokensPerMinute: 0 },
+      }),
+    ).toBe('rateLimit.tokensPerMinute must be a positive number');
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        rateLimit: { maxConcurrent: 1.5 },
+      }),
+    ).toBe('rateLimit.maxConcurrent must be a whole number of at least 1');
+  });
+
+  it('validates the allowed models', () => {
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        model: 'openai/gpt-4o',
+        allowedModels: ['openai/gpt-4o', 'openai/gpt-4o-mini'],
+      }),
+    ).toBeNull();
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        model: 'openai/o3',
+        allowedModels: ['openai/gpt-4o'],
+      }),
+    ).toBe('The default model "openai/o3" is not in allowedModels');
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        allowedModels: 'openai/gpt-4o' as unknown as string[],
+      }),
+    ).toBe('allowedModels must be a list of model names');
+  });
+
+  it('requires the resource URL of Azure OpenAI providers', () => {
+    const azure: LLMProviderConfig = {
+      name: 'azure',
+      displayName: 'Azure OpenAI',
+      type: LLMProviderType.AZURE_OPENAI,
+      apiKey: 'key',
+    };
+    expect(validateLLMProviderConfig(azure)).toBe(
+      'Azure OpenAI providers require the base URL of their resource, e.g. https://<resource>.openai.azure.com/openai',
+    );
+    expect(
+      validateLLMProviderConfig({
+        ...azure,
+        baseUrl: 'https://contoso.openai.azure.com/openai',
+        azure: { apiVersion: '2025-01-01-preview' },
+        models: { 'gpt-4o': { deployment: 'prod-gpt4o' } },
+      }),
+    ).toBeNull();
+    expect(
+      validateLLMProviderConfig({
+        ...openrouter,
+        azure: { apiVersion: '2024-10-21' },
+      }),
+    ).toBe('Azure options require an Azure OpenAI provider');
+  });
+
+  it('requires a fixture for replay providers', () => {
+    const replay: LLMProviderConfig = {
+      name: 'replay',
+      displayName: 'Replay',
+      type: LLMProviderType.REPLAY,
+      apiKey: '',
+    };
+    expect(validateLLMProviderConfig(replay)).toBe(
+      'Replay providers require "replay.fixture", the recorded fixture file',
+    );
+    expect(
+      validateLLMProviderConfig({
+        ...replay,
+        replay: { fixture: 'fixtures/session.json' },
+      }),
+    ).toBeNull();
+  });
+});
+
+describe('provider definitions', () => {
+  it('leave out the API key and refer to the secret store on import', () => {
+    const definition = toLLMProviderDefinition({
+      ...openrouter,
+      isDefault: true,
+      headers: { 'X-Title': 'yak' },
+    });
+    expect(definition).toEqual({
+      name: 'openrouter',
+      displayName: 'OpenRouter',
+      type: LLMProviderType.OPENROUTER,
+      headers: { 'X-Title': 'yak' },
+    });
+
+    expect(fromLLMProviderDefinition(definition)).toEqual({
+      ...definition,
+      apiKey: 'secret:openrouter',
+      enabled: true,
+      isDefault: false,
+    });
+    expect(
+      fromLLMProviderDefinition(definition, '$OPENROUTER_KEY'),
+    ).toMatchObject({ apiKey: '$OPENROUTER_KEY' });
+  });
+
+  it('rejects invalid definitions', () => {
+    expect(() => fromLLMProviderDefinition(['openrouter'])).toThrow(
+      'A provider definition must be a JSON object',
+    );
+    expect(() =>
+      fromLLMProviderDefinition({ name: 'gateway', type: 'grpc' }),
+    ).toThrow('Valid provider type is required');
+  });
+});
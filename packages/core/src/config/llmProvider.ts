@@ -4,12 +4,94 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { ModelInfoOverride } from '../models/modelRegistry.js';
+import { validateModelPricing } from '../models/pricing.js';
+import { SECRET_REFERENCE_PREFIX } from './secretStore.js';
+import {
+  GenerationParams,
+  validateGenerationParams,
+} from './generationParams.js';
+
 /**
  * Supported LLM Provider types
  */
 export enum LLMProviderType {
   OPENROUTER = 'openrouter',
   OPENAI_COMPATIBLE = 'openai-compatible', // openai compatible providers
+  ANTHROPIC = 'anthropic', // native Anthropic Messages API
+  OLLAMA = 'ollama', // local Ollama server
+  REPLAY = 'replay', // responses recorded with --record
+  AZURE_OPENAI = 'azure-openai', // deployments of an Azure OpenAI resource
+}
+
+/**
+ * Options specific to Ollama providers
+ */
+export interface OllamaProviderOptions {
+  /** How long the model stays loaded after a request, e.g. "10m" or -1 */
+  keepAlive?: string | number;
+  /** Context window size (num_ctx) to load the model with */
+  numCtx?: number;
+}
+
+/**
+ * Options specific to replay providers
+ */
+export interface ReplayProviderOptions {
+  /** Fixture file recorded with --record, relative to the working directory */
+  fixture: string;
+}
+
+/**
+ * Options specific to Azure OpenAI providers
+ */
+export interface AzureOpenAIProviderOptions {
+  /** The api-version query parameter, e.g. "2024-10-21" */
+  apiVersion?: string;
+}
+
+/**
+ * Settings of a single model of a provider
+ */
+export interface ProviderModelOptions extends ModelInfoOverride {
+  /** Generation parameters, override those of the provider */
+  params?: GenerationParams;
+  /**
+   * How tools are offered to the model: through the function calling of the
+   * API (default), or described in the system prompt for models without
+   * function calling
+   */
+  toolCalling?: 'native' | 'prompt';
+  /** Azure OpenAI deployment serving the model, the model name if not given */
+  deployment?: string;
+}
+
+/**
+ * Provider routing options of OpenRouter, see
+ * https://openrouter.ai/docs/features/provider-routing
+ */
+export interface OpenRouterProviderOptions {
+  /** Upstream providers to try in order, e.g. ["anthropic", "amazon-bedrock"] */
+  order?: string[];
+  /** Whether other providers may serve the request when those in order fail */
+  allowFallbacks?: boolean;
+  /** Whether providers that store or train on prompts may be used */
+  dataCollection?: 'allow' | 'deny';
+  /** Prompt transforms to apply, e.g. ["middle-out"] */
+  transforms?: string[];
+}
+
+/**
+ * Client-side limits on the requests sent to a provider, shared by the main
+ * turn and auxiliary calls
+ */
+export interface RateLimitOptions {
+  /** Requests per minute */
+  requestsPerMinute?: number;
+  /** Prompt and completion tokens per minute */
+  tokensPerMinute?: number;
+  /** Requests in flight at the same time */
+  maxConcurrent?: number;
 }
 
 /**
@@ -22,22 +104,71 @@ export interface LLMProviderConfig {
   displayName: string;
   /** Provider type (determines API format) */
   type: LLMProviderType;
-  /** API key for authentication (required) */
+  /** API key for authentication (required, except for Ollama) */
   apiKey: string;
   /** Custom base URL (optional, uses default if not provided) */
   baseUrl?: string;
+  /** Default model to use with this provider (optional) */
+  model?: string;
+  /**
+   * Models that may be used with this provider, any model if not given.
+   * System settings lock the list with `locked: ["allowedModels"]`.
+   */
+  allowedModels?: string[];
+  /** Model used for embeddings (optional, embeddings are unavailable without) */
+  embeddingModel?: string;
+  /** Per-model context window, output limit, capabilities and parameters */
+  models?: Record<string, ProviderModelOptions>;
+  /** Generation parameters for all models of this provider (optional) */
+  params?: GenerationParams;
+  /** Extra headers sent with every request, e.g. org IDs or attribution */
+  headers?: Record<string, string>;
+  /** Extra query parameters added to every request URL, e.g. api-version */
+  queryParams?: Record<string, string>;
+  /**
+   * Header that carries the API key as is, instead of the provider's default
+   * (Authorization: Bearer, or x-api-key for Anthropic)
+   */
+  apiKeyHeader?: string;
+  /** Ollama specific options (optional) */
+  ollama?: OllamaProviderOptions;
+  /** OpenRouter provider routing options (optional) */
+  openrouter?: OpenRouterProviderOptions;
+  /** Replay options, required for replay providers */
+  replay?: ReplayProviderOptions;
+  /** Azure OpenAI specific options (optional) */
+  azure?: AzureOpenAIProviderOptions;
+  /** Rate limits to queue requests by (optional) */
+  rateLimit?: RateLimitOptions;
   /** Whether this is the default provider */
   isDefault?: boolean;
   /** Whether this provider is enabled */
   enabled?: boolean;
+  /**
+   * Fields that user and workspace settings cannot override, only honored
+   * for providers of the system settings
+   */
+  locked?: Array<keyof LLMProviderConfig>;
 }
 
+/**
+ * A provider configuration without its API key, to share through a file
+ */
+export type LLMProviderDefinition = Omit<
+  LLMProviderConfig,
+  'apiKey' | 'isDefault'
+>;
+
 /**
  * Default base URLs for different provider types
  */
 export const DEFAULT_PROVIDER_BASE_URLS: Record<LLMProviderType, string> = {
   [LLMProviderType.OPENROUTER]: 'https://openrouter.ai/api/v1',
   [LLMProviderType.OPENAI_COMPATIBLE]: '',
+  [LLMProviderType.ANTHROPIC]: 'https://api.anthropic.com/v1',
+  [LLMProviderType.OLLAMA]: 'http://localhost:11434',
+  [LLMProviderType.REPLAY]: '',
+  [LLMProviderType.AZURE_OPENAI]: '',
 };
 
 /**
@@ -46,8 +177,111 @@ export const DEFAULT_PROVIDER_BASE_URLS: Record<LLMProviderType, string> = {
 export const PROVIDER_DISPLAY_NAMES: Record<LLMProviderType, string> = {
   [LLMProviderType.OPENROUTER]: 'OpenRouter',
   [LLMProviderType.OPENAI_COMPATIBLE]: 'OpenAI Compatible',
+  [LLMProviderType.ANTHROPIC]: 'Anthropic',
+  [LLMProviderType.OLLAMA]: 'Ollama',
+  [LLMProviderType.REPLAY]: 'Replay',
+  [LLMProviderType.AZURE_OPENAI]: 'Azure OpenAI',
 };
 
+/**
+ * Whether a provider type needs an API key
+ * @param type The provider type
+ * @returns False for local providers that run without authentication
+ */
+export function providerRequiresApiKey(type: LLMProviderType): boolean {
+  return type !== LLMProviderType.OLLAMA && type !== LLMProviderType.REPLAY;
+}
+
+// RFC 9110 token characters
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Validates the extra headers of a provider configuration
+ * @returns Error message if invalid, null if valid
+ */
+function validateHeaders(config: Partial<LLMProviderConfig>): string | null {
+  if (
+    config.apiKeyHeader !== undefined &&
+    !HEADER_NAME_PATTERN.test(config.apiKeyHeader)
+  ) {
+    return `API key header "${config.apiKeyHeader}" is not a valid header name`;
+  }
+  for (const [name, value] of Object.entries(config.headers ?? {})) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      return `Header "${name}" is not a valid header name`;
+    }
+    if (typeof value !== 'string' || /[\r\n\0]/.test(value)) {
+      return `Header "${name}" must be a single line of text`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates the rate limits of a provider configuration
+ * @returns Error message if invalid, null if valid
+ */
+function validateRateLimit(config: Partial<LLMProviderConfig>): string | null {
+  const { requestsPerMinute, tokensPerMinute, maxConcurrent } =
+    config.rateLimit ?? {};
+  for (const [field, value] of Object.entries({
+    requestsPerMinute,
+    tokensPerMinute,
+  })) {
+    if (
+      value !== undefined &&
+      (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)
+    ) {
+      return `rateLimit.${field} must be a positive number`;
+    }
+  }
+  if (
+    maxConcurrent !== undefined &&
+    (!Number.isInteger(maxConcurrent) || maxConcurrent < 1)
+  ) {
+    return 'rateLimit.maxConcurrent must be a whole number of at least 1';
+  }
+  return null;
+}
+
+/**
+ * Validates the OpenRouter routing options of a provider configuration
+ * @returns Error message if invalid, null if valid
+ */
+function validateOpenRouterOptions(
+  config: Partial<LLMProviderConfig>,
+): string | null {
+  const options = config.openrouter;
+  if (!options) {
+    return null;
+  }
+  if (config.type !== LLMProviderType.OPENROUTER) {
+    return 'OpenRouter routing options require an OpenRouter provider';
+  }
+  const isStringList = (list: unknown) =>
+    Array.isArray(list) && list.every((item) => typeof item === 'string');
+  if (options.order !== undefined && !isStringList(options.order)) {
+    return 'OpenRouter provider order must be a list of provider names';
+  }
+  if (options.transforms !== undefined && !isStringList(options.transforms)) {
+    return 'OpenRouter transforms must be a list of transform names';
+  }
+  if (
+    options.allowFallbacks !== undefined &&
+    typeof options.allowFallbacks !== 'boolean'
+  ) {
+    return 'OpenRouter allowFallbacks must be true or false';
+  }
+  if (
+    options.dataCollection !== undefined &&
+    options.dataCollection !== 'allow' &&
+    options.dataCollection !== 'deny'
+  ) {
+    return 'OpenRouter dataCollection must be "allow" or "deny"';
+  }
+  return null;
+}
+
 /**
  * Validates an LLM Provider configuration
  * @param config The provider configuration to validate
@@ -64,10 +298,41 @@ export function validateLLMProviderConfig(
     return 'Valid provider type is required';
   }
 
-  if (!config.apiKey || config.apiKey.trim() === '') {
+  if (
+    providerRequiresApiKey(config.type) &&
+    (!config.apiKey || config.apiKey.trim() === '')
+  ) {
     return 'API key is required';
   }
 
+  if (config.embeddingModel && config.type === LLMProviderType.ANTHROPIC) {
+    return 'Anthropic providers do not support embeddings';
+  }
+
+  if (config.type === LLMProviderType.REPLAY) {
+    if (!config.replay?.fixture || typeof config.replay.fixture !== 'string') {
+      return 'Replay providers require "replay.fixture", the recorded fixture file';
+    }
+    if (config.embeddingModel) {
+      return 'Replay providers do not support embeddings';
+    }
+  }
+
+  if (config.type === LLMProviderType.AZURE_OPENAI && !config.baseUrl) {
+    return 'Azure OpenAI providers require the base URL of their resource, e.g. https://<resource>.openai.azure.com/openai';
+  }
+  if (config.azure) {
+    if (config.type !== LLMProviderType.AZURE_OPENAI) {
+      return 'Azure options require an Azure OpenAI provider';
+    }
+    if (
+      config.azure.apiVersion !== undefined &&
+      (typeof config.azure.apiVersion !== 'string' || !config.azure.apiVersion)
+    ) {
+      return 'Azure apiVersion must be an API version, e.g. "2024-10-21"';
+    }
+  }
+
   if (config.baseUrl) {
     try {
       new URL(config.baseUrl);
@@ -76,7 +341,71 @@ export function validateLLMProviderConfig(
     }
   }
 
-  return null;
+  for (const [name, value] of Object.entries(config.queryParams ?? {})) {
+    if (typeof value !== 'string') {
+      return `Query parameter "${name}" must be a string`;
+    }
+  }
+
+  if (config.params) {
+    const paramsError = validateGenerationParams(config.params);
+    if (paramsError) {
+      return paramsError;
+    }
+  }
+  for (const [model, options] of Object.entries(config.models ?? {})) {
+    const paramsError = options.params
+      ? validateGenerationParams(options.params)
+      : null;
+    if (paramsError) {
+      return `Model "${model}": ${paramsError}`;
+    }
+    if (
+      options.toolCalling !== undefined &&
+      options.toolCalling !== 'native' &&
+      options.toolCalling !== 'prompt'
+    ) {
+      return `Model "${model}": toolCalling must be "native" or "prompt"`;
+    }
+    if (
+      options.deployment !== undefined &&
+      (typeof options.deployment !== 'string' || !options.deployment)
+    ) {
+      return `Model "${model}": deployment must be the name of a deployment`;
+    }
+    const pricingError = options.pricing
+      ? validateModelPricing(options.pricing)
+      : null;
+    if (pricingError) {
+      return `Model "${model}": ${pricingError}`;
+    }
+  }
+
+  if (config.allowedModels !== undefined) {
+    if (
+      !Array.isArray(config.allowedModels) ||
+      !config.allowedModels.every((model) => typeof model === 'string')
+    ) {
+      return 'allowedModels must be a list of model names';
+    }
+    if (config.model && !config.allowedModels.includes(config.model)) {
+      return `The default model "${config.model}" is not in allowedModels`;
+    }
+  }
+
+  if (
+    config.locked !== undefined &&
+    (!Array.isArray(config.locked) ||
+      !config.locked.every((field) => typeof field === 'string'))
+  ) {
+    return 'locked must be a list of provider setting names';
+  }
+
+  return (
+    validateHeaders(config) ??
+    validateOpenRouterOptions(config) ??
+    validateRateLimit(config)
+  );
 }
 
 /**
@@ -85,6 +414,7 @@ export function validateLLMProviderConfig(
  * @param name The provider name
  * @param apiKey The API key
  * @param baseUrl Optional custom base URL
+ * @param model Optional default model
  * @returns Default provider configuration
  */
 export function createDefaultProviderConfig(
@@ -92,6 +422,7 @@ export function createDefaultProviderConfig(
   name: string,
   apiKey: string,
   baseUrl?: string,
+  model?: string,
 ): LLMProviderConfig {
   return {
     name: name.trim(),
@@ -99,11 +430,60 @@ export function createDefaultProviderConfig(
     type,
     apiKey: apiKey.trim(),
     baseUrl: baseUrl?.trim() || DEFAULT_PROVIDER_BASE_URLS[type],
+    model: model?.trim() || undefined,
     isDefault: false,
     enabled: true,
   };
 }
 
+/**
+ * Drops the API key of a provider configuration, so that it can be shared
+ * @param config The provider configuration
+ * @returns The definition of the provider
+ */
+export function toLLMProviderDefinition(
+  config: LLMProviderConfig,
+): LLMProviderDefinition {
+  const { apiKey: _apiKey, isDefault: _isDefault, ...definition } = config;
+  return definition;
+}
+
+/**
+ * Creates a provider configuration from a shared definition
+ * @param definition The definition as read from a file
+ * @param apiKey The API key to keep, a reference to the secret store entry
+ *   of the provider if not given
+ * @returns The provider configuration
+ * @throws Error if the definition is not a valid provider
+ */
+export function fromLLMProviderDefinition(
+  definition: unknown,
+  apiKey?: string,
+): LLMProviderConfig {
+  if (
+    typeof definition !== 'object' ||
+    definition === null ||
+    Array.isArray(definition)
+  ) {
+    throw new Error('A provider definition must be a JSON object');
+  }
+  const config = {
+    enabled: true,
+    ...definition,
+    isDefault: false,
+  } as LLMProviderConfig;
+  config.displayName ??= PROVIDER_DISPLAY_NAMES[config.type];
+  config.apiKey = providerRequiresApiKey(config.type)
+    ? (apiKey ?? `${SECRET_REFERENCE_PREFIX}${config.name}`)
+    : '';
+
+  const error = validateLLMProviderConfig(config);
+  if (error) {
+    throw new Error(error);
+  }
+  return config;
+}
+
 /**
  * Gets the effective base URL for a provider configuration
  * @param config The provider configuration
@@ -112,3 +492,98 @@ export function createDefaultProviderConfig(
 export function getProviderBaseUrl(config: LLMProviderConfig): string {
   return config.baseUrl || DEFAULT_PROVIDER_BASE_URLS[config.type];
 }
+
+/**
+ * Resolves the provider configuration to use for content generation
+ * @param providers All configured providers, keyed by name
+ * @param providerName Explicit provider name, falls back to the default provider
+ * @param defaultProviderName Name of the default provider
+ * @returns The resolved provider configuration
+ * @throws Error if no usable provider can be resolved
+ */
+export function resolveLLMProviderConfig(
+  providers: Record<string, LLMProviderConfig>,
+  providerName: string | undefined,
+  defaultProviderName: string | undefined,
+): LLMProviderConfig {
+  const name = providerName || defaultProviderName;
+  if (!name) {
+    throw new Error(
+      'No LLM provider selected. Use "/provider set-default <name>" to choose one.',
+    );
+  }
+
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(
+      `LLM provider "${name}" not found. Use "/provider list" to see available providers.`,
+    );
+  }
+
+  if (provider.enabled === false) {
+    throw new Error(`LLM provider "${name}" is disabled.`);
+  }
+
+  const validationError = validateLLMProviderConfig(provider);
+  if (validationError) {
+    throw new Error(`Invalid LLM provider "${name}": ${validationError}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Whether a provider may be used with a model
+ * @param provider The provider configuration
+ * @param model The model
+ * @returns True unless the provider restricts its models to others
+ */
+export function isModelAllowed(
+  provider: LLMProviderConfig,
+  model: string,
+): boolean {
+  return !provider.allowedModels || provider.allowedModels.includes(model);
+}
+
+/**
+ * Ensures that a provider may be used with a model
+ * @param provider The provider configuration
+ * @param model The model
+ * @throws Error naming the allowed models if the model is not among them
+ */
+export function assertModelAllowed(
+  provider: LLMProviderConfig,
+  model: string,
+): void {
+  if (!isModelAllowed(provider, model)) {
+    throw new Error(
+      `Model "${model}" is not allowed for LLM provider "${provider.name}". Allowed models: ${provider.allowedModels!.join(', ') || 'none'}.`,
+    );
+  }
+}
+
+/**
+ * An entry of the provider fallback chain
+ */
+export interface ProviderFallback {
+  /** Provider name */
+  provider: string;
+  /** Model to use, the provider's default model if not given */
+  model?: string;
+}
+
+/**
+ * Parses an entry of the `providerFallbacks` setting
+ * @param entry "provider" or "provider:model", where the model may contain
+ *   colons itself, e.g. "local-ollama:qwen3:8b"
+ */
+export function parseProviderFallback(entry: string): ProviderFallback {
+  const separator = entry.indexOf(':');
+  if (separator === -1) {
+    return { provider: entry.trim() };
+  }
+  return {
+    provider: entry.slice(0, separator).trim(),
+    model: entry.slice(separator + 1).trim() || undefined,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  EncryptedFileSecretStore,
+  isSecretReference,
+  resolveLLMProviderSecrets,
+  resolveSecret,
+  storeProviderApiKey,
+} from './secretStore.js';
+import { LLMProviderType } from './llmProvider.js';
+
+describe('secretStore', () => {
+  let dir: string;
+  let store: EncryptedFileSecretStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'secret-store-'));
+    store = new EncryptedFileSecretStore(dir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('encrypts secrets in a file only the user can read', async () => {
+    await store.set('openrouter-primary', 'sk-or-secret');
+
+    const contents = await fs.readFile(path.join(dir, 'secrets.json'), 'utf-8');
+    expect(contents).not.toContain('sk-or-secret');
+    const stat = await fs.stat(path.join(dir, 'secrets.key'));
+    expect(stat.mode & 0o777).toBe(0o600);
+
+    // A new instance decrypts with the stored master key
+    const reopened = new EncryptedFileSecretStore(dir);
+    await expect(reopened.get('openrouter-primary')).resolves.toBe(
+      'sk-or-secret',
+    );
+    await reopened.delete('openrouter-primary');
+    await expect(store.get('openrouter-primary')).resolves.toBeUndefined();
+  });
+
+  it('creates one master key for concurrent first uses', async () => {
+    // Another store stands in for another process
+    const other = new EncryptedFileSecretStore(dir);
+
+    await Promise.all([
+      store.set('openrouter', 'sk-or-secret'),
+      store.set('groq', 'gsk-secret'),
+      other.get('missing'),
+    ]);
+
+    const reopened = new EncryptedFileSecretStore(dir);
+    await expect(reopened.get('openrouter')).resolves.toBe('sk-or-secret');
+    await expect(reopened.get('groq')).resolves.toBe('gsk-secret');
+  });
+
+  it('resolves secret and environment variable references', async () => {
+    await store.set('local', 'stored-key');
+    vi.stubEnv('OPENROUTER_API_KEY', 'env-key');
+
+    await expect(resolveSecret('secret:local', store)).resolves.toBe(
+      'stored-key',
+    );
+    await expect(resolveSecret('$OPENROUTER_API_KEY', store)).resolves.toBe(
+      'env-key',
+    );
+    await expect(resolveSecret('${OPENROUTER_API_KEY}', store)).resolves.toBe(
+      'env-key',
+    );
+    await expect(resolveSecret('plain-key', store)).resolves.toBe('plain-key');
+    await expect(resolveSecret('secret:missing', store)).rejects.toThrow(
+      'Secret "missing" not found in the encrypted secrets file.',
+    );
+    await expect(resolveSecret('$MISSING_API_KEY', store)).rejects.toThrow(
+      'Environment variable "MISSING_API_KEY" is not set.',
+    );
+  });
+
+  it('moves plaintext provider keys into the store', async () => {
+    const reference = await storeProviderApiKey('openrouter', 'sk-1', store);
+
+    expect(reference).toBe('secret:openrouter');
+    expect(isSecretReference(reference)).toBe(true);
+    await expect(
+      storeProviderApiKey('openrouter', '$OPENROUTER_API_KEY', store),
+    ).resolves.toBe('$OPENROUTER_API_KEY');
+    await expect(storeProviderApiKey('ollama', '', store)).resolves.toBe('');
+
+    const provider = await resolveLLMProviderSecrets(
+      {
+        name: 'openrouter',
+        displayName: 'OpenRouter',
+        type: LLMProviderType.OPENROUTER,
+        apiKey: reference,
+      },
+      store,
+    );
+    expect(provider.apiKey).toBe('sk-1');
+  });
+});
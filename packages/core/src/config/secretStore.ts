@@ -0,0 +1,341 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn } from 'node:child_process';
+import * as crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { GEMINI_DIR } from '../utils/paths.js';
+import { LLMProviderConfig } from './llmProvider.js';
+
+/**
+ * Prefix of settings values that refer to an entry of the secret store,
+ * e.g. "secret:openrouter-primary"
+ */
+export const SECRET_REFERENCE_PREFIX = 'secret:';
+
+const ENV_REFERENCE_PATTERN = /^\$\{?([A-Za-z_][A-Za-z0-9_]*)\}?$/;
+
+/**
+ * Storage for API keys and other secrets that must not end up in settings
+ */
+export interface SecretStore {
+  /** Name of the backend, shown to the user */
+  readonly name: string;
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores secrets in the freedesktop Secret Service (GNOME Keyring, KWallet)
+ * through the `secret-tool` command of libsecret.
+ */
+export class SecretServiceStore implements SecretStore {
+  readonly name = 'Secret Service';
+
+  /**
+   * Whether a Secret Service answers on the session bus
+   */
+  static async isAvailable(): Promise<boolean> {
+    if (process.platform !== 'linux' || !process.env.DBUS_SESSION_BUS_ADDRESS) {
+      return false;
+    }
+    try {
+      // A lookup of a missing secret exits with 1 and no output, while a
+      // missing service or a locked keyring report an error
+      const result = await runSecretTool(['lookup', ...toAttributes('')]);
+      return result.code <= 1 && !result.stderr.trim();
+    } catch {
+      return false;
+    }
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const result = await runSecretTool(['lookup', ...toAttributes(key)]);
+    if (result.code !== 0) {
+      return undefined;
+    }
+    return result.stdout;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const result = await runSecretTool(
+      ['store', `--label=yakchat: ${key}`, ...toAttributes(key)],
+      value,
+    );
+    if (result.code !== 0) {
+      throw new Error(
+        `Failed to store secret "${key}" in the Secret Service: ${result.stderr.trim()}`,
+      );
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await runSecretTool(['clear', ...toAttributes(key)]);
+  }
+}
+
+interface EncryptedSecret {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Stores secrets AES-256-GCM encrypted in `secrets.json`, with a master key
+ * that is generated on first use and kept in `secrets.key`. Both files are
+ * only readable by the user. This keeps keys out of settings files that are
+ * shared or committed, but not away from someone with access to the account.
+ */
+export class EncryptedFileSecretStore implements SecretStore {
+  readonly name = 'encrypted secrets file';
+
+  private readonly secretsFile: string;
+  private readonly keyFile: string;
+  private masterKey?: Promise<Buffer>;
+  /** Changes of the secrets file, one after the other */
+  private updates: Promise<void> = Promise.resolve();
+
+  constructor(dir: string = path.join(os.homedir(), GEMINI_DIR)) {
+    this.secretsFile = path.join(dir, 'secrets.json');
+    this.keyFile = path.join(dir, 'secrets.key');
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const secret = (await this.readSecrets())[key];
+    if (!secret) {
+      return undefined;
+    }
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      await this.getMasterKey(),
+      Buffer.from(secret.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(secret.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf-8');
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(
+      'aes-256-gcm',
+      await this.getMasterKey(),
+      iv,
+    );
+    const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+    const secret: EncryptedSecret = {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    await this.updateSecrets((secrets) => {
+      secrets[key] = secret;
+      return true;
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.updateSecrets(
+      (secrets) => key in secrets && delete secrets[key],
+    );
+  }
+
+  /**
+   * Reads, changes and writes the secrets file, after the changes made
+   * before so that concurrent calls do not lose each other's secrets
+   * @param change Changes the secrets, returns whether they need writing
+   */
+  private updateSecrets(
+    change: (secrets: Record<string, EncryptedSecret>) => boolean,
+  ): Promise<void> {
+    const update = this.updates.then(async () => {
+      const secrets = await this.readSecrets();
+      if (change(secrets)) {
+        await this.writeSecrets(secrets);
+      }
+    });
+    this.updates = update.catch(() => {});
+    return update;
+  }
+
+  /**
+   * Gets the key the secrets are encrypted with, created on first use. The
+   * key is loaded once per store and only created if no other process
+   * created it first, so that all secrets share one key.
+   */
+  private getMasterKey(): Promise<Buffer> {
+    this.masterKey ??= this.loadMasterKey().catch((error) => {
+      this.masterKey = undefined;
+      throw error;
+    });
+    return this.masterKey;
+  }
+
+  private async loadMasterKey(): Promise<Buffer> {
+    const readKey = async () =>
+      Buffer.from(await fs.readFile(this.keyFile, 'utf-8'), 'base64');
+    try {
+      return await readKey();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const key = crypto.randomBytes(32);
+    await fs.mkdir(path.dirname(this.keyFile), { recursive: true });
+    try {
+      await fs.writeFile(this.keyFile, key.toString('base64'), {
+        mode: 0o600,
+        flag: 'wx',
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      return readKey();
+    }
+    return key;
+  }
+
+  private async readSecrets(): Promise<Record<string, EncryptedSecret>> {
+    try {
+      return JSON.parse(await fs.readFile(this.secretsFile, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async writeSecrets(
+    secrets: Record<string, EncryptedSecret>,
+  ): Promise<void> {
+    await fs.mkdir(path.dirname(this.secretsFile), { recursive: true });
+    await fs.writeFile(this.secretsFile, JSON.stringify(secrets, null, 2), {
+      mode: 0o600,
+    });
+  }
+}
+
+let secretStore: Promise<SecretStore> | undefined;
+
+/**
+ * Returns the secret store of this machine: the Secret Service when one is
+ * running, otherwise the encrypted secrets file.
+ */
+export function getSecretStore(): Promise<SecretStore> {
+  if (!secretStore) {
+    secretStore = SecretServiceStore.isAvailable().then((available) =>
+      available ? new SecretServiceStore() : new EncryptedFileSecretStore(),
+    );
+  }
+  return secretStore;
+}
+
+/**
+ * Whether a settings value refers to a secret instead of containing it, i.e.
+ * is a "secret:<name>" or "$ENV_VAR" reference
+ */
+export function isSecretReference(value: string | undefined): boolean {
+  return (
+    !!value &&
+    (value.startsWith(SECRET_REFERENCE_PREFIX) ||
+      ENV_REFERENCE_PATTERN.test(value))
+  );
+}
+
+/**
+ * Resolves a settings value that may refer to a secret
+ * @param value "secret:<name>", "$ENV_VAR" or the plain value
+ * @param store The store that "secret:" references are read from
+ * @returns The secret
+ * @throws Error if the referenced secret or variable does not exist
+ */
+export async function resolveSecret(
+  value: string,
+  store?: SecretStore,
+): Promise<string> {
+  if (value.startsWith(SECRET_REFERENCE_PREFIX)) {
+    const key = value.slice(SECRET_REFERENCE_PREFIX.length);
+    const resolvedStore = store ?? (await getSecretStore());
+    const secret = await resolvedStore.get(key);
+    if (secret === undefined) {
+      throw new Error(
+        `Secret "${key}" not found in the ${resolvedStore.name}. Enter the API key again with "/provider edit".`,
+      );
+    }
+    return secret;
+  }
+  const envMatch = value.match(ENV_REFERENCE_PATTERN);
+  if (envMatch) {
+    const secret = process.env[envMatch[1]];
+    if (secret === undefined) {
+      throw new Error(`Environment variable "${envMatch[1]}" is not set.`);
+    }
+    return secret;
+  }
+  return value;
+}
+
+/**
+ * Returns the provider with its API key resolved from the secret store or
+ * the environment
+ */
+export async function resolveLLMProviderSecrets(
+  provider: LLMProviderConfig,
+  store?: SecretStore,
+): Promise<LLMProviderConfig> {
+  if (!isSecretReference(provider.apiKey)) {
+    return provider;
+  }
+  return { ...provider, apiKey: await resolveSecret(provider.apiKey, store) };
+}
+
+/**
+ * Moves a plaintext API key of a provider into the secret store
+ * @returns The reference to put into the settings instead of the key, or the
+ *   value itself if it is empty or already a reference
+ */
+export async function storeProviderApiKey(
+  providerName: string,
+  apiKey: string,
+  store?: SecretStore,
+): Promise<string> {
+  if (!apiKey || isSecretReference(apiKey)) {
+    return apiKey;
+  }
+  await (store ?? (await getSecretStore())).set(providerName, apiKey);
+  return `${SECRET_REFERENCE_PREFIX}${providerName}`;
+}
+
+function toAttributes(key: string): string[] {
+  return ['service', 'yakchat', 'account', key];
+}
+
+function runSecretTool(
+  args: string[],
+  input?: string,
+): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('secret-tool', args, {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      timeout: 10000,
+    });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', reject);
+    child.on('close', (code) => resolve({ code: code ?? 1, stdout, stderr }));
+    child.stdin.end(input ?? '');
+  });
+}
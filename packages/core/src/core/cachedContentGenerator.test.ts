@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  Caches,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import { CachedContentGenerator } from './cachedContentGenerator.js';
+import { ContentGenerator } from './contentGenerator.js';
+
+const SYSTEM_PROMPT = 'You are a helpful assistant. '.repeat(200);
+
+function makeRequest(
+  contents: GenerateContentParameters['contents'],
+  systemInstruction = SYSTEM_PROMPT,
+): GenerateContentParameters {
+  return {
+    model: 'gemini-2.5-pro',
+    contents,
+    config: {
+      systemInstruction,
+      tools: [{ functionDeclarations: [{ name: 'read_file' }] }],
+      temperature: 0,
+    },
+  };
+}
+
+const conversation = [
+  { role: 'user', parts: [{ text: 'This is the folder structure' }] },
+  { role: 'model', parts: [{ text: 'Got it.' }] },
+  { role: 'user', parts: [{ text: 'Hi' }] },
+];
+
+describe('CachedContentGenerator', () => {
+  let generator: ContentGenerator;
+  let caches: Pick<Caches, 'create'>;
+
+  beforeEach(() => {
+    generator = {
+      generateContent: vi.fn(async () => new GenerateContentResponse()),
+      generateContentStream: vi.fn(),
+      countTokens: vi.fn(),
+      embedContent: vi.fn(),
+    };
+    caches = {
+      create: vi.fn(async () => ({
+        name: 'cachedContents/abc',
+        expireTime: new Date(Date.now() + 600_000).toISOString(),
+      })),
+    };
+  });
+
+  it('moves the prompt prefix into cached content and reuses it', async () => {
+    const cached = new CachedContentGenerator(generator, caches);
+
+    await cached.generateContent(makeRequest(conversation));
+    await cached.generateContent(makeRequest(conversation));
+
+    expect(caches.create).toHaveBeenCalledTimes(1);
+    expect(caches.create).toHaveBeenCalledWith({
+      model: 'gemini-2.5-pro',
+      config: {
+        systemInstruction: SYSTEM_PROMPT,
+        tools: [{ functionDeclarations: [{ name: 'read_file' }] }],
+        toolConfig: undefined,
+        contents: conversation.slice(0, 2),
+        ttl: '600s',
+      },
+    });
+    expect(generator.generateContent).toHaveBeenLastCalledWith({
+      model: 'gemini-2.5-pro',
+      contents: conversation.slice(2),
+      config: {
+        systemInstruction: undefined,
+        tools: undefined,
+        toolConfig: undefined,
+        temperature: 0,
+        cachedContent: 'cachedContents/abc',
+      },
+    });
+  });
+
+  it('sends short prompts as they are', async () => {
+    const cached = new CachedContentGenerator(generator, caches);
+    const request = makeRequest(conversation, 'Be brief.');
+
+    await cached.generateContent(request);
+
+    expect(caches.create).not.toHaveBeenCalled();
+    expect(generator.generateContent).toHaveBeenCalledWith(request);
+  });
+
+  it('does not retry prefixes the API refused to cache', async () => {
+    vi.mocked(caches.create).mockRejectedValue(
+      new Error('Cached content is too small'),
+    );
+    const cached = new CachedContentGenerator(generator, caches);
+    const request = makeRequest(conversation);
+
+    await cached.generateContent(request);
+    await cached.generateContent(request);
+
+    expect(caches.create).toHaveBeenCalledTimes(1);
+    expect(generator.generateContent).toHaveBeenCalledWith(request);
+  });
+
+  it('recreates caches the API no longer knows', async () => {
+    vi.mocked(generator.generateContent).mockRejectedValueOnce(
+      new Error('CachedContent not found (or permission denied)'),
+    );
+    const cached = new CachedContentGenerator(generator, caches);
+    const request = makeRequest(conversation);
+
+    await cached.generateContent(request);
+    expect(generator.generateContent).toHaveBeenLastCalledWith(request);
+
+    await cached.generateContent(request);
+    expect(caches.create).toHaveBeenCalledTimes(2);
+  });
+
+  it('recreates expired caches', async () => {
+    vi.mocked(caches.create).mockResolvedValueOnce({
+      name: 'cachedContents/old',
+      expireTime: new Date(Date.now() + 1000).toISOString(),
+    });
+    const cached = new CachedContentGenerator(generator, caches);
+
+    await cached.generateContent(makeRequest(conversation));
+    await cached.generateContent(makeRequest(conversation));
+
+    expect(caches.create).toHaveBeenCalledTimes(2);
+    expect(
+      vi.mocked(generator.generateContent).mock.calls[1][0].config
+        ?.cachedContent,
+    ).toBe('cachedContents/abc');
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  CachedContent,
+  Caches,
+  Content,
+  CountTokensParameters,
+  CountTokensResponse,
+  CreateCachedContentConfig,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Tool,
+} from '@google/genai';
+import { ContentGenerator } from './contentGenerator.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/** How long a cached prefix lives without being recreated. */
+const CACHE_TTL_SECONDS = 600;
+
+/** Cached prefixes are recreated when they expire sooner than this. */
+const CACHE_EXPIRY_MARGIN_MS = 30_000;
+
+/**
+ * Prefixes shorter than this are not cached, the API rejects caches of fewer
+ * than 1024 tokens, about 4 characters each.
+ */
+const MIN_CACHED_PREFIX_CHARS = 4096;
+
+type PromptPrefix = Pick<
+  CreateCachedContentConfig,
+  'systemInstruction' | 'tools' | 'toolConfig'
+> & { contents: Content[] };
+
+interface CachedPrefix {
+  /** Resource name of the cached content */
+  name: string;
+  /** Number of leading contents of the request that are cached */
+  contentCount: number;
+  expiresAt: number;
+}
+
+/**
+ * Wraps the content generator of the Gemini API and moves the stable prefix
+ * of requests into cached content: the system instruction, which carries the
+ * memory, the tools and the opening exchange with the environment context.
+ * Requests with the same prefix reuse the cache and pay the cached rate for
+ * it. Requests fall back to sending the prefix when it cannot be cached.
+ */
+export class CachedContentGenerator implements ContentGenerator {
+  private readonly prefixes = new Map<
+    string,
+    Promise<CachedPrefix | undefined>
+  >();
+
+  constructor(
+    private readonly generator: ContentGenerator,
+    private readonly caches: Pick<Caches, 'create'>,
+  ) {}
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const cached = await this.toCachedRequest(request);
+    if (!cached) {
+      return this.generator.generateContent(request);
+    }
+    try {
+      return await this.generator.generateContent(cached.request);
+    } catch (error) {
+      if (!this.forgetMissingCache(cached.key, error)) {
+        throw error;
+      }
+      return this.generator.generateContent(request);
+    }
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const cached = await this.toCachedRequest(request);
+    if (!cached) {
+      return this.generator.generateContentStream(request);
+    }
+    try {
+      return await this.generator.generateContentStream(cached.request);
+    } catch (error) {
+      if (!this.forgetMissingCache(cached.key, error)) {
+        throw error;
+      }
+      return this.generator.generateContentStream(request);
+    }
+  }
+
+  countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    return this.generator.countTokens(request);
+  }
+
+  embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse> {
+    return this.generator.embedContent(request);
+  }
+
+  /**
+   * Replaces the prefix of a request with its cached content, creating the
+   * cache on first use
+   * @returns The request and the key of its prefix, undefined if the request
+   *   is sent as is
+   */
+  private async toCachedRequest(
+    request: GenerateContentParameters,
+  ): Promise<{ request: GenerateContentParameters; key: string } | undefined> {
+    const config = request.config ?? {};
+    if (
+      config.cachedContent ||
+      !config.systemInstruction ||
+      !Array.isArray(request.contents) ||
+      // Callable tools only exist in this process
+      config.tools?.some((tool) => 'callTool' in tool)
+    ) {
+      return undefined;
+    }
+    const contents = request.contents as Content[];
+    // The opening exchange is cached when the conversation goes on after it
+    const contentCount =
+      contents.length > 2 &&
+      contents[0].role === 'user' &&
+      contents[1].role === 'model'
+        ? 2
+        : 0;
+    const prefix: PromptPrefix = {
+      systemInstruction: config.systemInstruction,
+      tools: config.tools as Tool[] | undefined,
+      toolConfig: config.toolConfig,
+      contents: contents.slice(0, contentCount),
+    };
+    const serialized = JSON.stringify(prefix);
+    if (serialized.length < MIN_CACHED_PREFIX_CHARS) {
+      return undefined;
+    }
+    const key = createHash('sha256')
+      .update(request.model)
+      .update(serialized)
+      .digest('hex');
+
+    let pending = this.prefixes.get(key);
+    const current = await pending;
+    if (
+      !pending ||
+      (current && current.expiresAt - CACHE_EXPIRY_MARGIN_MS < Date.now())
+    ) {
+      pending = this.createCache(request.model, prefix, contentCount);
+      this.prefixes.set(key, pending);
+    }
+    const cache = await pending;
+    if (!cache) {
+      return undefined;
+    }
+
+    return {
+      key,
+      request: {
+        ...request,
+        contents: contents.slice(cache.contentCount),
+        config: {
+          ...config,
+          systemInstruction: undefined,
+          tools: undefined,
+          toolConfig: undefined,
+          cachedContent: cache.name,
+        },
+      },
+    };
+  }
+
+  /**
+   * @returns The cached prefix, undefined if the API refused to cache it,
+   *   e.g. because it is shorter than the minimum of the model. The prefix is
+   *   then never tried again.
+   */
+  private async createCache(
+    model: string,
+    prefix: PromptPrefix,
+    contentCount: number,
+  ): Promise<CachedPrefix | undefined> {
+    let cache: CachedContent;
+    try {
+      cache = await this.caches.create({
+        model,
+        config: {
+          ...prefix,
+          contents: prefix.contents.length ? prefix.contents : undefined,
+          ttl: `${CACHE_TTL_SECONDS}s`,
+        },
+      });
+    } catch (error) {
+      console.debug(`Not caching the prompt: ${getErrorMessage(error)}`);
+      return undefined;
+    }
+    if (!cache.name) {
+      return undefined;
+    }
+    const expiresAt = cache.expireTime
+      ? Date.parse(cache.expireTime)
+      : Date.now() + CACHE_TTL_SECONDS * 1000;
+    return { name: cache.name, contentCount, expiresAt };
+  }
+
+  /**
+   * Forgets a cached prefix the API no longer knows, e.g. because it was
+   * deleted or expired early
+   * @returns Whether the request failed because of it
+   */
+  private forgetMissingCache(key: string, error: unknown): boolean {
+    if (!/cached ?content/i.test(getErrorMessage(error))) {
+      return false;
+    }
+    this.prefixes.delete(key);
+    return true;
+  }
+}
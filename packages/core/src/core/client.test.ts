@@ -17,10 +17,12 @@ import { findIndexAfterFraction, GeminiClient } from './client.js';
 import { AuthType, ContentGenerator } from './contentGenerator.js';
 import { GeminiChat } from './geminiChat.js';
 import { Config } from '../config/config.js';
+import { LLMProviderConfig, LLMProviderType } from '../config/llmProvider.js';
 import { GeminiEventType, Turn } from './turn.js';
 import { getCoreSystemPrompt } from './prompts.js';
 import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import { BudgetService } from '../services/budgetService.js';
 import { setSimulate429 } from '../utils/testUtils.js';
 import { tokenLimit } from './tokenLimits.js';
 import { ideContext } from '../services/ideContext.js';
@@ -200,6 +202,11 @@ describe('Gemini Client (client.ts)', () => {
       getNoBrowser: vi.fn().mockReturnValue(false),
       getIdeMode: vi.fn().mockReturnValue(false),
       getGeminiClient: vi.fn(),
+      getGenerationParams: vi.fn().mockReturnValue({ temperature: 0, topP: 1 }),
+      setSessionGenerationParams: vi.fn(),
+      getRecordFixture: vi.fn().mockReturnValue(undefined),
+      getBudget: vi.fn().mockReturnValue({}),
+      getBudgetService: vi.fn(),
     };
     const MockedConfig = vi.mocked(Config, true);
     MockedConfig.mockImplementation(
@@ -799,6 +806,46 @@ Here are files the user has recently opened, with the most recent at the top:
       expect(events).toEqual([{ type: GeminiEventType.MaxSessionTurns }]);
       expect(mockTurnRunFn).toHaveBeenCalledTimes(MAX_SESSION_TURNS);
     });
+
+    it('should stop before a request would exceed the hard budget', async () => {
+      const checkRequest = vi.fn().mockReturnValue({
+        warnings: ['The daily cost is reaching the soft budget.'],
+        exceeded: 'The session budget is reached.',
+      });
+      vi.spyOn(client['config'], 'getBudget').mockReturnValue({
+        session: { hard: 1 },
+        daily: { soft: 5 },
+      });
+      vi.spyOn(client['config'], 'getBudgetService').mockReturnValue({
+        checkRequest,
+      } as unknown as BudgetService);
+      client['chat'] = {
+        getHistory: vi.fn().mockReturnValue([]),
+      } as unknown as GeminiChat;
+
+      const events = [];
+      for await (const event of client.sendMessageStream(
+        [{ text: 'Hi' }],
+        new AbortController().signal,
+        'prompt-id-budget',
+      )) {
+        events.push(event);
+      }
+
+      expect(events).toEqual([
+        {
+          type: GeminiEventType.BudgetWarning,
+          value: 'The daily cost is reaching the soft budget.',
+        },
+        {
+          type: GeminiEventType.BudgetExceeded,
+          value: 'The session budget is reached.',
+        },
+      ]);
+      // The price of the test model is unknown
+      expect(checkRequest).toHaveBeenCalledWith(0);
+      expect(mockTurnRunFn).not.toHaveBeenCalled();
+    });
   });
 
   describe('generateContent', () => {
@@ -912,4 +959,176 @@ Here are files the user has recently opened, with the most recent at the top:
       );
     });
   });
+
+  describe('failoverToNextProvider', () => {
+    it('should switch to the next usable provider of the chain', async () => {
+      const backup: LLMProviderConfig = {
+        name: 'backup',
+        displayName: 'Backup',
+        type: LLMProviderType.OPENAI_COMPATIBLE,
+        apiKey: 'key',
+        baseUrl: 'http://localhost:1234/v1',
+      };
+      const config = client['config'];
+      config.getProviderFallbacks = vi
+        .fn()
+        .mockReturnValue(['missing:model', 'backup:qwen3:8b']);
+      config.getLLMProviders = vi.fn().mockReturnValue({ backup });
+      // The backup provider is configured with other parameters
+      config.setLLMProvider = vi.fn(() =>
+        vi.mocked(config.getGenerationParams).mockReturnValue({
+          temperature: 0.7,
+        }),
+      );
+      const failoverHandler = vi.fn();
+      config.providerFailoverHandler = failoverHandler;
+      const previousGenerator = client.getContentGenerator();
+      const error = Object.assign(new Error('Rate limited'), { status: 429 });
+
+      await expect(client.failoverToNextProvider(error)).resolves.toBe(true);
+
+      expect(client.getContentGenerator()).not.toBe(previousGenerator);
+      expect(client.getChat()['contentGenerator']).toBe(
+        client.getContentGenerator(),
+      );
+      expect(client.getChat()['generationConfig']).toMatchObject({
+        temperature: 0.7,
+        tools: [{ functionDeclarations: [] }],
+      });
+      expect(client.getChat()['generationConfig'].topP).toBeUndefined();
+      expect(config.setLLMProvider).toHaveBeenCalledWith(backup, 'qwen3:8b');
+      expect(failoverHandler).toHaveBeenCalledWith(
+        'gemini-api-key:test-model',
+        'backup:qwen3:8b',
+        error,
+      );
+
+      // Each entry is only tried once
+      await expect(client.failoverToNextProvider(error)).resolves.toBe(false);
+    });
+  });
+
+  describe('switchModel', () => {
+    it('switches the provider and keeps the history', async () => {
+      const provider: LLMProviderConfig = {
+        name: 'local',
+        displayName: 'Ollama',
+        type: LLMProviderType.OLLAMA,
+        apiKey: '',
+      };
+      const config = client['config'];
+      config.setLLMProvider = vi.fn();
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'Hello' }] },
+        { role: 'model', parts: [{ text: 'Hi there' }] },
+      ];
+      client.setHistory(history);
+      const previousChat = client.getChat();
+      const previousGenerator = client.getContentGenerator();
+
+      await client.switchModel('qwen3:8b', provider);
+
+      expect(config.setLLMProvider).toHaveBeenCalledWith(provider, 'qwen3:8b');
+      expect(client.getContentGenerator()).not.toBe(previousGenerator);
+      expect(client.getChat()).not.toBe(previousChat);
+      expect(client.getHistory()).toEqual(history);
+    });
+
+    it('rejects disabled providers', async () => {
+      await expect(
+        client.switchModel('qwen3:8b', {
+          name: 'local',
+          displayName: 'Ollama',
+          type: LLMProviderType.OLLAMA,
+          apiKey: '',
+          enabled: false,
+        }),
+      ).rejects.toThrow('LLM provider "local" is disabled.');
+    });
+
+    it('rejects models the provider does not allow', async () => {
+      const previousGenerator = client.getContentGenerator();
+      await expect(
+        client.switchModel('llama3:70b', {
+          name: 'local',
+          displayName: 'Ollama',
+          type: LLMProviderType.OLLAMA,
+          apiKey: '',
+          allowedModels: ['qwen3:8b'],
+        }),
+      ).rejects.toThrow(
+        'Model "llama3:70b" is not allowed for LLM provider "local". Allowed models: qwen3:8b.',
+      );
+      expect(client.getContentGenerator()).toBe(previousGenerator);
+    });
+  });
+
+  describe('compareModels', () => {
+    it('rejects models a provider does not allow', async () => {
+      const config = client['config'];
+      config.getGenerationParamsLayers = vi.fn().mockReturnValue({});
+      config.getLLMProviders = vi.fn().mockReturnValue({
+        local: {
+          name: 'local',
+          displayName: 'Ollama',
+          type: LLMProviderType.OLLAMA,
+          apiKey: '',
+          allowedModels: ['qwen3:8b'],
+        },
+      });
+      await expect(
+        client.compareModels(['local:qwen3:8b', 'local:llama3:70b'], 'Hi'),
+      ).rejects.toThrow(
+        'Model "llama3:70b" is not allowed for LLM provider "local".',
+      );
+    });
+
+    it('drops the pending comparison with the history', async () => {
+      const comparison = {
+        prompt: 'Hi',
+        answers: [
+          {
+            provider: 'local',
+            model: 'qwen3:8b',
+            text: 'Hello',
+            done: true,
+            latencyMs: 10,
+          },
+        ],
+      };
+      client['pendingComparison'] = comparison;
+      client.setHistory([]);
+      expect(client.getPendingComparison()).toBeUndefined();
+
+      client['pendingComparison'] = comparison;
+      await client.resetChat();
+      expect(client.getPendingComparison()).toBeUndefined();
+    });
+  });
+
+  describe('setGenerationParams', () => {
+    it('restarts the chat with the new parameters', async () => {
+      const config = client['config'];
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'Hello' }] },
+        { role: 'model', parts: [{ text: 'Hi there' }] },
+      ];
+      client.setHistory(history);
+      vi.mocked(config.getGenerationParams).mockReturnValue({
+        temperature: 0.7,
+        reasoningEffort: 'low',
+      });
+
+      await client.setGenerationParams({ temperature: 0.7 });
+
+      expect(config.setSessionGenerationParams).toHaveBeenCalledWith({
+        temperature: 0.7,
+      });
+      expect(client.getHistory()).toEqual(history);
+      expect(client.getChat()['generationConfig']).toMatchObject({
+        temperature: 0.7,
+        thinkingConfig: { includeThoughts: true, thinkingBudget: 1024 },
+      });
+    });
+  });
 });
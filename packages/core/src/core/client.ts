@@ -13,6 +13,7 @@ import {
   Content,
   Tool,
   GenerateContentResponse,
+  createUserContent,
 } from '@google/genai';
 import { getFolderStructure } from '../utils/getFolderStructure.js';
 import {
@@ -28,7 +29,7 @@ import { ReadManyFilesTool } from '../tools/read-many-files.js';
 import { getResponseText } from '../utils/generateContentResponseUtilities.js';
 import { reportError } from '../utils/errorReporting.js';
 import { GeminiChat } from './geminiChat.js';
-import { retryWithBackoff } from '../utils/retry.js';
+import { getErrorStatus, retryWithBackoff } from '../utils/retry.js';
 import { getErrorMessage } from '../utils/errors.js';
 import { isFunctionResponse } from '../utils/messageInspectors.js';
 import { tokenLimit } from './tokenLimits.js';
@@ -40,7 +41,33 @@ import {
 } from './contentGenerator.js';
 import { ProxyAgent, setGlobalDispatcher } from 'undici';
 import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
+import {
+  LLMProviderConfig,
+  assertModelAllowed,
+  isModelAllowed,
+  parseProviderFallback,
+  resolveLLMProviderConfig,
+  validateLLMProviderConfig,
+} from '../config/llmProvider.js';
+import {
+  GenerationParams,
+  resolveGenerationParams,
+  toGenerateContentConfig,
+} from '../config/generationParams.js';
+import {
+  ComparisonAnswer,
+  ComparisonOptions,
+  ComparisonTarget,
+  PendingComparison,
+  compareModels,
+} from '../models/modelComparison.js';
+import { logProviderFailover } from '../telemetry/loggers.js';
+import { ProviderFailoverEvent } from '../telemetry/types.js';
 import { ideContext } from '../services/ideContext.js';
+import { BudgetCheckResult } from '../services/budgetService.js';
+import { modelRegistry } from '../models/modelRegistry.js';
+import { calculateCost } from '../models/pricing.js';
+import { countRequestTokens } from '../models/tokenizer.js';
 
 function isThinkingSupported(model: string) {
   if (model.startsWith('gemini-2.5')) return true;
@@ -84,10 +111,6 @@ export class GeminiClient {
   private chat?: GeminiChat;
   private contentGenerator?: ContentGenerator;
   private embeddingModel: string;
-  private generateContentConfig: GenerateContentConfig = {
-    temperature: 0,
-    topP: 1,
-  };
   private sessionTurnCount = 0;
   private readonly MAX_TURNS = 100;
   /**
@@ -102,6 +125,10 @@ export class GeminiClient {
   private readonly COMPRESSION_PRESERVE_THRESHOLD = 0.3;
 
   private lastPromptId?: string;
+  /** Index of the next untried entry of the provider fallback chain */
+  private nextFailoverIndex = 0;
+  /** The answers of the last comparison, dropped with the history */
+  private pendingComparison?: PendingComparison;
 
   constructor(private config: Config) {
     if (config.getProxy()) {
@@ -152,10 +179,190 @@ export class GeminiClient {
 
   setHistory(history: Content[]) {
     this.getChat().setHistory(history);
+    this.pendingComparison = undefined;
   }
 
   async resetChat(): Promise<void> {
     this.chat = await this.startChat();
+    this.pendingComparison = undefined;
+  }
+
+  /**
+   * Switches the session to another model, of another provider if one is
+   * given, keeping the chat history. The chat is restarted so that the
+   * settings of the new model, such as thinking, apply to the next turn.
+   * @param model The model
+   * @param provider The provider serving the model, the current one if not
+   *   given
+   * @throws Error if the provider is disabled or invalid, or does not allow
+   *   the model
+   */
+  async switchModel(
+    model: string,
+    provider?: LLMProviderConfig,
+  ): Promise<void> {
+    // Provider generators are bound to their model, so they are re-created
+    // even when staying with the current provider
+    const targetProvider =
+      provider ?? this.config.getContentGeneratorConfig()?.llmProvider;
+    if (targetProvider) {
+      if (targetProvider.enabled === false) {
+        throw new Error(`LLM provider "${targetProvider.name}" is disabled.`);
+      }
+      const validationError = validateLLMProviderConfig(targetProvider);
+      if (validationError) {
+        throw new Error(
+          `Invalid LLM provider "${targetProvider.name}": ${validationError}`,
+        );
+      }
+      assertModelAllowed(targetProvider, model);
+      this.contentGenerator = await this.createProviderContentGenerator(
+        targetProvider,
+        model,
+      );
+      this.config.setLLMProvider(targetProvider, model);
+    } else {
+      this.config.setModel(model);
+    }
+    if (this.chat) {
+      this.chat = await this.startChat(this.getHistory());
+    }
+  }
+
+  /**
+   * Overrides generation parameters for the rest of the session, keeping
+   * the conversation
+   * @param params The overrides, replacing any previous ones
+   */
+  async setGenerationParams(params: GenerationParams): Promise<void> {
+    this.config.setSessionGenerationParams(params);
+    if (this.chat) {
+      this.chat = await this.startChat(this.getHistory());
+    }
+  }
+
+  /**
+   * Sends a prompt to several models in parallel, with the chat history as
+   * context, leaving the history unchanged. No tools are offered, so that
+   * each model answers directly.
+   * @param entries "provider:model" of each model, the provider's default
+   *   model if none is given
+   * @param prompt The prompt
+   * @param options Progress callback and abort signal
+   * @returns The answers, in the order of the entries. Unless the comparison
+   *   was aborted or every answer failed, they become the pending comparison.
+   * @throws Error if a provider is unknown, disabled or invalid, has no
+   *   model or does not allow it
+   */
+  async compareModels(
+    entries: string[],
+    prompt: string,
+    options: ComparisonOptions = {},
+  ): Promise<ComparisonAnswer[]> {
+    this.pendingComparison = undefined;
+    const providers = this.config.getLLMProviders();
+    const layers = this.config.getGenerationParamsLayers();
+    const targets: ComparisonTarget[] = [];
+    for (const entry of entries) {
+      const { provider: name, model: entryModel } =
+        parseProviderFallback(entry);
+      const provider = resolveLLMProviderConfig(providers, name, undefined);
+      const model = entryModel || provider.model;
+      if (!model) {
+        throw new Error(
+          `No model given for LLM provider "${name}", use "${name}:<model>".`,
+        );
+      }
+      assertModelAllowed(provider, model);
+      targets.push({
+        provider: name,
+        model,
+        generator: await this.createProviderContentGenerator(provider, model),
+        config: toGenerateContentConfig(
+          resolveGenerationParams({
+            ...layers,
+            // Compared models are all provider-backed
+            env: undefined,
+            provider: provider.params,
+            model: provider.models?.[model]?.params,
+          }),
+        ),
+      });
+    }
+    const answers = await compareModels(
+      targets,
+      {
+        contents: [
+          ...this.getChat().getHistory(true),
+          { role: 'user', parts: [{ text: prompt }] },
+        ],
+        config: {
+          systemInstruction: getCoreSystemPrompt(this.config.getUserMemory()),
+        },
+      },
+      options,
+    );
+    if (!options.signal?.aborted && answers.some((answer) => !answer.error)) {
+      this.pendingComparison = { prompt, answers };
+    }
+    return answers;
+  }
+
+  getPendingComparison(): PendingComparison | undefined {
+    return this.pendingComparison;
+  }
+
+  discardComparison(): void {
+    this.pendingComparison = undefined;
+  }
+
+  /**
+   * Adds a compared prompt and the answer chosen from the comparison to the
+   * chat history, as if the current model had answered it, and ends the
+   * pending comparison
+   */
+  adoptComparisonAnswer(prompt: string, answer: ComparisonAnswer): void {
+    const chat = this.getChat();
+    chat.addHistory({ role: 'user', parts: [{ text: prompt }] });
+    chat.addHistory({ role: 'model', parts: [{ text: answer.text }] });
+    this.pendingComparison = undefined;
+  }
+
+  /**
+   * The request config of the configured generation parameters
+   */
+  private getGenerateContentConfig(): GenerateContentConfig {
+    return toGenerateContentConfig(this.config.getGenerationParams());
+  }
+
+  /** The generation config of the chat, with thoughts if the model thinks */
+  private getChatGenerationConfig(): GenerateContentConfig {
+    const generateContentConfig = this.getGenerateContentConfig();
+    return isThinkingSupported(this.config.getModel())
+      ? {
+          ...generateContentConfig,
+          thinkingConfig: {
+            includeThoughts: true,
+            ...generateContentConfig.thinkingConfig,
+          },
+        }
+      : generateContentConfig;
+  }
+
+  private async createProviderContentGenerator(
+    provider: LLMProviderConfig,
+    model: string,
+  ): Promise<ContentGenerator> {
+    return createContentGenerator(
+      {
+        ...this.config.getContentGeneratorConfig(),
+        authType: AuthType.USE_LLM_PROVIDER,
+        llmProvider: provider,
+        model,
+      },
+      this.config,
+      this.config.getSessionId(),
+    );
   }
 
   private async getEnvironment(): Promise<Part[]> {
@@ -230,22 +437,12 @@ export class GeminiClient {
     try {
       const userMemory = this.config.getUserMemory();
       const systemInstruction = getCoreSystemPrompt(userMemory);
-      const generateContentConfigWithThinking = isThinkingSupported(
-        this.config.getModel(),
-      )
-        ? {
-            ...this.generateContentConfig,
-            thinkingConfig: {
-              includeThoughts: true,
-            },
-          }
-        : this.generateContentConfig;
       return new GeminiChat(
         this.config,
         this.getContentGenerator(),
         {
           systemInstruction,
-          ...generateContentConfigWithThinking,
+          ...this.getChatGenerationConfig(),
           tools,
         },
         history,
@@ -285,6 +482,18 @@ export class GeminiClient {
       return new Turn(this.getChat(), prompt_id);
     }
 
+    const budgetCheck = await this.checkBudget(request);
+    for (const warning of budgetCheck.warnings) {
+      yield { type: GeminiEventType.BudgetWarning, value: warning };
+    }
+    if (budgetCheck.exceeded) {
+      yield {
+        type: GeminiEventType.BudgetExceeded,
+        value: budgetCheck.exceeded,
+      };
+      return new Turn(this.getChat(), prompt_id);
+    }
+
     // Track the original model from the first call to detect model switching
     const initialModel = originalModel || this.config.getModel();
 
@@ -349,6 +558,38 @@ export class GeminiClient {
     return turn;
   }
 
+  /**
+   * Checks the next request against the configured budgets, estimating the
+   * cost of its prompt from the history and the request. What the answer
+   * will cost is not known beforehand.
+   */
+  async checkBudget(request: PartListUnion): Promise<BudgetCheckResult> {
+    const budget = this.config.getBudget();
+    if (!budget.session && !budget.daily) {
+      return { warnings: [] };
+    }
+    const model = this.config.getModel();
+    const { pricing, tokenizer } = modelRegistry.get(
+      model,
+      this.config.getContentGeneratorConfig()?.llmProvider?.name,
+    );
+    let estimatedCost = 0;
+    if (pricing) {
+      const promptTokens = await countRequestTokens(
+        {
+          model,
+          contents: [...this.getHistory(), createUserContent(request)],
+        },
+        tokenizer,
+      );
+      estimatedCost = calculateCost(pricing, {
+        prompt: promptTokens,
+        candidates: 0,
+      });
+    }
+    return this.config.getBudgetService().checkRequest(estimatedCost);
+  }
+
   async generateJson(
     contents: Content[],
     schema: SchemaUnion,
@@ -364,7 +605,7 @@ export class GeminiClient {
       const systemInstruction = getCoreSystemPrompt(userMemory);
       const requestConfig = {
         abortSignal,
-        ...this.generateContentConfig,
+        ...this.getGenerateContentConfig(),
         ...config,
       };
 
@@ -383,6 +624,8 @@ export class GeminiClient {
       const result = await retryWithBackoff(apiCall, {
         onPersistent429: async (authType?: string, error?: unknown) =>
           await this.handleFlashFallback(authType, error),
+        onFailover: async (error: unknown) =>
+          await this.failoverToNextProvider(error),
         authType: this.config.getContentGeneratorConfig()?.authType,
       });
 
@@ -448,7 +691,7 @@ export class GeminiClient {
   ): Promise<GenerateContentResponse> {
     const modelToUse = model ?? this.config.getModel();
     const configToUse: GenerateContentConfig = {
-      ...this.generateContentConfig,
+      ...this.getGenerateContentConfig(),
       ...generationConfig,
     };
 
@@ -472,6 +715,8 @@ export class GeminiClient {
       const result = await retryWithBackoff(apiCall, {
         onPersistent429: async (authType?: string, error?: unknown) =>
           await this.handleFlashFallback(authType, error),
+        onFailover: async (error: unknown) =>
+          await this.failoverToNextProvider(error),
         authType: this.config.getContentGeneratorConfig()?.authType,
       });
       return result;
@@ -556,7 +801,12 @@ export class GeminiClient {
     // Don't compress if not forced and we are under the limit.
     if (
       !force &&
-      originalTokenCount < this.COMPRESSION_TOKEN_THRESHOLD * tokenLimit(model)
+      originalTokenCount <
+        this.COMPRESSION_TOKEN_THRESHOLD *
+          tokenLimit(
+            model,
+            this.config.getContentGeneratorConfig()?.llmProvider?.name,
+          )
     ) {
       return null;
     }
@@ -664,4 +914,74 @@ export class GeminiClient {
 
     return null;
   }
+
+  /**
+   * Switches to the next usable entry of the provider fallback chain after the
+   * current provider failed persistently. Entries whose provider is missing,
+   * disabled or invalid, or does not allow the model, are skipped, and each
+   * entry is tried at most once per session.
+   * @returns True if the session now uses another provider
+   */
+  async failoverToNextProvider(error?: unknown): Promise<boolean> {
+    const fallbacks = this.config.getProviderFallbacks();
+    const current = this.config.getContentGeneratorConfig();
+    const fromProvider = current?.llmProvider?.name ?? current?.authType ?? '';
+    const fromModel = this.config.getModel();
+
+    while (this.nextFailoverIndex < fallbacks.length) {
+      const { provider: name, model } = parseProviderFallback(
+        fallbacks[this.nextFailoverIndex++],
+      );
+      const provider = this.config.getLLMProviders()[name];
+      const toModel = model || provider?.model;
+      if (
+        !provider ||
+        provider.enabled === false ||
+        validateLLMProviderConfig(provider) ||
+        !toModel ||
+        !isModelAllowed(provider, toModel) ||
+        (name === fromProvider && toModel === fromModel)
+      ) {
+        continue;
+      }
+
+      let contentGenerator: ContentGenerator;
+      try {
+        contentGenerator = await this.createProviderContentGenerator(
+          provider,
+          toModel,
+        );
+      } catch (creationError) {
+        console.warn(`Failed to fail over to "${name}":`, creationError);
+        continue;
+      }
+
+      // The generation parameters are resolved again for the new provider
+      // and model, the model's token limit follows the config
+      this.contentGenerator = contentGenerator;
+      this.config.setLLMProvider(provider, toModel);
+      this.chat?.setContentGenerator(
+        contentGenerator,
+        this.getChatGenerationConfig(),
+      );
+
+      logProviderFailover(
+        this.config,
+        new ProviderFailoverEvent(
+          fromProvider,
+          fromModel,
+          name,
+          toModel,
+          getErrorStatus(error),
+        ),
+      );
+      this.config.providerFailoverHandler?.(
+        `${fromProvider}:${fromModel}`,
+        `${name}:${toModel}`,
+        error,
+      );
+      return true;
+    }
+    return false;
+  }
 }
@@ -13,11 +13,17 @@ import {
 import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import { GoogleGenAI } from '@google/genai';
 import { Config } from '../config/config.js';
+import { LLMProviderType } from '../config/llmProvider.js';
+import { LLMProviderContentGenerator } from '../models/llmProviderGenerator.js';
+import { DEFAULT_GEMINI_MODEL } from '../config/models.js';
+import { CachedContentGenerator } from './cachedContentGenerator.js';
 
 vi.mock('../code_assist/codeAssist.js');
 vi.mock('@google/genai');
 
-const mockConfig = {} as unknown as Config;
+const mockConfig = {
+  getRecordFixture: () => undefined,
+} as unknown as Config;
 
 describe('createContentGenerator', () => {
   it('should create a CodeAssistContentGenerator', async () => {
@@ -36,9 +42,10 @@ describe('createContentGenerator', () => {
     expect(generator).toBe(mockGenerator);
   });
 
-  it('should create a GoogleGenAI content generator', async () => {
+  it('should create a GoogleGenAI content generator with cached content', async () => {
     const mockGenerator = {
       models: {},
+      caches: {},
     } as unknown;
     vi.mocked(GoogleGenAI).mockImplementation(() => mockGenerator as never);
     const generator = await createContentGenerator(
@@ -58,7 +65,35 @@ describe('createContentGenerator', () => {
         },
       },
     });
-    expect(generator).toBe((mockGenerator as GoogleGenAI).models);
+    expect(generator).toBeInstanceOf(CachedContentGenerator);
+  });
+
+  it('should create an LLMProviderContentGenerator', async () => {
+    const provider = {
+      name: 'openrouter-primary',
+      displayName: 'OpenRouter',
+      type: LLMProviderType.OPENROUTER,
+      apiKey: 'provider-key',
+    };
+    const generator = await createContentGenerator(
+      {
+        model: 'anthropic/claude-sonnet-4',
+        authType: AuthType.USE_LLM_PROVIDER,
+        llmProvider: provider,
+      },
+      mockConfig,
+    );
+    expect(generator).toBeInstanceOf(LLMProviderContentGenerator);
+    expect((generator as LLMProviderContentGenerator).provider).toBe(provider);
+  });
+
+  it('should throw for USE_LLM_PROVIDER without a provider', async () => {
+    await expect(
+      createContentGenerator(
+        { model: 'test-model', authType: AuthType.USE_LLM_PROVIDER },
+        mockConfig,
+      ),
+    ).rejects.toThrow('No LLM provider configured');
   });
 });
 
@@ -136,4 +171,115 @@ describe('createContentGeneratorConfig', () => {
     expect(config.apiKey).toBeUndefined();
     expect(config.vertexai).toBeUndefined();
   });
+
+  describe('USE_LLM_PROVIDER', () => {
+    const providers = {
+      'openrouter-primary': {
+        name: 'openrouter-primary',
+        displayName: 'OpenRouter',
+        type: LLMProviderType.OPENROUTER,
+        apiKey: 'primary-key',
+        model: 'anthropic/claude-sonnet-4',
+        enabled: true,
+      },
+      'local-gateway': {
+        name: 'local-gateway',
+        displayName: 'OpenAI Compatible',
+        type: LLMProviderType.OPENAI_COMPATIBLE,
+        apiKey: 'local-key',
+        baseUrl: 'http://localhost:8080/v1',
+        enabled: true,
+      },
+    };
+
+    const makeConfig = (
+      overrides: {
+        model?: string;
+        modelExplicit?: boolean;
+        llmProvider?: string;
+        defaultLLMProvider?: string;
+      } = {},
+    ) =>
+      ({
+        getModel: vi
+          .fn()
+          .mockReturnValue(overrides.model ?? DEFAULT_GEMINI_MODEL),
+        isModelExplicit: vi
+          .fn()
+          .mockReturnValue(overrides.modelExplicit ?? !!overrides.model),
+        getProxy: vi.fn(),
+        getLLMProviders: vi.fn().mockReturnValue(providers),
+        getLLMProvider: vi.fn().mockReturnValue(overrides.llmProvider),
+        getDefaultLLMProvider: vi
+          .fn()
+          .mockReturnValue(overrides.defaultLLMProvider),
+      }) as unknown as Config;
+
+    it('should resolve the default provider and its model', () => {
+      const config = createContentGeneratorConfig(
+        makeConfig({ defaultLLMProvider: 'openrouter-primary' }),
+        AuthType.USE_LLM_PROVIDER,
+      );
+      expect(config.llmProvider).toBe(providers['openrouter-primary']);
+      expect(config.model).toBe('anthropic/claude-sonnet-4');
+    });
+
+    it('should prefer an explicit provider over the default one', () => {
+      const config = createContentGeneratorConfig(
+        makeConfig({
+          llmProvider: 'local-gateway',
+          defaultLLMProvider: 'openrouter-primary',
+        }),
+        AuthType.USE_LLM_PROVIDER,
+      );
+      expect(config.llmProvider).toBe(providers['local-gateway']);
+    });
+
+    it('should prefer an explicitly chosen model over the provider model', () => {
+      const config = createContentGeneratorConfig(
+        makeConfig({
+          model: 'openai/gpt-4o',
+          defaultLLMProvider: 'openrouter-primary',
+        }),
+        AuthType.USE_LLM_PROVIDER,
+      );
+      expect(config.model).toBe('openai/gpt-4o');
+    });
+
+    it('should prefer the Gemini default model when it was chosen explicitly', () => {
+      const config = createContentGeneratorConfig(
+        makeConfig({
+          model: DEFAULT_GEMINI_MODEL,
+          modelExplicit: true,
+          defaultLLMProvider: 'openrouter-primary',
+        }),
+        AuthType.USE_LLM_PROVIDER,
+      );
+      expect(config.model).toBe(DEFAULT_GEMINI_MODEL);
+    });
+
+    it('should not read CUSTOM_LLM_* environment variables', () => {
+      process.env.CUSTOM_LLM_MODEL_NAME = 'env-model';
+      const config = createContentGeneratorConfig(
+        makeConfig({ defaultLLMProvider: 'openrouter-primary' }),
+        AuthType.USE_LLM_PROVIDER,
+      );
+      expect(config.model).toBe('anthropic/claude-sonnet-4');
+    });
+
+    it('should throw if no provider is selected', () => {
+      expect(() =>
+        createContentGeneratorConfig(makeConfig(), AuthType.USE_LLM_PROVIDER),
+      ).toThrow('No LLM provider selected');
+    });
+
+    it('should throw if the provider does not exist', () => {
+      expect(() =>
+        createContentGeneratorConfig(
+          makeConfig({ llmProvider: 'missing' }),
+          AuthType.USE_LLM_PROVIDER,
+        ),
+      ).toThrow('LLM provider "missing" not found');
+    });
+  });
 });
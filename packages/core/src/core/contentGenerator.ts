@@ -19,6 +19,17 @@ import { Config } from '../config/config.js';
 import { getEffectiveModel } from './modelCheck.js';
 import { UserTierId } from '../code_assist/types.js';
 import { CustomLLMContentGenerator } from '../models/index.js';
+import { createLLMProviderContentGenerator } from '../models/llmProviderGenerator.js';
+import { registerProviderModels } from '../models/modelRegistry.js';
+import { RecordingContentGenerator } from '../models/replay/generator.js';
+import { CachedContentGenerator } from './cachedContentGenerator.js';
+import { getFixtureRecorder } from '../models/replay/fixture.js';
+import { resolveLLMProviderSecrets } from '../config/secretStore.js';
+import {
+  LLMProviderConfig,
+  assertModelAllowed,
+  resolveLLMProviderConfig,
+} from '../config/llmProvider.js';
 
 /**
  * Interface abstracting the core functionalities for generating content and counting tokens.
@@ -37,6 +48,12 @@ export interface ContentGenerator {
   embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse>;
 
   userTier?: UserTierId;
+
+  /**
+   * Whether JSON is requested through the JSON mode of the API, false when
+   * it is asked for in the prompt. Generators without it use the API.
+   */
+  supportsJsonMode?(): boolean;
 }
 
 export enum AuthType {
@@ -54,6 +71,7 @@ export type ContentGeneratorConfig = {
   vertexai?: boolean;
   authType?: AuthType | undefined;
   proxy?: string | undefined;
+  llmProvider?: LLMProviderConfig;
 };
 
 export function createContentGeneratorConfig(
@@ -111,15 +129,49 @@ export function createContentGeneratorConfig(
   }
 
   if (authType === AuthType.USE_LLM_PROVIDER) {
+    const provider = resolveLLMProviderConfig(
+      config.getLLMProviders(),
+      config.getLLMProvider(),
+      config.getDefaultLLMProvider(),
+    );
     contentGeneratorConfig.authType = AuthType.USE_LLM_PROVIDER;
-    // LLM provider configuration will be handled in createContentGenerator
+    contentGeneratorConfig.llmProvider = provider;
+    // The CLI always supplies a model, falling back to the Gemini default. Only
+    // an explicitly chosen model should take precedence over the provider's.
+    if (provider.model && !config.isModelExplicit()) {
+      contentGeneratorConfig.model = provider.model;
+    }
+    assertModelAllowed(provider, contentGeneratorConfig.model);
     return contentGeneratorConfig;
   }
 
   return contentGeneratorConfig;
 }
 
+/**
+ * Creates the content generator of the configured auth type. With --record,
+ * its requests and responses are recorded to the fixture file.
+ */
 export async function createContentGenerator(
+  config: ContentGeneratorConfig,
+  gcConfig: Config,
+  sessionId?: string,
+): Promise<ContentGenerator> {
+  const generator = await createAuthContentGenerator(
+    config,
+    gcConfig,
+    sessionId,
+  );
+  const recordFixture = gcConfig.getRecordFixture();
+  return recordFixture
+    ? new RecordingContentGenerator(
+        generator,
+        getFixtureRecorder(recordFixture),
+      )
+    : generator;
+}
+
+async function createAuthContentGenerator(
   config: ContentGeneratorConfig,
   _gcConfig: Config,
   _sessionId?: string,
@@ -152,7 +204,7 @@ export async function createContentGenerator(
       httpOptions,
     });
 
-    return googleGenAI.models;
+    return new CachedContentGenerator(googleGenAI.models, googleGenAI.caches);
   }
 
   if (config.authType === AuthType.USE_CUSTOM_LLM) {
@@ -160,10 +212,16 @@ export async function createContentGenerator(
   }
 
   if (config.authType === AuthType.USE_LLM_PROVIDER) {
-    // TODO: This will be implemented in Phase 5 when we create the LLM Provider content generator
-    // const { LLMProviderContentGenerator } = await import('../models/llmProviderGenerator.js');
-    // return new LLMProviderContentGenerator(_gcConfig);
-    throw new Error('LLM Provider content generator not yet implemented');
+    if (!config.llmProvider) {
+      throw new Error(
+        'Error creating contentGenerator: No LLM provider configured',
+      );
+    }
+    await registerProviderModels(config.llmProvider);
+    return createLLMProviderContentGenerator(
+      await resolveLLMProviderSecrets(config.llmProvider),
+      config.model,
+    );
   }
 
   throw new Error(
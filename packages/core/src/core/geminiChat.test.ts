@@ -15,6 +15,13 @@ import {
 import { GeminiChat } from './geminiChat.js';
 import { Config } from '../config/config.js';
 import { setSimulate429 } from '../utils/testUtils.js';
+import { logApiResponse } from '../telemetry/loggers.js';
+
+vi.mock('../telemetry/loggers.js', () => ({
+  logApiRequest: vi.fn(),
+  logApiResponse: vi.fn(),
+  logApiError: vi.fn(),
+}));
 
 // Mocks
 const mockModelsModule = {
@@ -119,6 +126,47 @@ describe('GeminiChat', () => {
     });
   });
 
+  describe('sendMessageStream usage', () => {
+    it('should log the usage of a closing chunk without content', async () => {
+      const response = (async function* () {
+        yield {
+          candidates: [
+            { content: { parts: [{ text: 'response' }], role: 'model' } },
+          ],
+        } as unknown as GenerateContentResponse;
+        yield {
+          candidates: [{ content: { parts: [], role: 'model' } }],
+          usageMetadata: {
+            promptTokenCount: 10,
+            candidatesTokenCount: 5,
+            totalTokenCount: 15,
+          },
+        } as unknown as GenerateContentResponse;
+      })();
+      vi.mocked(mockModelsModule.generateContentStream).mockResolvedValue(
+        response,
+      );
+
+      const stream = await chat.sendMessageStream(
+        { message: 'hello' },
+        'prompt-id-1',
+      );
+      for await (const _ of stream) {
+        // consume the stream
+      }
+
+      expect(vi.mocked(logApiResponse).mock.calls[0][1]).toMatchObject({
+        input_token_count: 10,
+        output_token_count: 5,
+        total_token_count: 15,
+      });
+      expect(chat.getHistory()).toEqual([
+        { role: 'user', parts: [{ text: 'hello' }] },
+        { role: 'model', parts: [{ text: 'response' }] },
+      ]);
+    });
+  });
+
   describe('recordHistory', () => {
     const userInput: Content = {
       role: 'user',
@@ -133,13 +133,27 @@ export class GeminiChat {
 
   constructor(
     private readonly config: Config,
-    private readonly contentGenerator: ContentGenerator,
-    private readonly generationConfig: GenerateContentConfig = {},
+    private contentGenerator: ContentGenerator,
+    private generationConfig: GenerateContentConfig = {},
     private history: Content[] = [],
   ) {
     validateHistory(history);
   }
 
+  /**
+   * Replaces the content generator and the generation config of its model,
+   * e.g. after failing over to another provider. The history, system
+   * instruction and tools are kept.
+   */
+  setContentGenerator(
+    contentGenerator: ContentGenerator,
+    generationConfig: GenerateContentConfig,
+  ): void {
+    const { systemInstruction, tools } = this.generationConfig;
+    this.contentGenerator = contentGenerator;
+    this.generationConfig = { systemInstruction, ...generationConfig, tools };
+  }
+
   private _getRequestTextFromContents(contents: Content[]): string {
     return contents
       .flatMap((content) => content.parts ?? [])
@@ -175,6 +189,8 @@ export class GeminiChat {
         this.config.getContentGeneratorConfig()?.authType,
         usageMetadata,
         responseText,
+        undefined,
+        this.config.getContentGeneratorConfig()?.llmProvider?.name,
       ),
     );
   }
@@ -310,6 +326,8 @@ export class GeminiChat {
         },
         onPersistent429: async (authType?: string, error?: unknown) =>
           await this.handleFlashFallback(authType, error),
+        onFailover: async (error: unknown) =>
+          await this.config.getGeminiClient().failoverToNextProvider(error),
         authType: this.config.getContentGeneratorConfig()?.authType,
       });
       const durationMs = Date.now() - startTime;
@@ -422,6 +440,8 @@ export class GeminiChat {
         },
         onPersistent429: async (authType?: string, error?: unknown) =>
           await this.handleFlashFallback(authType, error),
+        onFailover: async (error: unknown) =>
+          await this.config.getGeminiClient().failoverToNextProvider(error),
         authType: this.config.getContentGeneratorConfig()?.authType,
       });
 
@@ -531,6 +551,9 @@ export class GeminiChat {
             }
             outputContent.push(content);
           }
+        } else if (chunk.usageMetadata) {
+          // Custom providers report the usage in a closing chunk without content
+          chunks.push(chunk);
         }
         yield chunk;
       }
@@ -52,6 +52,8 @@ export enum GeminiEventType {
   MaxSessionTurns = 'max_session_turns',
   Finished = 'finished',
   LoopDetected = 'loop_detected',
+  BudgetWarning = 'budget_warning',
+  BudgetExceeded = 'budget_exceeded',
 }
 
 export interface StructuredError {
@@ -145,6 +147,16 @@ export type ServerGeminiLoopDetectedEvent = {
   type: GeminiEventType.LoopDetected;
 };
 
+export type ServerGeminiBudgetWarningEvent = {
+  type: GeminiEventType.BudgetWarning;
+  value: string;
+};
+
+export type ServerGeminiBudgetExceededEvent = {
+  type: GeminiEventType.BudgetExceeded;
+  value: string;
+};
+
 // The original union type, now composed of the individual types
 export type ServerGeminiStreamEvent =
   | ServerGeminiContentEvent
@@ -157,7 +169,9 @@ export type ServerGeminiStreamEvent =
   | ServerGeminiThoughtEvent
   | ServerGeminiMaxSessionTurnsEvent
   | ServerGeminiFinishedEvent
-  | ServerGeminiLoopDetectedEvent;
+  | ServerGeminiLoopDetectedEvent
+  | ServerGeminiBudgetWarningEvent
+  | ServerGeminiBudgetExceededEvent;
 
 // A turn manages the agentic loop turn within the server context.
 export class Turn {
@@ -197,14 +211,18 @@ export class Turn {
 
         const thoughtPart = resp.candidates?.[0]?.content?.parts?.[0];
         if (thoughtPart?.thought) {
-          // Thought always has a bold "subject" part enclosed in double asterisks
+          // Gemini thoughts have a bold "subject" part enclosed in double asterisks
           // (e.g., **Subject**). The rest of the string is considered the description.
+          // Thoughts of other models have no subject, so their first line is used.
           const rawText = thoughtPart.text ?? '';
           const subjectStringMatches = rawText.match(/\*\*(.*?)\*\*/s);
+          const [firstLine, ...otherLines] = rawText.trim().split('\n');
           const subject = subjectStringMatches
             ? subjectStringMatches[1].trim()
-            : '';
-          const description = rawText.replace(/\*\*(.*?)\*\*/s, '').trim();
+            : firstLine.trim();
+          const description = subjectStringMatches
+            ? rawText.replace(/\*\*(.*?)\*\*/s, '').trim()
+            : otherLines.join('\n').trim();
           const thought: ThoughtSummary = {
             subject,
             description,
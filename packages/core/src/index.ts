@@ -7,6 +7,8 @@
 // Export config
 export * from './config/config.js';
 export * from './config/llmProvider.js';
+export * from './config/generationParams.js';
+export * from './config/secretStore.js';
 
 // Export Core Logic
 export * from './core/client.js';
@@ -20,6 +22,15 @@ export * from './core/geminiRequest.js';
 export * from './core/coreToolScheduler.js';
 export * from './core/nonInteractiveToolExecutor.js';
 
+export * from './models/modelCatalog.js';
+export * from './models/modelComparison.js';
+export * from './models/modelRegistry.js';
+export * from './models/pricing.js';
+export * from './models/providerDiagnostics.js';
+export * from './models/rateLimiter.js';
+export { listOllamaModels } from './models/ollama/client.js';
+export type { OllamaModel } from './models/ollama/types.js';
+
 export * from './code_assist/codeAssist.js';
 export * from './code_assist/oauth2.js';
 export * from './code_assist/server.js';
@@ -39,6 +50,7 @@ export * from './utils/retry.js';
 export * from './utils/systemEncoding.js';
 
 // Export services
+export * from './services/budgetService.js';
 export * from './services/fileDiscoveryService.js';
 export * from './services/gitService.js';
 export * from './services/ideContext.js';
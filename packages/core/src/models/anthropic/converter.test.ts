@@ -0,0 +1,594 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FinishReason, GenerateContentResponse, Type } from '@google/genai';
+import {
+  JSON_RESPONSE_TOOL_NAME,
+  MIN_THINKING_BUDGET,
+  fromAnthropicResponse,
+  fromAnthropicStream,
+  toAnthropicRequest,
+  withCacheBreakpoints,
+} from './converter.js';
+import { AnthropicStreamEvent } from './types.js';
+
+async function* toEvents(
+  events: AnthropicStreamEvent[],
+): AsyncGenerator<AnthropicStreamEvent> {
+  for (const event of events) {
+    yield event;
+  }
+}
+
+async function collect(
+  stream: AsyncGenerator<GenerateContentResponse>,
+): Promise<GenerateContentResponse[]> {
+  const responses: GenerateContentResponse[] = [];
+  for await (const resp of stream) {
+    responses.push(resp);
+  }
+  return responses;
+}
+
+describe('anthropic converter', () => {
+  describe('toAnthropicRequest', () => {
+    it('maps history to alternating messages with content blocks', () => {
+      const req = toAnthropicRequest(
+        {
+          model: 'ignored',
+          contents: [
+            {
+              role: 'user',
+              parts: [
+                { text: 'What is in this image?' },
+                { inlineData: { mimeType: 'image/png', data: 'aW1n' } },
+              ],
+            },
+            {
+              role: 'model',
+              parts: [
+                { text: 'Let me look.' },
+                {
+                  functionCall: {
+                    id: 'toolu_1',
+                    name: 'read_file',
+                    args: { path: 'a.txt' },
+                  },
+                },
+              ],
+            },
+            {
+              role: 'user',
+              parts: [
+                {
+                  functionResponse: {
+                    id: 'toolu_1',
+                    name: 'read_file',
+                    response: { output: 'file contents' },
+                  },
+                },
+              ],
+            },
+            { role: 'user', parts: [{ text: 'Thanks' }] },
+          ],
+          config: { systemInstruction: 'Be brief.' },
+        },
+        'claude-sonnet-4',
+        1000,
+      );
+
+      expect(req.model).toBe('claude-sonnet-4');
+      expect(req.max_tokens).toBe(1000);
+      expect(req.system).toBe('Be brief.');
+      expect(req.messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is in this image?' },
+            {
+              type: 'image',
+              source: { type: 'base64', media_type: 'image/png', data: 'aW1n' },
+            },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Let me look.' },
+            {
+              type: 'tool_use',
+              id: 'toolu_1',
+              name: 'read_file',
+              input: { path: 'a.txt' },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'toolu_1',
+              content: 'file contents',
+              is_error: undefined,
+            },
+            { type: 'text', text: 'Thanks' },
+          ],
+        },
+      ]);
+    });
+
+    it('marks failed function responses as errors', () => {
+      const req = toAnthropicRequest(
+        {
+          model: 'ignored',
+          contents: [
+            {
+              role: 'user',
+              parts: [
+                {
+                  functionResponse: {
+                    id: 'toolu_1',
+                    name: 'read_file',
+                    response: { error: 'not found' },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+        'claude-sonnet-4',
+        1000,
+      );
+      expect(req.messages[0].content[0]).toEqual({
+        type: 'tool_result',
+        tool_use_id: 'toolu_1',
+        content: 'Error: not found',
+        is_error: true,
+      });
+    });
+
+    it('gives calls without ids the same id as their responses', () => {
+      const request = {
+        model: 'ignored',
+        contents: [
+          { role: 'user', parts: [{ text: 'Read both files' }] },
+          {
+            role: 'model',
+            parts: [
+              { functionCall: { name: 'read_file', args: { path: 'a.txt' } } },
+              { functionCall: { name: 'read_file', args: { path: 'b.txt' } } },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  name: 'read_file',
+                  response: { output: 'a' },
+                },
+              },
+              {
+                functionResponse: {
+                  name: 'read_file',
+                  response: { output: 'b' },
+                },
+              },
+            ],
+          },
+        ],
+      };
+
+      const req = toAnthropicRequest(request, 'claude-sonnet-4', 1000);
+
+      expect(
+        req.messages[1].content.map((block) =>
+          block.type === 'tool_use' ? block.id : undefined,
+        ),
+      ).toEqual(['toolu_1_0_read_file', 'toolu_1_1_read_file']);
+      expect(
+        req.messages[2].content.map((block) =>
+          block.type === 'tool_result' ? block.tool_use_id : undefined,
+        ),
+      ).toEqual(['toolu_1_0_read_file', 'toolu_1_1_read_file']);
+      expect(toAnthropicRequest(request, 'claude-sonnet-4', 1000)).toEqual(req);
+    });
+
+    it('sends PDFs as documents and describes other attachments', () => {
+      const req = toAnthropicRequest(
+        {
+          model: 'ignored',
+          contents: [
+            {
+              role: 'user',
+              parts: [
+                { inlineData: { mimeType: 'application/pdf', data: 'cGRm' } },
+                { inlineData: { mimeType: 'audio/wav', data: 'd2F2' } },
+              ],
+            },
+          ],
+        },
+        'claude-sonnet-4',
+        1000,
+      );
+      expect(req.messages[0].content).toEqual([
+        {
+          type: 'document',
+          source: {
+            type: 'base64',
+            media_type: 'application/pdf',
+            data: 'cGRm',
+          },
+        },
+        {
+          type: 'text',
+          text: '[Attachment of type audio/wav omitted: the model does not accept this file type]',
+        },
+      ]);
+    });
+
+    it('converts function declarations to tools', () => {
+      const req = toAnthropicRequest(
+        {
+          model: 'ignored',
+          contents: 'hi',
+          config: {
+            tools: [
+              {
+                functionDeclarations: [
+                  {
+                    name: 'read_file',
+                    description: 'Reads a file',
+                    parameters: {
+                      type: Type.OBJECT,
+                      properties: { path: { type: Type.STRING } },
+                      required: ['path'],
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        'claude-sonnet-4',
+        1000,
+      );
+      expect(req.tools).toEqual([
+        {
+          name: 'read_file',
+          description: 'Reads a file',
+          input_schema: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+            required: ['path'],
+          },
+        },
+      ]);
+      expect(req.tool_choice).toBeUndefined();
+    });
+
+    it('forces the JSON response tool for JSON requests', () => {
+      const req = toAnthropicRequest(
+        {
+          model: 'ignored',
+          contents: 'hi',
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: { answer: { type: Type.STRING } },
+            },
+          },
+        },
+        'claude-sonnet-4',
+        1000,
+      );
+      expect(req.tools?.[0].name).toBe(JSON_RESPONSE_TOOL_NAME);
+      expect(req.tool_choice).toEqual({
+        type: 'tool',
+        name: JSON_RESPONSE_TOOL_NAME,
+      });
+    });
+
+    it('does not send both temperature and top_p', () => {
+      const req = toAnthropicRequest(
+        {
+          model: 'ignored',
+          contents: 'hi',
+          config: { temperature: 0, topP: 1 },
+        },
+        'claude-sonnet-4',
+        1000,
+      );
+      expect(req.temperature).toBe(0);
+      expect(req.top_p).toBeUndefined();
+    });
+
+    it('enables thinking when thoughts are requested', () => {
+      const req = toAnthropicRequest(
+        {
+          model: 'ignored',
+          contents: 'hi',
+          config: {
+            temperature: 0,
+            thinkingConfig: { includeThoughts: true },
+          },
+        },
+        'claude-sonnet-4',
+        1000,
+      );
+      expect(req.thinking).toEqual({
+        type: 'enabled',
+        budget_tokens: MIN_THINKING_BUDGET,
+      });
+      expect(req.max_tokens).toBeGreaterThan(MIN_THINKING_BUDGET);
+      expect(req.temperature).toBeUndefined();
+    });
+
+    it('does not enable thinking while continuing a tool call', () => {
+      const req = toAnthropicRequest(
+        {
+          model: 'ignored',
+          contents: [
+            { role: 'user', parts: [{ text: 'read a.txt' }] },
+            {
+              role: 'model',
+              parts: [
+                {
+                  functionCall: {
+                    id: 'toolu_1',
+                    name: 'read_file',
+                    args: { path: 'a.txt' },
+                  },
+                },
+              ],
+            },
+          ],
+          config: { thinkingConfig: { thinkingBudget: 2048 } },
+        },
+        'claude-sonnet-4',
+        1000,
+      );
+      expect(req.thinking).toBeUndefined();
+    });
+  });
+
+  describe('withCacheBreakpoints', () => {
+    it('marks the system prompt and the end of the conversation', () => {
+      const req = toAnthropicRequest(
+        {
+          model: 'ignored',
+          contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+          config: { systemInstruction: 'Be brief.' },
+        },
+        'claude-sonnet-4',
+        1000,
+      );
+      const cached = withCacheBreakpoints(req);
+      expect(cached.system).toEqual([
+        {
+          type: 'text',
+          text: 'Be brief.',
+          cache_control: { type: 'ephemeral' },
+        },
+      ]);
+      expect(cached.messages[0].content).toEqual([
+        { type: 'text', text: 'Hi', cache_control: { type: 'ephemeral' } },
+      ]);
+      // The converted request is left as it was
+      expect(req.system).toBe('Be brief.');
+      expect(req.messages[0].content).toEqual([{ type: 'text', text: 'Hi' }]);
+    });
+
+    it('marks the last tool without a system prompt and skips thinking', () => {
+      const cached = withCacheBreakpoints({
+        model: 'claude-sonnet-4',
+        max_tokens: 1000,
+        tools: [
+          { name: 'ls', input_schema: { type: 'object' } },
+          { name: 'read_file', input_schema: { type: 'object' } },
+        ],
+        messages: [
+          {
+            role: 'assistant',
+            content: [
+              { type: 'text', text: 'Listing' },
+              { type: 'thinking', thinking: 'hm', signature: 'sig' },
+            ],
+          },
+        ],
+      });
+      expect(cached.tools?.[0].cache_control).toBeUndefined();
+      expect(cached.tools?.[1].cache_control).toEqual({ type: 'ephemeral' });
+      expect(cached.messages[0].content).toEqual([
+        { type: 'text', text: 'Listing', cache_control: { type: 'ephemeral' } },
+        { type: 'thinking', thinking: 'hm', signature: 'sig' },
+      ]);
+    });
+  });
+
+  describe('fromAnthropicResponse', () => {
+    it('converts content blocks, stop reason and usage', () => {
+      const resp = fromAnthropicResponse({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4',
+        content: [
+          { type: 'thinking', thinking: 'Hmm', signature: 'sig' },
+          { type: 'text', text: 'Reading the file.' },
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: 'read_file',
+            input: { path: 'a.txt' },
+          },
+        ],
+        stop_reason: 'tool_use',
+        usage: {
+          input_tokens: 10,
+          output_tokens: 5,
+          cache_read_input_tokens: 20,
+        },
+      });
+
+      expect(resp.candidates?.[0].content?.parts).toEqual([
+        { text: 'Hmm', thought: true, thoughtSignature: 'sig' },
+        { text: 'Reading the file.' },
+        {
+          functionCall: {
+            id: 'toolu_1',
+            name: 'read_file',
+            args: { path: 'a.txt' },
+          },
+        },
+      ]);
+      expect(resp.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+      expect(resp.usageMetadata).toEqual({
+        promptTokenCount: 30,
+        candidatesTokenCount: 5,
+        cachedContentTokenCount: 20,
+        totalTokenCount: 35,
+      });
+    });
+
+    it('returns the JSON response tool input as text', () => {
+      const resp = fromAnthropicResponse({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4',
+        content: [
+          {
+            type: 'tool_use',
+            id: 'toolu_1',
+            name: JSON_RESPONSE_TOOL_NAME,
+            input: { answer: 'yes' },
+          },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 1, output_tokens: 1 },
+      });
+      expect(resp.text).toBe('{"answer":"yes"}');
+    });
+  });
+
+  describe('fromAnthropicStream', () => {
+    it('streams text, thinking and tool calls', async () => {
+      const responses = await collect(
+        fromAnthropicStream(
+          toEvents([
+            {
+              type: 'message_start',
+              message: {
+                id: 'msg_1',
+                type: 'message',
+                role: 'assistant',
+                model: 'claude-sonnet-4',
+                content: [],
+                stop_reason: null,
+                usage: { input_tokens: 12, output_tokens: 1 },
+              },
+            },
+            {
+              type: 'content_block_start',
+              index: 0,
+              content_block: { type: 'thinking', thinking: '' },
+            },
+            {
+              type: 'content_block_delta',
+              index: 0,
+              delta: { type: 'thinking_delta', thinking: 'Considering' },
+            },
+            { type: 'content_block_stop', index: 0 },
+            {
+              type: 'content_block_start',
+              index: 1,
+              content_block: { type: 'text', text: '' },
+            },
+            {
+              type: 'content_block_delta',
+              index: 1,
+              delta: { type: 'text_delta', text: 'Hello' },
+            },
+            { type: 'content_block_stop', index: 1 },
+            {
+              type: 'content_block_start',
+              index: 2,
+              content_block: {
+                type: 'tool_use',
+                id: 'toolu_1',
+                name: 'read_file',
+                input: {},
+              },
+            },
+            {
+              type: 'content_block_delta',
+              index: 2,
+              delta: { type: 'input_json_delta', partial_json: '{"path":' },
+            },
+            {
+              type: 'content_block_delta',
+              index: 2,
+              delta: { type: 'input_json_delta', partial_json: '"a.txt"}' },
+            },
+            { type: 'content_block_stop', index: 2 },
+            {
+              type: 'message_delta',
+              delta: { stop_reason: 'tool_use' },
+              usage: { output_tokens: 30 },
+            },
+            { type: 'message_stop' },
+          ]),
+        ),
+      );
+
+      expect(
+        responses.map((resp) => resp.candidates?.[0].content?.parts),
+      ).toEqual([
+        [{ text: 'Considering', thought: true }],
+        [{ text: 'Hello' }],
+        [
+          {
+            functionCall: {
+              id: 'toolu_1',
+              name: 'read_file',
+              args: { path: 'a.txt' },
+            },
+          },
+        ],
+        [],
+      ]);
+      const last = responses[responses.length - 1];
+      expect(last.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+      expect(last.usageMetadata).toEqual({
+        promptTokenCount: 12,
+        candidatesTokenCount: 30,
+        cachedContentTokenCount: 0,
+        totalTokenCount: 42,
+      });
+    });
+
+    it('throws on error events', async () => {
+      await expect(
+        collect(
+          fromAnthropicStream(
+            toEvents([
+              {
+                type: 'error',
+                error: { type: 'overloaded_error', message: 'Overloaded' },
+              },
+            ]),
+          ),
+        ),
+      ).rejects.toThrow(
+        'Anthropic stream error (overloaded_error): Overloaded',
+      );
+    });
+  });
+});
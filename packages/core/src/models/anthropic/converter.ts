@@ -0,0 +1,557 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Content,
+  FinishReason,
+  GenerateContentConfig,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  ToolListUnion,
+} from '@google/genai';
+import {
+  convertTypeValuesToLowerCase,
+  normalizeContents,
+  toOmittedMediaText,
+  toSystemText,
+} from '../util.js';
+import {
+  AnthropicCacheControl,
+  AnthropicContentBlock,
+  AnthropicCountTokensRequest,
+  AnthropicMessage,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicStopReason,
+  AnthropicStreamEvent,
+  AnthropicTool,
+  AnthropicUsage,
+} from './types.js';
+
+/**
+ * Name of the tool used to emulate JSON mode. The Messages API has no native
+ * JSON mode, so the response schema is sent as a forced tool call instead.
+ */
+export const JSON_RESPONSE_TOOL_NAME = 'json_response';
+
+/** Cache breakpoint of the default lifetime of five minutes. */
+const CACHE_CONTROL: AnthropicCacheControl = { type: 'ephemeral' };
+
+/** The smallest thinking budget accepted by the Messages API. */
+export const MIN_THINKING_BUDGET = 1024;
+
+export function toAnthropicRequest(
+  req: GenerateContentParameters,
+  model: string,
+  defaultMaxTokens: number,
+): AnthropicMessagesRequest {
+  const config = req.config;
+  const messages = toAnthropicMessages(normalizeContents(req.contents));
+  let maxTokens = config?.maxOutputTokens ?? defaultMaxTokens;
+
+  const request: AnthropicMessagesRequest = {
+    model,
+    max_tokens: maxTokens,
+    messages,
+    system: toSystemText(config?.systemInstruction),
+    stop_sequences: config?.stopSequences,
+  };
+
+  if (isJsonRequest(config)) {
+    request.tools = [
+      {
+        name: JSON_RESPONSE_TOOL_NAME,
+        description: 'Respond with a JSON object matching the input schema.',
+        input_schema: toInputSchema(config.responseSchema),
+      },
+    ];
+    request.tool_choice = { type: 'tool', name: JSON_RESPONSE_TOOL_NAME };
+  } else {
+    request.tools = toAnthropicTools(config?.tools);
+  }
+
+  const thinkingBudget = getThinkingBudget(config);
+  // Thinking blocks are not kept in the chat history, and the API rejects a
+  // tool loop whose last assistant turn lost its thinking block. Thinking is
+  // therefore only enabled when the request does not continue a tool call.
+  if (
+    thinkingBudget > 0 &&
+    !request.tool_choice &&
+    !continuesToolUse(messages)
+  ) {
+    if (maxTokens <= thinkingBudget) {
+      maxTokens = thinkingBudget + defaultMaxTokens;
+      request.max_tokens = maxTokens;
+    }
+    request.thinking = { type: 'enabled', budget_tokens: thinkingBudget };
+  } else if (config?.temperature !== undefined) {
+    // Newer Claude models reject requests that set both temperature and top_p.
+    request.temperature = config.temperature;
+  } else if (config?.topP !== undefined) {
+    request.top_p = config.topP;
+  }
+  // Like temperature, top_k cannot be changed while thinking
+  if (!request.thinking && config?.topK !== undefined) {
+    request.top_k = config.topK;
+  }
+
+  return request;
+}
+
+export function toAnthropicCountTokensRequest(
+  req: GenerateContentParameters,
+  model: string,
+): AnthropicCountTokensRequest {
+  const { messages, system, tools, tool_choice } = toAnthropicRequest(
+    req,
+    model,
+    1,
+  );
+  return { model, messages, system, tools, tool_choice };
+}
+
+/**
+ * Marks the prompt prefix of a request for caching: the tools and system
+ * prompt, which stay the same for the whole session, and the conversation
+ * up to the last message, which the next turn resends. Prefixes shorter
+ * than the minimum of the model are not cached.
+ * @param request The request
+ * @returns The request with cache breakpoints
+ */
+export function withCacheBreakpoints(
+  request: AnthropicMessagesRequest,
+): AnthropicMessagesRequest {
+  const result = { ...request };
+  if (typeof request.system === 'string' && request.system) {
+    result.system = [
+      { type: 'text', text: request.system, cache_control: CACHE_CONTROL },
+    ];
+  } else if (request.tools?.length) {
+    result.tools = request.tools.map((tool, index) =>
+      index === request.tools!.length - 1
+        ? { ...tool, cache_control: CACHE_CONTROL }
+        : tool,
+    );
+  }
+
+  const last = request.messages[request.messages.length - 1];
+  // Thinking blocks cannot be marked, the breakpoint goes on the block before
+  let blockIndex = (last?.content.length ?? 0) - 1;
+  while (
+    blockIndex >= 0 &&
+    (last.content[blockIndex].type === 'thinking' ||
+      last.content[blockIndex].type === 'redacted_thinking')
+  ) {
+    blockIndex--;
+  }
+  if (blockIndex >= 0) {
+    const content = [...last.content];
+    content[blockIndex] = {
+      ...content[blockIndex],
+      cache_control: CACHE_CONTROL,
+    } as AnthropicContentBlock;
+    result.messages = [...request.messages.slice(0, -1), { ...last, content }];
+  }
+  return result;
+}
+
+export function fromAnthropicResponse(
+  resp: AnthropicMessagesResponse,
+): GenerateContentResponse {
+  const parts: Part[] = [];
+  for (const block of resp.content) {
+    const part = toPart(block);
+    if (part) {
+      parts.push(part);
+    }
+  }
+  return toGenerateContentResponse(
+    parts,
+    toFinishReason(resp.stop_reason),
+    toUsageMetadata(resp.usage),
+  );
+}
+
+interface PendingToolUse {
+  id: string;
+  name: string;
+  json: string;
+}
+
+/**
+ * Converts Messages API stream events into Gemini stream responses. Text and
+ * thinking deltas are forwarded as they arrive, tool calls once their input
+ * is complete, and the final chunk carries the finish reason and usage.
+ */
+export async function* fromAnthropicStream(
+  events: AsyncGenerator<AnthropicStreamEvent>,
+): AsyncGenerator<GenerateContentResponse> {
+  const pendingToolUses = new Map<number, PendingToolUse>();
+  let usage: AnthropicUsage = {};
+  let stopReason: AnthropicStopReason | null = null;
+
+  for await (const event of events) {
+    switch (event.type) {
+      case 'message_start':
+        usage = mergeUsage(usage, event.message.usage);
+        break;
+      case 'content_block_start': {
+        const block = event.content_block;
+        if (block.type === 'tool_use') {
+          pendingToolUses.set(event.index, {
+            id: block.id,
+            name: block.name,
+            json: '',
+          });
+        } else if (block.type === 'text' && block.text) {
+          yield toGenerateContentResponse([{ text: block.text }]);
+        } else if (block.type === 'thinking' && block.thinking) {
+          yield toGenerateContentResponse([
+            { text: block.thinking, thought: true },
+          ]);
+        }
+        break;
+      }
+      case 'content_block_delta': {
+        const delta = event.delta;
+        if (delta.type === 'text_delta' && delta.text) {
+          yield toGenerateContentResponse([{ text: delta.text }]);
+        } else if (delta.type === 'thinking_delta' && delta.thinking) {
+          yield toGenerateContentResponse([
+            { text: delta.thinking, thought: true },
+          ]);
+        } else if (delta.type === 'input_json_delta') {
+          const pending = pendingToolUses.get(event.index);
+          if (pending) {
+            pending.json += delta.partial_json;
+          }
+        }
+        break;
+      }
+      case 'content_block_stop': {
+        const pending = pendingToolUses.get(event.index);
+        if (pending) {
+          pendingToolUses.delete(event.index);
+          const part = toPart({
+            type: 'tool_use',
+            id: pending.id,
+            name: pending.name,
+            input: parseToolInput(pending.json),
+          });
+          if (part) {
+            yield toGenerateContentResponse([part]);
+          }
+        }
+        break;
+      }
+      case 'message_delta':
+        stopReason = event.delta.stop_reason ?? stopReason;
+        usage = mergeUsage(usage, event.usage);
+        break;
+      case 'message_stop':
+        yield toGenerateContentResponse(
+          [],
+          toFinishReason(stopReason),
+          toUsageMetadata(usage),
+        );
+        return;
+      case 'error':
+        throw new Error(
+          `Anthropic stream error (${event.error.type}): ${event.error.message}`,
+        );
+      default:
+        break;
+    }
+  }
+}
+
+function toAnthropicMessages(contents: Content[]): AnthropicMessage[] {
+  const messages: AnthropicMessage[] = [];
+  const toolUseIds: PendingToolUseIds = new Map();
+  for (const [index, content] of contents.entries()) {
+    const role = content.role === 'model' ? 'assistant' : 'user';
+    const blocks = toContentBlocks(content.parts ?? [], index, toolUseIds);
+    if (blocks.length === 0) {
+      continue;
+    }
+    // The Messages API expects alternating roles, so merge adjacent turns.
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  }
+  // Tool results must lead the user message that answers a tool call.
+  for (const message of messages) {
+    if (message.role === 'user') {
+      message.content.sort(
+        (a, b) =>
+          Number(b.type === 'tool_result') - Number(a.type === 'tool_result'),
+      );
+    }
+  }
+  return messages;
+}
+
+/**
+ * Ids given to tool calls without one, by tool name, until their response
+ * is converted
+ */
+type PendingToolUseIds = Map<string, string[]>;
+
+function toContentBlocks(
+  parts: Part[],
+  contentIndex: number,
+  toolUseIds: PendingToolUseIds,
+): AnthropicContentBlock[] {
+  const blocks: AnthropicContentBlock[] = [];
+  for (const [partIndex, part] of parts.entries()) {
+    if (part.thought) {
+      if (part.thoughtSignature && part.text) {
+        blocks.push({
+          type: 'thinking',
+          thinking: part.text,
+          signature: part.thoughtSignature,
+        });
+      }
+      continue;
+    }
+    if (part.text) {
+      blocks.push({ type: 'text', text: part.text });
+    } else if (part.functionCall?.name) {
+      const name = part.functionCall.name;
+      let id = part.functionCall.id;
+      if (!id) {
+        id = toToolUseId(name, contentIndex, partIndex);
+        toolUseIds.set(name, [...(toolUseIds.get(name) ?? []), id]);
+      }
+      blocks.push({
+        type: 'tool_use',
+        id,
+        name,
+        input: part.functionCall.args ?? {},
+      });
+    } else if (part.functionResponse?.name) {
+      const response = part.functionResponse.response ?? {};
+      const error = response['error'];
+      const output = response['output'];
+      blocks.push({
+        type: 'tool_result',
+        tool_use_id:
+          part.functionResponse.id ??
+          toolUseIds.get(part.functionResponse.name)?.shift() ??
+          toToolUseId(part.functionResponse.name, contentIndex, partIndex),
+        content: error
+          ? `Error: ${String(error)}`
+          : typeof output === 'string'
+            ? output
+            : JSON.stringify(response),
+        is_error: error ? true : undefined,
+      });
+    } else if (
+      part.inlineData?.data &&
+      part.inlineData.mimeType?.startsWith('image/')
+    ) {
+      blocks.push({
+        type: 'image',
+        source: {
+          type: 'base64',
+          media_type: part.inlineData.mimeType,
+          data: part.inlineData.data,
+        },
+      });
+    } else if (
+      part.inlineData?.data &&
+      part.inlineData.mimeType === 'application/pdf'
+    ) {
+      blocks.push({
+        type: 'document',
+        source: {
+          type: 'base64',
+          media_type: part.inlineData.mimeType,
+          data: part.inlineData.data,
+        },
+      });
+    } else if (part.inlineData || part.fileData) {
+      blocks.push({
+        type: 'text',
+        text: toOmittedMediaText(part.inlineData ?? part.fileData ?? {}),
+      });
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Derives the id of a tool call without one from its position in the
+ * history, so that the same history always gets the same ids. Responses
+ * take the ids of the pending calls in the order of the calls.
+ */
+function toToolUseId(
+  name: string,
+  contentIndex: number,
+  partIndex: number,
+): string {
+  return `toolu_${contentIndex}_${partIndex}_${name}`;
+}
+
+function toAnthropicTools(
+  tools: ToolListUnion | undefined,
+): AnthropicTool[] | undefined {
+  const result: AnthropicTool[] = [];
+  for (const tool of tools ?? []) {
+    if (!('functionDeclarations' in tool)) {
+      continue;
+    }
+    for (const func of tool.functionDeclarations ?? []) {
+      if (!func.name) {
+        continue;
+      }
+      result.push({
+        name: func.name,
+        description: func.description,
+        input_schema: toInputSchema(
+          func.parametersJsonSchema ?? func.parameters,
+        ),
+      });
+    }
+  }
+  return result.length > 0 ? result : undefined;
+}
+
+function toInputSchema(schema: unknown): Record<string, unknown> {
+  const converted = convertTypeValuesToLowerCase(schema ?? {}) as Record<
+    string,
+    unknown
+  >;
+  return { ...converted, type: 'object' };
+}
+
+function isJsonRequest(
+  config: GenerateContentConfig | undefined,
+): config is GenerateContentConfig & { responseSchema: object } {
+  return (
+    config?.responseMimeType === 'application/json' && !!config.responseSchema
+  );
+}
+
+function getThinkingBudget(config: GenerateContentConfig | undefined): number {
+  const thinkingConfig = config?.thinkingConfig;
+  if (!thinkingConfig) {
+    return 0;
+  }
+  if (thinkingConfig.thinkingBudget !== undefined) {
+    return thinkingConfig.thinkingBudget > 0
+      ? Math.max(thinkingConfig.thinkingBudget, MIN_THINKING_BUDGET)
+      : 0;
+  }
+  return thinkingConfig.includeThoughts ? MIN_THINKING_BUDGET : 0;
+}
+
+function continuesToolUse(messages: AnthropicMessage[]): boolean {
+  const lastAssistant = [...messages]
+    .reverse()
+    .find((message) => message.role === 'assistant');
+  return !!lastAssistant?.content.some((block) => block.type === 'tool_use');
+}
+
+function toPart(block: AnthropicContentBlock): Part | undefined {
+  switch (block.type) {
+    case 'text':
+      return block.text ? { text: block.text } : undefined;
+    case 'thinking':
+      return {
+        text: block.thinking,
+        thought: true,
+        thoughtSignature: block.signature,
+      };
+    case 'tool_use':
+      if (block.name === JSON_RESPONSE_TOOL_NAME) {
+        return { text: JSON.stringify(block.input) };
+      }
+      return {
+        functionCall: { id: block.id, name: block.name, args: block.input },
+      };
+    default:
+      return undefined;
+  }
+}
+
+function parseToolInput(json: string): Record<string, unknown> {
+  if (!json.trim()) {
+    return {};
+  }
+  return JSON.parse(json) as Record<string, unknown>;
+}
+
+function toGenerateContentResponse(
+  parts: Part[],
+  finishReason?: FinishReason,
+  usageMetadata?: GenerateContentResponseUsageMetadata,
+): GenerateContentResponse {
+  const res = new GenerateContentResponse();
+  res.candidates = [
+    {
+      content: { role: 'model', parts },
+      index: 0,
+      finishReason,
+      safetyRatings: [],
+    },
+  ];
+  res.usageMetadata = usageMetadata;
+  return res;
+}
+
+function toFinishReason(
+  stopReason: AnthropicStopReason | null,
+): FinishReason | undefined {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'stop_sequence':
+    case 'tool_use':
+    case 'pause_turn':
+      return FinishReason.STOP;
+    case 'max_tokens':
+      return FinishReason.MAX_TOKENS;
+    case 'refusal':
+      return FinishReason.SAFETY;
+    default:
+      return undefined;
+  }
+}
+
+function mergeUsage(
+  usage: AnthropicUsage,
+  update: AnthropicUsage | undefined,
+): AnthropicUsage {
+  const merged = { ...usage };
+  for (const [key, value] of Object.entries(update ?? {})) {
+    if (typeof value === 'number') {
+      merged[key as keyof AnthropicUsage] = value;
+    }
+  }
+  return merged;
+}
+
+function toUsageMetadata(
+  usage: AnthropicUsage,
+): GenerateContentResponseUsageMetadata {
+  const cachedTokens = usage.cache_read_input_tokens ?? 0;
+  const promptTokens =
+    (usage.input_tokens ?? 0) +
+    cachedTokens +
+    (usage.cache_creation_input_tokens ?? 0);
+  const candidatesTokens = usage.output_tokens ?? 0;
+  return {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: candidatesTokens,
+    cachedContentTokenCount: cachedTokens,
+    totalTokenCount: promptTokens + candidatesTokens,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GenerateContentResponse } from '@google/genai';
+import { LLMProviderType } from '../../config/llmProvider.js';
+import {
+  ANTHROPIC_API_VERSION,
+  AnthropicApiError,
+  AnthropicContentGenerator,
+} from './generator.js';
+
+interface RecordedRequest {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+describe('AnthropicContentGenerator', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: RecordedRequest[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        const body = JSON.parse(data) as Record<string, unknown>;
+        requests.push({ url: req.url, headers: req.headers, body });
+
+        if (body['model'] === 'rate-limited') {
+          res.writeHead(429, { 'Content-Type': 'application/json' });
+          res.end(
+            JSON.stringify({
+              type: 'error',
+              error: { type: 'rate_limit_error', message: 'Slow down' },
+            }),
+          );
+          return;
+        }
+
+        if (req.url === '/v1/messages/count_tokens') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ input_tokens: 42 }));
+          return;
+        }
+
+        if (body['stream']) {
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          const events = [
+            {
+              type: 'message_start',
+              message: {
+                id: 'msg_1',
+                type: 'message',
+                role: 'assistant',
+                model: body['model'],
+                content: [],
+                stop_reason: null,
+                usage: { input_tokens: 8, output_tokens: 1 },
+              },
+            },
+            {
+              type: 'content_block_start',
+              index: 0,
+              content_block: { type: 'text', text: '' },
+            },
+            { type: 'ping' },
+            {
+              type: 'content_block_delta',
+              index: 0,
+              delta: { type: 'text_delta', text: 'Hello' },
+            },
+            {
+              type: 'content_block_delta',
+              index: 0,
+              delta: { type: 'text_delta', text: ' world' },
+            },
+            { type: 'content_block_stop', index: 0 },
+            {
+              type: 'message_delta',
+              delta: { stop_reason: 'end_turn' },
+              usage: { output_tokens: 2 },
+            },
+            { type: 'message_stop' },
+          ];
+          for (const event of events) {
+            res.write(
+              `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+            );
+          }
+          res.end();
+          return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            id: 'msg_1',
+            type: 'message',
+            role: 'assistant',
+            model: body['model'],
+            content: [{ type: 'text', text: 'Hi there' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 5, output_tokens: 3 },
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createGenerator = (model = 'claude-sonnet-4') =>
+    new AnthropicContentGenerator(
+      {
+        name: 'anthropic',
+        displayName: 'Anthropic',
+        type: LLMProviderType.ANTHROPIC,
+        apiKey: 'test-key',
+        baseUrl,
+      },
+      model,
+    );
+
+  it('sends the Messages API headers and converts the response', async () => {
+    const resp = await createGenerator().generateContent({
+      model: 'claude-sonnet-4',
+      contents: 'Hello',
+      config: { systemInstruction: 'Be brief.' },
+    });
+
+    const request = requests[requests.length - 1];
+    expect(request.url).toBe('/v1/messages');
+    expect(request.headers['x-api-key']).toBe('test-key');
+    expect(request.headers['anthropic-version']).toBe(ANTHROPIC_API_VERSION);
+    // The system prompt and the conversation are cached for the next turn
+    expect(request.body['system']).toEqual([
+      {
+        type: 'text',
+        text: 'Be brief.',
+        cache_control: { type: 'ephemeral' },
+      },
+    ]);
+    expect(request.body['messages']).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Hello', cache_control: { type: 'ephemeral' } },
+        ],
+      },
+    ]);
+    expect(resp.text).toBe('Hi there');
+    expect(resp.usageMetadata?.totalTokenCount).toBe(8);
+  });
+
+  it('streams server-sent events as Gemini responses', async () => {
+    const stream = await createGenerator().generateContentStream({
+      model: 'claude-sonnet-4',
+      contents: 'Hello',
+    });
+    const responses: GenerateContentResponse[] = [];
+    for await (const resp of stream) {
+      responses.push(resp);
+    }
+
+    expect(requests[requests.length - 1].body['stream']).toBe(true);
+    expect(responses.map((resp) => resp.text ?? '').join('')).toBe(
+      'Hello world',
+    );
+    expect(responses[responses.length - 1].usageMetadata).toMatchObject({
+      promptTokenCount: 8,
+      candidatesTokenCount: 2,
+    });
+  });
+
+  it('counts tokens through the count_tokens endpoint', async () => {
+    const resp = await createGenerator().countTokens({
+      model: 'claude-sonnet-4',
+      contents: 'Hello',
+    });
+    expect(requests[requests.length - 1].url).toBe('/v1/messages/count_tokens');
+    expect(resp.totalTokens).toBe(42);
+  });
+
+  it('surfaces API errors with their HTTP status', async () => {
+    const error = await createGenerator('rate-limited')
+      .generateContent({ model: 'rate-limited', contents: 'Hello' })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(AnthropicApiError);
+    expect(error.status).toBe(429);
+    expect(error.message).toContain('Slow down');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import * as readline from 'readline';
+import { Readable } from 'stream';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { ContentGenerator } from '../../core/contentGenerator.js';
+import {
+  LLMProviderConfig,
+  getProviderBaseUrl,
+} from '../../config/llmProvider.js';
+import {
+  fromAnthropicResponse,
+  fromAnthropicStream,
+  toAnthropicCountTokensRequest,
+  toAnthropicRequest,
+  withCacheBreakpoints,
+} from './converter.js';
+import {
+  AnthropicCountTokensResponse,
+  AnthropicMessagesResponse,
+  AnthropicStreamEvent,
+} from './types.js';
+import { getProviderHeaders, withQueryParams } from '../providerRequest.js';
+
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+export const DEFAULT_ANTHROPIC_MAX_TOKENS = 8192;
+
+/**
+ * Error returned by the Messages API. Carries the HTTP status so that
+ * `retryWithBackoff` can classify it.
+ */
+export class AnthropicApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'AnthropicApiError';
+  }
+}
+
+/**
+ * Content generator that talks to the Anthropic Messages API directly.
+ */
+export class AnthropicContentGenerator implements ContentGenerator {
+  constructor(
+    readonly provider: LLMProviderConfig,
+    readonly model: string,
+  ) {}
+
+  async generateContent(
+    req: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const resp = await this.requestPost<AnthropicMessagesResponse>(
+      'messages',
+      withCacheBreakpoints(
+        toAnthropicRequest(req, this.model, DEFAULT_ANTHROPIC_MAX_TOKENS),
+      ),
+      req.config?.abortSignal,
+    );
+    return fromAnthropicResponse(resp);
+  }
+
+  async generateContentStream(
+    req: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const events = await this.requestStreamingPost<AnthropicStreamEvent>(
+      'messages',
+      {
+        ...withCacheBreakpoints(
+          toAnthropicRequest(req, this.model, DEFAULT_ANTHROPIC_MAX_TOKENS),
+        ),
+        stream: true,
+      },
+      req.config?.abortSignal,
+    );
+    return fromAnthropicStream(events);
+  }
+
+  async countTokens(req: CountTokensParameters): Promise<CountTokensResponse> {
+    const resp = await this.requestPost<AnthropicCountTokensResponse>(
+      'messages/count_tokens',
+      toAnthropicCountTokensRequest(req, this.model),
+    );
+    return { totalTokens: resp.input_tokens };
+  }
+
+  async embedContent(
+    _req: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    throw new Error('The Anthropic Messages API does not support embeddings.');
+  }
+
+  async requestPost<T>(
+    method: string,
+    req: object,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const res = await this.post(method, req, signal);
+    return (await res.json()) as T;
+  }
+
+  async requestStreamingPost<T>(
+    method: string,
+    req: object,
+    signal?: AbortSignal,
+  ): Promise<AsyncGenerator<T>> {
+    const res = await this.post(method, req, signal);
+    if (!res.body) {
+      throw new Error('Anthropic API returned an empty stream');
+    }
+    const body = Readable.fromWeb(res.body as WebReadableStream);
+
+    return (async function* (): AsyncGenerator<T> {
+      const rl = readline.createInterface({
+        input: body,
+        crlfDelay: Infinity, // Recognizes '\r\n' and '\n' as line breaks
+      });
+
+      let bufferedLines: string[] = [];
+      for await (const line of rl) {
+        // blank lines terminate a server-sent event
+        if (line === '') {
+          if (bufferedLines.length === 0) {
+            continue; // no data to yield
+          }
+          yield JSON.parse(bufferedLines.join('\n')) as T;
+          bufferedLines = []; // Reset the buffer after yielding
+        } else if (line.startsWith('data:')) {
+          bufferedLines.push(line.slice(5).trim());
+        }
+        // `event:` lines repeat the type found in the data, comments are ignored
+      }
+      if (bufferedLines.length > 0) {
+        yield JSON.parse(bufferedLines.join('\n')) as T;
+      }
+    })();
+  }
+
+  getMethodUrl(method: string): string {
+    const baseUrl = getProviderBaseUrl(this.provider).replace(/\/+$/, '');
+    return withQueryParams(`${baseUrl}/${method}`, this.provider.queryParams);
+  }
+
+  private async post(
+    method: string,
+    req: object,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const res = await fetch(this.getMethodUrl(method), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'anthropic-version': ANTHROPIC_API_VERSION,
+        ...getProviderHeaders(this.provider, 'x-api-key'),
+      },
+      body: JSON.stringify(req),
+      signal,
+    });
+    if (!res.ok) {
+      throw new AnthropicApiError(
+        `Anthropic API request failed with status ${res.status}: ${await getErrorDetail(res)}`,
+        res.status,
+      );
+    }
+    return res;
+  }
+}
+
+async function getErrorDetail(res: Response): Promise<string> {
+  const text = await res.text();
+  try {
+    const data = JSON.parse(text) as { error?: { message?: string } };
+    return data.error?.message ?? text;
+  } catch {
+    return text || res.statusText;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  LLMProviderConfig,
+  LLMProviderType,
+} from '../../config/llmProvider.js';
+import {
+  createAzureFetch,
+  getAzureDeployment,
+  getAzureQueryParams,
+} from './request.js';
+
+const provider: LLMProviderConfig = {
+  name: 'azure',
+  displayName: 'Azure OpenAI',
+  type: LLMProviderType.AZURE_OPENAI,
+  apiKey: 'key',
+  baseUrl: 'https://contoso.openai.azure.com/openai/',
+  models: { 'gpt-4o': { deployment: 'prod-gpt4o' } },
+};
+
+const SELF_HARM = {
+  hate: { filtered: false, severity: 'safe' },
+  self_harm: { filtered: true, severity: 'medium' },
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function streamResponse(events: unknown[]): Response {
+  const text = [...events.map((event) => JSON.stringify(event)), '[DONE]']
+    .map((data) => `data: ${data}\n\n`)
+    .join('');
+  // Chunk boundaries do not follow the events
+  const bytes = new TextEncoder().encode(text);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += 7) {
+        controller.enqueue(bytes.slice(i, i + 7));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+function chatCompletions(body: Record<string, unknown> = {}): RequestInit {
+  return {
+    method: 'POST',
+    body: JSON.stringify({ model: 'gpt-4o', ...body }),
+  };
+}
+
+describe('Azure OpenAI requests', () => {
+  it('builds the api-version and the deployment of a model', () => {
+    expect(getAzureQueryParams(provider)).toEqual({
+      'api-version': '2024-10-21',
+    });
+    expect(
+      getAzureQueryParams({
+        ...provider,
+        azure: { apiVersion: '2025-01-01-preview' },
+        queryParams: { trace: '1' },
+      }),
+    ).toEqual({ 'api-version': '2025-01-01-preview', trace: '1' });
+    expect(getAzureDeployment(provider, 'gpt-4o')).toBe('prod-gpt4o');
+    expect(getAzureDeployment(provider, 'gpt-4o-mini')).toBe('gpt-4o-mini');
+  });
+
+  it('sends requests to the deployment with the api-key header', async () => {
+    const baseFetch = vi.fn(async () => jsonResponse({ choices: [] }));
+    const azureFetch = createAzureFetch(provider, baseFetch);
+
+    await azureFetch(
+      'https://contoso.openai.azure.com/openai/chat/completions',
+      { ...chatCompletions(), headers: { Authorization: 'Bearer key' } },
+    );
+
+    const [url, init] = baseFetch.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe(
+      'https://contoso.openai.azure.com/openai/deployments/prod-gpt4o/chat/completions?api-version=2024-10-21',
+    );
+    const headers = new Headers(init.headers);
+    expect(headers.get('api-key')).toBe('key');
+    expect(headers.has('Authorization')).toBe(false);
+  });
+
+  it('describes prompts rejected by the content filter', async () => {
+    const azureFetch = createAzureFetch(provider, async () =>
+      jsonResponse(
+        {
+          error: {
+            message: 'The response was filtered',
+            param: 'prompt',
+            code: 'content_filter',
+            innererror: {
+              code: 'ResponsibleAIPolicyViolation',
+              content_filter_result: SELF_HARM,
+            },
+          },
+        },
+        400,
+      ),
+    );
+
+    const response = await azureFetch(
+      'https://contoso.openai.azure.com/openai/chat/completions',
+      chatCompletions(),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: {
+        code: 'content_filter',
+        message:
+          "Azure OpenAI's content filter blocked the prompt, flagged for self harm (medium severity). Rephrase it, or ask the owner of the deployment to adjust its content filter.",
+      },
+    });
+  });
+
+  it('turns answers stopped by the content filter into errors', async () => {
+    const azureFetch = createAzureFetch(provider, async () =>
+      jsonResponse({
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Here is how' },
+            finish_reason: 'content_filter',
+            content_filter_results: SELF_HARM,
+          },
+        ],
+      }),
+    );
+
+    const response = await azureFetch(
+      'https://contoso.openai.azure.com/openai/chat/completions',
+      chatCompletions(),
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toBe(
+      "Azure OpenAI's content filter blocked the answer, flagged for self harm (medium severity). Rephrase it, or ask the owner of the deployment to adjust its content filter.",
+    );
+  });
+
+  it('ends streams stopped by the content filter with an error', async () => {
+    const azureFetch = createAzureFetch(provider, async () =>
+      streamResponse([
+        { choices: [{ index: 0, delta: { content: 'Here is' } }] },
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {},
+              finish_reason: 'content_filter',
+              content_filter_results: SELF_HARM,
+            },
+          ],
+        },
+      ]),
+    );
+
+    const response = await azureFetch(
+      'https://contoso.openai.azure.com/openai/chat/completions',
+      chatCompletions({ stream: true }),
+    );
+
+    const events = (await response.text())
+      .split('\n')
+      .filter((line) => line.startsWith('data: '))
+      .map((line) => line.slice('data: '.length));
+    expect(events).toHaveLength(3);
+    expect(JSON.parse(events[0]).choices[0].delta.content).toBe('Here is');
+    expect(JSON.parse(events[1]).error).toEqual({
+      code: 'content_filter',
+      message:
+        "Azure OpenAI's content filter blocked the answer, flagged for self harm (medium severity). Rephrase it, or ask the owner of the deployment to adjust its content filter.",
+    });
+    expect(events[2]).toBe('[DONE]');
+  });
+
+  it('passes other answers through', async () => {
+    const body = {
+      choices: [
+        { index: 0, message: { content: 'Hi' }, finish_reason: 'stop' },
+      ],
+    };
+    const azureFetch = createAzureFetch(provider, async () =>
+      jsonResponse(body),
+    );
+
+    const response = await azureFetch(
+      'https://contoso.openai.azure.com/openai/chat/completions',
+      chatCompletions(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(body);
+  });
+});
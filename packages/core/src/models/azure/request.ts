@@ -0,0 +1,252 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  LLMProviderConfig,
+  getProviderBaseUrl,
+} from '../../config/llmProvider.js';
+import { createProviderFetch } from '../providerRequest.js';
+
+/** The api-version sent unless the provider configures another one. */
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+/** Header carrying the API key of Azure OpenAI requests. */
+export const AZURE_API_KEY_HEADER = 'api-key';
+
+/** A filter category of a content filter result, e.g. "violence" */
+interface ContentFilterCategory {
+  filtered?: boolean;
+  severity?: string;
+}
+
+/** Error body of a request rejected by the content filter */
+interface AzureErrorBody {
+  error?: {
+    code?: string;
+    param?: string;
+    innererror?: {
+      code?: string;
+      content_filter_result?: Record<string, ContentFilterCategory>;
+    };
+  };
+}
+
+/** A choice of a completion, or of a chunk of a streamed completion */
+interface AzureChoice {
+  finish_reason?: string | null;
+  content_filter_results?: Record<string, ContentFilterCategory>;
+}
+
+/**
+ * Gets the query parameters of Azure OpenAI requests
+ * @param provider The provider configuration
+ * @returns The api-version and the configured query parameters
+ */
+export function getAzureQueryParams(
+  provider: LLMProviderConfig,
+): Record<string, string> {
+  return {
+    'api-version': provider.azure?.apiVersion || DEFAULT_AZURE_API_VERSION,
+    ...provider.queryParams,
+  };
+}
+
+/**
+ * Gets the deployment that serves a model
+ * @param provider The provider configuration
+ * @param model The model name used in settings and requests
+ * @returns The configured deployment, or the model name
+ */
+export function getAzureDeployment(
+  provider: LLMProviderConfig,
+  model: string,
+): string {
+  return provider.models?.[model]?.deployment || model;
+}
+
+/**
+ * Describes why the content filter of Azure OpenAI rejected a request
+ * @param body The body of the error response
+ * @returns The message, undefined if the content filter did not reject it
+ */
+export function toContentFilterMessage(body: string): string | undefined {
+  let error: AzureErrorBody['error'];
+  try {
+    error = (JSON.parse(body) as AzureErrorBody).error;
+  } catch {
+    return undefined;
+  }
+  if (
+    error?.code !== 'content_filter' &&
+    error?.innererror?.code !== 'ResponsibleAIPolicyViolation'
+  ) {
+    return undefined;
+  }
+  return describeContentFilter(
+    error.param === 'prompt' ? 'prompt' : 'request',
+    error.innererror?.content_filter_result,
+  );
+}
+
+/**
+ * Describes why the content filter of Azure OpenAI stopped an answer, which
+ * Azure reports as the finish reason "content_filter" of a successful
+ * completion or of a chunk of a stream
+ * @param body The completion, or the data of a chunk
+ * @returns The message, undefined if the content filter did not stop it
+ */
+export function toOutputContentFilterMessage(body: string): string | undefined {
+  let choices: AzureChoice[] | undefined;
+  try {
+    choices = (JSON.parse(body) as { choices?: AzureChoice[] }).choices;
+  } catch {
+    return undefined;
+  }
+  const filtered = Array.isArray(choices)
+    ? choices.find((choice) => choice?.finish_reason === 'content_filter')
+    : undefined;
+  return filtered
+    ? describeContentFilter('answer', filtered.content_filter_results)
+    : undefined;
+}
+
+function describeContentFilter(
+  subject: string,
+  results: Record<string, ContentFilterCategory> = {},
+): string {
+  const categories = Object.entries(results)
+    .filter(([, result]) => result?.filtered)
+    .map(([name, result]) => {
+      const category = name.replace(/_/g, ' ');
+      return result.severity && result.severity !== 'safe'
+        ? `${category} (${result.severity} severity)`
+        : category;
+    });
+  return (
+    `Azure OpenAI's content filter blocked the ${subject}` +
+    `${categories.length > 0 ? `, flagged for ${categories.join(', ')}` : ''}. ` +
+    'Rephrase it, or ask the owner of the deployment to adjust its content filter.'
+  );
+}
+
+/**
+ * Rewrites answers stopped by the content filter into an error with a
+ * readable message, so that they do not reach the chat silently truncated
+ */
+async function rewriteContentFilterResponse(
+  response: Response,
+): Promise<Response> {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (response.status === 200 && contentType.includes('text/event-stream')) {
+    return response.body
+      ? new Response(rewriteContentFilterChunks(response.body), {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+        })
+      : response;
+  }
+  if (response.status !== 200 && response.status !== 400) {
+    return response;
+  }
+  const body = await response.clone().text();
+  const message =
+    response.status === 400
+      ? toContentFilterMessage(body)
+      : toOutputContentFilterMessage(body);
+  return message
+    ? new Response(toContentFilterError(message), {
+        status: 400,
+        statusText: response.status === 400 ? response.statusText : '',
+        headers: { 'Content-Type': 'application/json' },
+      })
+    : response;
+}
+
+/**
+ * Replaces the chunks of a stream that the content filter stopped with an
+ * error event
+ */
+function rewriteContentFilterChunks(
+  body: ReadableStream<Uint8Array>,
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = '';
+  const rewrite = (line: string) => {
+    const message = line.startsWith('data:')
+      ? toOutputContentFilterMessage(line.slice('data:'.length).trim())
+      : undefined;
+    return message ? `data: ${toContentFilterError(message)}` : line;
+  };
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        if (lines.length > 0) {
+          controller.enqueue(
+            encoder.encode(`${lines.map(rewrite).join('\n')}\n`),
+          );
+        }
+      },
+      flush(controller) {
+        buffer += decoder.decode();
+        if (buffer) {
+          controller.enqueue(encoder.encode(rewrite(buffer)));
+        }
+      },
+    }),
+  );
+}
+
+function toContentFilterError(message: string): string {
+  return JSON.stringify({ error: { message, code: 'content_filter' } });
+}
+
+/**
+ * Wraps fetch so that requests of an OpenAI-compatible client reach Azure
+ * OpenAI: they are sent to the deployment of the model in their body, with
+ * the api-version and the API key in the api-key header. Requests and
+ * answers blocked by the content filter are turned into errors with a
+ * readable message.
+ * @param provider The provider configuration
+ * @param baseFetch The fetch implementation to wrap
+ */
+export function createAzureFetch(
+  provider: LLMProviderConfig,
+  baseFetch: typeof fetch = fetch,
+): typeof fetch {
+  const baseUrl = getProviderBaseUrl(provider).replace(/\/+$/, '');
+
+  const deploymentFetch: typeof fetch = async (input, init) => {
+    let url =
+      typeof input === 'string'
+        ? input
+        : input instanceof URL
+          ? input.toString()
+          : input.url;
+    if (url.startsWith(`${baseUrl}/`) && typeof init?.body === 'string') {
+      const { model } = JSON.parse(init.body) as { model?: string };
+      if (model) {
+        const deployment = getAzureDeployment(provider, model);
+        url = `${baseUrl}/deployments/${encodeURIComponent(deployment)}${url.slice(baseUrl.length)}`;
+      }
+    }
+
+    return rewriteContentFilterResponse(await baseFetch(url, init));
+  };
+
+  return createProviderFetch(
+    {
+      ...provider,
+      apiKeyHeader: provider.apiKeyHeader || AZURE_API_KEY_HEADER,
+      queryParams: getAzureQueryParams(provider),
+    },
+    deploymentFetch,
+  );
+}
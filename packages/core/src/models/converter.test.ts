@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Content } from '@google/genai';
+import { ModelConverter } from './converter.js';
+
+const PNG = Buffer.from('png').toString('base64');
+const PDF = Buffer.from('pdf').toString('base64');
+const WAV = Buffer.from('wav').toString('base64');
+
+const contents: Content[] = [
+  {
+    role: 'user',
+    parts: [
+      { text: 'Compare these screenshots with the spec' },
+      { inlineData: { mimeType: 'image/png', data: PNG } },
+      { inlineData: { mimeType: 'image/png', data: PNG } },
+      {
+        inlineData: {
+          mimeType: 'application/pdf',
+          data: PDF,
+          displayName: 'spec.pdf',
+        },
+      },
+      { inlineData: { mimeType: 'audio/wav', data: WAV } },
+    ],
+  },
+];
+
+describe('ModelConverter', () => {
+  describe('toOpenAIMessages', () => {
+    it('converts all attachments natively when the model supports them', () => {
+      const messages = ModelConverter.toOpenAIMessages(
+        { model: 'gpt-4o', contents },
+        { vision: true, pdf: true, audio: true },
+      );
+
+      expect(messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Compare these screenshots with the spec' },
+            {
+              type: 'image',
+              image: new Uint8Array(Buffer.from('png')),
+              mimeType: 'image/png',
+            },
+            {
+              type: 'image',
+              image: new Uint8Array(Buffer.from('png')),
+              mimeType: 'image/png',
+            },
+            {
+              type: 'file',
+              data: PDF,
+              mimeType: 'application/pdf',
+              filename: 'spec.pdf',
+            },
+            { type: 'file', data: WAV, mimeType: 'audio/wav' },
+          ],
+        },
+      ]);
+    });
+
+    it('replaces unsupported attachments with placeholders', () => {
+      const messages = ModelConverter.toOpenAIMessages(
+        { model: 'deepseek-chat', contents },
+        { vision: false },
+      );
+
+      expect(messages).toEqual([
+        {
+          role: 'user',
+          content: [
+            'Compare these screenshots with the spec',
+            '[Attachment of type image/png omitted: the model does not accept this file type]',
+            '[Attachment of type image/png omitted: the model does not accept this file type]',
+            '[Attachment "spec.pdf" of type application/pdf omitted: the model does not accept this file type]',
+            '[Attachment of type audio/wav omitted: the model does not accept this file type]',
+          ].join('\n'),
+        },
+      ]);
+    });
+
+    it('sends image URLs and puts tool results before the user content', () => {
+      const messages = ModelConverter.toOpenAIMessages({
+        model: 'gpt-4o',
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  id: 'call_1',
+                  name: 'read_file',
+                  response: { output: 'Read image' },
+                },
+              },
+              {
+                fileData: {
+                  mimeType: 'image/jpeg',
+                  fileUri: 'https://example.com/a.jpg',
+                },
+              },
+              {
+                fileData: {
+                  mimeType: 'video/mp4',
+                  fileUri: 'gs://bucket/video.mp4',
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(messages).toEqual([
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'read_file',
+              result: 'Read image',
+            },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'image',
+              image: new URL('https://example.com/a.jpg'),
+              mimeType: 'image/jpeg',
+            },
+            {
+              type: 'text',
+              text: '[Attachment "gs://bucket/video.mp4" of type video/mp4 omitted: the model does not accept this file type]',
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('toGeminiResponse', () => {
+    it('reports the prompt tokens read from the OpenAI prompt cache', () => {
+      const response = ModelConverter.toGeminiResponse({
+        text: 'Hi',
+        usage: { promptTokens: 2048, completionTokens: 5, totalTokens: 2053 },
+        providerMetadata: { openai: { cachedPromptTokens: 1920 } },
+      });
+      expect(response.usageMetadata).toEqual({
+        promptTokenCount: 2048,
+        candidatesTokenCount: 5,
+        totalTokenCount: 2053,
+        cachedContentTokenCount: 1920,
+      });
+    });
+  });
+});
@@ -14,13 +14,20 @@ import {
   normalizeContents,
   isValidFunctionCall,
   isValidFunctionResponse,
+  toOmittedMediaText,
 } from './util.js';
-import { CoreMessage, tool, ToolSet } from 'ai';
+import { CoreMessage, FilePart, ImagePart, TextPart, tool, ToolSet } from 'ai';
 import { z, ZodTypeAny } from 'zod';
 import { AIToolCall } from './types.js';
+import { splitThoughts } from './reasoning.js';
+import type { ModelCapabilities } from './modelRegistry.js';
+
+// Audio formats the chat completions API accepts as input_audio
+const AUDIO_MIME_TYPES = ['audio/wav', 'audio/mp3', 'audio/mpeg'];
 
 interface GenerateTextResult {
   text: string;
+  reasoning?: string;
   usage?: {
     promptTokens: number;
     completionTokens: number;
@@ -30,6 +37,7 @@ interface GenerateTextResult {
     toolName: string;
     args: Record<string, unknown>;
   }>;
+  providerMetadata?: Record<string, Record<string, unknown>>;
 }
 
 interface GenerateObjectResult<T> {
@@ -160,8 +168,14 @@ export class ModelConverter {
 
   /**
    * Convert Gemini content to AI SDK messages
+   * @param request The request to convert
+   * @param capabilities Capabilities of the model, which decide whether
+   *   attachments are sent natively or replaced by a placeholder
    */
-  static toOpenAIMessages(request: GenerateContentParameters): CoreMessage[] {
+  static toOpenAIMessages(
+    request: GenerateContentParameters,
+    capabilities: ModelCapabilities = {},
+  ): CoreMessage[] {
     const { contents, config } = request;
     const messages: CoreMessage[] = [];
 
@@ -183,8 +197,14 @@ export class ModelConverter {
           ? 'assistant'
           : (content.role as 'user' | 'system');
       const parts = content.parts || [];
-      this.processTextParts(parts, role, messages);
+      // Tool results have to follow the tool calls directly, so they precede
+      // the text and attachments of the user.
       this.processFunctionResponseParts(parts, messages);
+      if (role === 'user') {
+        this.processUserParts(parts, capabilities, messages);
+      } else {
+        this.processTextParts(parts, role, messages);
+      }
       this.processFunctionCallParts(parts, messages);
     }
     return messages;
@@ -204,12 +224,7 @@ export class ModelConverter {
     );
     if (textParts.length > 0) {
       const text = textParts.map((part) => part.text).join('\n');
-      if (role === 'user') {
-        messages.push({
-          role: 'user',
-          content: text,
-        });
-      } else if (role === 'system') {
+      if (role === 'system') {
         messages.push({
           role: 'system',
           content: text,
@@ -247,37 +262,79 @@ export class ModelConverter {
           ],
         });
       }
-      this.processImageParts(parts, messages);
     }
   }
 
   /**
-   * Convert image parts to AI SDK messages
+   * Convert the text and attachments of a user turn to a single user message
    */
-  private static processImageParts(
+  private static processUserParts(
     parts: Part[],
+    capabilities: ModelCapabilities,
     messages: CoreMessage[],
   ): void {
-    const imgParts = parts.filter((part) => part.inlineData);
-    if (imgParts.length > 0) {
-      const { inlineData = '' } = imgParts[0];
-      if (
-        inlineData &&
-        inlineData.mimeType?.startsWith('image/') &&
-        inlineData.data
-      ) {
-        messages.push({
-          role: 'user',
-          content: [
-            {
-              type: 'image',
-              image: new Uint8Array(Buffer.from(inlineData.data, 'base64')),
-              mimeType: inlineData.mimeType,
-            },
-          ],
-        });
+    const content: Array<TextPart | ImagePart | FilePart> = [];
+    for (const part of parts) {
+      if (part.thought) {
+        continue;
       }
+      if (part.text) {
+        content.push({ type: 'text', text: part.text });
+      } else if (part.inlineData || part.fileData) {
+        content.push(this.toMediaPart(part, capabilities));
+      }
+    }
+    if (content.length === 0) {
+      return;
     }
+    messages.push({
+      role: 'user',
+      content: content.every((part) => part.type === 'text')
+        ? content.map((part) => (part as TextPart).text).join('\n')
+        : content,
+    });
+  }
+
+  /**
+   * Convert an inlineData or fileData part to an AI SDK image or file part,
+   * or to a text placeholder if the model does not accept its type. Images
+   * are sent unless the model is known to lack vision.
+   */
+  private static toMediaPart(
+    part: Part,
+    capabilities: ModelCapabilities,
+  ): TextPart | ImagePart | FilePart {
+    const media = part.inlineData ?? part.fileData ?? {};
+    const mimeType = media.mimeType ?? '';
+    const data = part.inlineData?.data;
+    const url = toHttpUrl(part.fileData?.fileUri);
+
+    if (
+      mimeType.startsWith('image/') &&
+      capabilities.vision !== false &&
+      (data || url)
+    ) {
+      return {
+        type: 'image',
+        image: data ? new Uint8Array(Buffer.from(data, 'base64')) : url!,
+        mimeType,
+      };
+    }
+    if (data && mimeType === 'application/pdf' && capabilities.pdf) {
+      return {
+        type: 'file',
+        data,
+        mimeType,
+        filename: part.inlineData?.displayName,
+      };
+    }
+    if (data && AUDIO_MIME_TYPES.includes(mimeType) && capabilities.audio) {
+      return { type: 'file', data, mimeType };
+    }
+    if (data && mimeType.startsWith('text/')) {
+      return { type: 'text', text: Buffer.from(data, 'base64').toString() };
+    }
+    return { type: 'text', text: toOmittedMediaText(media) };
   }
 
   /**
@@ -310,9 +367,7 @@ export class ModelConverter {
     const res = new GenerateContentResponse();
     const parts: Part[] = [];
 
-    if (result.text) {
-      parts.push({ text: result.text });
-    }
+    parts.push(...splitThoughts(result.text ?? '', result.reasoning));
 
     if (result.toolCalls && result.toolCalls.length > 0) {
       parts.push(
@@ -338,10 +393,17 @@ export class ModelConverter {
       ];
     }
 
+    // OpenAI reports the prompt tokens it read from its prompt cache
+    const cachedTokens =
+      result.providerMetadata?.['openai']?.['cachedPromptTokens'];
     res.usageMetadata = {
       promptTokenCount: result.usage?.promptTokens || 0,
       candidatesTokenCount: result.usage?.completionTokens || 0,
       totalTokenCount: result.usage?.totalTokens || 0,
+      cachedContentTokenCount:
+        typeof cachedTokens === 'number' && cachedTokens > 0
+          ? cachedTokens
+          : undefined,
     };
 
     return res;
@@ -351,7 +413,10 @@ export class ModelConverter {
    * Convert AI SDK generateObject response to Gemini response
    */
   static toGeminiObjectResponse(
-    result: GenerateObjectResult<Record<string, unknown>>,
+    result: Pick<
+      GenerateObjectResult<Record<string, unknown>>,
+      'object' | 'usage'
+    >,
   ): GenerateContentResponse {
     const res = new GenerateContentResponse();
 
@@ -396,6 +461,26 @@ export class ModelConverter {
     return res;
   }
 
+  /**
+   * Convert a streamed thought to Gemini response
+   */
+  static toGeminiStreamThoughtResponse(
+    thought: string,
+  ): GenerateContentResponse {
+    const res = new GenerateContentResponse();
+    res.candidates = [
+      {
+        content: {
+          parts: [{ text: thought, thought: true }],
+          role: 'model',
+        },
+        index: 0,
+        safetyRatings: [],
+      },
+    ];
+    return res;
+  }
+
   /**
    * Convert completed tool calls to Gemini response
    */
@@ -448,6 +533,8 @@ export class ModelConverter {
     promptTokens?: number;
     completionTokens?: number;
     totalTokens?: number;
+    cachedTokens?: number;
+    reasoningTokens?: number;
   }): GenerateContentResponse {
     const res = new GenerateContentResponse();
     res.candidates = [
@@ -460,11 +547,22 @@ export class ModelConverter {
         safetyRatings: [],
       },
     ];
+    // The AI SDK reports counts the provider did not send as NaN
+    const promptTokens = usage.promptTokens || 0;
+    const completionTokens = usage.completionTokens || 0;
     res.usageMetadata = {
-      promptTokenCount: usage.promptTokens || 0,
-      candidatesTokenCount: usage.completionTokens || 0,
-      totalTokenCount: usage.totalTokens || 0,
+      promptTokenCount: promptTokens,
+      // OpenAI counts reasoning as completion tokens, Gemini reports
+      // thoughts apart from the candidates
+      candidatesTokenCount: completionTokens - (usage.reasoningTokens || 0),
+      totalTokenCount: usage.totalTokens || promptTokens + completionTokens,
+      cachedContentTokenCount: usage.cachedTokens || undefined,
+      thoughtsTokenCount: usage.reasoningTokens || undefined,
     };
     return res;
   }
 }
+
+function toHttpUrl(uri: string | undefined): URL | undefined {
+  return uri && /^https?:\/\//.test(uri) ? new URL(uri) : undefined;
+}
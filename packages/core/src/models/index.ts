@@ -12,6 +12,8 @@ import {
   EmbedContentResponse,
   EmbedContentParameters,
   GenerateContentConfig,
+  Part,
+  Schema,
 } from '@google/genai';
 import { createOpenAI } from '@ai-sdk/openai';
 import {
@@ -19,32 +21,103 @@ import {
   streamText,
   generateObject,
   streamObject,
+  embedMany,
   jsonSchema,
   GenerateObjectResult,
+  APICallError,
+  RetryError,
+  CoreMessage,
 } from 'ai';
 import { ContentGenerator } from '../core/contentGenerator.js';
-import { CustomLLMContentGeneratorConfig } from './types.js';
+import {
+  CustomLLMContentGeneratorConfig,
+  CustomLLMContentGeneratorOptions,
+} from './types.js';
 import { ModelConverter } from './converter.js';
+import { EMBEDDING_BATCH_SIZE, toEmbeddingTexts } from './util.js';
+import { modelRegistry } from './modelRegistry.js';
+import { countRequestTokens } from './tokenizer.js';
+import { ThoughtSplitter, createReasoningFetch } from './reasoning.js';
+import { toReasoningEffort } from '../config/generationParams.js';
+import {
+  MAX_STRUCTURED_OUTPUT_ATTEMPTS,
+  isJsonModeUnsupportedError,
+  parseStructuredOutput,
+  toRepairPrompt,
+  toSchemaPrompt,
+} from './structuredOutput.js';
+import {
+  ToolCallSplitter,
+  splitToolCalls,
+  toPromptToolRequest,
+} from './promptTools.js';
+
+/**
+ * Reads the custom LLM options from the CUSTOM_LLM_* environment variables.
+ */
+export function getCustomLLMOptionsFromEnv(): CustomLLMContentGeneratorOptions {
+  return {
+    apiKey: process.env.CUSTOM_LLM_API_KEY || '',
+    baseURL: process.env.CUSTOM_LLM_BASE_URL || '',
+    model: process.env.CUSTOM_LLM_MODEL_NAME || '',
+    temperature: Number(process.env.CUSTOM_LLM_TEMPERATURE || 0),
+    maxTokens: Number(process.env.CUSTOM_LLM_MAX_TOKENS || 8192),
+    topP: Number(process.env.CUSTOM_LLM_TOP_P || 1),
+    embeddingModel: process.env.CUSTOM_LLM_EMBEDDING_MODEL || undefined,
+  };
+}
+
+/**
+ * Error of a request to an OpenAI-compatible API, with the HTTP status so that
+ * it can be retried or failed over like the errors of the other providers.
+ */
+export class CustomLLMApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'CustomLLMApiError';
+  }
+}
 
 export class CustomLLMContentGenerator implements ContentGenerator {
   private model: ReturnType<typeof createOpenAI>;
-  private apiKey: string = process.env.CUSTOM_LLM_API_KEY || '';
-  private baseURL: string = process.env.CUSTOM_LLM_BASE_URL || '';
-  private modelName: string = process.env.CUSTOM_LLM_MODEL_NAME || '';
-  private temperature: number = Number(process.env.CUSTOM_LLM_TEMPERATURE || 0);
-  private maxTokens: number = Number(process.env.CUSTOM_LLM_MAX_TOKENS || 8192);
-  private topP: number = Number(process.env.CUSTOM_LLM_TOP_P || 1);
-  private config: CustomLLMContentGeneratorConfig = {
-    model: this.modelName,
-    temperature: this.temperature,
-    max_tokens: this.maxTokens,
-    top_p: this.topP,
-  };
+  private modelName: string;
+  private providerName?: string;
+  private embeddingModelName?: string;
+  private temperature: number;
+  private maxTokens: number;
+  private topP: number;
+  private config: CustomLLMContentGeneratorConfig;
+  /** Set once a request in JSON mode failed because it is not supported */
+  private jsonModeUnsupported = false;
+  /** Whether tools are described in the prompt instead of sent natively */
+  private promptToolCalling: boolean;
 
-  constructor() {
+  constructor(
+    options: CustomLLMContentGeneratorOptions = getCustomLLMOptionsFromEnv(),
+  ) {
+    this.modelName = options.model;
+    this.providerName = options.providerName;
+    this.embeddingModelName = options.embeddingModel;
+    this.temperature = options.temperature;
+    this.maxTokens = options.maxTokens;
+    this.topP = options.topP;
+    this.promptToolCalling = options.promptToolCalling ?? false;
+    this.config = {
+      model: this.modelName,
+      temperature: this.temperature,
+      max_tokens: this.maxTokens,
+      top_p: this.topP,
+    };
     this.model = createOpenAI({
-      apiKey: this.apiKey,
-      baseURL: this.baseURL,
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      // Strict mode requests stream_options.include_usage, so that streamed
+      // responses end with the token usage
+      compatibility: 'strict',
+      fetch: createReasoningFetch(options.fetch),
     });
   }
 
@@ -103,14 +176,33 @@ export class CustomLLMContentGenerator implements ContentGenerator {
     return normalized;
   }
 
+  /**
+   * Builds the parameters shared by all requests. Generation parameters of
+   * the request take precedence over those the generator was created with.
+   */
   private _getCommonParams(request: GenerateContentParameters) {
-    const messages = ModelConverter.toOpenAIMessages(request);
+    const messages = ModelConverter.toOpenAIMessages(
+      request,
+      modelRegistry.get(this.modelName, this.providerName).capabilities,
+    );
+    const config = request.config;
+    const reasoningEffort = toReasoningEffort(
+      config?.thinkingConfig?.thinkingBudget,
+    );
     return {
       model: this.model(this.modelName),
       messages,
-      temperature: this.temperature,
-      maxTokens: this.maxTokens,
-      topP: this.topP,
+      temperature: config?.temperature ?? this.temperature,
+      maxTokens: config?.maxOutputTokens ?? this.maxTokens,
+      topP: config?.topP ?? this.topP,
+      topK: config?.topK,
+      stopSequences: config?.stopSequences,
+      seed: config?.seed,
+      presencePenalty: config?.presencePenalty,
+      frequencyPenalty: config?.frequencyPenalty,
+      providerOptions: reasoningEffort
+        ? { openai: { reasoningEffort } }
+        : undefined,
     };
   }
 
@@ -129,38 +221,71 @@ export class CustomLLMContentGenerator implements ContentGenerator {
   async generateContentStream(
     request: GenerateContentParameters,
   ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    if (this.promptToolCalling) {
+      request = toPromptToolRequest(request);
+    }
     const commonParams = this._getCommonParams(request);
     const { config } = request;
 
     if (this._isJsonRequest(config)) {
-      // Use streamObject for structured JSON output
-      const rawSchema = config.responseSchema;
-      const normalizedSchema = this.normalizeSchema(
-        rawSchema as Record<string, unknown>,
-      );
+      if (this.supportsJsonMode()) {
+        // Use streamObject for structured JSON output
+        const rawSchema = config.responseSchema;
+        const normalizedSchema = this.normalizeSchema(
+          rawSchema as Record<string, unknown>,
+        );
 
-      try {
-        const stream = streamObject({
-          ...commonParams,
-          schema: jsonSchema(normalizedSchema),
-        });
+        try {
+          const stream = streamObject({
+            ...commonParams,
+            schema: jsonSchema(normalizedSchema),
+          });
+          const chunks = stream.fullStream[Symbol.asyncIterator]();
+          // As for text, the first chunk makes request errors surface here,
+          // where a model without JSON mode can still be asked in the prompt
+          const first = await chunks.next();
+          if (!first.done && first.value.type === 'error') {
+            throw first.value.error;
+          }
 
-        return (async function* (): AsyncGenerator<GenerateContentResponse> {
-          for await (const chunk of stream.textStream) {
-            const response = ModelConverter.toGeminiStreamTextResponse(chunk);
-            if (response) {
-              yield response;
+          return (async function* (): AsyncGenerator<GenerateContentResponse> {
+            for (let next = first; !next.done; next = await chunks.next()) {
+              const chunk = next.value;
+              if (chunk.type === 'error') {
+                throw toCustomLLMError(
+                  'Failed to generate streaming JSON content',
+                  chunk.error,
+                );
+              } else if (chunk.type === 'text-delta') {
+                const response = ModelConverter.toGeminiStreamTextResponse(
+                  chunk.textDelta,
+                );
+                if (response) {
+                  yield response;
+                }
+              } else if (chunk.type === 'finish') {
+                yield ModelConverter.toGeminiStreamUsageResponse(chunk.usage);
+              }
             }
+          })();
+        } catch (error) {
+          if (!isJsonModeUnsupportedError(error)) {
+            throw toCustomLLMError(
+              'Failed to generate streaming JSON content',
+              error,
+            );
           }
-        })();
-      } catch (error) {
-        console.error('[CustomLLM] streamObject error:', error);
-        throw new Error(
-          `Failed to generate streaming JSON content: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
+          // Later requests ask for JSON in the prompt right away
+          this.jsonModeUnsupported = true;
+        }
       }
+      const response = await this.generateJsonFromPrompt(
+        commonParams,
+        config.responseSchema,
+      );
+      return (async function* (): AsyncGenerator<GenerateContentResponse> {
+        yield response;
+      })();
     } else {
       // Use streamText for regular text output
       try {
@@ -168,30 +293,70 @@ export class CustomLLMContentGenerator implements ContentGenerator {
           ...commonParams,
           tools: ModelConverter.toAiSDKTools(request.config?.tools),
         });
+        const chunks = stream.fullStream[Symbol.asyncIterator]();
+        // The request is only sent once the stream is read. Waiting for the
+        // first chunk makes HTTP and connection errors surface here, where
+        // the request can still be retried or fail over.
+        const first = await chunks.next();
+        if (!first.done && first.value.type === 'error') {
+          throw first.value.error;
+        }
+
+        // Tool calls written as text are parsed from the answer when tools
+        // are described in the prompt
+        const toolCalls = this.promptToolCalling
+          ? new ToolCallSplitter()
+          : undefined;
+        const toResponses = (parts: Part[]) =>
+          toStreamResponses(
+            toolCalls
+              ? parts.flatMap((part) =>
+                  part.thought ? [part] : toolCalls.push(part.text ?? ''),
+                )
+              : parts,
+          );
+        const flushToolCalls = () =>
+          toStreamResponses(toolCalls?.flush() ?? []);
 
         return (async function* (): AsyncGenerator<GenerateContentResponse> {
-          for await (const chunk of stream.fullStream) {
-            if (chunk.type === 'text-delta') {
-              const response = ModelConverter.toGeminiStreamTextResponse(
-                chunk.textDelta,
+          // Reasoning and <think> spans are streamed as thoughts
+          const splitter = new ThoughtSplitter();
+          for (let next = first; !next.done; next = await chunks.next()) {
+            const chunk = next.value;
+            if (chunk.type === 'error') {
+              throw toCustomLLMError(
+                'Failed to generate streaming text content',
+                chunk.error,
               );
-              if (response) {
-                yield response;
-              }
+            } else if (chunk.type === 'text-delta') {
+              yield* toResponses(splitter.push(chunk.textDelta));
+            } else if (chunk.type === 'reasoning') {
+              yield* toResponses(splitter.pushReasoning(chunk.textDelta));
             } else if (chunk.type === 'tool-call') {
+              yield* toResponses(splitter.flush());
               const response =
                 ModelConverter.toGeminiStreamToolCallsResponse(chunk);
               if (response) {
                 yield response;
               }
+            } else if (chunk.type === 'finish') {
+              yield* toResponses(splitter.flush());
+              yield* flushToolCalls();
+              const metadata = chunk.providerMetadata?.['openai'];
+              yield ModelConverter.toGeminiStreamUsageResponse({
+                ...chunk.usage,
+                cachedTokens: toTokenCount(metadata?.['cachedPromptTokens']),
+                reasoningTokens: toTokenCount(metadata?.['reasoningTokens']),
+              });
             }
           }
+          yield* toResponses(splitter.flush());
+          yield* flushToolCalls();
         })();
       } catch (error) {
-        throw new Error(
-          `Failed to generate streaming text content: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
+        throw toCustomLLMError(
+          'Failed to generate streaming text content',
+          error,
         );
       }
     }
@@ -203,32 +368,38 @@ export class CustomLLMContentGenerator implements ContentGenerator {
   async generateContent(
     request: GenerateContentParameters,
   ): Promise<GenerateContentResponse> {
+    if (this.promptToolCalling) {
+      request = toPromptToolRequest(request);
+    }
     const commonParams = this._getCommonParams(request);
     const { config } = request;
 
     if (this._isJsonRequest(config)) {
-      // Use generateObject for structured JSON output
-      const rawSchema = config.responseSchema;
-      const normalizedSchema = this.normalizeSchema(
-        rawSchema as Record<string, unknown>,
-      );
+      if (this.supportsJsonMode()) {
+        // Use generateObject for structured JSON output
+        const rawSchema = config.responseSchema;
+        const normalizedSchema = this.normalizeSchema(
+          rawSchema as Record<string, unknown>,
+        );
 
-      try {
-        const result = await generateObject({
-          ...commonParams,
-          schema: jsonSchema(normalizedSchema),
-        });
+        try {
+          const result = await generateObject({
+            ...commonParams,
+            schema: jsonSchema(normalizedSchema),
+          });
 
-        return ModelConverter.toGeminiObjectResponse(
-          result as GenerateObjectResult<Record<string, unknown>>,
-        );
-      } catch (error) {
-        throw new Error(
-          `Failed to generate JSON content: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
+          return ModelConverter.toGeminiObjectResponse(
+            result as GenerateObjectResult<Record<string, unknown>>,
+          );
+        } catch (error) {
+          if (!isJsonModeUnsupportedError(error)) {
+            throw toCustomLLMError('Failed to generate JSON content', error);
+          }
+          // Later requests ask for JSON in the prompt right away
+          this.jsonModeUnsupported = true;
+        }
       }
+      return this.generateJsonFromPrompt(commonParams, config.responseSchema);
     } else {
       // Use generateText for regular text output
       try {
@@ -237,50 +408,157 @@ export class CustomLLMContentGenerator implements ContentGenerator {
           tools: ModelConverter.toAiSDKTools(request.config?.tools), // add tools to the request
         });
 
-        return ModelConverter.toGeminiResponse(result);
+        const response = ModelConverter.toGeminiResponse(result);
+        const content = response.candidates?.[0]?.content;
+        if (this.promptToolCalling && content?.parts) {
+          content.parts = splitToolCalls(content.parts);
+        }
+        return response;
       } catch (error) {
-        throw new Error(
-          `Failed to generate text content: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
+        throw toCustomLLMError('Failed to generate text content', error);
       }
     }
   }
 
   /**
-   * Counts the total number of tokens in the given request contents.
+   * Whether JSON is requested through the JSON mode of the API. Models that
+   * are known not to support it, or whose requests failed in JSON mode, are
+   * asked for JSON in the prompt instead.
+   */
+  supportsJsonMode(): boolean {
+    return (
+      !this.jsonModeUnsupported &&
+      modelRegistry.get(this.modelName, this.providerName).capabilities
+        .jsonMode !== false
+    );
+  }
+
+  /**
+   * Asks for JSON matching the schema in the prompt, for models without JSON
+   * mode. Answers that are no valid JSON or do not match the schema are sent
+   * back with the validation error, up to MAX_STRUCTURED_OUTPUT_ATTEMPTS
+   * times in total.
+   */
+  private async generateJsonFromPrompt(
+    commonParams: ReturnType<CustomLLMContentGenerator['_getCommonParams']>,
+    schema: Schema,
+  ): Promise<GenerateContentResponse> {
+    const messages: CoreMessage[] = [
+      ...commonParams.messages,
+      { role: 'user', content: toSchemaPrompt(schema) },
+    ];
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let error = '';
+
+    for (let attempt = 0; attempt < MAX_STRUCTURED_OUTPUT_ATTEMPTS; attempt++) {
+      let result;
+      try {
+        result = await generateText({ ...commonParams, messages });
+      } catch (e) {
+        throw toCustomLLMError('Failed to generate JSON content', e);
+      }
+      usage.promptTokens += result.usage.promptTokens || 0;
+      usage.completionTokens += result.usage.completionTokens || 0;
+      usage.totalTokens += result.usage.totalTokens || 0;
+
+      const parsed = parseStructuredOutput(result.text, schema);
+      if (parsed.object) {
+        return ModelConverter.toGeminiObjectResponse({
+          object: parsed.object,
+          usage,
+        });
+      }
+      error = parsed.error;
+      messages.push(
+        { role: 'assistant', content: result.text },
+        { role: 'user', content: toRepairPrompt(error) },
+      );
+    }
+
+    throw new Error(
+      `Failed to generate JSON content: no valid response after ${MAX_STRUCTURED_OUTPUT_ATTEMPTS} attempts. ${error}`,
+    );
+  }
+
+  /**
+   * Counts the total number of tokens in the given request contents, with the
+   * tokenizer of the model family, or estimated for unknown families.
    */
   async countTokens(
     request: CountTokensParameters,
   ): Promise<CountTokensResponse> {
-    const messages = ModelConverter.toOpenAIMessages(request);
-    const text = messages.map((m) => m.content).join(' ');
-    const englishWords = (text.match(/[a-zA-Z]+[']?[a-zA-Z]*/g) || []).length;
-    const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
-    const numbers = (text.match(/\b\d+\b/g) || []).length;
-    const punctuations = (
-      text.match(/[.,!?;:"'(){}[\]<>@#$%^&*\-_+=~`|\\/]/g) || []
-    ).length;
-    const spaces = Math.ceil((text.match(/\s+/g) || []).length / 5);
-    const totalTokens = Math.ceil(
-      englishWords * 1.2 +
-        chineseChars * 1 +
-        numbers * 0.8 +
-        punctuations * 0.5 +
-        spaces,
-    );
+    const { tokenizer } = modelRegistry.get(this.modelName, this.providerName);
     return {
-      totalTokens,
+      totalTokens: await countRequestTokens(request, tokenizer),
     };
   }
 
   /**
-   * This function has not been implemented yet.
+   * Embeds each content with the embedding model of the provider, through its
+   * /embeddings endpoint, in batches of EMBEDDING_BATCH_SIZE texts.
    */
   async embedContent(
-    _request: EmbedContentParameters,
+    request: EmbedContentParameters,
   ): Promise<EmbedContentResponse> {
-    throw Error();
+    if (!this.embeddingModelName) {
+      throw new Error(
+        'No embedding model is configured. Set "embeddingModel" for the provider.',
+      );
+    }
+    try {
+      const { embeddings } = await embedMany({
+        model: this.model.embedding(this.embeddingModelName, {
+          maxEmbeddingsPerCall: EMBEDDING_BATCH_SIZE,
+          dimensions: request.config?.outputDimensionality,
+        }),
+        values: toEmbeddingTexts(request.contents),
+        abortSignal: request.config?.abortSignal,
+      });
+      return { embeddings: embeddings.map((values) => ({ values })) };
+    } catch (error) {
+      throw toCustomLLMError('Failed to generate embeddings', error);
+    }
   }
 }
+
+/**
+ * Converts text, thought and function call parts to stream responses, one
+ * per part, since a response starting with a thought is treated as a
+ * thought as a whole.
+ */
+function toStreamResponses(parts: Part[]): GenerateContentResponse[] {
+  return parts.map((part) => {
+    if (part.functionCall) {
+      return ModelConverter.toGeminiStreamToolCallsResponse({
+        toolCallId: part.functionCall.id ?? '',
+        toolName: part.functionCall.name ?? '',
+        args: part.functionCall.args ?? {},
+      });
+    }
+    return part.thought
+      ? ModelConverter.toGeminiStreamThoughtResponse(part.text ?? '')
+      : ModelConverter.toGeminiStreamTextResponse(part.text ?? '');
+  });
+}
+
+function toTokenCount(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Wraps an AI SDK error, keeping the HTTP status of the failed API call
+ */
+function toCustomLLMError(message: string, error: unknown): Error {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  // Errors in streams are the error objects of the API
+  const detail =
+    error instanceof Error
+      ? error.message
+      : typeof error === 'object' && error !== null && 'message' in error
+        ? String(error.message)
+        : String(error);
+  const text = `${message}: ${detail}`;
+  return APICallError.isInstance(cause) && cause.statusCode !== undefined
+    ? new CustomLLMApiError(text, cause.statusCode)
+    : new Error(text);
+}
@@ -0,0 +1,416 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LLMProviderConfig, LLMProviderType } from '../config/llmProvider.js';
+import { createLLMProviderContentGenerator } from './llmProviderGenerator.js';
+import { getErrorStatus } from '../utils/retry.js';
+import { EMBEDDING_BATCH_SIZE } from './util.js';
+import { Type } from '@google/genai';
+
+const contentFilterError = {
+  error: {
+    message:
+      "The response was filtered due to the prompt triggering Azure OpenAI's content management policy.",
+    type: null,
+    param: 'prompt',
+    code: 'content_filter',
+    status: 400,
+    innererror: {
+      code: 'ResponsibleAIPolicyViolation',
+      content_filter_result: {
+        hate: { filtered: false, severity: 'safe' },
+        self_harm: { filtered: true, severity: 'medium' },
+        jailbreak: { filtered: true, detected: true },
+      },
+    },
+  },
+};
+
+describe('LLMProviderContentGenerator', () => {
+  let server: http.Server;
+  let provider: LLMProviderConfig;
+  const requests: Array<Record<string, unknown>> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        const body = JSON.parse(data) as Record<string, unknown>;
+        requests.push({ url: req.url, headers: req.headers, ...body });
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url?.includes('/deployments/')) {
+          res.statusCode = 400;
+          res.end(JSON.stringify(contentFilterError));
+          return;
+        }
+        if (req.url?.startsWith('/v1/chat/completions')) {
+          res.statusCode = 401;
+          res.end(JSON.stringify({ error: { message: 'Invalid API key' } }));
+          return;
+        }
+        res.end(
+          JSON.stringify({
+            object: 'list',
+            data: (body['input'] as string[]).map((text, index) => ({
+              object: 'embedding',
+              index,
+              embedding: [text.length, 0.5],
+            })),
+            model: body['model'],
+            usage: { prompt_tokens: 1, total_tokens: 1 },
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    provider = {
+      name: 'local',
+      displayName: 'OpenAI Compatible',
+      type: LLMProviderType.OPENAI_COMPATIBLE,
+      apiKey: 'key',
+      baseUrl: `http://127.0.0.1:${port}/v1`,
+      embeddingModel: 'text-embedding-3-small',
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('embeds contents in batches through the /embeddings endpoint', async () => {
+    const texts = Array.from({ length: EMBEDDING_BATCH_SIZE + 1 }, (_, i) =>
+      'x'.repeat(i + 1),
+    );
+    const resp = await createLLMProviderContentGenerator(
+      provider,
+      'gpt-4o',
+    ).embedContent({
+      model: 'gemini-embedding-001',
+      contents: texts,
+      config: { outputDimensionality: 2 },
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0]).toMatchObject({
+      url: '/v1/embeddings',
+      model: 'text-embedding-3-small',
+      dimensions: 2,
+    });
+    expect(requests[1]['input']).toEqual([texts[texts.length - 1]]);
+    expect(resp.embeddings?.map((embedding) => embedding.values)).toEqual(
+      texts.map((text) => [text.length, 0.5]),
+    );
+  });
+
+  it('requires an embedding model', async () => {
+    await expect(
+      createLLMProviderContentGenerator(
+        { ...provider, embeddingModel: undefined },
+        'gpt-4o',
+      ).embedContent({ model: 'gemini-embedding-001', contents: ['Hello'] }),
+    ).rejects.toThrow('No embedding model is configured');
+  });
+
+  it('rejects the stream with the HTTP status of a failed request', async () => {
+    const error = await createLLMProviderContentGenerator(provider, 'gpt-4o')
+      .generateContentStream({
+        model: 'gpt-4o',
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('Invalid API key');
+    expect(getErrorStatus(error)).toBe(401);
+  });
+
+  it('sends the configured headers, query parameters and routing options', async () => {
+    await createLLMProviderContentGenerator(
+      {
+        ...provider,
+        type: LLMProviderType.OPENROUTER,
+        apiKeyHeader: 'api-key',
+        headers: { 'HTTP-Referer': 'https://example.com', 'X-Title': 'yak' },
+        queryParams: { 'api-version': '2024-10-21' },
+        openrouter: {
+          order: ['anthropic'],
+          allowFallbacks: false,
+          dataCollection: 'deny',
+          transforms: ['middle-out'],
+        },
+      },
+      'anthropic/claude-sonnet-4',
+    )
+      .generateContent({
+        model: 'anthropic/claude-sonnet-4',
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+        config: { systemInstruction: 'Be brief.' },
+      })
+      .catch(() => undefined);
+
+    expect(requests[0]).toMatchObject({
+      url: '/v1/chat/completions?api-version=2024-10-21',
+      headers: {
+        'api-key': 'key',
+        'http-referer': 'https://example.com',
+        'x-title': 'yak',
+      },
+      provider: {
+        order: ['anthropic'],
+        allow_fallbacks: false,
+        data_collection: 'deny',
+      },
+      transforms: ['middle-out'],
+    });
+    expect(requests[0]['headers']).not.toHaveProperty('authorization');
+    // Anthropic models only cache prompts up to a cache_control breakpoint
+    expect(requests[0]['messages']).toContainEqual({
+      role: 'system',
+      content: [
+        {
+          type: 'text',
+          text: 'Be brief.',
+          cache_control: { type: 'ephemeral' },
+        },
+      ],
+    });
+  });
+
+  it('sends Azure OpenAI requests to the deployment of the model', async () => {
+    const error = await createLLMProviderContentGenerator(
+      {
+        ...provider,
+        type: LLMProviderType.AZURE_OPENAI,
+        models: { 'gpt-4o': { deployment: 'prod-gpt4o' } },
+      },
+      'gpt-4o',
+    )
+      .generateContent({
+        model: 'gpt-4o',
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+      })
+      .catch((e: unknown) => e);
+
+    expect(requests[0]).toMatchObject({
+      url: '/v1/deployments/prod-gpt4o/chat/completions?api-version=2024-10-21',
+      headers: { 'api-key': 'key' },
+    });
+    expect(requests[0]['headers']).not.toHaveProperty('authorization');
+    expect(getErrorStatus(error)).toBe(400);
+    expect((error as Error).message).toContain(
+      "Azure OpenAI's content filter blocked the prompt, flagged for self harm (medium severity), jailbreak.",
+    );
+    expect((error as Error).message).not.toContain('innererror');
+  });
+
+  it('sends the generation parameters of the request', async () => {
+    await createLLMProviderContentGenerator(provider, 'gpt-4o')
+      .generateContent({
+        model: 'gpt-4o',
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+        config: {
+          temperature: 0.7,
+          maxOutputTokens: 1000,
+          seed: 7,
+          presencePenalty: 0.5,
+          stopSequences: ['END'],
+          thinkingConfig: { thinkingBudget: 1024 },
+        },
+      })
+      .catch(() => undefined);
+
+    expect(requests[0]).toMatchObject({
+      temperature: 0.7,
+      max_tokens: 1000,
+      seed: 7,
+      presence_penalty: 0.5,
+      stop: ['END'],
+      reasoning_effort: 'low',
+    });
+  });
+});
+
+describe('models without JSON mode and function calling', () => {
+  let server: http.Server;
+  let provider: LLMProviderConfig;
+  const requests: Array<Record<string, unknown>> = [];
+  const answers: string[] = [];
+
+  const request = {
+    model: 'local-model',
+    contents: [{ role: 'user', parts: [{ text: 'Who speaks next?' }] }],
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          next_speaker: { type: Type.STRING, enum: ['user', 'model'] },
+        },
+        required: ['next_speaker'],
+      },
+    },
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        const body = JSON.parse(data) as Record<string, unknown>;
+        requests.push(body);
+        res.setHeader('Content-Type', 'application/json');
+        // JSON mode is requested as a forced tool call
+        if (body['tool_choice']) {
+          res.statusCode = 400;
+          res.end(
+            JSON.stringify({ error: { message: 'tools are not supported' } }),
+          );
+          return;
+        }
+        res.end(
+          JSON.stringify({
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            created: 0,
+            model: body['model'],
+            choices: [
+              {
+                index: 0,
+                message: { role: 'assistant', content: answers.shift() },
+                finish_reason: 'stop',
+              },
+            ],
+            usage: {
+              prompt_tokens: 10,
+              completion_tokens: 5,
+              total_tokens: 15,
+            },
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    provider = {
+      name: 'json-less',
+      displayName: 'OpenAI Compatible',
+      type: LLMProviderType.OPENAI_COMPATIBLE,
+      apiKey: 'key',
+      baseUrl: `http://127.0.0.1:${port}/v1`,
+    };
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    answers.length = 0;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('asks for JSON in the prompt and re-prompts with validation errors', async () => {
+    answers.push(
+      'The next speaker is {"next_speaker": "nobody"}',
+      'Sorry!\n```json\n{"next_speaker": "user"}\n```',
+    );
+    const generator = createLLMProviderContentGenerator(
+      provider,
+      'local-model',
+    );
+
+    const response = await generator.generateContent(request);
+
+    expect(response.text).toBe('{"next_speaker":"user"}');
+    expect(response.usageMetadata?.totalTokenCount).toBe(30);
+    // The JSON mode request, the prompt and the re-prompt
+    expect(requests).toHaveLength(3);
+    const messages = requests[2]['messages'] as Array<{ content: string }>;
+    expect(messages[messages.length - 1].content).toContain(
+      'The JSON does not match the schema',
+    );
+
+    // JSON mode is not tried again
+    answers.push('{"next_speaker": "model"}');
+    await generator.generateContent(request);
+    expect(requests).toHaveLength(4);
+    expect(requests[3]['tool_choice']).toBeUndefined();
+  });
+
+  it('falls back to JSON in the prompt for streamed requests', async () => {
+    answers.push('{"next_speaker": "user"}');
+    const generator = createLLMProviderContentGenerator(
+      provider,
+      'local-model',
+    );
+
+    const stream = await generator.generateContentStream(request);
+    const texts: string[] = [];
+    for await (const chunk of stream) {
+      texts.push(chunk.text ?? '');
+    }
+
+    expect(texts.join('')).toBe('{"next_speaker":"user"}');
+    // The JSON mode request and the prompt
+    expect(requests).toHaveLength(2);
+    expect(requests[1]['tool_choice']).toBeUndefined();
+    expect(generator.supportsJsonMode?.()).toBe(false);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    answers.push('no', 'still no', 'never');
+
+    await expect(
+      createLLMProviderContentGenerator(
+        provider,
+        'local-model',
+      ).generateContent(request),
+    ).rejects.toThrow(
+      'no valid response after 3 attempts. The response does not contain a JSON object.',
+    );
+  });
+
+  it('describes tools in the prompt and parses the calls from the answer', async () => {
+    answers.push(
+      'Let me check.\n<tool_call>\n{"name": "ls", "arguments": {"path": "src"}}\n</tool_call>',
+    );
+    const generator = createLLMProviderContentGenerator(
+      { ...provider, models: { 'local-model': { toolCalling: 'prompt' } } },
+      'local-model',
+    );
+
+    const response = await generator.generateContent({
+      model: 'local-model',
+      contents: [{ role: 'user', parts: [{ text: 'What is in src?' }] }],
+      config: {
+        tools: [
+          {
+            functionDeclarations: [
+              { name: 'ls', description: 'Lists a directory' },
+            ],
+          },
+        ],
+      },
+    });
+
+    expect(requests[0]['tools']).toBeUndefined();
+    const messages = requests[0]['messages'] as Array<{ content: string }>;
+    expect(messages[0].content).toContain('### ls\nLists a directory');
+    expect(response.text).toBe('Let me check.\n');
+    expect(response.functionCalls).toEqual([
+      { name: 'ls', args: { path: 'src' } },
+    ]);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ContentGenerator } from '../core/contentGenerator.js';
+import {
+  LLMProviderConfig,
+  LLMProviderType,
+  getProviderBaseUrl,
+} from '../config/llmProvider.js';
+import { CustomLLMContentGenerator } from './index.js';
+import { AnthropicContentGenerator } from './anthropic/generator.js';
+import { OllamaContentGenerator } from './ollama/generator.js';
+import { ReplayContentGenerator } from './replay/generator.js';
+import { createAzureFetch } from './azure/request.js';
+import { createProviderFetch } from './providerRequest.js';
+import { RateLimitedContentGenerator, getRateLimiter } from './rateLimiter.js';
+
+const DEFAULT_TEMPERATURE = 0;
+const DEFAULT_MAX_TOKENS = 8192;
+const DEFAULT_TOP_P = 1;
+
+/**
+ * Content generator for providers configured through `/provider add`.
+ *
+ * Speaks the OpenAI-compatible API of the provider and takes its connection
+ * details from the provider configuration only, never from the CUSTOM_LLM_*
+ * environment variables. Requests carry the headers, query parameters and
+ * routing options of the provider.
+ */
+export class LLMProviderContentGenerator extends CustomLLMContentGenerator {
+  constructor(
+    readonly provider: LLMProviderConfig,
+    model: string,
+    providerFetch: typeof fetch = createProviderFetch(provider),
+  ) {
+    super({
+      apiKey: provider.apiKey,
+      baseURL: getProviderBaseUrl(provider),
+      model,
+      temperature: DEFAULT_TEMPERATURE,
+      maxTokens: DEFAULT_MAX_TOKENS,
+      topP: DEFAULT_TOP_P,
+      providerName: provider.name,
+      embeddingModel: provider.embeddingModel,
+      fetch: providerFetch,
+      promptToolCalling: provider.models?.[model]?.toolCalling === 'prompt',
+    });
+  }
+}
+
+/**
+ * Creates the content generator matching the API format of a provider.
+ * Its requests are queued through the rate limiter of the provider when
+ * rate limits are configured.
+ */
+export function createLLMProviderContentGenerator(
+  provider: LLMProviderConfig,
+  model: string,
+): ContentGenerator {
+  const generator = createProviderApiGenerator(provider, model);
+  return provider.rateLimit
+    ? new RateLimitedContentGenerator(
+        generator,
+        getRateLimiter(provider.name, provider.rateLimit),
+        model,
+      )
+    : generator;
+}
+
+function createProviderApiGenerator(
+  provider: LLMProviderConfig,
+  model: string,
+): ContentGenerator {
+  switch (provider.type) {
+    case LLMProviderType.ANTHROPIC:
+      return new AnthropicContentGenerator(provider, model);
+    case LLMProviderType.OLLAMA:
+      return new OllamaContentGenerator(provider, model);
+    case LLMProviderType.REPLAY:
+      return new ReplayContentGenerator(provider, model);
+    case LLMProviderType.AZURE_OPENAI:
+      return new LLMProviderContentGenerator(
+        provider,
+        model,
+        createAzureFetch(provider),
+      );
+    default:
+      return new LLMProviderContentGenerator(provider, model);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { AddressInfo } from 'node:net';
+import { LLMProviderConfig, LLMProviderType } from '../config/llmProvider.js';
+import {
+  ModelCatalogEntry,
+  fetchModelCatalog,
+  getModelCatalogPath,
+  listProviderModels,
+  loadModelCatalog,
+  refreshModelCatalog,
+  searchModelCatalog,
+  searchProviderModels,
+} from './modelCatalog.js';
+
+vi.mock('node:os', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:os')>();
+  return { ...actual, homedir: vi.fn() };
+});
+
+describe('modelCatalog', () => {
+  let server: http.Server;
+  let tempHomeDir: string;
+  let provider: LLMProviderConfig;
+  const authHeaders: Array<string | undefined> = [];
+
+  beforeAll(async () => {
+    tempHomeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-catalog-'));
+    vi.mocked(os.homedir).mockReturnValue(tempHomeDir);
+
+    server = http.createServer((req, res) => {
+      authHeaders.push(req.headers['authorization']);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          data: [
+            {
+              id: 'openai/gpt-4o',
+              name: 'OpenAI: GPT-4o',
+              context_length: 128000,
+              pricing: { prompt: '0.0000025', completion: '0.00001' },
+              architecture: {
+                input_modalities: ['text', 'image'],
+                output_modalities: ['text'],
+              },
+              top_provider: { max_completion_tokens: 16384 },
+              supported_parameters: ['tools', 'response_format'],
+            },
+            {
+              id: 'openrouter/auto',
+              pricing: { prompt: '-1', completion: '-1' },
+            },
+            { id: 'local-model', max_model_len: 32768 },
+          ],
+        }),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    provider = {
+      name: 'test-router',
+      displayName: 'OpenRouter',
+      type: LLMProviderType.OPENROUTER,
+      apiKey: 'test-key',
+      baseUrl: `http://127.0.0.1:${port}/api/v1`,
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(tempHomeDir, { recursive: true, force: true });
+  });
+
+  it('converts the /models response', async () => {
+    const models = await fetchModelCatalog(provider);
+
+    expect(authHeaders[authHeaders.length - 1]).toBe('Bearer test-key');
+    expect(models).toEqual([
+      {
+        id: 'local-model',
+        contextLength: 32768,
+      },
+      {
+        id: 'openai/gpt-4o',
+        name: 'OpenAI: GPT-4o',
+        contextLength: 128000,
+        maxOutputTokens: 16384,
+        pricing: { prompt: 2.5, completion: 10 },
+        inputModalities: ['text', 'image'],
+        outputModalities: ['text'],
+        supportedParameters: ['tools', 'response_format'],
+      },
+      { id: 'openrouter/auto' },
+    ]);
+  });
+
+  it('caches the catalog per provider under the config dir', async () => {
+    expect(await loadModelCatalog(provider.name)).toBeNull();
+
+    const catalog = await refreshModelCatalog(provider);
+
+    expect(getModelCatalogPath(provider.name)).toBe(
+      path.join(tempHomeDir, '.yakchat', 'model-catalogs', 'test-router.json'),
+    );
+    expect(await loadModelCatalog(provider.name)).toEqual(catalog);
+    expect(catalog.models).toHaveLength(3);
+  });
+
+  it('keeps catalogs of any provider name in the catalog directory', () => {
+    expect(getModelCatalogPath('../../.ssh/x')).toBe(
+      path.join(
+        tempHomeDir,
+        '.yakchat',
+        'model-catalogs',
+        '..%2F..%2F.ssh%2Fx.json',
+      ),
+    );
+  });
+
+  it('searches ids and names by substring ignoring case', () => {
+    const models: ModelCatalogEntry[] = [
+      { id: 'openai/gpt-4o', name: 'OpenAI: GPT-4o' },
+      { id: 'anthropic/claude-sonnet-4', name: 'Anthropic: Claude Sonnet 4' },
+    ];
+    expect(searchModelCatalog(models, 'GPT').map((m) => m.id)).toEqual([
+      'openai/gpt-4o',
+    ]);
+    expect(
+      searchModelCatalog(models, 'claude sonnet').map((m) => m.id),
+    ).toEqual(['anthropic/claude-sonnet-4']);
+    expect(searchModelCatalog(models, '')).toHaveLength(2);
+  });
+
+  it('lists the configured and cached models of enabled providers', async () => {
+    await refreshModelCatalog(provider);
+
+    const models = await listProviderModels({
+      [provider.name]: {
+        ...provider,
+        model: 'openai/gpt-4o',
+        models: { 'my-finetune': { contextWindow: 8192 } },
+      },
+      local: {
+        name: 'local',
+        displayName: 'Ollama',
+        type: LLMProviderType.OLLAMA,
+        apiKey: '',
+        model: 'qwen3:8b',
+      },
+      disabled: { ...provider, name: 'disabled', enabled: false },
+    });
+
+    expect(models.map((m) => `${m.provider}:${m.model}`)).toEqual([
+      'test-router:openai/gpt-4o',
+      'test-router:my-finetune',
+      'test-router:local-model',
+      'test-router:openrouter/auto',
+      'local:qwen3:8b',
+    ]);
+    expect(models[0].entry?.contextLength).toBe(128000);
+    expect(searchProviderModels(models, 'qwen').map((m) => m.model)).toEqual([
+      'qwen3:8b',
+    ]);
+    expect(searchProviderModels(models, 'rtrauto').map((m) => m.model)).toEqual(
+      ['openrouter/auto'],
+    );
+  });
+});
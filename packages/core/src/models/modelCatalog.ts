@@ -0,0 +1,354 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  LLMProviderConfig,
+  LLMProviderType,
+  getProviderBaseUrl,
+  isModelAllowed,
+} from '../config/llmProvider.js';
+import { GEMINI_DIR } from '../utils/paths.js';
+import { resolveLLMProviderSecrets } from '../config/secretStore.js';
+import { ANTHROPIC_API_VERSION } from './anthropic/generator.js';
+import { AZURE_API_KEY_HEADER, getAzureQueryParams } from './azure/request.js';
+import { listOllamaModels } from './ollama/client.js';
+import { loadReplayFixture } from './replay/fixture.js';
+import { getProviderHeaders, withQueryParams } from './providerRequest.js';
+import { ModelPricing } from './pricing.js';
+
+const MODEL_CATALOG_DIR = 'model-catalogs';
+
+/**
+ * Error of a request for the model listing of a provider. Carries the HTTP
+ * status so that authentication problems can be told apart.
+ */
+export class ModelCatalogError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'ModelCatalogError';
+  }
+}
+
+/**
+ * A model served by a provider
+ */
+export interface ModelCatalogEntry {
+  /** Model id as passed with --model */
+  id: string;
+  /** Human-readable name, if the provider reports one */
+  name?: string;
+  /** Context window in tokens */
+  contextLength?: number;
+  /** Maximum number of output tokens */
+  maxOutputTokens?: number;
+  /** Price in USD per million tokens */
+  pricing?: ModelPricing;
+  /** Input modalities, e.g. ["text", "image"] */
+  inputModalities?: string[];
+  /** Output modalities, e.g. ["text"] */
+  outputModalities?: string[];
+  /** Request parameters the model supports, e.g. ["tools", "reasoning"] */
+  supportedParameters?: string[];
+  /** Tokenizer family, e.g. "GPT", "Llama3" or "qwen2" */
+  tokenizer?: string;
+}
+
+/**
+ * The models of a provider as cached on disk
+ */
+export interface ModelCatalog {
+  provider: string;
+  /** Time the catalog was fetched, in milliseconds since the epoch */
+  fetchedAt: number;
+  models: ModelCatalogEntry[];
+}
+
+/** A model as returned by the /models endpoint of OpenAI-compatible APIs. */
+interface RemoteModel {
+  id: string;
+  name?: string;
+  display_name?: string;
+  // OpenRouter and Together report context_length, vLLM max_model_len.
+  context_length?: number;
+  max_model_len?: number;
+  pricing?: {
+    prompt?: string | number;
+    completion?: string | number;
+    input_cache_read?: string | number;
+  };
+  architecture?: {
+    input_modalities?: string[];
+    output_modalities?: string[];
+    tokenizer?: string;
+  };
+  top_provider?: {
+    max_completion_tokens?: number | null;
+  };
+  supported_parameters?: string[];
+}
+
+/**
+ * Gets the path of the cached model catalog of a provider. The name is
+ * encoded, so that it cannot lead out of the catalog directory.
+ * @param providerName The provider name
+ */
+export function getModelCatalogPath(providerName: string): string {
+  return path.join(
+    os.homedir(),
+    GEMINI_DIR,
+    MODEL_CATALOG_DIR,
+    `${encodeURIComponent(providerName)}.json`,
+  );
+}
+
+/**
+ * Queries the models a provider serves
+ * @param provider The provider configuration
+ * @param signal Optional abort signal
+ * @returns The models, sorted by id
+ */
+export async function fetchModelCatalog(
+  provider: LLMProviderConfig,
+  signal?: AbortSignal,
+): Promise<ModelCatalogEntry[]> {
+  const baseUrl = getProviderBaseUrl(provider).replace(/\/+$/, '');
+  let models: ModelCatalogEntry[];
+
+  if (provider.type === LLMProviderType.REPLAY) {
+    // Replay providers serve the models that requests were recorded with
+    const fixture = await loadReplayFixture(
+      path.resolve(provider.replay?.fixture ?? ''),
+    );
+    models = [
+      ...new Set(fixture.interactions.map((interaction) => interaction.model)),
+    ].map((id) => ({ id }));
+  } else if (provider.type === LLMProviderType.OLLAMA) {
+    models = (
+      await listOllamaModels(baseUrl, signal, {
+        headers: getProviderHeaders(provider),
+        queryParams: provider.queryParams,
+      })
+    ).map((model) => ({
+      id: model.name,
+      tokenizer: model.details?.family,
+    }));
+  } else {
+    if (!baseUrl) {
+      throw new Error(`Provider "${provider.name}" has no base URL.`);
+    }
+    const isAzure = provider.type === LLMProviderType.AZURE_OPENAI;
+    const headers: Record<string, string> =
+      provider.type === LLMProviderType.ANTHROPIC
+        ? {
+            'anthropic-version': ANTHROPIC_API_VERSION,
+            ...getProviderHeaders(provider, 'x-api-key'),
+          }
+        : getProviderHeaders(
+            provider,
+            isAzure ? AZURE_API_KEY_HEADER : undefined,
+          );
+    const res = await fetch(
+      withQueryParams(
+        `${baseUrl}/models?limit=1000`,
+        isAzure ? getAzureQueryParams(provider) : provider.queryParams,
+      ),
+      { headers, signal },
+    );
+    if (!res.ok) {
+      throw new ModelCatalogError(
+        `Failed to list models of provider "${provider.name}": ${res.status} ${res.statusText}`,
+        res.status,
+      );
+    }
+    const data = (await res.json()) as { data?: RemoteModel[] };
+    models = (data.data ?? []).map(toModelCatalogEntry);
+  }
+
+  return models.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Loads the cached model catalog of a provider
+ * @param providerName The provider name
+ * @returns The catalog, or null if none is cached
+ */
+export async function loadModelCatalog(
+  providerName: string,
+): Promise<ModelCatalog | null> {
+  try {
+    const data = await fs.readFile(getModelCatalogPath(providerName), 'utf-8');
+    return JSON.parse(data) as ModelCatalog;
+  } catch {
+    // Missing or corrupted caches are refetched.
+    return null;
+  }
+}
+
+/**
+ * Fetches the models of a provider and caches them
+ * @param provider The provider configuration
+ * @param signal Optional abort signal
+ * @returns The cached catalog
+ */
+export async function refreshModelCatalog(
+  provider: LLMProviderConfig,
+  signal?: AbortSignal,
+): Promise<ModelCatalog> {
+  const catalog: ModelCatalog = {
+    provider: provider.name,
+    fetchedAt: Date.now(),
+    models: await fetchModelCatalog(
+      await resolveLLMProviderSecrets(provider),
+      signal,
+    ),
+  };
+  const catalogPath = getModelCatalogPath(provider.name);
+  await fs.mkdir(path.dirname(catalogPath), { recursive: true });
+  await fs.writeFile(catalogPath, JSON.stringify(catalog, null, 2), 'utf-8');
+  return catalog;
+}
+
+/**
+ * Finds the models whose id or name contains a query, ignoring case
+ * @param models The models to search
+ * @param query The substring to look for, an empty query matches all models
+ */
+export function searchModelCatalog(
+  models: ModelCatalogEntry[],
+  query: string,
+): ModelCatalogEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return models;
+  }
+  return models.filter(
+    (model) =>
+      model.id.toLowerCase().includes(needle) ||
+      !!model.name?.toLowerCase().includes(needle),
+  );
+}
+
+/**
+ * A model of a configured provider
+ */
+export interface ProviderModel {
+  provider: string;
+  model: string;
+  /** The catalog entry, if the model is in the cached catalog */
+  entry?: ModelCatalogEntry;
+}
+
+/**
+ * Lists the models of all enabled providers: their default models, the models
+ * configured in the settings and the models of the cached catalogs. Catalogs
+ * are not fetched, use refreshModelCatalog for that.
+ * @param providers All configured providers, keyed by name
+ */
+export async function listProviderModels(
+  providers: Record<string, LLMProviderConfig>,
+): Promise<ProviderModel[]> {
+  const models: ProviderModel[] = [];
+  for (const [name, provider] of Object.entries(providers)) {
+    if (provider.enabled === false) {
+      continue;
+    }
+    const catalog = await loadModelCatalog(name);
+    const entries = new Map(
+      (catalog?.models ?? []).map((entry) => [entry.id, entry]),
+    );
+    const ids = new Set([
+      ...(provider.model ? [provider.model] : []),
+      ...Object.keys(provider.models ?? {}),
+      ...entries.keys(),
+    ]);
+    for (const id of ids) {
+      if (isModelAllowed(provider, id)) {
+        models.push({ provider: name, model: id, entry: entries.get(id) });
+      }
+    }
+  }
+  return models;
+}
+
+/**
+ * Finds the models whose "provider:model" name contains the characters of a
+ * query in order, ignoring case, e.g. "orsonnet" matches
+ * "openrouter:anthropic/claude-sonnet-4". Models containing the query as a
+ * whole come first.
+ * @param models The models to search
+ * @param query The query, an empty query matches all models
+ */
+export function searchProviderModels(
+  models: ProviderModel[],
+  query: string,
+): ProviderModel[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return models;
+  }
+  const substringMatches: ProviderModel[] = [];
+  const fuzzyMatches: ProviderModel[] = [];
+  for (const model of models) {
+    const name = `${model.provider}:${model.model}`.toLowerCase();
+    if (name.includes(needle)) {
+      substringMatches.push(model);
+    } else if (isSubsequence(needle, name)) {
+      fuzzyMatches.push(model);
+    }
+  }
+  return [...substringMatches, ...fuzzyMatches];
+}
+
+function isSubsequence(needle: string, text: string): boolean {
+  let index = 0;
+  for (const char of text) {
+    if (char === needle[index]) {
+      index++;
+      if (index === needle.length) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function toModelCatalogEntry(model: RemoteModel): ModelCatalogEntry {
+  const entry: ModelCatalogEntry = {
+    id: model.id,
+    name: model.name ?? model.display_name,
+    contextLength: model.context_length ?? model.max_model_len,
+    maxOutputTokens: model.top_provider?.max_completion_tokens ?? undefined,
+    inputModalities: model.architecture?.input_modalities,
+    outputModalities: model.architecture?.output_modalities,
+    supportedParameters: model.supported_parameters,
+    tokenizer: model.architecture?.tokenizer,
+  };
+  const prompt = Number(model.pricing?.prompt);
+  const completion = Number(model.pricing?.completion);
+  // OpenRouter prices are in USD per token, and -1 for router models.
+  if (model.pricing && prompt >= 0 && completion >= 0) {
+    entry.pricing = {
+      prompt: toPricePerMillion(prompt),
+      completion: toPricePerMillion(completion),
+    };
+    const cachedPrompt = Number(model.pricing.input_cache_read);
+    if (cachedPrompt > 0) {
+      entry.pricing.cachedPrompt = toPricePerMillion(cachedPrompt);
+    }
+  }
+  return entry;
+}
+
+function toPricePerMillion(pricePerToken: number): number {
+  // Rounds away floating point noise, e.g. 0.000003 * 1e6 = 2.9999999999999996
+  return Number((pricePerToken * 1_000_000).toFixed(6));
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GenerateContentResponse, Part } from '@google/genai';
+import { ContentGenerator } from '../core/contentGenerator.js';
+import { compareModels } from './modelComparison.js';
+
+function toResponse(
+  parts: Part[],
+  usage?: GenerateContentResponse['usageMetadata'],
+): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.candidates = [{ content: { role: 'model', parts }, index: 0 }];
+  response.usageMetadata = usage;
+  return response;
+}
+
+function createGenerator(
+  chunks: GenerateContentResponse[] | Error,
+): ContentGenerator {
+  return {
+    generateContent: vi.fn(),
+    generateContentStream: vi.fn(async () => {
+      if (chunks instanceof Error) {
+        throw chunks;
+      }
+      return (async function* () {
+        yield* chunks;
+      })();
+    }),
+    countTokens: vi.fn(),
+    embedContent: vi.fn(),
+  };
+}
+
+describe('compareModels', () => {
+  const request = {
+    contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+    config: { systemInstruction: 'Be brief', temperature: 0.5 },
+  };
+
+  it('streams the answers of all models with their token counts', async () => {
+    const fast = createGenerator([
+      toResponse([{ text: 'thinking', thought: true }, { text: 'Hel' }]),
+      toResponse([{ text: 'lo' }], {
+        promptTokenCount: 12,
+        candidatesTokenCount: 2,
+      }),
+    ]);
+    const slow = createGenerator([toResponse([{ text: 'Hi there' }])]);
+    const onUpdate = vi.fn();
+
+    const answers = await compareModels(
+      [
+        { provider: 'a', model: 'fast', generator: fast },
+        {
+          provider: 'b',
+          model: 'slow',
+          generator: slow,
+          config: { temperature: 0 },
+        },
+      ],
+      request,
+      { onUpdate },
+    );
+
+    expect(answers).toMatchObject([
+      {
+        provider: 'a',
+        model: 'fast',
+        text: 'Hello',
+        done: true,
+        promptTokens: 12,
+        outputTokens: 2,
+      },
+      { provider: 'b', model: 'slow', text: 'Hi there', done: true },
+    ]);
+    expect(answers[0].firstTokenMs).toBeDefined();
+    expect(slow.generateContentStream).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: 'slow',
+        contents: request.contents,
+        config: expect.objectContaining({
+          systemInstruction: 'Be brief',
+          temperature: 0,
+        }),
+      }),
+    );
+    expect(onUpdate).toHaveBeenLastCalledWith(answers);
+  });
+
+  it('reports failing models without affecting the others', async () => {
+    const answers = await compareModels(
+      [
+        {
+          provider: 'a',
+          model: 'broken',
+          generator: createGenerator(new Error('model not found')),
+        },
+        {
+          provider: 'b',
+          model: 'ok',
+          generator: createGenerator([toResponse([{ text: 'OK' }])]),
+        },
+      ],
+      request,
+    );
+
+    expect(answers[0]).toMatchObject({
+      text: '',
+      done: true,
+      error: 'model not found',
+    });
+    expect(answers[1]).toMatchObject({ text: 'OK', done: true });
+    expect(answers[1].error).toBeUndefined();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentParameters } from '@google/genai';
+import { ContentGenerator } from '../core/contentGenerator.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/**
+ * A model a prompt is compared on
+ */
+export interface ComparisonTarget {
+  /** Provider name */
+  provider: string;
+  model: string;
+  /** Generator sending requests to the model */
+  generator: ContentGenerator;
+  /** Request config of the model, e.g. its generation parameters */
+  config?: GenerateContentParameters['config'];
+}
+
+/**
+ * The answer of one model of a comparison, updated while it streams
+ */
+export interface ComparisonAnswer {
+  provider: string;
+  model: string;
+  /** The answer so far, without thoughts */
+  text: string;
+  /** Whether the answer is complete, or failed */
+  done: boolean;
+  /** Time since the request was sent, until the answer completed */
+  latencyMs: number;
+  /** Time until the first text arrived, undefined before */
+  firstTokenMs?: number;
+  /** Tokens of the prompt including the history, if reported */
+  promptTokens?: number;
+  /** Tokens of the answer, if reported */
+  outputTokens?: number;
+  /** Why the request failed */
+  error?: string;
+}
+
+/**
+ * A compared prompt and its answers, until one is adopted or they are
+ * discarded
+ */
+export interface PendingComparison {
+  prompt: string;
+  answers: ComparisonAnswer[];
+}
+
+/**
+ * Options of a comparison
+ */
+export interface ComparisonOptions {
+  /** Called with all answers whenever one of them changes */
+  onUpdate?: (answers: ComparisonAnswer[]) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Streams a request to several models in parallel. A failing model does not
+ * affect the others, its error is reported in its answer.
+ * @param targets The models with their generators
+ * @param request The request without model, sent to every target with the
+ *   target's config on top
+ * @param options Progress callback and abort signal
+ * @returns The final answers, in the order of the targets
+ */
+export async function compareModels(
+  targets: ComparisonTarget[],
+  request: Omit<GenerateContentParameters, 'model'>,
+  options: ComparisonOptions = {},
+): Promise<ComparisonAnswer[]> {
+  const answers: ComparisonAnswer[] = targets.map((target) => ({
+    provider: target.provider,
+    model: target.model,
+    text: '',
+    done: false,
+    latencyMs: 0,
+  }));
+  const update = (index: number, changes: Partial<ComparisonAnswer>) => {
+    answers[index] = { ...answers[index], ...changes };
+    options.onUpdate?.([...answers]);
+  };
+
+  const start = Date.now();
+  await Promise.all(
+    targets.map(async (target, index) => {
+      try {
+        const stream = await target.generator.generateContentStream({
+          ...request,
+          model: target.model,
+          config: {
+            ...request.config,
+            ...target.config,
+            abortSignal: options.signal,
+          },
+        });
+        for await (const chunk of stream) {
+          const text = (chunk.candidates?.[0]?.content?.parts ?? [])
+            .filter((part) => !part.thought && part.text)
+            .map((part) => part.text)
+            .join('');
+          const usage = chunk.usageMetadata;
+          if (!text && !usage) {
+            continue;
+          }
+          const answer = answers[index];
+          update(index, {
+            text: answer.text + text,
+            latencyMs: Date.now() - start,
+            firstTokenMs:
+              answer.firstTokenMs ?? (text ? Date.now() - start : undefined),
+            promptTokens: usage?.promptTokenCount ?? answer.promptTokens,
+            outputTokens: usage?.candidatesTokenCount ?? answer.outputTokens,
+          });
+        }
+        update(index, { done: true, latencyMs: Date.now() - start });
+      } catch (error) {
+        update(index, {
+          done: true,
+          latencyMs: Date.now() - start,
+          error: getErrorMessage(error),
+        });
+      }
+    }),
+  );
+  return answers;
+}
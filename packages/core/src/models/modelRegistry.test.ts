@@ -0,0 +1,117 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LLMProviderType } from '../config/llmProvider.js';
+import { tokenLimit } from '../core/tokenLimits.js';
+import { loadModelCatalog } from './modelCatalog.js';
+import {
+  DEFAULT_PROVIDER_TOKEN_LIMIT,
+  DEFAULT_TOKEN_LIMIT,
+  ModelInfoSource,
+  ModelRegistry,
+  modelRegistry,
+  registerProviderModels,
+} from './modelRegistry.js';
+
+vi.mock('./modelCatalog.js', () => ({
+  loadModelCatalog: vi.fn(),
+}));
+
+describe('ModelRegistry', () => {
+  let registry: ModelRegistry;
+
+  beforeEach(() => {
+    registry = new ModelRegistry();
+    modelRegistry.clear();
+  });
+
+  it('knows the built-in Gemini models', () => {
+    expect(registry.get('gemini-1.5-pro').contextWindow).toBe(2_097_152);
+    expect(
+      registry.get('gemini-2.0-flash-preview-image-generation').contextWindow,
+    ).toBe(32_000);
+    expect(registry.get('gemini-2.5-pro-preview-06-05')).toMatchObject({
+      contextWindow: 1_048_576,
+      maxOutputTokens: 65_536,
+    });
+    expect(registry.get('gemini-unknown').contextWindow).toBe(
+      DEFAULT_TOKEN_LIMIT,
+    );
+  });
+
+  it('matches built-in model families regardless of vendor prefix', () => {
+    expect(
+      registry.get('anthropic/claude-sonnet-4', 'openrouter'),
+    ).toMatchObject({
+      contextWindow: 200_000,
+      maxOutputTokens: 64_000,
+      capabilities: { tools: true, vision: true, reasoning: true },
+    });
+    expect(registry.get('gpt-4o-mini', 'openai').contextWindow).toBe(128_000);
+    expect(registry.get('deepseek-chat', 'deepseek').capabilities.vision).toBe(
+      false,
+    );
+    // "o3" must not match models that merely start with the same letters
+    expect(registry.get('o3x', 'openai').contextWindow).toBe(
+      DEFAULT_PROVIDER_TOKEN_LIMIT,
+    );
+  });
+
+  it('prefers the provider listing over built-in data and user overrides over both', () => {
+    registry.registerCatalog('openrouter', [
+      {
+        id: 'openai/gpt-4o',
+        contextLength: 100_000,
+        maxOutputTokens: 4096,
+        inputModalities: ['text'],
+        supportedParameters: ['tools'],
+      },
+    ]);
+    expect(registry.get('openai/gpt-4o', 'openrouter')).toMatchObject({
+      contextWindow: 100_000,
+      maxOutputTokens: 4096,
+      capabilities: { tools: true, vision: false, jsonMode: false },
+    });
+
+    registry.registerProviderOverrides({
+      name: 'openrouter',
+      displayName: 'OpenRouter',
+      type: LLMProviderType.OPENROUTER,
+      apiKey: 'key',
+      models: { 'openai/gpt-4o': { contextWindow: 64_000 } },
+    });
+    expect(registry.get('openai/gpt-4o', 'openrouter')).toMatchObject({
+      contextWindow: 64_000,
+      maxOutputTokens: 4096,
+    });
+    // Information is kept per provider
+    expect(registry.get('openai/gpt-4o', 'other').contextWindow).toBe(128_000);
+  });
+
+  it('fills the shared registry used by tokenLimit', async () => {
+    vi.mocked(loadModelCatalog).mockResolvedValue({
+      provider: 'local',
+      fetchedAt: 0,
+      models: [{ id: 'my-model', contextLength: 32_768 }],
+    });
+    await registerProviderModels({
+      name: 'local',
+      displayName: 'OpenAI Compatible',
+      type: LLMProviderType.OPENAI_COMPATIBLE,
+      apiKey: 'key',
+    });
+    expect(tokenLimit('my-model', 'local')).toBe(32_768);
+
+    modelRegistry.register(
+      'local',
+      'my-model',
+      { contextWindow: 8192 },
+      ModelInfoSource.USER,
+    );
+    expect(tokenLimit('my-model', 'local')).toBe(8192);
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LLMProviderConfig } from '../config/llmProvider.js';
+import { ModelCatalogEntry, loadModelCatalog } from './modelCatalog.js';
+import { ModelPricing } from './pricing.js';
+import { TokenizerEncoding, getTokenizerEncoding } from './tokenizer.js';
+
+/**
+ * Features a model supports
+ */
+export interface ModelCapabilities {
+  /** Function calling */
+  tools?: boolean;
+  /** Image input */
+  vision?: boolean;
+  /** Constrained JSON output */
+  jsonMode?: boolean;
+  /** Reasoning or thinking output */
+  reasoning?: boolean;
+  /** PDF document input */
+  pdf?: boolean;
+  /** Audio input */
+  audio?: boolean;
+}
+
+/**
+ * What is known about a model
+ */
+export interface ModelInfo {
+  /** Context window in tokens */
+  contextWindow: number;
+  /** Maximum number of output tokens, if known */
+  maxOutputTokens?: number;
+  capabilities: ModelCapabilities;
+  /** Vocabulary used to count tokens locally, if known */
+  tokenizer?: TokenizerEncoding;
+  /** Price of the model, if known */
+  pricing?: ModelPricing;
+}
+
+/**
+ * Partial model information, as given by a single source
+ */
+export interface ModelInfoOverride {
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  capabilities?: ModelCapabilities;
+  tokenizer?: TokenizerEncoding;
+  pricing?: ModelPricing;
+}
+
+/**
+ * Sources of model information, in ascending order of precedence
+ */
+export enum ModelInfoSource {
+  /** The model listing of the provider */
+  PROVIDER = 'provider',
+  /** Capabilities detected by /provider test */
+  DETECTED = 'detected',
+  /** The `models` overrides of the provider in settings */
+  USER = 'user',
+}
+
+/** Context window of Gemini models that are not listed below. */
+export const DEFAULT_TOKEN_LIMIT = 1_048_576;
+
+/** Context window assumed for unknown models of a custom provider. */
+export const DEFAULT_PROVIDER_TOKEN_LIMIT = 128_000;
+
+const ALL_CAPABILITIES: ModelCapabilities = {
+  tools: true,
+  vision: true,
+  jsonMode: true,
+};
+
+/**
+ * Built-in data for well-known model families, keyed by model id prefix.
+ * Vendor prefixes such as "anthropic/" are ignored when matching, so the
+ * entries also apply to models served through OpenRouter.
+ */
+const BUILT_IN_MODELS: Record<string, ModelInfoOverride> = {
+  // Pulled from https://ai.google.dev/gemini-api/docs/models
+  'gemini-1.5-pro': {
+    contextWindow: 2_097_152,
+    maxOutputTokens: 8192,
+    capabilities: { pdf: true, audio: true },
+  },
+  'gemini-1.5-flash': {
+    contextWindow: 1_048_576,
+    maxOutputTokens: 8192,
+    capabilities: { pdf: true, audio: true },
+  },
+  'gemini-2.0-flash': {
+    contextWindow: 1_048_576,
+    maxOutputTokens: 8192,
+    capabilities: { pdf: true, audio: true },
+  },
+  'gemini-2.0-flash-preview-image-generation': {
+    contextWindow: 32_000,
+    maxOutputTokens: 8192,
+  },
+  'gemini-2.5-pro': {
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    capabilities: { reasoning: true, pdf: true, audio: true },
+  },
+  'gemini-2.5-flash': {
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    capabilities: { reasoning: true, pdf: true, audio: true },
+  },
+  'gpt-3.5-turbo': {
+    contextWindow: 16_385,
+    maxOutputTokens: 4096,
+    capabilities: { vision: false },
+    tokenizer: TokenizerEncoding.CL100K_BASE,
+  },
+  'gpt-4': { tokenizer: TokenizerEncoding.CL100K_BASE },
+  'gpt-4o': {
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    capabilities: { pdf: true },
+    tokenizer: TokenizerEncoding.O200K_BASE,
+  },
+  'gpt-4o-audio': {
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    capabilities: { vision: false, audio: true },
+    tokenizer: TokenizerEncoding.O200K_BASE,
+  },
+  'gpt-4.1': {
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    capabilities: { pdf: true },
+    tokenizer: TokenizerEncoding.O200K_BASE,
+  },
+  'gpt-5': {
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    capabilities: { reasoning: true, pdf: true },
+    tokenizer: TokenizerEncoding.O200K_BASE,
+  },
+  o1: {
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    capabilities: { reasoning: true, pdf: true },
+    tokenizer: TokenizerEncoding.O200K_BASE,
+  },
+  o3: {
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    capabilities: { reasoning: true, pdf: true },
+    tokenizer: TokenizerEncoding.O200K_BASE,
+  },
+  'o4-mini': {
+    contextWindow: 200_000,
+    maxOutputTokens: 100_000,
+    capabilities: { reasoning: true, pdf: true },
+    tokenizer: TokenizerEncoding.O200K_BASE,
+  },
+  'claude-3-5-haiku': {
+    contextWindow: 200_000,
+    maxOutputTokens: 8192,
+    capabilities: { pdf: true },
+  },
+  'claude-3.5-haiku': {
+    contextWindow: 200_000,
+    maxOutputTokens: 8192,
+    capabilities: { pdf: true },
+  },
+  'claude-3-5-sonnet': {
+    contextWindow: 200_000,
+    maxOutputTokens: 8192,
+    capabilities: { pdf: true },
+  },
+  'claude-3.5-sonnet': {
+    contextWindow: 200_000,
+    maxOutputTokens: 8192,
+    capabilities: { pdf: true },
+  },
+  'claude-3-7-sonnet': {
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    capabilities: { reasoning: true, pdf: true },
+  },
+  'claude-3.7-sonnet': {
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    capabilities: { reasoning: true, pdf: true },
+  },
+  'claude-sonnet-4': {
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    capabilities: { reasoning: true, pdf: true },
+  },
+  'claude-opus-4': {
+    contextWindow: 200_000,
+    maxOutputTokens: 32_000,
+    capabilities: { reasoning: true, pdf: true },
+  },
+  'deepseek-chat': {
+    contextWindow: 131_072,
+    maxOutputTokens: 8192,
+    capabilities: { tools: true, jsonMode: true, vision: false },
+  },
+  'deepseek-reasoner': {
+    contextWindow: 131_072,
+    maxOutputTokens: 65_536,
+    capabilities: { jsonMode: true, vision: false, reasoning: true },
+  },
+  'deepseek-r1': {
+    contextWindow: 131_072,
+    capabilities: { vision: false, reasoning: true },
+  },
+};
+
+/**
+ * Registry of model information keyed by provider and model. Lookups merge
+ * the built-in data, the model listing of the provider and user overrides,
+ * field by field and in that order of precedence.
+ */
+export class ModelRegistry {
+  private readonly entries = new Map<
+    string,
+    Map<ModelInfoSource, ModelInfoOverride>
+  >();
+
+  /**
+   * Registers information about a model
+   * @param provider Provider name, undefined for Gemini models
+   * @param model Model id
+   * @param info The information to register
+   * @param source Where the information comes from
+   */
+  register(
+    provider: string | undefined,
+    model: string,
+    info: ModelInfoOverride,
+    source: ModelInfoSource,
+  ): void {
+    const key = toKey(provider, model);
+    const sources = this.entries.get(key) ?? new Map();
+    sources.set(source, info);
+    this.entries.set(key, sources);
+  }
+
+  /**
+   * Registers the models listed in a provider's model catalog
+   */
+  registerCatalog(provider: string, models: ModelCatalogEntry[]): void {
+    for (const model of models) {
+      this.register(
+        provider,
+        model.id,
+        fromCatalogEntry(model),
+        ModelInfoSource.PROVIDER,
+      );
+    }
+  }
+
+  /**
+   * Registers the `models` overrides of a provider configuration
+   */
+  registerProviderOverrides(provider: LLMProviderConfig): void {
+    for (const [model, info] of Object.entries(provider.models ?? {})) {
+      this.register(provider.name, model, info, ModelInfoSource.USER);
+    }
+  }
+
+  /**
+   * Looks up a model
+   * @param model Model id
+   * @param provider Provider name, undefined for Gemini models
+   * @returns The merged model information
+   */
+  get(model: string, provider?: string): ModelInfo {
+    const sources = this.entries.get(toKey(provider, model));
+    const layers = [
+      findBuiltInModel(model),
+      sources?.get(ModelInfoSource.PROVIDER),
+      sources?.get(ModelInfoSource.DETECTED),
+      sources?.get(ModelInfoSource.USER),
+    ];
+
+    const info: ModelInfo = {
+      contextWindow: provider
+        ? DEFAULT_PROVIDER_TOKEN_LIMIT
+        : DEFAULT_TOKEN_LIMIT,
+      capabilities: provider ? {} : { ...ALL_CAPABILITIES },
+    };
+    for (const layer of layers) {
+      if (!layer) {
+        continue;
+      }
+      info.contextWindow = layer.contextWindow ?? info.contextWindow;
+      info.maxOutputTokens = layer.maxOutputTokens ?? info.maxOutputTokens;
+      info.tokenizer = layer.tokenizer ?? info.tokenizer;
+      info.pricing = layer.pricing ?? info.pricing;
+      info.capabilities = { ...info.capabilities, ...layer.capabilities };
+    }
+    // Unlisted models are counted with the vocabulary of their family.
+    info.tokenizer ??= getTokenizerEncoding(
+      toBaseId(model).match(/^[a-z]+/)?.[0],
+    );
+    return info;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export const modelRegistry = new ModelRegistry();
+
+/**
+ * Fills the registry with what is known about the models of a provider: the
+ * cached model catalog and the overrides in the provider configuration.
+ */
+export async function registerProviderModels(
+  provider: LLMProviderConfig,
+): Promise<void> {
+  const catalog = await loadModelCatalog(provider.name);
+  if (catalog) {
+    modelRegistry.registerCatalog(provider.name, catalog.models);
+  }
+  modelRegistry.registerProviderOverrides(provider);
+}
+
+function toKey(provider: string | undefined, model: string): string {
+  return `${provider ?? ''}:${model}`;
+}
+
+/**
+ * Drops the vendor prefix of OpenRouter style ids, e.g. "openai/gpt-4o".
+ */
+function toBaseId(model: string): string {
+  return model.slice(model.lastIndexOf('/') + 1).toLowerCase();
+}
+
+function findBuiltInModel(model: string): ModelInfoOverride | undefined {
+  const id = toBaseId(model);
+  let match: string | undefined;
+  for (const prefix of Object.keys(BUILT_IN_MODELS)) {
+    const matches =
+      id.startsWith(prefix) && !/[a-z0-9]/.test(id.charAt(prefix.length));
+    if (matches && (!match || prefix.length > match.length)) {
+      match = prefix;
+    }
+  }
+  if (!match) {
+    return undefined;
+  }
+  const info = BUILT_IN_MODELS[match];
+  // Families without explicit capabilities are tool calling vision models.
+  return {
+    ...info,
+    capabilities: { ...ALL_CAPABILITIES, ...info.capabilities },
+  };
+}
+
+function fromCatalogEntry(model: ModelCatalogEntry): ModelInfoOverride {
+  const info: ModelInfoOverride = {
+    contextWindow: model.contextLength,
+    maxOutputTokens: model.maxOutputTokens,
+    tokenizer: getTokenizerEncoding(model.tokenizer),
+    pricing: model.pricing,
+  };
+  const capabilities: ModelCapabilities = {};
+  if (model.inputModalities) {
+    capabilities.vision = model.inputModalities.includes('image');
+    capabilities.pdf = model.inputModalities.includes('file');
+    capabilities.audio = model.inputModalities.includes('audio');
+  }
+  if (model.supportedParameters) {
+    capabilities.tools = model.supportedParameters.includes('tools');
+    capabilities.jsonMode =
+      model.supportedParameters.includes('response_format');
+    capabilities.reasoning = model.supportedParameters.includes('reasoning');
+  }
+  if (Object.keys(capabilities).length > 0) {
+    info.capabilities = capabilities;
+  }
+  return info;
+}
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  OllamaModel,
+  OllamaShowRequest,
+  OllamaShowResponse,
+  OllamaTagsResponse,
+} from './types.js';
+import { withQueryParams } from '../providerRequest.js';
+
+/** Context window Ollama loads a model with when num_ctx is not set. */
+export const DEFAULT_OLLAMA_CONTEXT_WINDOW = 4096;
+
+/**
+ * Error returned by the Ollama API. Carries the HTTP status so that
+ * `retryWithBackoff` can classify it.
+ */
+export class OllamaApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'OllamaApiError';
+  }
+}
+
+/**
+ * Options of a request to the Ollama API
+ */
+export interface OllamaRequestOptions {
+  /**
+   * Extra headers. Ollama does not authenticate, but proxies in front of it
+   * may, so these usually carry the API key.
+   */
+  headers?: Record<string, string>;
+  /** Extra query parameters */
+  queryParams?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+/**
+ * Sends a request to the Ollama API and throws an `OllamaApiError` when the
+ * server does not answer with a 2xx status.
+ * @param baseUrl Base URL of the Ollama server, e.g. http://localhost:11434
+ * @param path API path without the /api prefix, e.g. "chat"
+ * @param body JSON request body, the request is a GET if omitted
+ * @param options Optional headers, query parameters and abort signal
+ */
+export async function ollamaRequest(
+  baseUrl: string,
+  path: string,
+  body?: object,
+  options: OllamaRequestOptions = {},
+): Promise<Response> {
+  const url = withQueryParams(
+    `${baseUrl.replace(/\/+$/, '')}/api/${path}`,
+    options.queryParams,
+  );
+  const res = await fetch(url, {
+    method: body ? 'POST' : 'GET',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: body ? JSON.stringify(body) : undefined,
+    signal: options.signal,
+  });
+  if (!res.ok) {
+    throw new OllamaApiError(
+      `Ollama API request failed with status ${res.status}: ${await getErrorDetail(res)}`,
+      res.status,
+    );
+  }
+  return res;
+}
+
+/**
+ * Lists the models installed on an Ollama server
+ * @param baseUrl Base URL of the Ollama server
+ * @param signal Optional abort signal
+ * @param options Optional headers and query parameters
+ * @returns The installed models, sorted by name
+ */
+export async function listOllamaModels(
+  baseUrl: string,
+  signal?: AbortSignal,
+  options: OllamaRequestOptions = {},
+): Promise<OllamaModel[]> {
+  const res = await ollamaRequest(baseUrl, 'tags', undefined, {
+    ...options,
+    signal,
+  });
+  const data = (await res.json()) as OllamaTagsResponse;
+  return [...(data.models ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Determines the context window a model is loaded with. This is the
+ * configured num_ctx, else the num_ctx of the Modelfile, else Ollama's
+ * default, capped by the context length the model was trained with.
+ * @param baseUrl Base URL of the Ollama server
+ * @param model Model name
+ * @param numCtx Configured num_ctx, if any
+ * @param options Optional headers and query parameters
+ * @returns Context window in tokens
+ */
+export async function getOllamaContextWindow(
+  baseUrl: string,
+  model: string,
+  numCtx?: number,
+  options: OllamaRequestOptions = {},
+): Promise<number> {
+  const request: OllamaShowRequest = { model };
+  const res = await ollamaRequest(baseUrl, 'show', request, options);
+  const info = (await res.json()) as OllamaShowResponse;
+
+  const contextWindow =
+    numCtx ??
+    parseModelfileParameter(info.parameters, 'num_ctx') ??
+    DEFAULT_OLLAMA_CONTEXT_WINDOW;
+  const contextLength = getContextLength(info.model_info);
+  return contextLength ? Math.min(contextWindow, contextLength) : contextWindow;
+}
+
+/**
+ * Reads a numeric parameter from the `parameters` text returned by
+ * /api/show, which lists one "name value" pair per line.
+ */
+export function parseModelfileParameter(
+  parameters: string | undefined,
+  name: string,
+): number | undefined {
+  for (const line of parameters?.split('\n') ?? []) {
+    const [key, value] = line.trim().split(/\s+/);
+    if (key === name) {
+      const parsed = Number(value);
+      return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+    }
+  }
+  return undefined;
+}
+
+function getContextLength(
+  modelInfo: Record<string, unknown> | undefined,
+): number | undefined {
+  // The key is prefixed with the architecture, e.g. "llama.context_length".
+  for (const [key, value] of Object.entries(modelInfo ?? {})) {
+    if (key.endsWith('.context_length') && typeof value === 'number') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+async function getErrorDetail(res: Response): Promise<string> {
+  const text = await res.text();
+  try {
+    const data = JSON.parse(text) as { error?: string };
+    return data.error ?? text;
+  } catch {
+    return text || res.statusText;
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FinishReason, Type } from '@google/genai';
+import {
+  fromOllamaChatResponse,
+  fromOllamaStream,
+  toOllamaChatRequest,
+} from './converter.js';
+import { OllamaChatResponse } from './types.js';
+
+describe('ollama converter', () => {
+  describe('toOllamaChatRequest', () => {
+    it('maps history to chat messages with images and tool calls', () => {
+      const req = toOllamaChatRequest(
+        {
+          model: 'ignored',
+          contents: [
+            {
+              role: 'user',
+              parts: [
+                { text: 'What is in this image?' },
+                { inlineData: { mimeType: 'image/png', data: 'aW1n' } },
+              ],
+            },
+            {
+              role: 'model',
+              parts: [
+                { text: 'Hmm', thought: true },
+                {
+                  functionCall: {
+                    name: 'read_file',
+                    args: { path: 'a.txt' },
+                  },
+                },
+              ],
+            },
+            {
+              role: 'user',
+              parts: [
+                {
+                  functionResponse: {
+                    name: 'read_file',
+                    response: { output: 'file contents' },
+                  },
+                },
+                { text: 'Thanks' },
+              ],
+            },
+          ],
+          config: { systemInstruction: 'Be brief.' },
+        },
+        'llama3.1:8b',
+      );
+
+      expect(req.model).toBe('llama3.1:8b');
+      expect(req.messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'What is in this image?', images: ['aW1n'] },
+        {
+          role: 'assistant',
+          content: '',
+          tool_calls: [
+            { function: { name: 'read_file', arguments: { path: 'a.txt' } } },
+          ],
+        },
+        { role: 'tool', tool_name: 'read_file', content: 'file contents' },
+        { role: 'user', content: 'Thanks' },
+      ]);
+    });
+
+    it('sends provider options and generation parameters', () => {
+      const req = toOllamaChatRequest(
+        {
+          model: 'ignored',
+          contents: 'hi',
+          config: { temperature: 0.2, maxOutputTokens: 100 },
+        },
+        'llama3.1:8b',
+        { numCtx: 32768, keepAlive: '30m' },
+      );
+      expect(req.options).toEqual({
+        num_ctx: 32768,
+        num_predict: 100,
+        temperature: 0.2,
+      });
+      expect(req.keep_alive).toBe('30m');
+    });
+
+    it('converts function declarations and response schemas', () => {
+      const req = toOllamaChatRequest(
+        {
+          model: 'ignored',
+          contents: 'hi',
+          config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+              type: Type.OBJECT,
+              properties: { answer: { type: Type.STRING } },
+            },
+            tools: [
+              {
+                functionDeclarations: [
+                  {
+                    name: 'read_file',
+                    description: 'Reads a file',
+                    parameters: {
+                      type: Type.OBJECT,
+                      properties: { path: { type: Type.STRING } },
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        'llama3.1:8b',
+      );
+      expect(req.format).toEqual({
+        type: 'object',
+        properties: { answer: { type: 'string' } },
+      });
+      expect(req.tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'read_file',
+            description: 'Reads a file',
+            parameters: {
+              type: 'object',
+              properties: { path: { type: 'string' } },
+            },
+          },
+        },
+      ]);
+      expect(req.options).toBeUndefined();
+    });
+  });
+
+  describe('fromOllamaChatResponse', () => {
+    it('converts thinking, text, tool calls and usage', () => {
+      const resp = fromOllamaChatResponse({
+        model: 'qwen3',
+        created_at: '2025-01-01T00:00:00Z',
+        message: {
+          role: 'assistant',
+          content: 'Reading the file.',
+          thinking: 'Hmm',
+          tool_calls: [
+            { function: { name: 'read_file', arguments: { path: 'a.txt' } } },
+          ],
+        },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 10,
+        eval_count: 5,
+      });
+
+      expect(resp.candidates?.[0].content?.parts).toEqual([
+        { text: 'Hmm', thought: true },
+        { text: 'Reading the file.' },
+        { functionCall: { name: 'read_file', args: { path: 'a.txt' } } },
+      ]);
+      expect(resp.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+      expect(resp.usageMetadata).toEqual({
+        promptTokenCount: 10,
+        candidatesTokenCount: 5,
+        totalTokenCount: 15,
+      });
+    });
+
+    it('maps the length done reason to MAX_TOKENS', () => {
+      const resp = fromOllamaChatResponse({
+        model: 'qwen3',
+        created_at: '2025-01-01T00:00:00Z',
+        message: { role: 'assistant', content: '' },
+        done: true,
+        done_reason: 'length',
+      });
+      expect(resp.candidates?.[0].finishReason).toBe(FinishReason.MAX_TOKENS);
+    });
+  });
+
+  describe('fromOllamaStream', () => {
+    it('streams thoughts line by line and ends with usage', async () => {
+      const base = { model: 'qwen3', created_at: '2025-01-01T00:00:00Z' };
+      async function* chunks(): AsyncGenerator<OllamaChatResponse> {
+        yield {
+          ...base,
+          message: { role: 'assistant', content: '<think>Check the ' },
+          done: false,
+        };
+        yield {
+          ...base,
+          message: { role: 'assistant', content: 'file.\n</think>\n\nHi' },
+          done: false,
+        };
+        yield {
+          ...base,
+          message: { role: 'assistant', content: '' },
+          done: true,
+          done_reason: 'stop',
+          prompt_eval_count: 3,
+          eval_count: 4,
+        };
+      }
+
+      const responses = [];
+      for await (const resp of fromOllamaStream(chunks())) {
+        responses.push(resp);
+      }
+      expect(responses.map((r) => r.candidates?.[0].content?.parts)).toEqual([
+        [{ text: 'Check the file.', thought: true }],
+        [{ text: 'Hi' }],
+        [],
+      ]);
+      expect(responses[2].candidates?.[0].finishReason).toBe(FinishReason.STOP);
+      expect(responses[2].usageMetadata?.totalTokenCount).toBe(7);
+    });
+
+    it('throws on error lines', async () => {
+      async function* chunks(): AsyncGenerator<OllamaChatResponse> {
+        yield {
+          model: 'qwen3',
+          created_at: '2025-01-01T00:00:00Z',
+          done: false,
+          error: 'model not found',
+        };
+      }
+      const stream = fromOllamaStream(chunks());
+      await expect(stream.next()).rejects.toThrow(
+        'Ollama stream error: model not found',
+      );
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Content,
+  FinishReason,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  ToolListUnion,
+} from '@google/genai';
+import { OllamaProviderOptions } from '../../config/llmProvider.js';
+import { ThoughtSplitter, splitThoughts } from '../reasoning.js';
+import {
+  convertTypeValuesToLowerCase,
+  normalizeContents,
+  toOmittedMediaText,
+  toSystemText,
+} from '../util.js';
+import {
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaMessage,
+  OllamaOptions,
+  OllamaTool,
+  OllamaToolCall,
+} from './types.js';
+
+export function toOllamaChatRequest(
+  req: GenerateContentParameters,
+  model: string,
+  options: OllamaProviderOptions = {},
+): OllamaChatRequest {
+  const config = req.config;
+  const messages: OllamaMessage[] = [];
+  const system = toSystemText(config?.systemInstruction);
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+  messages.push(...toOllamaMessages(normalizeContents(req.contents)));
+
+  const modelOptions: OllamaOptions = {
+    num_ctx: options.numCtx,
+    num_predict: config?.maxOutputTokens,
+    temperature: config?.temperature,
+    top_p: config?.topP,
+    top_k: config?.topK,
+    stop: config?.stopSequences,
+    seed: config?.seed,
+    presence_penalty: config?.presencePenalty,
+    frequency_penalty: config?.frequencyPenalty,
+  };
+
+  const request: OllamaChatRequest = {
+    model,
+    messages,
+    tools: toOllamaTools(config?.tools),
+    options: removeUndefined(modelOptions),
+    keep_alive: options.keepAlive,
+  };
+
+  if (config?.responseMimeType === 'application/json') {
+    request.format = config.responseSchema
+      ? (convertTypeValuesToLowerCase(config.responseSchema) as Record<
+          string,
+          unknown
+        >)
+      : 'json';
+  }
+
+  return request;
+}
+
+/**
+ * Converts a complete /api/chat response into a Gemini response.
+ */
+export function fromOllamaChatResponse(
+  resp: OllamaChatResponse,
+): GenerateContentResponse {
+  const message = resp.message;
+  return toGenerateContentResponse(
+    [
+      ...splitThoughts(message?.content ?? '', message?.thinking),
+      ...toFunctionCallParts(message?.tool_calls),
+    ],
+    resp,
+  );
+}
+
+/**
+ * Converts the lines of a streamed /api/chat response into Gemini stream
+ * responses. Thoughts, in the `thinking` field or in `<think>` spans, are
+ * streamed line by line, and the final chunk carries the finish reason and
+ * usage.
+ */
+export async function* fromOllamaStream(
+  chunks: AsyncGenerator<OllamaChatResponse>,
+): AsyncGenerator<GenerateContentResponse> {
+  const splitter = new ThoughtSplitter();
+  for await (const chunk of chunks) {
+    if (chunk.error) {
+      throw new Error(`Ollama stream error: ${chunk.error}`);
+    }
+    const message = chunk.message;
+    const parts: Part[] = [
+      ...(message?.thinking ? splitter.pushReasoning(message.thinking) : []),
+      ...(message?.content ? splitter.push(message.content) : []),
+    ];
+    if (message?.tool_calls?.length || chunk.done) {
+      parts.push(
+        ...splitter.flush(),
+        ...toFunctionCallParts(message?.tool_calls),
+      );
+    }
+    // Turn treats a response whose first part is a thought as a thought as a
+    // whole, so every part goes out in a response of its own.
+    for (const part of parts) {
+      yield toGenerateContentResponse([part]);
+    }
+    if (chunk.done) {
+      yield toGenerateContentResponse([], chunk);
+    }
+  }
+}
+
+function toFunctionCallParts(toolCalls: OllamaToolCall[] | undefined): Part[] {
+  return (toolCalls ?? []).map((toolCall) => ({
+    functionCall: {
+      name: toolCall.function.name,
+      args: toolCall.function.arguments ?? {},
+    },
+  }));
+}
+
+function toGenerateContentResponse(
+  parts: Part[],
+  resp?: OllamaChatResponse,
+): GenerateContentResponse {
+  const res = new GenerateContentResponse();
+  res.candidates = [
+    {
+      content: { role: 'model', parts },
+      index: 0,
+      finishReason: resp?.done ? toFinishReason(resp.done_reason) : undefined,
+      safetyRatings: [],
+    },
+  ];
+  res.usageMetadata = resp?.done ? toUsageMetadata(resp) : undefined;
+  return res;
+}
+
+function toOllamaMessages(contents: Content[]): OllamaMessage[] {
+  const messages: OllamaMessage[] = [];
+  for (const content of contents) {
+    const parts = content.parts ?? [];
+    const role = content.role === 'model' ? 'assistant' : 'user';
+    const message: OllamaMessage = { role, content: '' };
+    const texts: string[] = [];
+
+    for (const part of parts) {
+      if (part.thought) {
+        continue;
+      }
+      if (part.text) {
+        texts.push(part.text);
+      } else if (part.functionCall?.name) {
+        message.tool_calls = [
+          ...(message.tool_calls ?? []),
+          {
+            function: {
+              name: part.functionCall.name,
+              arguments: part.functionCall.args ?? {},
+            },
+          },
+        ];
+      } else if (part.functionResponse?.name) {
+        // Tool results are separate messages that precede the user's text.
+        const response = part.functionResponse.response ?? {};
+        const error = response['error'];
+        const output = response['output'];
+        messages.push({
+          role: 'tool',
+          tool_name: part.functionResponse.name,
+          content: error
+            ? `Error: ${String(error)}`
+            : typeof output === 'string'
+              ? output
+              : JSON.stringify(response),
+        });
+      } else if (
+        part.inlineData?.data &&
+        part.inlineData.mimeType?.startsWith('image/')
+      ) {
+        message.images = [...(message.images ?? []), part.inlineData.data];
+      } else if (part.inlineData || part.fileData) {
+        texts.push(toOmittedMediaText(part.inlineData ?? part.fileData ?? {}));
+      }
+    }
+
+    message.content = texts.join('\n');
+    if (message.content || message.tool_calls || message.images) {
+      messages.push(message);
+    }
+  }
+  return messages;
+}
+
+function toOllamaTools(
+  tools: ToolListUnion | undefined,
+): OllamaTool[] | undefined {
+  const result: OllamaTool[] = [];
+  for (const tool of tools ?? []) {
+    if (!('functionDeclarations' in tool)) {
+      continue;
+    }
+    for (const func of tool.functionDeclarations ?? []) {
+      if (!func.name) {
+        continue;
+      }
+      result.push({
+        type: 'function',
+        function: {
+          name: func.name,
+          description: func.description,
+          parameters: {
+            ...(convertTypeValuesToLowerCase(
+              func.parametersJsonSchema ?? func.parameters ?? {},
+            ) as Record<string, unknown>),
+            type: 'object',
+          },
+        },
+      });
+    }
+  }
+  return result.length > 0 ? result : undefined;
+}
+
+function toFinishReason(doneReason: string | undefined): FinishReason {
+  return doneReason === 'length' ? FinishReason.MAX_TOKENS : FinishReason.STOP;
+}
+
+function toUsageMetadata(
+  resp: OllamaChatResponse,
+): GenerateContentResponseUsageMetadata {
+  const promptTokens = resp.prompt_eval_count ?? 0;
+  const candidatesTokens = resp.eval_count ?? 0;
+  return {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: candidatesTokens,
+    totalTokenCount: promptTokens + candidatesTokens,
+  };
+}
+
+function removeUndefined<T extends object>(obj: T): T | undefined {
+  const entries = Object.entries(obj).filter(
+    ([, value]) => value !== undefined,
+  );
+  return entries.length > 0 ? (Object.fromEntries(entries) as T) : undefined;
+}
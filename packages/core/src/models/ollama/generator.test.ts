@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GenerateContentResponse } from '@google/genai';
+import { LLMProviderType } from '../../config/llmProvider.js';
+import { tokenLimit } from '../../core/tokenLimits.js';
+import { EMBEDDING_BATCH_SIZE } from '../util.js';
+import { OllamaApiError, listOllamaModels } from './client.js';
+import { OllamaContentGenerator } from './generator.js';
+
+interface RecordedRequest {
+  url?: string;
+  body: Record<string, unknown>;
+}
+
+describe('OllamaContentGenerator', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: RecordedRequest[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        const body = (data ? JSON.parse(data) : {}) as Record<string, unknown>;
+        requests.push({ url: req.url, body });
+        res.setHeader('Content-Type', 'application/json');
+
+        if (body['model'] === 'missing') {
+          res.writeHead(404);
+          res.end(JSON.stringify({ error: 'model "missing" not found' }));
+          return;
+        }
+
+        switch (req.url) {
+          case '/api/tags':
+            res.end(
+              JSON.stringify({
+                models: [
+                  { name: 'qwen3:8b', model: 'qwen3:8b', size: 2 },
+                  { name: 'llama3.1:8b', model: 'llama3.1:8b', size: 1 },
+                ],
+              }),
+            );
+            return;
+          case '/api/show':
+            res.end(
+              JSON.stringify({
+                parameters:
+                  'num_ctx                        16384\nstop "<|eot|>"',
+                model_info: { 'llama.context_length': 131072 },
+              }),
+            );
+            return;
+          case '/api/embed':
+            res.end(
+              JSON.stringify({
+                model: body['model'],
+                embeddings: (body['input'] as string[]).map((text) => [
+                  text.length,
+                ]),
+              }),
+            );
+            return;
+          default:
+            break;
+        }
+
+        if (body['stream']) {
+          const lines = [
+            { message: { role: 'assistant', content: 'Hello' }, done: false },
+            { message: { role: 'assistant', content: ' world' }, done: false },
+            {
+              message: { role: 'assistant', content: '' },
+              done: true,
+              done_reason: 'stop',
+              prompt_eval_count: 8,
+              eval_count: 2,
+            },
+          ];
+          for (const line of lines) {
+            res.write(`${JSON.stringify({ model: body['model'], ...line })}\n`);
+          }
+          res.end();
+          return;
+        }
+
+        res.end(
+          JSON.stringify({
+            model: body['model'],
+            message: { role: 'assistant', content: 'Hi there' },
+            done: true,
+            done_reason: 'stop',
+            prompt_eval_count: 5,
+            eval_count: 3,
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createGenerator = (model = 'llama3.1:8b') =>
+    new OllamaContentGenerator(
+      {
+        name: 'ollama',
+        displayName: 'Ollama',
+        type: LLMProviderType.OLLAMA,
+        apiKey: '',
+        baseUrl,
+        embeddingModel: 'nomic-embed-text',
+        ollama: { keepAlive: '10m' },
+      },
+      model,
+    );
+
+  it('sends chat requests and converts the response', async () => {
+    const resp = await createGenerator().generateContent({
+      model: 'llama3.1:8b',
+      contents: 'Hello',
+    });
+
+    const request = requests[requests.length - 1];
+    expect(request.url).toBe('/api/chat');
+    expect(request.body).toMatchObject({
+      model: 'llama3.1:8b',
+      messages: [{ role: 'user', content: 'Hello' }],
+      stream: false,
+      keep_alive: '10m',
+    });
+    expect(resp.text).toBe('Hi there');
+    expect(resp.usageMetadata?.totalTokenCount).toBe(8);
+  });
+
+  it('streams newline delimited responses', async () => {
+    const stream = await createGenerator().generateContentStream({
+      model: 'llama3.1:8b',
+      contents: 'Hello',
+    });
+    const responses: GenerateContentResponse[] = [];
+    for await (const resp of stream) {
+      responses.push(resp);
+    }
+
+    expect(responses.map((resp) => resp.text ?? '').join('')).toBe(
+      'Hello world',
+    );
+    expect(responses[responses.length - 1].usageMetadata).toMatchObject({
+      promptTokenCount: 8,
+      candidatesTokenCount: 2,
+    });
+  });
+
+  it('embeds contents in batches with the embedding model', async () => {
+    const texts = Array.from({ length: EMBEDDING_BATCH_SIZE + 1 }, (_, i) =>
+      'x'.repeat(i + 1),
+    );
+    const requestCount = requests.length;
+    const resp = await createGenerator().embedContent({
+      model: 'gemini-embedding-001',
+      contents: texts,
+    });
+
+    const embedRequests = requests.slice(requestCount);
+    expect(embedRequests.map((request) => request.url)).toEqual([
+      '/api/embed',
+      '/api/embed',
+    ]);
+    expect(embedRequests[0].body['model']).toBe('nomic-embed-text');
+    expect(embedRequests[1].body['input']).toEqual([texts[texts.length - 1]]);
+    expect(resp.embeddings?.map((embedding) => embedding.values)).toEqual(
+      texts.map((text) => [text.length]),
+    );
+  });
+
+  it('registers the context window of the model', async () => {
+    await createGenerator('context-test').generateContent({
+      model: 'context-test',
+      contents: 'Hello',
+    });
+    expect(tokenLimit('context-test', 'ollama')).toBe(16384);
+  });
+
+  it('surfaces API errors with their HTTP status', async () => {
+    const error = await createGenerator('missing')
+      .generateContent({ model: 'missing', contents: 'Hello' })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(OllamaApiError);
+    expect(error.status).toBe(404);
+    expect(error.message).toContain('model "missing" not found');
+  });
+
+  it('lists the installed models sorted by name', async () => {
+    const models = await listOllamaModels(baseUrl);
+    expect(models.map((model) => model.name)).toEqual([
+      'llama3.1:8b',
+      'qwen3:8b',
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import * as readline from 'readline';
+import { Readable } from 'stream';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { ContentGenerator } from '../../core/contentGenerator.js';
+import {
+  LLMProviderConfig,
+  getProviderBaseUrl,
+} from '../../config/llmProvider.js';
+import { ModelInfoSource, modelRegistry } from '../modelRegistry.js';
+import { countRequestTokens } from '../tokenizer.js';
+import { EMBEDDING_BATCH_SIZE, toEmbeddingTexts } from '../util.js';
+import { getProviderHeaders } from '../providerRequest.js';
+import {
+  OllamaRequestOptions,
+  getOllamaContextWindow,
+  ollamaRequest,
+} from './client.js';
+import {
+  fromOllamaChatResponse,
+  fromOllamaStream,
+  toOllamaChatRequest,
+} from './converter.js';
+import {
+  OllamaChatResponse,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+} from './types.js';
+
+/**
+ * Content generator that talks to the native API of a local Ollama server.
+ */
+export class OllamaContentGenerator implements ContentGenerator {
+  private contextWindow?: Promise<void>;
+
+  constructor(
+    readonly provider: LLMProviderConfig,
+    readonly model: string,
+  ) {}
+
+  async generateContent(
+    req: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    await this.detectContextWindow();
+    const res = await this.post(
+      'chat',
+      { ...this.toRequest(req), stream: false },
+      req.config?.abortSignal,
+    );
+    return fromOllamaChatResponse((await res.json()) as OllamaChatResponse);
+  }
+
+  async generateContentStream(
+    req: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    await this.detectContextWindow();
+    const res = await this.post(
+      'chat',
+      { ...this.toRequest(req), stream: true },
+      req.config?.abortSignal,
+    );
+    if (!res.body) {
+      throw new Error('Ollama API returned an empty stream');
+    }
+    const body = Readable.fromWeb(res.body as WebReadableStream);
+
+    // The response is newline delimited JSON, one chat response per line.
+    const chunks = (async function* (): AsyncGenerator<OllamaChatResponse> {
+      const rl = readline.createInterface({
+        input: body,
+        crlfDelay: Infinity, // Recognizes '\r\n' and '\n' as line breaks
+      });
+      for await (const line of rl) {
+        if (line.trim()) {
+          yield JSON.parse(line) as OllamaChatResponse;
+        }
+      }
+    })();
+    return fromOllamaStream(chunks);
+  }
+
+  /**
+   * Ollama has no tokenizer endpoint, so the count is taken locally with the
+   * vocabulary of the model family.
+   */
+  async countTokens(req: CountTokensParameters): Promise<CountTokensResponse> {
+    const { tokenizer } = modelRegistry.get(this.model, this.provider.name);
+    return { totalTokens: await countRequestTokens(req, tokenizer) };
+  }
+
+  /**
+   * Embeds each content with the embedding model of the provider, in batches
+   * of EMBEDDING_BATCH_SIZE texts.
+   */
+  async embedContent(
+    req: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const model = this.provider.embeddingModel;
+    if (!model) {
+      throw new Error(
+        'No embedding model is configured. Set "embeddingModel" for the provider.',
+      );
+    }
+    const texts = toEmbeddingTexts(req.contents);
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const request: OllamaEmbedRequest = {
+        model,
+        input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+        dimensions: req.config?.outputDimensionality,
+        keep_alive: this.provider.ollama?.keepAlive,
+      };
+      const res = await this.post('embed', request, req.config?.abortSignal);
+      embeddings.push(
+        ...((await res.json()) as OllamaEmbedResponse).embeddings,
+      );
+    }
+    return { embeddings: embeddings.map((values) => ({ values })) };
+  }
+
+  private toRequest(req: GenerateContentParameters) {
+    return toOllamaChatRequest(req, this.model, this.provider.ollama);
+  }
+
+  /**
+   * Registers the context window the model is loaded with in the model
+   * registry, once per generator. Failures leave the default limit in place.
+   */
+  private detectContextWindow(): Promise<void> {
+    this.contextWindow ??= getOllamaContextWindow(
+      getProviderBaseUrl(this.provider),
+      this.model,
+      this.provider.ollama?.numCtx,
+      this.getRequestOptions(),
+    ).then(
+      (contextWindow) =>
+        modelRegistry.register(
+          this.provider.name,
+          this.model,
+          { contextWindow },
+          ModelInfoSource.PROVIDER,
+        ),
+      () => undefined,
+    );
+    return this.contextWindow;
+  }
+
+  private post(
+    method: string,
+    req: object,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    return ollamaRequest(getProviderBaseUrl(this.provider), method, req, {
+      ...this.getRequestOptions(),
+      signal,
+    });
+  }
+
+  private getRequestOptions(): OllamaRequestOptions {
+    return {
+      headers: getProviderHeaders(this.provider),
+      queryParams: this.provider.queryParams,
+    };
+  }
+}
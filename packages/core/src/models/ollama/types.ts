@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Types of the Ollama REST API.
+ * See https://github.com/ollama/ollama/blob/main/docs/api.md
+ */
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+export interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  thinking?: string;
+  /** Base64 encoded images */
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  /** Name of the tool whose result this message carries */
+  tool_name?: string;
+}
+
+export interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+/** Model parameters, see the Modelfile documentation for the full list. */
+export interface OllamaOptions {
+  num_ctx?: number;
+  num_predict?: number;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop?: string[];
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+}
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  tools?: OllamaTool[];
+  /** "json" or a JSON schema */
+  format?: 'json' | Record<string, unknown>;
+  options?: OllamaOptions;
+  stream?: boolean;
+  keep_alive?: string | number;
+}
+
+/**
+ * Response of /api/chat. When streaming, every line of the response body is
+ * one of these and only the last one has `done` set and carries the counts.
+ */
+export interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: OllamaMessage;
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+export interface OllamaModelDetails {
+  format?: string;
+  family?: string;
+  parameter_size?: string;
+  quantization_level?: string;
+}
+
+export interface OllamaModel {
+  name: string;
+  model: string;
+  modified_at: string;
+  size: number;
+  digest: string;
+  details?: OllamaModelDetails;
+}
+
+export interface OllamaTagsResponse {
+  models: OllamaModel[];
+}
+
+export interface OllamaEmbedRequest {
+  model: string;
+  input: string[];
+  dimensions?: number;
+  keep_alive?: string | number;
+}
+
+export interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+}
+
+export interface OllamaShowRequest {
+  model: string;
+}
+
+export interface OllamaShowResponse {
+  /** Modelfile parameters, one "name value" pair per line */
+  parameters?: string;
+  details?: OllamaModelDetails;
+  /** GGUF metadata, e.g. "llama.context_length" */
+  model_info?: Record<string, unknown>;
+  capabilities?: string[];
+}
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  /** Prompt tokens */
+  prompt: number;
+  /** Completion tokens */
+  completion: number;
+  /** Prompt tokens read from the prompt cache, the prompt price if not given */
+  cachedPrompt?: number;
+  /** Reasoning tokens, the completion price if not given */
+  reasoning?: number;
+}
+
+/**
+ * Token counts of one or more requests, as reported in their usage metadata
+ */
+export interface TokenUsage {
+  /** Prompt tokens, including those read from the cache */
+  prompt: number;
+  /** Completion tokens, without reasoning tokens */
+  candidates: number;
+  cached?: number;
+  thoughts?: number;
+}
+
+/**
+ * Computes what requests cost
+ * @param pricing The price of the model
+ * @param usage The tokens of the requests
+ * @returns The cost in USD
+ */
+export function calculateCost(
+  pricing: ModelPricing,
+  usage: TokenUsage,
+): number {
+  const cached = Math.min(usage.cached ?? 0, usage.prompt);
+  return (
+    ((usage.prompt - cached) * pricing.prompt +
+      cached * (pricing.cachedPrompt ?? pricing.prompt) +
+      usage.candidates * pricing.completion +
+      (usage.thoughts ?? 0) * (pricing.reasoning ?? pricing.completion)) /
+    1_000_000
+  );
+}
+
+/**
+ * Checks the pricing of a model given in settings
+ * @returns An error message, or null if the pricing is valid
+ */
+export function validateModelPricing(pricing: ModelPricing): string | null {
+  for (const field of [
+    'prompt',
+    'completion',
+    'cachedPrompt',
+    'reasoning',
+  ] as const) {
+    const value = pricing[field];
+    const required = field === 'prompt' || field === 'completion';
+    if (
+      (value !== undefined || required) &&
+      (typeof value !== 'number' || !Number.isFinite(value) || value < 0)
+    ) {
+      return `pricing.${field} must be a non-negative number of USD per million tokens`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Formats a cost in USD, with more digits for amounts below a dollar, e.g.
+ * "$0.0042" or "$1.25"
+ */
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+}
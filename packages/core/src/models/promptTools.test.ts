@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Type } from '@google/genai';
+import {
+  ToolCallSplitter,
+  splitToolCalls,
+  toPromptToolRequest,
+} from './promptTools.js';
+
+describe('toPromptToolRequest', () => {
+  it('describes the tools in the system instruction and converts the history to text', () => {
+    const request = toPromptToolRequest({
+      model: 'local-model',
+      contents: [
+        { role: 'user', parts: [{ text: 'List the files' }] },
+        {
+          role: 'model',
+          parts: [{ functionCall: { name: 'ls', args: { path: '.' } } }],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                name: 'ls',
+                response: { output: 'a.txt' },
+              },
+            },
+          ],
+        },
+      ],
+      config: {
+        systemInstruction: 'You are helpful.',
+        tools: [
+          {
+            functionDeclarations: [
+              {
+                name: 'ls',
+                description: 'Lists a directory',
+                parameters: {
+                  type: Type.OBJECT,
+                  properties: { path: { type: Type.STRING } },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    });
+
+    expect(request.config?.tools).toBeUndefined();
+    const system = request.config?.systemInstruction as string;
+    expect(system).toMatch(/^You are helpful\.\n\n# Tools/);
+    expect(system).toContain(
+      '### ls\nLists a directory\nParameters (JSON schema):\n{"type":"object","properties":{"path":{"type":"string"}}}',
+    );
+    expect(request.contents).toEqual([
+      { role: 'user', parts: [{ text: 'List the files' }] },
+      {
+        role: 'model',
+        parts: [
+          {
+            text: '<tool_call>\n{"name":"ls","arguments":{"path":"."}}\n</tool_call>',
+          },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [{ text: '<tool_result name="ls">\na.txt\n</tool_result>' }],
+      },
+    ]);
+  });
+});
+
+describe('ToolCallSplitter', () => {
+  it('parses tool calls whose tags span chunks', () => {
+    const splitter = new ToolCallSplitter();
+    const parts = [
+      ...splitter.push('Let me look. <tool'),
+      ...splitter.push('_call>\n{"name": "ls", '),
+      ...splitter.push('"arguments": {"path": "src"}}\n</tool_c'),
+      ...splitter.push('all>Done <'),
+      ...splitter.flush(),
+    ];
+    expect(parts).toEqual([
+      { text: 'Let me look. ' },
+      { functionCall: { name: 'ls', args: { path: 'src' } } },
+      { text: 'Done ' },
+      { text: '<' },
+    ]);
+  });
+
+  it('keeps blocks that are no valid calls as text', () => {
+    const splitter = new ToolCallSplitter();
+    expect([
+      ...splitter.push('<tool_call>not json</tool_call>'),
+      ...splitter.push('<tool_call>{"name": "ls"}'),
+      ...splitter.flush(),
+    ]).toEqual([
+      { text: '<tool_call>not json</tool_call>' },
+      { functionCall: { name: 'ls', args: {} } },
+    ]);
+  });
+});
+
+describe('splitToolCalls', () => {
+  it('splits the answer text and keeps thoughts', () => {
+    expect(
+      splitToolCalls([
+        { text: 'Reading <tool_call>', thought: true },
+        { text: 'Reading\n<tool_call>{"name": "read", "arguments": ' },
+        { text: '{"file": "a"}}</tool_call>' },
+      ]),
+    ).toEqual([
+      { text: 'Reading <tool_call>', thought: true },
+      { text: 'Reading\n' },
+      { functionCall: { name: 'read', args: { file: 'a' } } },
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Content,
+  FunctionDeclaration,
+  GenerateContentParameters,
+  Part,
+  ToolListUnion,
+} from '@google/genai';
+import {
+  convertTypeValuesToLowerCase,
+  isValidFunctionCall,
+  normalizeContents,
+  toSystemText,
+} from './util.js';
+import { partialTagLength } from './reasoning.js';
+
+const TOOL_CALL_OPEN = '<tool_call>';
+const TOOL_CALL_CLOSE = '</tool_call>';
+
+/**
+ * Describes the function declarations of a request for models without
+ * native function calling, and how to call them
+ * @returns The instructions, undefined if the request has no functions
+ */
+export function toToolCallingPrompt(
+  tools: ToolListUnion | undefined,
+): string | undefined {
+  const declarations = (tools ?? []).flatMap((tool) =>
+    'functionDeclarations' in tool ? (tool.functionDeclarations ?? []) : [],
+  );
+  if (declarations.length === 0) {
+    return undefined;
+  }
+
+  return [
+    '# Tools',
+    '',
+    'You can call the tools listed below. To call a tool, respond with a block in exactly this format, where "arguments" is a JSON object matching the parameters of the tool:',
+    '',
+    TOOL_CALL_OPEN,
+    '{"name": "tool_name", "arguments": {"parameter": "value"}}',
+    TOOL_CALL_CLOSE,
+    '',
+    'Write one block per call. After your tool calls, stop and wait for the results, which are sent back in <tool_result> blocks. Never write <tool_result> blocks yourself.',
+    '',
+    '## Available tools',
+    ...declarations.map(describeFunction),
+  ].join('\n');
+}
+
+/**
+ * Rewrites a request for a model without native function calling: the
+ * function declarations move into the system instruction, and the function
+ * calls and responses of the history become text blocks.
+ */
+export function toPromptToolRequest(
+  request: GenerateContentParameters,
+): GenerateContentParameters {
+  const { tools, ...config } = request.config ?? {};
+  const systemInstruction = [
+    toSystemText(config.systemInstruction),
+    toToolCallingPrompt(tools),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    ...request,
+    contents: normalizeContents(request.contents).map(toTextContent),
+    config: {
+      ...config,
+      systemInstruction: systemInstruction || undefined,
+    },
+  };
+}
+
+/**
+ * Splits streamed answer text into text and the function calls written as
+ * `<tool_call>` blocks, which may be split across chunks. Blocks that are
+ * not valid calls are kept as text.
+ */
+export class ToolCallSplitter {
+  private pending = '';
+  private inCall = false;
+
+  /**
+   * Adds a chunk of answer text
+   * @returns The text and function call parts that are complete
+   */
+  push(text: string): Part[] {
+    this.pending += text;
+    const parts: Part[] = [];
+
+    while (this.pending) {
+      if (this.inCall) {
+        const end = this.pending.indexOf(TOOL_CALL_CLOSE);
+        if (end === -1) {
+          break;
+        }
+        const block = this.pending.slice(0, end);
+        parts.push(
+          parseToolCall(block) ?? {
+            text: `${TOOL_CALL_OPEN}${block}${TOOL_CALL_CLOSE}`,
+          },
+        );
+        this.pending = this.pending.slice(end + TOOL_CALL_CLOSE.length);
+        this.inCall = false;
+        continue;
+      }
+
+      const start = this.pending.indexOf(TOOL_CALL_OPEN);
+      if (start === -1) {
+        const keep = partialTagLength(this.pending, [TOOL_CALL_OPEN]);
+        parts.push(
+          ...toTextParts(this.pending.slice(0, this.pending.length - keep)),
+        );
+        this.pending = this.pending.slice(this.pending.length - keep);
+        break;
+      }
+      parts.push(...toTextParts(this.pending.slice(0, start)));
+      this.pending = this.pending.slice(start + TOOL_CALL_OPEN.length);
+      this.inCall = true;
+    }
+
+    return parts;
+  }
+
+  /**
+   * Emits everything that is still buffered, at the end of the output. An
+   * unterminated block is parsed as a call if it holds a complete one.
+   */
+  flush(): Part[] {
+    const pending = this.pending;
+    this.pending = '';
+    if (!this.inCall) {
+      return toTextParts(pending);
+    }
+    this.inCall = false;
+    return [parseToolCall(pending) ?? { text: `${TOOL_CALL_OPEN}${pending}` }];
+  }
+}
+
+/**
+ * Splits the answer text of complete model output into text and function
+ * calls. Thoughts are kept as they are.
+ */
+export function splitToolCalls(parts: Part[]): Part[] {
+  const splitter = new ToolCallSplitter();
+  return [
+    ...parts.flatMap((part) =>
+      part.thought || part.text === undefined
+        ? [part]
+        : splitter.push(part.text),
+    ),
+    ...splitter.flush(),
+  ];
+}
+
+function describeFunction(declaration: FunctionDeclaration): string {
+  const lines = ['', `### ${declaration.name}`];
+  if (declaration.description) {
+    lines.push(declaration.description);
+  }
+  if (declaration.parameters) {
+    lines.push(
+      'Parameters (JSON schema):',
+      JSON.stringify(convertTypeValuesToLowerCase(declaration.parameters)),
+    );
+  }
+  return lines.join('\n');
+}
+
+function toTextContent(content: Content): Content {
+  return {
+    ...content,
+    parts: (content.parts ?? []).map((part): Part => {
+      if (isValidFunctionCall(part)) {
+        const call = JSON.stringify({
+          name: part.functionCall.name,
+          arguments: part.functionCall.args,
+        });
+        return { text: `${TOOL_CALL_OPEN}\n${call}\n${TOOL_CALL_CLOSE}` };
+      }
+      if (part.functionResponse) {
+        const { name, response } = part.functionResponse;
+        const result = response?.['error']
+          ? `Error: ${response['error']}`
+          : String(response?.['output'] ?? '');
+        return {
+          text: `<tool_result name="${name}">\n${result}\n</tool_result>`,
+        };
+      }
+      return part;
+    }),
+  };
+}
+
+function parseToolCall(block: string): Part | undefined {
+  try {
+    const call = JSON.parse(block) as { name?: unknown; arguments?: unknown };
+    if (typeof call.name === 'string' && call.name) {
+      const args =
+        typeof call.arguments === 'object' && call.arguments !== null
+          ? (call.arguments as Record<string, unknown>)
+          : {};
+      return { functionCall: { name: call.name, args } };
+    }
+  } catch {
+    // Not a valid call
+  }
+  return undefined;
+}
+
+function toTextParts(text: string): Part[] {
+  return text ? [{ text }] : [];
+}
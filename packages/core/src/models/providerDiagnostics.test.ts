@@ -0,0 +1,173 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Part,
+} from '@google/genai';
+import { LLMProviderConfig, LLMProviderType } from '../config/llmProvider.js';
+import { ContentGenerator } from '../core/contentGenerator.js';
+import { fetchModelCatalog, ModelCatalogError } from './modelCatalog.js';
+import { createLLMProviderContentGenerator } from './llmProviderGenerator.js';
+import { modelRegistry } from './modelRegistry.js';
+import { RateLimitedContentGenerator, RateLimiter } from './rateLimiter.js';
+import { testProvider } from './providerDiagnostics.js';
+
+vi.mock('./modelCatalog.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./modelCatalog.js')>()),
+  fetchModelCatalog: vi.fn(),
+}));
+
+vi.mock('./llmProviderGenerator.js', () => ({
+  createLLMProviderContentGenerator: vi.fn(),
+}));
+
+function toResponse(parts: Part[]): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.candidates = [{ content: { role: 'model', parts }, index: 0 }];
+  return response;
+}
+
+/**
+ * A model that calls tools, answers in JSON and accepts images unless told
+ * otherwise
+ */
+function createGenerator(options: { tools?: boolean } = {}): ContentGenerator {
+  return {
+    generateContent: async (request: GenerateContentParameters) => {
+      if (request.config?.tools) {
+        if (options.tools === false) {
+          throw Object.assign(new Error('tools are not supported'), {
+            status: 400,
+          });
+        }
+        return toResponse([
+          { functionCall: { name: 'get_weather', args: { city: 'Paris' } } },
+        ]);
+      }
+      if (request.config?.responseSchema) {
+        return toResponse([{ text: '{"answer": 4}' }]);
+      }
+      return toResponse([{ text: 'OK' }]);
+    },
+    generateContentStream: async () =>
+      (async function* () {
+        yield toResponse([{ text: '1 2' }]);
+        yield toResponse([{ text: ' 3 4 5' }]);
+      })(),
+    countTokens: vi.fn(),
+    embedContent: vi.fn(),
+  };
+}
+
+describe('testProvider', () => {
+  const provider: LLMProviderConfig = {
+    name: 'local',
+    displayName: 'OpenAI Compatible',
+    type: LLMProviderType.OPENAI_COMPATIBLE,
+    apiKey: 'key',
+    baseUrl: 'http://127.0.0.1:1/v1',
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    modelRegistry.clear();
+    vi.mocked(fetchModelCatalog).mockResolvedValue([{ id: 'local-model' }]);
+    vi.mocked(createLLMProviderContentGenerator).mockImplementation(() =>
+      createGenerator(),
+    );
+  });
+
+  it('runs all checks and registers the detected capabilities', async () => {
+    const onCheck = vi.fn();
+    const report = await testProvider(provider, 'local-model', { onCheck });
+
+    expect(
+      report.checks.map((check) => [check.name, check.status, check.detail]),
+    ).toEqual([
+      ['Base URL', 'pass', 'Reachable, lists 1 models'],
+      ['Authentication', 'pass', 'API key accepted'],
+      ['Completion', 'pass', 'Answered "OK"'],
+      ['Streaming', 'pass', 'Received 2 text chunks'],
+      ['Tool calling', 'pass', 'Called get_weather'],
+      ['JSON mode', 'pass', 'Answered {"answer":4}'],
+      ['Vision', 'pass', 'Accepted an image, answered "OK"'],
+    ]);
+    expect(onCheck).toHaveBeenCalledTimes(7);
+    expect(
+      modelRegistry.get('local-model', 'local').capabilities,
+    ).toMatchObject({ tools: true, jsonMode: true, vision: true });
+  });
+
+  it('records rejected requests as unsupported capabilities', async () => {
+    vi.mocked(createLLMProviderContentGenerator).mockImplementation(() =>
+      createGenerator({ tools: false }),
+    );
+
+    const report = await testProvider(provider, 'local-model');
+
+    expect(report.checks[4]).toMatchObject({
+      name: 'Tool calling',
+      status: 'fail',
+      detail: 'Not supported: tools are not supported',
+    });
+    expect(report.capabilities.tools).toBe(false);
+  });
+
+  it('detects JSON asked for in the prompt behind a rate limiter', async () => {
+    vi.mocked(createLLMProviderContentGenerator).mockImplementation(
+      () =>
+        new RateLimitedContentGenerator(
+          { ...createGenerator(), supportsJsonMode: () => false },
+          new RateLimiter('local', { maxConcurrent: 2 }),
+          'local-model',
+        ),
+    );
+
+    const report = await testProvider(provider, 'local-model');
+
+    expect(report.checks[5]).toMatchObject({
+      name: 'JSON mode',
+      status: 'fail',
+      detail: 'Not supported, JSON is asked for in the prompt instead',
+    });
+    expect(report.capabilities.jsonMode).toBe(false);
+  });
+
+  it('classifies rejected API keys and skips the model checks', async () => {
+    vi.mocked(fetchModelCatalog).mockRejectedValue(
+      new ModelCatalogError('Failed to list models', 401),
+    );
+
+    const report = await testProvider(provider, 'local-model');
+
+    expect(report.checks[1]).toMatchObject({
+      name: 'Authentication',
+      status: 'fail',
+      detail:
+        'The API key was rejected (HTTP 401), check it with "/provider edit"',
+    });
+    expect(report.checks.slice(2).every((c) => c.status === 'skip')).toBe(true);
+    expect(createLLMProviderContentGenerator).not.toHaveBeenCalled();
+  });
+
+  it('reports unreachable providers', async () => {
+    vi.mocked(fetchModelCatalog).mockRejectedValue(
+      new TypeError('fetch failed'),
+    );
+
+    const report = await testProvider(provider, 'local-model');
+
+    expect(report.checks[0]).toMatchObject({
+      name: 'Base URL',
+      status: 'fail',
+      detail: 'Not reachable: fetch failed',
+    });
+    expect(report.checks).toHaveLength(7);
+  });
+});
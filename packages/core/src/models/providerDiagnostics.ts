@@ -0,0 +1,426 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentParameters, Schema, Type } from '@google/genai';
+import { LLMProviderConfig } from '../config/llmProvider.js';
+import { resolveLLMProviderSecrets } from '../config/secretStore.js';
+import { ContentGenerator } from '../core/contentGenerator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { getErrorStatus } from '../utils/retry.js';
+import { createLLMProviderContentGenerator } from './llmProviderGenerator.js';
+import { fetchModelCatalog } from './modelCatalog.js';
+import {
+  ModelCapabilities,
+  ModelInfoSource,
+  modelRegistry,
+} from './modelRegistry.js';
+import { parseStructuredOutput } from './structuredOutput.js';
+
+/** Time each check of a provider test may take. */
+export const PROVIDER_TEST_TIMEOUT_MS = 30_000;
+
+/**
+ * Outcome of a single check of a provider test
+ */
+export type ProviderCheckStatus = 'pass' | 'fail' | 'skip';
+
+/**
+ * A single check of a provider test
+ */
+export interface ProviderCheck {
+  /** What was checked, e.g. "Streaming" */
+  name: string;
+  status: ProviderCheckStatus;
+  /** Duration of the check in milliseconds, 0 if it was skipped */
+  latencyMs: number;
+  /** The result, or why the check failed or was skipped */
+  detail: string;
+}
+
+/**
+ * Result of testing a provider
+ */
+export interface ProviderTestReport {
+  provider: string;
+  /** The model the requests were sent to, undefined if none was given */
+  model?: string;
+  checks: ProviderCheck[];
+  /** Capabilities detected by the checks, registered in the model registry */
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Options of a provider test
+ */
+export interface ProviderTestOptions {
+  /** Called after each check, e.g. to show progress */
+  onCheck?: (check: ProviderCheck) => void;
+  /** Time each check may take, PROVIDER_TEST_TIMEOUT_MS by default */
+  timeoutMs?: number;
+}
+
+const CHECKS = {
+  BASE_URL: 'Base URL',
+  AUTH: 'Authentication',
+  COMPLETION: 'Completion',
+  STREAMING: 'Streaming',
+  TOOLS: 'Tool calling',
+  JSON_MODE: 'JSON mode',
+  VISION: 'Vision',
+} as const;
+
+const MODEL_CHECKS = [
+  CHECKS.COMPLETION,
+  CHECKS.STREAMING,
+  CHECKS.TOOLS,
+  CHECKS.JSON_MODE,
+  CHECKS.VISION,
+];
+
+const TEST_TOOL_NAME = 'get_weather';
+
+const TEST_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: { answer: { type: Type.INTEGER } },
+  required: ['answer'],
+};
+
+/** A red 1x1 PNG image. */
+const TEST_IMAGE =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+/**
+ * Checks that a provider is reachable and accepts its API key, and which
+ * features a model supports: completions, streaming, tool calling, JSON mode
+ * and image input. The detected capabilities are registered in the model
+ * registry.
+ * @param provider The provider configuration, API keys may be references
+ * @param model The model to send requests to, only the connection is checked
+ *   without
+ * @param options Progress callback and timeout
+ */
+export async function testProvider(
+  provider: LLMProviderConfig,
+  model: string | undefined,
+  options: ProviderTestOptions = {},
+): Promise<ProviderTestReport> {
+  const timeoutMs = options.timeoutMs ?? PROVIDER_TEST_TIMEOUT_MS;
+  const report: ProviderTestReport = {
+    provider: provider.name,
+    model,
+    checks: [],
+    capabilities: {},
+  };
+  const record = (
+    name: string,
+    status: ProviderCheckStatus,
+    detail: string,
+    latencyMs = 0,
+  ) => {
+    const check = { name, status, latencyMs, detail };
+    report.checks.push(check);
+    options.onCheck?.(check);
+  };
+  const skip = (names: string[], reason: string) =>
+    names.forEach((name) => record(name, 'skip', reason));
+  // Requests rejected as invalid mean that a capability is not supported,
+  // other errors leave it undecided
+  const checkCapability = (
+    capability: keyof ModelCapabilities,
+    name: string,
+    result: Timed<unknown>,
+    outcome: { supported: boolean; passDetail: string; failDetail: string },
+  ) => {
+    if (result.error) {
+      const status = getErrorStatus(result.error);
+      const unsupported =
+        status !== undefined && status >= 400 && status < 500 && status !== 429;
+      if (unsupported) {
+        report.capabilities[capability] = false;
+      }
+      record(
+        name,
+        'fail',
+        `${unsupported ? 'Not supported: ' : ''}${getErrorMessage(result.error)}`,
+        result.latencyMs,
+      );
+      return;
+    }
+    report.capabilities[capability] = outcome.supported;
+    record(
+      name,
+      outcome.supported ? 'pass' : 'fail',
+      outcome.supported ? outcome.passDetail : outcome.failDetail,
+      result.latencyMs,
+    );
+  };
+
+  let resolved: LLMProviderConfig;
+  try {
+    resolved = await resolveLLMProviderSecrets(provider);
+  } catch (error) {
+    record(CHECKS.AUTH, 'fail', getErrorMessage(error));
+    skip(MODEL_CHECKS, 'Skipped, the API key is missing');
+    return report;
+  }
+
+  // The model listing needs the same URL and key as all other requests
+  const listing = await timed(() =>
+    fetchModelCatalog(resolved, AbortSignal.timeout(timeoutMs)),
+  );
+  const listingStatus = getErrorStatus(listing.error);
+  if (listing.value) {
+    const unlisted =
+      model &&
+      listing.value.length > 0 &&
+      !listing.value.some((entry) => entry.id === model);
+    record(
+      CHECKS.BASE_URL,
+      'pass',
+      `Reachable, lists ${listing.value.length} models${unlisted ? `, "${model}" is not among them` : ''}`,
+      listing.latencyMs,
+    );
+    record(CHECKS.AUTH, 'pass', 'API key accepted');
+  } else if (listingStatus === undefined) {
+    record(
+      CHECKS.BASE_URL,
+      'fail',
+      `Not reachable: ${getErrorMessage(listing.error)}`,
+      listing.latencyMs,
+    );
+    skip(
+      [CHECKS.AUTH, ...MODEL_CHECKS],
+      'Skipped, the provider is not reachable',
+    );
+    return report;
+  } else if (isAuthStatus(listingStatus)) {
+    record(
+      CHECKS.BASE_URL,
+      'pass',
+      `Reachable (HTTP ${listingStatus})`,
+      listing.latencyMs,
+    );
+    record(CHECKS.AUTH, 'fail', describeAuthFailure(listingStatus));
+    skip(MODEL_CHECKS, 'Skipped, authentication failed');
+    return report;
+  } else {
+    record(
+      CHECKS.BASE_URL,
+      'pass',
+      `Reachable, but the model listing failed (HTTP ${listingStatus})`,
+      listing.latencyMs,
+    );
+    record(
+      CHECKS.AUTH,
+      'skip',
+      'Not verified without a model listing, see the completion',
+    );
+  }
+
+  if (!model) {
+    skip(MODEL_CHECKS, 'Skipped, no model given');
+    return report;
+  }
+
+  // Earlier detections must not decide how the requests are sent
+  modelRegistry.register(provider.name, model, {}, ModelInfoSource.DETECTED);
+  const generator = () => createLLMProviderContentGenerator(resolved, model);
+  const request = (
+    prompt: GenerateContentParameters['contents'],
+    config: GenerateContentParameters['config'] = {},
+  ): GenerateContentParameters => ({
+    model,
+    contents: prompt,
+    config: { ...config, abortSignal: AbortSignal.timeout(timeoutMs) },
+  });
+
+  const completion = await timed(() =>
+    generator().generateContent(request('Reply with the single word OK.')),
+  );
+  if (completion.error) {
+    const status = getErrorStatus(completion.error);
+    record(
+      CHECKS.COMPLETION,
+      'fail',
+      status !== undefined && isAuthStatus(status)
+        ? describeAuthFailure(status)
+        : getErrorMessage(completion.error),
+      completion.latencyMs,
+    );
+    skip(MODEL_CHECKS.slice(1), 'Skipped, the completion failed');
+    return report;
+  }
+  record(
+    CHECKS.COMPLETION,
+    'pass',
+    `Answered "${abbreviate(completion.value?.text ?? '')}"`,
+    completion.latencyMs,
+  );
+
+  const streaming = await timed(() =>
+    countStreamedTextChunks(
+      generator(),
+      request('Count from 1 to 5, separated by spaces.'),
+    ),
+  );
+  if (streaming.error) {
+    record(
+      CHECKS.STREAMING,
+      'fail',
+      getErrorMessage(streaming.error),
+      streaming.latencyMs,
+    );
+  } else {
+    record(
+      CHECKS.STREAMING,
+      streaming.value ? 'pass' : 'fail',
+      streaming.value
+        ? `Received ${streaming.value} text chunks`
+        : 'The stream contained no text',
+      streaming.latencyMs,
+    );
+  }
+
+  // Tool calling is tested natively, even if the model is configured to
+  // get its tools described in the prompt
+  const tools = await timed(() =>
+    createLLMProviderContentGenerator(
+      withNativeToolCalling(resolved, model),
+      model,
+    ).generateContent(
+      request('What is the weather in Paris? Use the tool.', {
+        tools: [
+          {
+            functionDeclarations: [
+              {
+                name: TEST_TOOL_NAME,
+                description: 'Returns the current weather in a city',
+                parameters: {
+                  type: Type.OBJECT,
+                  properties: { city: { type: Type.STRING } },
+                  required: ['city'],
+                },
+              },
+            ],
+          },
+        ],
+      }),
+    ),
+  );
+  const called = tools.value?.functionCalls?.some(
+    (call) => call.name === TEST_TOOL_NAME,
+  );
+  checkCapability('tools', CHECKS.TOOLS, tools, {
+    supported: !!called,
+    passDetail: `Called ${TEST_TOOL_NAME}`,
+    failDetail: 'Answered without calling the tool',
+  });
+
+  const jsonGenerator = generator();
+  const json = await timed(() =>
+    jsonGenerator.generateContent(
+      request('What is 2 + 2?', {
+        responseMimeType: 'application/json',
+        responseSchema: TEST_SCHEMA,
+      }),
+    ),
+  );
+  const promptedJson = jsonGenerator.supportsJsonMode?.() === false;
+  const parsed = json.value
+    ? parseStructuredOutput(json.value.text ?? '', TEST_SCHEMA)
+    : undefined;
+  checkCapability('jsonMode', CHECKS.JSON_MODE, json, {
+    supported: !promptedJson && !!parsed?.object,
+    passDetail: `Answered ${JSON.stringify(parsed?.object)}`,
+    failDetail: promptedJson
+      ? 'Not supported, JSON is asked for in the prompt instead'
+      : (parsed?.error ?? ''),
+  });
+
+  const vision = await timed(() =>
+    generator().generateContent(
+      request([
+        {
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType: 'image/png', data: TEST_IMAGE } },
+            { text: 'What color is this image? Answer with one word.' },
+          ],
+        },
+      ]),
+    ),
+  );
+  checkCapability('vision', CHECKS.VISION, vision, {
+    supported: true,
+    passDetail: `Accepted an image, answered "${abbreviate(vision.value?.text ?? '')}"`,
+    failDetail: '',
+  });
+
+  if (Object.keys(report.capabilities).length > 0) {
+    modelRegistry.register(
+      provider.name,
+      model,
+      { capabilities: report.capabilities },
+      ModelInfoSource.DETECTED,
+    );
+  }
+  return report;
+}
+
+interface Timed<T> {
+  value?: T;
+  error?: unknown;
+  latencyMs: number;
+}
+
+async function timed<T>(run: () => Promise<T>): Promise<Timed<T>> {
+  const start = Date.now();
+  try {
+    const value = await run();
+    return { value, latencyMs: Date.now() - start };
+  } catch (error) {
+    return { error, latencyMs: Date.now() - start };
+  }
+}
+
+async function countStreamedTextChunks(
+  generator: ContentGenerator,
+  request: GenerateContentParameters,
+): Promise<number> {
+  let chunks = 0;
+  for await (const response of await generator.generateContentStream(request)) {
+    if (response.text) {
+      chunks++;
+    }
+  }
+  return chunks;
+}
+
+function withNativeToolCalling(
+  provider: LLMProviderConfig,
+  model: string,
+): LLMProviderConfig {
+  return {
+    ...provider,
+    models: {
+      ...provider.models,
+      [model]: { ...provider.models?.[model], toolCalling: 'native' },
+    },
+  };
+}
+
+function isAuthStatus(status: number): boolean {
+  return status === 401 || status === 403;
+}
+
+function describeAuthFailure(status: number): string {
+  return `The API key was rejected (HTTP ${status}), check it with "/provider edit"`;
+}
+
+function abbreviate(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > 40 ? `${line.slice(0, 37)}...` : line;
+}
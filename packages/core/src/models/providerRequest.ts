@@ -0,0 +1,187 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LLMProviderConfig, LLMProviderType } from '../config/llmProvider.js';
+
+/**
+ * Builds the authentication and extra headers of a provider request
+ * @param provider The provider configuration
+ * @param defaultApiKeyHeader Header carrying the API key unless the provider
+ *   configures `apiKeyHeader`. The key is sent as a bearer token in an
+ *   Authorization header and as is in any other header.
+ * @returns The headers, configured headers take precedence
+ */
+export function getProviderHeaders(
+  provider: LLMProviderConfig,
+  defaultApiKeyHeader = 'Authorization',
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (provider.apiKey) {
+    const name = provider.apiKeyHeader || defaultApiKeyHeader;
+    headers[name] =
+      !provider.apiKeyHeader && name.toLowerCase() === 'authorization'
+        ? `Bearer ${provider.apiKey}`
+        : provider.apiKey;
+  }
+  return { ...headers, ...provider.headers };
+}
+
+/**
+ * Adds query parameters to a URL, replacing parameters of the same name
+ * @param url The request URL
+ * @param queryParams The parameters to add
+ */
+export function withQueryParams(
+  url: string,
+  queryParams: Record<string, string> | undefined,
+): string {
+  const entries = Object.entries(queryParams ?? {});
+  if (entries.length === 0) {
+    return url;
+  }
+  const result = new URL(url);
+  for (const [name, value] of entries) {
+    result.searchParams.set(name, value);
+  }
+  return result.toString();
+}
+
+/**
+ * Builds the fields a provider adds to the body of chat completion requests,
+ * currently the provider routing options of OpenRouter
+ * @returns The fields, undefined if there are none
+ */
+export function getProviderRequestBody(
+  provider: LLMProviderConfig,
+): Record<string, unknown> | undefined {
+  const options = provider.openrouter;
+  if (provider.type !== LLMProviderType.OPENROUTER || !options) {
+    return undefined;
+  }
+
+  const routing: Record<string, unknown> = {};
+  if (options.order?.length) {
+    routing['order'] = options.order;
+  }
+  if (options.allowFallbacks !== undefined) {
+    routing['allow_fallbacks'] = options.allowFallbacks;
+  }
+  if (options.dataCollection) {
+    routing['data_collection'] = options.dataCollection;
+  }
+
+  const body: Record<string, unknown> = {};
+  if (Object.keys(routing).length > 0) {
+    body['provider'] = routing;
+  }
+  if (options.transforms) {
+    body['transforms'] = options.transforms;
+  }
+  return Object.keys(body).length > 0 ? body : undefined;
+}
+
+/**
+ * Marks the system message of a chat completion request as cacheable when
+ * OpenRouter routes it to a model that only caches prompts with a
+ * `cache_control` breakpoint, i.e. Anthropic and Gemini models. Other models
+ * cache their prompts on their own.
+ * @param body The parsed request body
+ * @returns The body with the breakpoint, the body itself if nothing changed
+ */
+export function withOpenRouterCacheBreakpoint(
+  body: Record<string, unknown>,
+): Record<string, unknown> {
+  const model = body['model'];
+  const messages = body['messages'];
+  if (
+    typeof model !== 'string' ||
+    !/^(anthropic|google)\//.test(model) ||
+    !Array.isArray(messages)
+  ) {
+    return body;
+  }
+  const index = messages.findIndex(
+    (message: { role?: string; content?: unknown }) =>
+      message.role === 'system' &&
+      typeof message.content === 'string' &&
+      message.content.length > 0,
+  );
+  if (index < 0) {
+    return body;
+  }
+
+  const system = messages[index] as { role: string; content: string };
+  return {
+    ...body,
+    messages: messages.map((message: unknown, i: number) =>
+      i === index
+        ? {
+            ...system,
+            content: [
+              {
+                type: 'text',
+                text: system.content,
+                cache_control: { type: 'ephemeral' },
+              },
+            ],
+          }
+        : message,
+    ),
+  };
+}
+
+/**
+ * Wraps fetch so that requests of an OpenAI-compatible client carry the
+ * headers, query parameters and routing options of a provider, and the cache
+ * breakpoint OpenRouter needs for some models. The client
+ * authenticates with a bearer token, which moves to `apiKeyHeader` if the
+ * provider configures one.
+ * @param provider The provider configuration
+ * @param baseFetch The fetch implementation to wrap
+ */
+export function createProviderFetch(
+  provider: LLMProviderConfig,
+  baseFetch: typeof fetch = fetch,
+): typeof fetch {
+  const extraHeaders = getProviderHeaders(provider);
+  const extraBody = getProviderRequestBody(provider);
+
+  return async (input, init) => {
+    let url =
+      typeof input === 'string'
+        ? input
+        : input instanceof URL
+          ? input.toString()
+          : input.url;
+    url = withQueryParams(url, provider.queryParams);
+
+    const headers = new Headers(init?.headers);
+    if (provider.apiKeyHeader) {
+      headers.delete('Authorization');
+    }
+    for (const [name, value] of Object.entries(extraHeaders)) {
+      headers.set(name, value);
+    }
+
+    let body = init?.body;
+    if (
+      (extraBody || provider.type === LLMProviderType.OPENROUTER) &&
+      typeof body === 'string' &&
+      new URL(url).pathname.endsWith('/chat/completions')
+    ) {
+      let json: Record<string, unknown> = {
+        ...extraBody,
+        ...JSON.parse(body),
+      };
+      if (provider.type === LLMProviderType.OPENROUTER) {
+        json = withOpenRouterCacheBreakpoint(json);
+      }
+      body = JSON.stringify(json);
+    }
+
+    return baseFetch(url, { ...init, headers, body });
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import { ContentGenerator } from '../core/contentGenerator.js';
+import {
+  RateLimitQueueStatus,
+  RateLimitedContentGenerator,
+  RateLimiter,
+  rateLimitEvents,
+} from './rateLimiter.js';
+
+/** Whether the promise settled, without waiting for it. */
+async function isSettled(promise: Promise<unknown>): Promise<boolean> {
+  let settled = false;
+  promise.then(
+    () => (settled = true),
+    () => (settled = true),
+  );
+  await vi.advanceTimersByTimeAsync(0);
+  return settled;
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues requests beyond the requests per minute', async () => {
+    const limiter = new RateLimiter('groq', { requestsPerMinute: 2 });
+    const statuses: RateLimitQueueStatus[] = [];
+    const onQueue = (status: RateLimitQueueStatus) => statuses.push(status);
+    rateLimitEvents.on('queue', onQueue);
+
+    await limiter.acquire(10);
+    await limiter.acquire(10);
+    const third = limiter.acquire(10);
+
+    expect(await isSettled(third)).toBe(false);
+    expect(statuses.at(-1)).toEqual({
+      provider: 'groq',
+      queued: 1,
+      waitingSince: Date.now(),
+    });
+
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(await isSettled(third)).toBe(false);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(await isSettled(third)).toBe(true);
+    expect(statuses.at(-1)).toEqual({ provider: 'groq', queued: 0 });
+    rateLimitEvents.off('queue', onQueue);
+  });
+
+  it('limits the requests in flight and charges the tokens used', async () => {
+    const limiter = new RateLimiter('groq', {
+      maxConcurrent: 1,
+      tokensPerMinute: 600,
+    });
+
+    const release = await limiter.acquire(100);
+    const second = limiter.acquire(100);
+    expect(await isSettled(second)).toBe(false);
+
+    // The request used all 600 tokens, 100 refill in 10 seconds
+    release({ tokens: 600 });
+    expect(await isSettled(second)).toBe(false);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(await isSettled(second)).toBe(true);
+  });
+
+  it('tightens after 429s and recovers with successful requests', async () => {
+    const limiter = new RateLimiter('groq', { maxConcurrent: 4 });
+    const tooManyRequests = Object.assign(new Error('Too Many Requests'), {
+      status: 429,
+    });
+
+    (await limiter.acquire(1))({ error: tooManyRequests });
+    (await limiter.acquire(1))({ error: tooManyRequests });
+    expect(limiter.getRateFactor()).toBe(0.25);
+
+    const release = await limiter.acquire(1);
+    const second = limiter.acquire(1);
+    expect(await isSettled(second)).toBe(false);
+    release();
+    (await second)();
+    expect(limiter.getRateFactor()).toBeCloseTo(0.35);
+  });
+
+  it('drops aborted requests from the queue', async () => {
+    const limiter = new RateLimiter('groq', { maxConcurrent: 1 });
+    const controller = new AbortController();
+
+    const release = await limiter.acquire(1);
+    const aborted = limiter.acquire(1, controller.signal);
+    const next = limiter.acquire(1);
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow(
+      'Request aborted while waiting for the rate limit',
+    );
+    expect(limiter.getQueueStatus().queued).toBe(1);
+    release();
+    expect(await isSettled(next)).toBe(true);
+  });
+});
+
+describe('RateLimitedContentGenerator', () => {
+  it('keeps the slot of a stream until it is consumed', async () => {
+    const limiter = new RateLimiter('groq', { maxConcurrent: 1 });
+    const chunk = {
+      usageMetadata: { totalTokenCount: 42 },
+    } as GenerateContentResponse;
+    const generator = {
+      generateContentStream: vi.fn(async () =>
+        (async function* () {
+          yield chunk;
+        })(),
+      ),
+    } as unknown as ContentGenerator;
+    const limited = new RateLimitedContentGenerator(
+      generator,
+      limiter,
+      'llama-3.3-70b',
+    );
+    const request = {
+      model: 'llama-3.3-70b',
+      contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+    };
+
+    const stream = await limited.generateContentStream(request);
+    const second = limited.generateContentStream(request);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(generator.generateContentStream).toHaveBeenCalledTimes(1);
+
+    for await (const received of stream) {
+      expect(received).toBe(chunk);
+    }
+    await second;
+    expect(generator.generateContentStream).toHaveBeenCalledTimes(2);
+  });
+
+  it('frees the slot of an aborted stream that is never consumed', async () => {
+    const limiter = new RateLimiter('groq', { maxConcurrent: 1 });
+    const generator = {
+      generateContentStream: vi.fn(async () =>
+        (async function* () {
+          yield {} as GenerateContentResponse;
+        })(),
+      ),
+    } as unknown as ContentGenerator;
+    const limited = new RateLimitedContentGenerator(
+      generator,
+      limiter,
+      'llama-3.3-70b',
+    );
+    const controller = new AbortController();
+    const contents = [{ role: 'user', parts: [{ text: 'Hi' }] }];
+
+    await limited.generateContentStream({
+      model: 'llama-3.3-70b',
+      contents,
+      config: { abortSignal: controller.signal },
+    });
+    const second = limited.generateContentStream({
+      model: 'llama-3.3-70b',
+      contents,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(generator.generateContentStream).toHaveBeenCalledTimes(1);
+
+    controller.abort();
+    await second;
+    expect(generator.generateContentStream).toHaveBeenCalledTimes(2);
+  });
+});
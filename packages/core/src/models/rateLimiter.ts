@@ -0,0 +1,390 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EventEmitter } from 'node:events';
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Tool,
+} from '@google/genai';
+import { ContentGenerator } from '../core/contentGenerator.js';
+import { UserTierId } from '../code_assist/types.js';
+import { RateLimitOptions } from '../config/llmProvider.js';
+import { getErrorStatus } from '../utils/retry.js';
+import { modelRegistry } from './modelRegistry.js';
+import { countRequestTokens } from './tokenizer.js';
+
+/** Lowest share of the configured limits the limiter tightens to. */
+const MIN_RATE_FACTOR = 0.1;
+/** Share of the configured limits regained with every successful request. */
+const RATE_FACTOR_RECOVERY = 0.05;
+
+/**
+ * Requests of a provider waiting for its rate limit
+ */
+export interface RateLimitQueueStatus {
+  provider: string;
+  /** Number of waiting requests */
+  queued: number;
+  /** When the longest waiting request was queued, undefined if none waits */
+  waitingSince?: number;
+}
+
+/**
+ * How a request sent through the limiter ended
+ */
+export interface RateLimitOutcome {
+  /** Tokens the request actually used, replaces the estimate */
+  tokens?: number;
+  /** The error the request failed with */
+  error?: unknown;
+}
+
+/** Frees the slot of a request, called once when it ends. */
+export type RateLimitRelease = (outcome?: RateLimitOutcome) => void;
+
+interface Waiter {
+  tokens: number;
+  queuedAt: number;
+  resolve: (release: RateLimitRelease) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket refilled continuously at a rate per minute. Requests larger
+ * than the bucket wait for it to be full, and the bucket goes into debt when
+ * a request uses more than it reserved.
+ */
+class TokenBucket {
+  private level: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly perMinute: number) {
+    this.level = perMinute;
+  }
+
+  /** Milliseconds until the amount can be taken at the given rate factor */
+  waitTime(amount: number, factor: number): number {
+    this.refill(factor);
+    const needed = Math.min(amount, this.perMinute * factor);
+    return this.level >= needed
+      ? 0
+      : Math.ceil(((needed - this.level) * 60_000) / (this.perMinute * factor));
+  }
+
+  take(amount: number): void {
+    this.level -= amount;
+  }
+
+  empty(): void {
+    this.level = Math.min(this.level, 0);
+  }
+
+  private refill(factor: number): void {
+    const now = Date.now();
+    const capacity = this.perMinute * factor;
+    this.level = Math.min(
+      capacity,
+      this.level + ((now - this.updatedAt) * capacity) / 60_000,
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Queues the requests of a provider by requests per minute, tokens per
+ * minute and requests in flight, in the order they were made.
+ *
+ * The limiter tightens itself when the provider answers with 429 despite
+ * the limits: the rates and concurrency are halved, down to a tenth of the
+ * configured ones, and recover slowly with every successful request.
+ */
+export class RateLimiter {
+  private readonly requests?: TokenBucket;
+  private readonly tokens?: TokenBucket;
+  private readonly queue: Waiter[] = [];
+  private active = 0;
+  private factor = 1;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    readonly provider: string,
+    readonly options: RateLimitOptions,
+  ) {
+    if (options.requestsPerMinute) {
+      this.requests = new TokenBucket(options.requestsPerMinute);
+    }
+    if (options.tokensPerMinute) {
+      this.tokens = new TokenBucket(options.tokensPerMinute);
+    }
+  }
+
+  /** Share of the configured limits in effect, 1 unless 429s were seen */
+  getRateFactor(): number {
+    return this.factor;
+  }
+
+  getQueueStatus(): RateLimitQueueStatus {
+    return {
+      provider: this.provider,
+      queued: this.queue.length,
+      waitingSince: this.queue[0]?.queuedAt,
+    };
+  }
+
+  /**
+   * Waits until a request fits the limits
+   * @param tokens Estimated tokens of the request
+   * @param signal Aborts the wait
+   * @returns Frees the slot of the request once it ended
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<RateLimitRelease> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+      const waiter: Waiter = {
+        tokens,
+        queuedAt: Date.now(),
+        resolve,
+        reject,
+        signal,
+      };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(createAbortError());
+          this.drain();
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /** Starts the waiting requests that fit the limits, in order */
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    while (this.queue.length > 0 && this.active < this.getMaxConcurrent()) {
+      const next = this.queue[0];
+      const wait = Math.max(
+        this.requests?.waitTime(1, this.factor) ?? 0,
+        this.tokens?.waitTime(next.tokens, this.factor) ?? 0,
+      );
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.drain(), wait);
+        break;
+      }
+      this.queue.shift();
+      this.start(next);
+    }
+    rateLimitEvents.emit('queue', this.getQueueStatus());
+  }
+
+  private start(waiter: Waiter): void {
+    if (waiter.onAbort) {
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+    }
+    this.requests?.take(1);
+    this.tokens?.take(waiter.tokens);
+    this.active++;
+
+    let released = false;
+    waiter.resolve((outcome = {}) => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+      if (outcome.tokens !== undefined) {
+        this.tokens?.take(outcome.tokens - waiter.tokens);
+      }
+      if (outcome.error === undefined) {
+        this.factor = Math.min(1, this.factor + RATE_FACTOR_RECOVERY);
+      } else if (getErrorStatus(outcome.error) === 429) {
+        this.tighten();
+      }
+      this.drain();
+    });
+  }
+
+  /** Halves the limits after the provider rejected a request with 429 */
+  private tighten(): void {
+    this.factor = Math.max(MIN_RATE_FACTOR, this.factor / 2);
+    this.requests?.empty();
+    this.tokens?.empty();
+  }
+
+  private getMaxConcurrent(): number {
+    return this.options.maxConcurrent
+      ? Math.max(1, Math.floor(this.options.maxConcurrent * this.factor))
+      : Infinity;
+  }
+}
+
+/**
+ * Emits 'queue' with a {@link RateLimitQueueStatus} whenever requests are
+ * queued or leave the queue of a provider
+ */
+export const rateLimitEvents = new EventEmitter();
+
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Gets the limiter of a provider, shared by all generators of the provider
+ * so that auxiliary calls and the main turn queue together
+ * @param provider The provider name
+ * @param options The rate limits, a new limiter is made when they changed
+ */
+export function getRateLimiter(
+  provider: string,
+  options: RateLimitOptions,
+): RateLimiter {
+  const existing = limiters.get(provider);
+  if (
+    existing &&
+    JSON.stringify(existing.options) === JSON.stringify(options)
+  ) {
+    return existing;
+  }
+  const limiter = new RateLimiter(provider, options);
+  limiters.set(provider, limiter);
+  return limiter;
+}
+
+/**
+ * Content generator that queues the requests of another generator through
+ * the rate limiter of its provider. Streams keep their slot until they
+ * are consumed or aborted, and the tokens reported in their usage metadata replace the
+ * estimate of the prompt.
+ */
+export class RateLimitedContentGenerator implements ContentGenerator {
+  constructor(
+    private readonly generator: ContentGenerator,
+    private readonly limiter: RateLimiter,
+    private readonly model: string,
+  ) {}
+
+  get userTier(): UserTierId | undefined {
+    return this.generator.userTier;
+  }
+
+  supportsJsonMode(): boolean {
+    return this.generator.supportsJsonMode?.() ?? true;
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const release = await this.acquireForGeneration(request);
+    try {
+      const response = await this.generator.generateContent(request);
+      release({ tokens: response.usageMetadata?.totalTokenCount });
+      return response;
+    } catch (error) {
+      release({ error });
+      throw error;
+    }
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const release = await this.acquireForGeneration(request);
+    let stream: AsyncGenerator<GenerateContentResponse>;
+    try {
+      stream = await this.generator.generateContentStream(request);
+    } catch (error) {
+      release({ error });
+      throw error;
+    }
+    // A stream that is never consumed frees its slot when it is aborted
+    const signal = request.config?.abortSignal;
+    const onAbort = () => release({ error: signal?.reason });
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    return (async function* (): AsyncGenerator<GenerateContentResponse> {
+      const outcome: RateLimitOutcome = {};
+      try {
+        for await (const chunk of stream) {
+          outcome.tokens =
+            chunk.usageMetadata?.totalTokenCount ?? outcome.tokens;
+          yield chunk;
+        }
+      } catch (error) {
+        outcome.error = error;
+        throw error;
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+        release(outcome);
+      }
+    })();
+  }
+
+  countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    return this.generator.countTokens(request);
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const release = await this.acquire(
+      { model: request.model, contents: request.contents },
+      request.config?.abortSignal,
+    );
+    try {
+      const response = await this.generator.embedContent(request);
+      release();
+      return response;
+    } catch (error) {
+      release({ error });
+      throw error;
+    }
+  }
+
+  /** Queues a request by its prompt, with the system instruction and tools */
+  private acquireForGeneration(
+    request: GenerateContentParameters,
+  ): Promise<RateLimitRelease> {
+    return this.acquire(
+      {
+        model: request.model,
+        contents: request.contents,
+        config: {
+          systemInstruction: request.config?.systemInstruction,
+          tools: request.config?.tools as Tool[] | undefined,
+        },
+      },
+      request.config?.abortSignal,
+    );
+  }
+
+  private async acquire(
+    prompt: CountTokensParameters,
+    signal?: AbortSignal,
+  ): Promise<RateLimitRelease> {
+    const { tokenizer } = modelRegistry.get(this.model, this.limiter.provider);
+    const tokens = await countRequestTokens(prompt, tokenizer);
+    return this.limiter.acquire(tokens, signal);
+  }
+}
+
+function createAbortError(): Error {
+  const error = new Error('Request aborted while waiting for the rate limit');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ThoughtSplitter,
+  createReasoningFetch,
+  splitThoughts,
+} from './reasoning.js';
+
+describe('ThoughtSplitter', () => {
+  it('splits think tags that span chunks', () => {
+    const splitter = new ThoughtSplitter();
+    const parts = [
+      ...splitter.push('<thi'),
+      ...splitter.push('nk>First step\nSecond'),
+      ...splitter.push(' step</th'),
+      ...splitter.push('ink>\n\nThe answer'),
+      ...splitter.push(' is 4 <'),
+      ...splitter.flush(),
+    ];
+    expect(parts).toEqual([
+      { text: 'First step', thought: true },
+      { text: 'Second step', thought: true },
+      { text: 'The answer' },
+      { text: ' is 4 ' },
+      { text: '<' },
+    ]);
+  });
+
+  it('buffers reasoning deltas until a line is complete', () => {
+    const splitter = new ThoughtSplitter();
+    expect(splitter.pushReasoning('Let me ')).toEqual([]);
+    expect(splitter.pushReasoning('think.\nOk')).toEqual([
+      { text: 'Let me think.', thought: true },
+    ]);
+    expect(splitter.flush()).toEqual([{ text: 'Ok', thought: true }]);
+  });
+
+  it('treats an unterminated think span as a thought', () => {
+    const splitter = new ThoughtSplitter();
+    expect([
+      ...splitter.push('<thinking>Still going'),
+      ...splitter.flush(),
+    ]).toEqual([{ text: 'Still going', thought: true }]);
+  });
+});
+
+describe('splitThoughts', () => {
+  it('combines reasoning and think spans into a single thought part', () => {
+    expect(
+      splitThoughts('<think>\nStep two\n</think>\nAnswer', 'Step one'),
+    ).toEqual([
+      { text: 'Step one\nStep two', thought: true },
+      { text: 'Answer' },
+    ]);
+    expect(splitThoughts('No thoughts')).toEqual([{ text: 'No thoughts' }]);
+  });
+});
+
+describe('createReasoningFetch', () => {
+  it('moves reasoning fields of JSON responses into the content', async () => {
+    const baseFetch = vi.fn().mockResolvedValue(
+      Response.json({
+        choices: [
+          { message: { content: 'Answer', reasoning_content: 'Thinking' } },
+        ],
+      }),
+    );
+    const res = await createReasoningFetch(baseFetch)('http://localhost');
+    expect(await res.json()).toEqual({
+      choices: [
+        {
+          message: {
+            content: '<think>Thinking</think>Answer',
+            reasoning_content: 'Thinking',
+          },
+        },
+      ],
+    });
+  });
+
+  it('moves reasoning deltas of event streams into the content', async () => {
+    const events = [
+      { choices: [{ index: 0, delta: { reasoning: 'Hmm' } }] },
+      { choices: [{ index: 0, delta: { reasoning: ', ok' } }] },
+      { choices: [{ index: 0, delta: { content: 'Hi' } }] },
+    ];
+    const body = `${events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join('')}data: [DONE]\n\n`;
+    const baseFetch = vi.fn().mockResolvedValue(
+      new Response(body, {
+        headers: { 'content-type': 'text/event-stream' },
+      }),
+    );
+
+    const res = await createReasoningFetch(baseFetch)('http://localhost');
+    const contents = (await res.text())
+      .split('\n')
+      .filter((line) => line.startsWith('data: {'))
+      .map((line) => JSON.parse(line.slice(6)).choices[0].delta.content);
+    expect(contents).toEqual(['<think>Hmm', ', ok', '</think>Hi']);
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Part } from '@google/genai';
+
+const THINK_TAGS: Array<[string, string]> = [
+  ['<think>', '</think>'],
+  ['<thinking>', '</thinking>'],
+];
+
+/**
+ * Splits streamed model output into answer text and thoughts.
+ *
+ * Reasoning arrives either as explicit reasoning deltas or inline, enclosed in
+ * `<think>` or `<thinking>` tags that may be split across chunks. Thoughts are
+ * buffered and emitted one line at a time, so that every thought part carries
+ * enough text to be shown as a thought summary.
+ */
+export class ThoughtSplitter {
+  private pending = '';
+  private thought = '';
+  private closingTag?: string;
+  // The whitespace that separates a thought from the answer is dropped.
+  private afterThought = false;
+
+  /**
+   * Adds a chunk of model output
+   * @returns The parts that are complete, thoughts with `thought: true`
+   */
+  push(text: string): Part[] {
+    this.pending += text;
+    const parts: Part[] = [];
+
+    while (this.pending) {
+      if (this.closingTag) {
+        const end = this.pending.indexOf(this.closingTag);
+        if (end === -1) {
+          const keep = partialTagLength(this.pending, [this.closingTag]);
+          this.thought += this.pending.slice(0, this.pending.length - keep);
+          this.pending = this.pending.slice(this.pending.length - keep);
+          parts.push(...this.takeThoughtLines());
+          break;
+        }
+        this.thought += this.pending.slice(0, end);
+        this.pending = this.pending.slice(end + this.closingTag.length);
+        this.closingTag = undefined;
+        this.afterThought = true;
+        parts.push(...this.flushThought());
+        continue;
+      }
+
+      const open = findOpeningTag(this.pending);
+      if (!open) {
+        const keep = partialTagLength(
+          this.pending,
+          THINK_TAGS.map(([tag]) => tag),
+        );
+        parts.push(
+          ...this.toAnswerParts(
+            this.pending.slice(0, this.pending.length - keep),
+          ),
+        );
+        this.pending = this.pending.slice(this.pending.length - keep);
+        break;
+      }
+      parts.push(...this.toAnswerParts(this.pending.slice(0, open.index)));
+      this.pending = this.pending.slice(open.index + open.tag.length);
+      this.closingTag = open.closingTag;
+    }
+
+    return parts;
+  }
+
+  /**
+   * Adds a chunk of reasoning that the provider reported separately
+   * @returns The thought parts that are complete
+   */
+  pushReasoning(text: string): Part[] {
+    this.thought += text;
+    return this.takeThoughtLines();
+  }
+
+  /**
+   * Emits everything that is still buffered, at the end of the output or
+   * before a part that is not text, such as a function call
+   */
+  flush(): Part[] {
+    const parts = this.flushThought();
+    if (this.pending) {
+      parts.push(
+        ...(this.closingTag
+          ? toThoughtParts(this.pending)
+          : this.toAnswerParts(this.pending)),
+      );
+      this.pending = '';
+    }
+    return parts;
+  }
+
+  private toAnswerParts(text: string): Part[] {
+    const answer = this.afterThought ? text.trimStart() : text;
+    if (!answer) {
+      return [];
+    }
+    this.afterThought = false;
+    return [{ text: answer }];
+  }
+
+  private takeThoughtLines(): Part[] {
+    const end = this.thought.lastIndexOf('\n');
+    if (end === -1) {
+      return [];
+    }
+    const lines = this.thought.slice(0, end);
+    this.thought = this.thought.slice(end + 1);
+    return toThoughtParts(lines);
+  }
+
+  private flushThought(): Part[] {
+    const parts = toThoughtParts(this.thought);
+    this.thought = '';
+    return parts;
+  }
+}
+
+/**
+ * Splits a complete model answer into thoughts and answer text
+ * @param text The answer, possibly containing `<think>` spans
+ * @param reasoning Reasoning the provider reported separately
+ * @returns One part with all thoughts, if any, followed by the answer text
+ */
+export function splitThoughts(text: string, reasoning?: string): Part[] {
+  const splitter = new ThoughtSplitter();
+  const parts = [
+    ...(reasoning ? splitter.pushReasoning(`${reasoning}\n`) : []),
+    ...splitter.push(text),
+    ...splitter.flush(),
+  ];
+  const thoughts = parts.filter((part) => part.thought).map((p) => p.text);
+  const answer = parts
+    .filter((part) => !part.thought)
+    .map((p) => p.text)
+    .join('');
+  return [
+    ...(thoughts.length > 0
+      ? [{ text: thoughts.join('\n'), thought: true }]
+      : []),
+    ...(answer ? [{ text: answer }] : []),
+  ];
+}
+
+function toThoughtParts(text: string): Part[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => ({ text: line, thought: true }));
+}
+
+function findOpeningTag(
+  text: string,
+): { index: number; tag: string; closingTag: string } | undefined {
+  let found: { index: number; tag: string; closingTag: string } | undefined;
+  for (const [tag, closingTag] of THINK_TAGS) {
+    const index = text.indexOf(tag);
+    if (index !== -1 && (!found || index < found.index)) {
+      found = { index, tag, closingTag };
+    }
+  }
+  return found;
+}
+
+/**
+ * Length of the longest suffix of the text that is the start of one of the
+ * tags, which has to be held back until the next chunk completes it.
+ */
+export function partialTagLength(text: string, tags: string[]): number {
+  let longest = 0;
+  for (const tag of tags) {
+    for (
+      let length = Math.min(tag.length - 1, text.length);
+      length > 0;
+      length--
+    ) {
+      if (text.endsWith(tag.slice(0, length))) {
+        longest = Math.max(longest, length);
+        break;
+      }
+    }
+  }
+  return longest;
+}
+
+interface ChatCompletionMessage {
+  content?: string | null;
+  reasoning?: string | null;
+  reasoning_content?: string | null;
+}
+
+interface ChatCompletionChoice {
+  index?: number;
+  message?: ChatCompletionMessage;
+  delta?: ChatCompletionMessage;
+}
+
+/**
+ * Wraps fetch for the OpenAI-compatible chat completions API so that the
+ * reasoning providers report in non-standard fields (`reasoning_content` by
+ * DeepSeek and vLLM, `reasoning` by OpenRouter) is not dropped by the AI SDK.
+ * The reasoning is moved into the message content as a `<think>` span, which
+ * `ThoughtSplitter` turns into thoughts again.
+ */
+export function createReasoningFetch(baseFetch: typeof fetch = fetch) {
+  return async (
+    input: Parameters<typeof fetch>[0],
+    init?: Parameters<typeof fetch>[1],
+  ): Promise<Response> => {
+    const res = await baseFetch(input, init);
+    const contentType = res.headers.get('content-type') ?? '';
+    if (!res.ok || !res.body) {
+      return res;
+    }
+
+    // The body is re-encoded, so the original length and encoding no longer apply.
+    const headers = new Headers(res.headers);
+    headers.delete('content-length');
+    headers.delete('content-encoding');
+
+    if (contentType.includes('text/event-stream')) {
+      return new Response(res.body.pipeThrough(createReasoningStream()), {
+        status: res.status,
+        statusText: res.statusText,
+        headers,
+      });
+    }
+
+    if (contentType.includes('application/json')) {
+      const data = (await res.json()) as { choices?: ChatCompletionChoice[] };
+      for (const choice of data.choices ?? []) {
+        const message = choice.message;
+        const reasoning = message?.reasoning_content || message?.reasoning;
+        if (message && reasoning) {
+          message.content = `<think>${reasoning}</think>${message.content ?? ''}`;
+        }
+      }
+      return new Response(JSON.stringify(data), {
+        status: res.status,
+        statusText: res.statusText,
+        headers,
+      });
+    }
+
+    return res;
+  };
+}
+
+function createReasoningStream(): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const reasoningChoices = new Set<number>();
+  let buffer = '';
+
+  const transformLine = (line: string): string => {
+    if (!line.startsWith('data:')) {
+      return line;
+    }
+    const payload = line.slice(5).trim();
+    if (!payload.startsWith('{')) {
+      return line; // e.g. "data: [DONE]"
+    }
+    let data: { choices?: ChatCompletionChoice[] };
+    try {
+      data = JSON.parse(payload);
+    } catch {
+      return line; // left for the AI SDK to report
+    }
+    let changed = false;
+    for (const choice of data.choices ?? []) {
+      const delta = choice.delta;
+      if (!delta) {
+        continue;
+      }
+      const index = choice.index ?? 0;
+      const reasoning = delta.reasoning_content || delta.reasoning;
+      let content = delta.content ?? '';
+      if (reasoning) {
+        content = `${reasoningChoices.has(index) ? '' : '<think>'}${reasoning}${
+          content ? `</think>${content}` : ''
+        }`;
+        if (delta.content) {
+          reasoningChoices.delete(index);
+        } else {
+          reasoningChoices.add(index);
+        }
+      } else if (content && reasoningChoices.has(index)) {
+        content = `</think>${content}`;
+        reasoningChoices.delete(index);
+      } else {
+        continue;
+      }
+      delta.content = content;
+      delete delta.reasoning;
+      delete delta.reasoning_content;
+      changed = true;
+    }
+    return changed ? `data: ${JSON.stringify(data)}` : line;
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        controller.enqueue(encoder.encode(`${transformLine(line)}\n`));
+      }
+    },
+    flush(controller) {
+      if (buffer) {
+        controller.enqueue(encoder.encode(transformLine(buffer)));
+      }
+    },
+  });
+}
@@ -0,0 +1,268 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import { getErrorMessage } from '../../utils/errors.js';
+import { normalizeContents } from '../util.js';
+
+/** Version of the fixture file format. */
+export const REPLAY_FIXTURE_VERSION = 1;
+
+// Process ids in the output of run_shell_command
+const PROCESS_ID_PATTERN = /^(Background PIDs|Process Group PGID): [\d, ]+$/gm;
+
+/**
+ * Content generator method a request was sent with
+ */
+export type ReplayMethod = 'generateContent' | 'generateContentStream';
+
+/**
+ * A recorded request and its responses
+ */
+export interface RecordedInteraction {
+  /** Hash of the method and the normalized request */
+  key: string;
+  method: ReplayMethod;
+  /** Model the request was sent to, not part of the key */
+  model: string;
+  /** The normalized request, for reading the fixture */
+  request: unknown;
+  /**
+   * The response, or the chunks of a stream with their original boundaries,
+   * with placeholders for the directories and the date of the session
+   */
+  responses: unknown[];
+}
+
+/**
+ * Requests and responses recorded with --record, in order
+ */
+export interface ReplayFixture {
+  version: number;
+  interactions: RecordedInteraction[];
+}
+
+/**
+ * Normalizes a request so that recording and replaying it in different
+ * sessions gives the same value: transport options are dropped, keys are
+ * sorted, the working, home and temporary directories, today's date and the
+ * process ids of shell commands are replaced with placeholders, and tool call
+ * ids, which are random, are left out.
+ */
+export function normalizeRequest(request: GenerateContentParameters): unknown {
+  const {
+    abortSignal: _abortSignal,
+    httpOptions: _httpOptions,
+    ...config
+  } = request.config ?? {};
+  return normalizeValue(
+    { contents: normalizeContents(request.contents), config },
+    getVolatileStrings(),
+  );
+}
+
+/**
+ * Computes the key that a request is recorded and looked up with
+ */
+export function getRequestKey(
+  method: ReplayMethod,
+  request: GenerateContentParameters,
+): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ method, request: normalizeRequest(request) }))
+    .digest('hex');
+}
+
+/**
+ * Prepares responses for a fixture, replacing the directories and the date
+ * of the session with placeholders, so that the paths in tool calls refer to
+ * the directories of the session that replays them
+ */
+export function toRecordedResponses(
+  responses: GenerateContentResponse[],
+): unknown[] {
+  return replaceStrings(
+    JSON.parse(JSON.stringify(responses)),
+    getVolatileStrings(),
+  ) as unknown[];
+}
+
+/**
+ * Restores a recorded response, with the directories and the date of this
+ * session in place of the placeholders, so that getters like `text` work
+ * again
+ */
+export function toReplayedResponse(response: unknown): GenerateContentResponse {
+  const placeholders = getVolatileStrings().map(
+    ([volatile, placeholder]): [string, string] => [placeholder, volatile],
+  );
+  return Object.assign(
+    new GenerateContentResponse(),
+    replaceStrings(response, placeholders) as Partial<GenerateContentResponse>,
+  );
+}
+
+/**
+ * Loads a fixture file
+ * @throws Error if the file cannot be read or is no fixture
+ */
+export async function loadReplayFixture(
+  fixturePath: string,
+): Promise<ReplayFixture> {
+  let fixture: ReplayFixture;
+  try {
+    fixture = JSON.parse(
+      await fs.readFile(fixturePath, 'utf-8'),
+    ) as ReplayFixture;
+  } catch (error) {
+    throw new Error(
+      `Failed to load replay fixture ${fixturePath}: ${getErrorMessage(error)}`,
+    );
+  }
+  if (
+    fixture?.version !== REPLAY_FIXTURE_VERSION ||
+    !Array.isArray(fixture.interactions)
+  ) {
+    throw new Error(
+      `${fixturePath} is no replay fixture of version ${REPLAY_FIXTURE_VERSION}`,
+    );
+  }
+  return fixture;
+}
+
+/**
+ * Writes recorded interactions to a fixture file, rewriting the whole file
+ * after each interaction so that it is complete whenever a session ends
+ */
+export class FixtureRecorder {
+  private readonly interactions: RecordedInteraction[] = [];
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(readonly fixturePath: string) {}
+
+  /**
+   * Adds an interaction to the fixture
+   * @returns A promise that resolves once the file is written
+   */
+  record(
+    method: ReplayMethod,
+    request: GenerateContentParameters,
+    responses: GenerateContentResponse[],
+  ): Promise<void> {
+    this.interactions.push({
+      key: getRequestKey(method, request),
+      method,
+      model: request.model,
+      request: normalizeRequest(request),
+      responses: toRecordedResponses(responses),
+    });
+    const fixture: ReplayFixture = {
+      version: REPLAY_FIXTURE_VERSION,
+      interactions: this.interactions,
+    };
+    const content = JSON.stringify(fixture, null, 2);
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      await fs.mkdir(path.dirname(this.fixturePath), { recursive: true });
+      await fs.writeFile(this.fixturePath, content, 'utf-8');
+    });
+    return this.pendingWrite;
+  }
+}
+
+const recorders = new Map<string, FixtureRecorder>();
+
+/**
+ * Returns the recorder of a fixture file, shared by all generators of a
+ * session so that failover generators record into the same file
+ */
+export function getFixtureRecorder(fixturePath: string): FixtureRecorder {
+  const resolved = path.resolve(fixturePath);
+  let recorder = recorders.get(resolved);
+  if (!recorder) {
+    recorder = new FixtureRecorder(resolved);
+    recorders.set(resolved, recorder);
+  }
+  return recorder;
+}
+
+function getVolatileStrings(): Array<[string, string]> {
+  const today = new Date().toLocaleDateString(undefined, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  const entries: Array<[string, string]> = [
+    [process.cwd(), '<cwd>'],
+    [os.tmpdir(), '<tmp>'],
+    [os.homedir(), '<home>'],
+    [today, '<today>'],
+  ];
+  // Longer values first, the working directory may be inside the others
+  return entries
+    .filter(([value]) => value.length > 1)
+    .sort(([a], [b]) => b.length - a.length);
+}
+
+function replaceStrings(
+  value: unknown,
+  replacements: Array<[string, string]>,
+): unknown {
+  if (typeof value === 'string') {
+    return replacements.reduce(
+      (text, [search, replacement]) => text.split(search).join(replacement),
+      value,
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceStrings(item, replacements));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      replaceStrings(item, replacements),
+    ]),
+  );
+}
+
+function normalizeValue(
+  value: unknown,
+  volatileStrings: Array<[string, string]>,
+): unknown {
+  if (typeof value === 'string') {
+    return (replaceStrings(value, volatileStrings) as string).replace(
+      PROCESS_ID_PATTERN,
+      '$1: <pid>',
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeValue(item, volatileStrings));
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const isToolCall =
+    'name' in value && ('args' in value || 'response' in value);
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    const item = (value as Record<string, unknown>)[key];
+    if (item === undefined || (isToolCall && key === 'id')) {
+      continue;
+    }
+    result[key] = normalizeValue(item, volatileStrings);
+  }
+  return result;
+}
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Part,
+} from '@google/genai';
+import {
+  LLMProviderConfig,
+  LLMProviderType,
+} from '../../config/llmProvider.js';
+import { ContentGenerator } from '../../core/contentGenerator.js';
+import { FixtureRecorder, getRequestKey } from './fixture.js';
+import {
+  RecordingContentGenerator,
+  ReplayContentGenerator,
+} from './generator.js';
+
+function toResponse(parts: Part[]): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.candidates = [{ content: { role: 'model', parts }, index: 0 }];
+  return response;
+}
+
+const request: GenerateContentParameters = {
+  model: 'gemini-2.5-pro',
+  contents: [{ role: 'user', parts: [{ text: `List ${process.cwd()}` }] }],
+};
+
+describe('replay', () => {
+  let tempDir: string;
+  let fixture: string;
+  let provider: LLMProviderConfig;
+  const live: ContentGenerator = {
+    generateContent: vi.fn(async () => toResponse([{ text: 'Hello' }])),
+    generateContentStream: vi.fn(async () =>
+      (async function* () {
+        yield toResponse([{ text: 'Hel' }]);
+        yield toResponse([{ text: 'lo' }]);
+      })(),
+    ),
+    countTokens: vi.fn(),
+    embedContent: vi.fn(),
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-'));
+    fixture = path.join(tempDir, 'fixtures', 'session.json');
+    provider = {
+      name: 'replay',
+      displayName: 'Replay',
+      type: LLMProviderType.REPLAY,
+      apiKey: '',
+      replay: { fixture },
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('replays recorded responses with their chunk boundaries', async () => {
+    const recording = new RecordingContentGenerator(
+      live,
+      new FixtureRecorder(fixture),
+    );
+    await recording.generateContent(request);
+    for await (const _chunk of await recording.generateContentStream(request)) {
+      // Recorded once the stream is read to the end
+    }
+
+    const replay = new ReplayContentGenerator(provider, 'any-model');
+    expect((await replay.generateContent(request)).text).toBe('Hello');
+    const chunks: string[] = [];
+    for await (const chunk of await replay.generateContentStream(request)) {
+      chunks.push(chunk.text ?? '');
+    }
+    expect(chunks).toEqual(['Hel', 'lo']);
+
+    // Each recorded response is served once
+    await expect(replay.generateContent(request)).rejects.toThrow(
+      'No recorded response for generateContent request',
+    );
+  });
+
+  it('replays paths of tool calls in the directory of the session', async () => {
+    const readFile = (dir: string) =>
+      toResponse([
+        {
+          functionCall: {
+            name: 'read_file',
+            args: { absolute_path: path.join(dir, 'a.txt') },
+          },
+        },
+      ]);
+    const recordingDir = process.cwd();
+    await new RecordingContentGenerator(
+      { ...live, generateContent: vi.fn(async () => readFile(recordingDir)) },
+      new FixtureRecorder(fixture),
+    ).generateContent(request);
+    expect(fs.readFileSync(fixture, 'utf-8')).toContain(
+      path.join('<cwd>', 'a.txt'),
+    );
+
+    // Replayed from another checkout
+    const replayDir = path.join(tempDir, 'checkout');
+    vi.spyOn(process, 'cwd').mockReturnValue(replayDir);
+    try {
+      const response = await new ReplayContentGenerator(
+        provider,
+        'any-model',
+      ).generateContent({
+        ...request,
+        contents: [{ role: 'user', parts: [{ text: `List ${replayDir}` }] }],
+      });
+      expect(response.functionCalls?.[0].args).toEqual({
+        absolute_path: path.join(replayDir, 'a.txt'),
+      });
+    } finally {
+      vi.mocked(process.cwd).mockRestore();
+    }
+  });
+
+  it('keys requests independently of volatile values', () => {
+    const withIds = (id: string): GenerateContentParameters => ({
+      model: 'gemini-2.5-flash',
+      contents: [
+        {
+          role: 'model',
+          parts: [{ functionCall: { id, name: 'ls', args: { path: '.' } } }],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: { id, name: 'ls', response: { output: '' } },
+            },
+          ],
+        },
+      ],
+      config: { abortSignal: new AbortController().signal },
+    });
+
+    expect(getRequestKey('generateContent', withIds('ls-1'))).toBe(
+      getRequestKey('generateContent', withIds('ls-2')),
+    );
+    expect(getRequestKey('generateContent', withIds('ls-1'))).not.toBe(
+      getRequestKey('generateContentStream', withIds('ls-1')),
+    );
+    expect(getRequestKey('generateContent', request)).toBe(
+      getRequestKey('generateContent', {
+        ...request,
+        contents: [{ role: 'user', parts: [{ text: 'List <cwd>' }] }],
+      }),
+    );
+    const withShellOutput = (pgid: number): GenerateContentParameters => ({
+      model: 'gemini-2.5-flash',
+      contents: [
+        {
+          role: 'user',
+          parts: [{ text: `Stdout: a.txt\nProcess Group PGID: ${pgid}` }],
+        },
+      ],
+    });
+    expect(getRequestKey('generateContent', withShellOutput(4242))).toBe(
+      getRequestKey('generateContent', withShellOutput(4343)),
+    );
+  });
+
+  it('reports missing fixtures', async () => {
+    await expect(
+      new ReplayContentGenerator(provider, 'any-model').generateContent(
+        request,
+      ),
+    ).rejects.toThrow('Failed to load replay fixture');
+  });
+});
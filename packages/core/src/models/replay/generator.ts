@@ -0,0 +1,158 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import { ContentGenerator } from '../../core/contentGenerator.js';
+import { LLMProviderConfig } from '../../config/llmProvider.js';
+import { UserTierId } from '../../code_assist/types.js';
+import { modelRegistry } from '../modelRegistry.js';
+import { countRequestTokens } from '../tokenizer.js';
+import {
+  FixtureRecorder,
+  RecordedInteraction,
+  ReplayMethod,
+  getRequestKey,
+  loadReplayFixture,
+  toReplayedResponse,
+} from './fixture.js';
+
+/**
+ * Wraps a content generator and records every request and its responses to
+ * a fixture file, for replay with a replay provider
+ */
+export class RecordingContentGenerator implements ContentGenerator {
+  constructor(
+    private readonly generator: ContentGenerator,
+    private readonly recorder: FixtureRecorder,
+  ) {}
+
+  get userTier(): UserTierId | undefined {
+    return this.generator.userTier;
+  }
+
+  supportsJsonMode(): boolean {
+    return this.generator.supportsJsonMode?.() ?? true;
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const response = await this.generator.generateContent(request);
+    await this.recorder.record('generateContent', request, [response]);
+    return response;
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const stream = await this.generator.generateContentStream(request);
+    const recorder = this.recorder;
+    return (async function* (): AsyncGenerator<GenerateContentResponse> {
+      const chunks: GenerateContentResponse[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      // Only complete streams are recorded
+      await recorder.record('generateContentStream', request, chunks);
+    })();
+  }
+
+  countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    return this.generator.countTokens(request);
+  }
+
+  embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse> {
+    return this.generator.embedContent(request);
+  }
+}
+
+/**
+ * Content generator of replay providers. Serves the responses recorded in
+ * the fixture of the provider, streams with their original chunk
+ * boundaries, without any network access. Identical requests get their
+ * recorded responses in the order they were recorded.
+ */
+export class ReplayContentGenerator implements ContentGenerator {
+  private interactions?: Promise<Map<string, RecordedInteraction[]>>;
+
+  constructor(
+    readonly provider: LLMProviderConfig,
+    readonly model: string,
+  ) {}
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const [response] = await this.replay('generateContent', request);
+    return toReplayedResponse(response);
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const responses = await this.replay('generateContentStream', request);
+    return (async function* (): AsyncGenerator<GenerateContentResponse> {
+      for (const response of responses) {
+        yield toReplayedResponse(response);
+      }
+    })();
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    const { tokenizer } = modelRegistry.get(this.model, this.provider.name);
+    return { totalTokens: await countRequestTokens(request, tokenizer) };
+  }
+
+  async embedContent(
+    _request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    throw new Error('Replay providers do not support embeddings.');
+  }
+
+  private async replay(
+    method: ReplayMethod,
+    request: GenerateContentParameters,
+  ): Promise<unknown[]> {
+    this.interactions ??= loadInteractions(this.getFixturePath());
+    const key = getRequestKey(method, request);
+    const interaction = (await this.interactions).get(key)?.shift();
+    if (!interaction) {
+      throw new Error(
+        `No recorded response for ${method} request ${key.slice(0, 12)} in ${this.getFixturePath()}. Record the session again with --record.`,
+      );
+    }
+    return interaction.responses;
+  }
+
+  private getFixturePath(): string {
+    return path.resolve(this.provider.replay?.fixture ?? '');
+  }
+}
+
+async function loadInteractions(
+  fixturePath: string,
+): Promise<Map<string, RecordedInteraction[]>> {
+  const interactions = new Map<string, RecordedInteraction[]>();
+  for (const interaction of (await loadReplayFixture(fixturePath))
+    .interactions) {
+    interactions.set(interaction.key, [
+      ...(interactions.get(interaction.key) ?? []),
+      interaction,
+    ]);
+  }
+  return interactions;
+}
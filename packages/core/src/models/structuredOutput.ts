@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Schema } from '@google/genai';
+import { APICallError, NoObjectGeneratedError, RetryError } from 'ai';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import {
+  convertTypeValuesToLowerCase,
+  extractJsonFromLLMOutput,
+} from './util.js';
+
+/**
+ * How often a model without JSON mode is asked for JSON matching the schema,
+ * including the re-prompts with the validation errors.
+ */
+export const MAX_STRUCTURED_OUTPUT_ATTEMPTS = 3;
+
+/**
+ * Result of parsing the output of a model that was asked for JSON
+ */
+export type StructuredOutputResult =
+  | { object: Record<string, unknown>; error?: undefined }
+  | { object?: undefined; error: string };
+
+/**
+ * Builds the instruction that asks a model without JSON mode to answer with
+ * JSON matching a schema
+ */
+export function toSchemaPrompt(schema: Schema): string {
+  return [
+    'Respond with a single JSON object that conforms to the following JSON schema.',
+    'Do not add explanations or any other text, and do not wrap the JSON in a code block.',
+    '',
+    JSON.stringify(convertTypeValuesToLowerCase(schema), null, 2),
+  ].join('\n');
+}
+
+/**
+ * Builds the re-prompt that asks a model to correct an invalid answer
+ * @param error Why the previous answer was rejected
+ */
+export function toRepairPrompt(error: string): string {
+  return `Your previous response was rejected: ${error}\nRespond again with only the corrected JSON object.`;
+}
+
+/**
+ * Extracts the JSON object from the output of a model and validates it
+ * against the schema
+ * @param text Output of the model
+ * @param schema The expected schema
+ */
+export function parseStructuredOutput(
+  text: string,
+  schema: Schema,
+): StructuredOutputResult {
+  const object = extractJsonFromLLMOutput(text);
+  if (!object) {
+    return { error: 'The response does not contain a JSON object.' };
+  }
+  const error = SchemaValidator.validate(schema, object);
+  return error
+    ? { error: `The JSON does not match the schema: ${error}` }
+    : { object };
+}
+
+/**
+ * Whether a failed JSON mode request indicates that the model or its API
+ * does not support JSON mode, so that asking for JSON in the prompt may
+ * succeed instead
+ */
+export function isJsonModeUnsupportedError(error: unknown): boolean {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  if (NoObjectGeneratedError.isInstance(cause)) {
+    return true;
+  }
+  return (
+    APICallError.isInstance(cause) &&
+    (cause.statusCode === 400 ||
+      cause.statusCode === 404 ||
+      cause.statusCode === 422)
+  );
+}
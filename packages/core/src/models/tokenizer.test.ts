@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Type } from '@google/genai';
+import {
+  TokenizerEncoding,
+  countRequestTokens,
+  getTokenizerEncoding,
+} from './tokenizer.js';
+import { modelRegistry } from './modelRegistry.js';
+
+describe('tokenizer', () => {
+  it('maps provider tokenizer families to bundled vocabularies', () => {
+    expect(getTokenizerEncoding('GPT')).toBe(TokenizerEncoding.O200K_BASE);
+    expect(getTokenizerEncoding('Llama3')).toBe(TokenizerEncoding.CL100K_BASE);
+    expect(getTokenizerEncoding('qwen2.5')).toBe(TokenizerEncoding.CL100K_BASE);
+    expect(getTokenizerEncoding('Other')).toBeUndefined();
+    expect(getTokenizerEncoding(undefined)).toBeUndefined();
+  });
+
+  it('picks the vocabulary per model family', () => {
+    expect(modelRegistry.get('gpt-4o-mini', 'openai').tokenizer).toBe(
+      TokenizerEncoding.O200K_BASE,
+    );
+    expect(modelRegistry.get('gpt-4-turbo', 'openai').tokenizer).toBe(
+      TokenizerEncoding.CL100K_BASE,
+    );
+    expect(modelRegistry.get('llama3.1:8b', 'ollama').tokenizer).toBe(
+      TokenizerEncoding.CL100K_BASE,
+    );
+    expect(modelRegistry.get('my-model', 'local').tokenizer).toBeUndefined();
+  });
+
+  it('counts messages with the chat overhead', async () => {
+    const tokens = await countRequestTokens(
+      {
+        model: 'gpt-4o',
+        contents: [{ role: 'user', parts: [{ text: 'Hello world' }] }],
+      },
+      TokenizerEncoding.O200K_BASE,
+    );
+    // 2 text tokens, 3 for the message and 3 for the reply
+    expect(tokens).toBe(8);
+  });
+
+  it('counts function calls, responses and tool schemas', async () => {
+    const contents = [
+      { role: 'user', parts: [{ text: 'Read a.txt' }] },
+      {
+        role: 'model',
+        parts: [
+          { text: 'thinking', thought: true },
+          { functionCall: { name: 'read_file', args: { path: 'a.txt' } } },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              name: 'read_file',
+              response: { output: 'contents' },
+            },
+          },
+        ],
+      },
+    ];
+    const withoutTools = await countRequestTokens(
+      { model: 'gpt-4o', contents },
+      TokenizerEncoding.O200K_BASE,
+    );
+    const withTools = await countRequestTokens(
+      {
+        model: 'gpt-4o',
+        contents,
+        config: {
+          tools: [
+            {
+              functionDeclarations: [
+                {
+                  name: 'read_file',
+                  description: 'Reads a file',
+                  parameters: {
+                    type: Type.OBJECT,
+                    properties: {
+                      path: { type: Type.STRING, description: 'File path' },
+                    },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      },
+      TokenizerEncoding.O200K_BASE,
+    );
+
+    expect(withoutTools).toBeGreaterThan(3 * 3 + 3);
+    expect(withTools - withoutTools).toBeGreaterThan(7 + 3 + 3 + 12);
+  });
+
+  it('estimates the count for unknown families', async () => {
+    const tokens = await countRequestTokens({
+      model: 'my-model',
+      contents: [{ role: 'user', parts: [{ text: 'Hello world' }] }],
+    });
+    // 2 words at 1.2 tokens each and 1 for the whitespace, without overhead
+    expect(tokens).toBe(4);
+  });
+});
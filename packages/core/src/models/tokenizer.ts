@@ -0,0 +1,189 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Content,
+  CountTokensParameters,
+  FunctionDeclaration,
+  Part,
+  Schema,
+} from '@google/genai';
+import type { Tiktoken } from 'js-tiktoken/lite';
+import { estimateTokenCount, normalizeContents, toSystemText } from './util.js';
+
+/**
+ * BPE vocabularies bundled with the CLI
+ */
+export enum TokenizerEncoding {
+  /** GPT-4 and GPT-3.5 */
+  CL100K_BASE = 'cl100k_base',
+  /** GPT-4o, GPT-4.1, GPT-5 and the o-series */
+  O200K_BASE = 'o200k_base',
+}
+
+/**
+ * Tokenizer families as reported by providers, e.g. the `architecture.tokenizer`
+ * of OpenRouter or the `details.family` of Ollama, without version suffixes.
+ * Only the GPT vocabularies are bundled; the other families use vocabularies
+ * of similar size and are counted with cl100k, which comes much closer than
+ * the character heuristic.
+ */
+const FAMILY_ENCODINGS: Record<string, TokenizerEncoding> = {
+  gpt: TokenizerEncoding.O200K_BASE,
+  claude: TokenizerEncoding.CL100K_BASE,
+  deepseek: TokenizerEncoding.CL100K_BASE,
+  llama: TokenizerEncoding.CL100K_BASE,
+  mistral: TokenizerEncoding.CL100K_BASE,
+  qwen: TokenizerEncoding.CL100K_BASE,
+};
+
+// Token overhead of chat messages and function definitions, see
+// https://cookbook.openai.com/examples/how_to_count_tokens_with_tiktoken
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+const TOKENS_PER_FUNCTION = 7;
+const TOKENS_PER_FUNCTION_END = 12;
+const TOKENS_PER_PROPERTIES = 3;
+const TOKENS_PER_PROPERTY = 3;
+const TOKENS_PER_ENUM = -3;
+const TOKENS_PER_ENUM_ITEM = 3;
+
+const encoders = new Map<TokenizerEncoding, Promise<Tiktoken>>();
+
+/**
+ * Maps a tokenizer family reported by a provider to a bundled vocabulary
+ * @param family The family, e.g. "GPT", "Llama3" or "qwen2"
+ * @returns The vocabulary, or undefined for unknown families
+ */
+export function getTokenizerEncoding(
+  family: string | undefined,
+): TokenizerEncoding | undefined {
+  const name = family?.toLowerCase().replace(/[\d.]+$/, '');
+  return name ? FAMILY_ENCODINGS[name] : undefined;
+}
+
+/**
+ * Counts the input tokens of a request the way chat completion APIs bill
+ * them: message contents and function calls, the system instruction, tool
+ * schemas and the per-message overhead.
+ * @param req The request
+ * @param encoding The vocabulary of the model, the token count is estimated
+ *   from the text when undefined
+ */
+export async function countRequestTokens(
+  req: CountTokensParameters,
+  encoding?: TokenizerEncoding,
+): Promise<number> {
+  const encoder = encoding ? await getEncoder(encoding) : undefined;
+  const count = (text: string) =>
+    encoder ? encoder.encode(text, [], []).length : estimateTokenCount(text);
+  const overhead = (tokens: number) => (encoder ? tokens : 0);
+
+  const messages = normalizeContents(req.contents).map((content) =>
+    toMessageTexts(content),
+  );
+  const system = toSystemText(req.config?.systemInstruction);
+  if (system) {
+    messages.push([system]);
+  }
+
+  let total = overhead(TOKENS_PER_REPLY);
+  for (const texts of messages) {
+    total += overhead(TOKENS_PER_MESSAGE);
+    for (const text of texts) {
+      total += count(text);
+    }
+  }
+  const functions = (req.config?.tools ?? []).flatMap((tool) =>
+    'functionDeclarations' in tool ? (tool.functionDeclarations ?? []) : [],
+  );
+  for (const func of functions) {
+    total += countFunctionTokens(func, count, overhead);
+  }
+  if (functions.length > 0) {
+    total += overhead(TOKENS_PER_FUNCTION_END);
+  }
+  return total;
+}
+
+function getEncoder(encoding: TokenizerEncoding): Promise<Tiktoken> {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    // The vocabularies are megabytes in size, so they load on first use.
+    encoder = Promise.all([
+      import('js-tiktoken/lite'),
+      encoding === TokenizerEncoding.O200K_BASE
+        ? import('js-tiktoken/ranks/o200k_base')
+        : import('js-tiktoken/ranks/cl100k_base'),
+    ]).then(([{ Tiktoken }, ranks]) => new Tiktoken(ranks.default));
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+function toMessageTexts(content: Content): string[] {
+  return (content.parts ?? []).flatMap((part: Part) => {
+    if (part.thought) {
+      return [];
+    }
+    if (part.text) {
+      return [part.text];
+    }
+    if (part.functionCall?.name) {
+      return [
+        part.functionCall.name,
+        JSON.stringify(part.functionCall.args ?? {}),
+      ];
+    }
+    if (part.functionResponse?.name) {
+      return [JSON.stringify(part.functionResponse.response ?? {})];
+    }
+    return [];
+  });
+}
+
+function countFunctionTokens(
+  func: FunctionDeclaration,
+  count: (text: string) => number,
+  overhead: (tokens: number) => number,
+): number {
+  let total =
+    overhead(TOKENS_PER_FUNCTION) +
+    count(`${func.name ?? ''}:${func.description ?? ''}`);
+
+  const schema = (func.parametersJsonSchema ?? func.parameters) as
+    | Schema
+    | undefined;
+  const properties = Object.entries(schema?.properties ?? {});
+  if (properties.length > 0) {
+    total += overhead(TOKENS_PER_PROPERTIES);
+    for (const [key, property] of properties) {
+      total +=
+        overhead(TOKENS_PER_PROPERTY) +
+        count(
+          `${key}:${String(property.type ?? '').toLowerCase()}:${
+            property.description ?? ''
+          }`,
+        );
+      if (property.enum) {
+        total += overhead(TOKENS_PER_ENUM);
+        for (const item of property.enum) {
+          total += overhead(TOKENS_PER_ENUM_ITEM) + count(item);
+        }
+      }
+      // Nested objects and arrays are billed roughly like their JSON.
+      if (property.properties || property.items) {
+        total += count(
+          JSON.stringify({
+            properties: property.properties,
+            items: property.items,
+          }),
+        );
+      }
+    }
+  }
+  return total;
+}
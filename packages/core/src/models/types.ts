@@ -4,6 +4,29 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+/**
+ * Connection and sampling options for an OpenAI-compatible content generator
+ */
+export interface CustomLLMContentGeneratorOptions {
+  apiKey: string;
+  baseURL: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  /** Name of the configured provider, used to look up model information */
+  providerName?: string;
+  /** Model used for embeddings */
+  embeddingModel?: string;
+  /** Fetch implementation for the API requests, e.g. to add headers */
+  fetch?: typeof fetch;
+  /**
+   * Describe tools in the system prompt and parse calls from the answer
+   * text, for models without native function calling
+   */
+  promptToolCalling?: boolean;
+}
+
 /**
  * Custom LLM content generator configuration
  */
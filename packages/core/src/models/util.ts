@@ -8,6 +8,7 @@ import {
   Part,
   Content,
   ContentListUnion,
+  ContentUnion,
   GenerateContentConfig,
 } from '@google/genai';
 
@@ -31,10 +32,67 @@ export function extractAnswer(text: string): string {
   return text;
 }
 
+/** Maximum number of texts sent to an embeddings endpoint in one request. */
+export const EMBEDDING_BATCH_SIZE = 100;
+
 /**
- * Extracts JSON from LLM output
+ * Gets the texts of an embedding request
+ * @param contents The contents to embed
+ * @returns One text per content
+ */
+export function toEmbeddingTexts(contents: ContentListUnion): string[] {
+  return normalizeContents(contents).map((content) =>
+    (content.parts ?? [])
+      .map((part) => part.text ?? '')
+      .filter(Boolean)
+      .join('\n'),
+  );
+}
+
+/**
+ * Describes an attachment in place of its content, for models that do not
+ * accept its type
+ * @param media The inline or file data of the attachment
+ * @returns A placeholder that tells the model what was omitted
+ */
+export function toOmittedMediaText(media: {
+  mimeType?: string;
+  displayName?: string;
+  fileUri?: string;
+}): string {
+  const name = media.displayName ?? media.fileUri;
+  return `[Attachment${name ? ` "${name}"` : ''} of type ${
+    media.mimeType ?? 'unknown'
+  } omitted: the model does not accept this file type]`;
+}
+
+/**
+ * Estimates the number of tokens in a text without a tokenizer
+ * @param text Text to estimate
+ * @returns Estimated token count
+ */
+export function estimateTokenCount(text: string): number {
+  const englishWords = (text.match(/[a-zA-Z]+[']?[a-zA-Z]*/g) || []).length;
+  const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length;
+  const numbers = (text.match(/\b\d+\b/g) || []).length;
+  const punctuations = (
+    text.match(/[.,!?;:"'(){}[\]<>@#$%^&*\-_+=~`|\\/]/g) || []
+  ).length;
+  const spaces = Math.ceil((text.match(/\s+/g) || []).length / 5);
+  return Math.ceil(
+    englishWords * 1.2 +
+      chineseChars * 1 +
+      numbers * 0.8 +
+      punctuations * 0.5 +
+      spaces,
+  );
+}
+
+/**
+ * Extracts JSON from LLM output. Thoughts are skipped, and the JSON may be
+ * wrapped in a code block or surrounded by prose.
  * @param output LLM output string
- * @returns Extracted JSON object
+ * @returns Extracted JSON object, undefined if the output contains none
  */
 export function extractJsonFromLLMOutput(
   output: string,
@@ -42,32 +100,33 @@ export function extractJsonFromLLMOutput(
   if (output.trim().startsWith('<think')) {
     output = extractAnswer(output);
   }
-  try {
-    const json = JSON.parse(output);
-    return json;
-  } catch {
-    // ...
+  const candidates = [output];
+  const codeBlock = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (codeBlock) {
+    candidates.push(codeBlock[1]);
+  }
+  const objectStart = output.indexOf('{');
+  const objectEnd = output.lastIndexOf('}');
+  if (objectStart !== -1 && objectEnd > objectStart) {
+    candidates.push(output.substring(objectStart, objectEnd + 1));
   }
-  const jsonStart = output.indexOf('```json');
-  const jsonEnd = output.lastIndexOf('```');
-  if (jsonStart !== -1 && jsonEnd !== -1) {
-    const jsonString = output.substring(jsonStart + 7, jsonEnd);
+  for (const candidate of candidates) {
     try {
-      const json = JSON.parse(jsonString);
-      return json;
-    } catch (error) {
-      console.error('Failed to parse JSON:', { error, llmResponse: output });
+      const json = JSON.parse(candidate);
+      if (typeof json === 'object' && json !== null && !Array.isArray(json)) {
+        return json;
+      }
+    } catch {
+      // Try the next candidate
     }
-  } else {
-    console.error('LLM output not in expected format:', output);
-    return undefined;
   }
+  return undefined;
 }
 
 /**
  * Convert type values to lowercase
  */
-function convertTypeValuesToLowerCase(obj: unknown): unknown {
+export function convertTypeValuesToLowerCase(obj: unknown): unknown {
   if (Array.isArray(obj)) {
     return obj.map((item) => convertTypeValuesToLowerCase(item));
   }
@@ -169,6 +228,34 @@ export function normalizeContents(contents: ContentListUnion): Content[] {
   ];
 }
 
+/**
+ * Flattens a system instruction to plain text
+ * @param systemInstruction Gemini system instruction
+ * @returns The text parts joined by newlines, undefined if there is no text
+ */
+export function toSystemText(
+  systemInstruction: ContentUnion | undefined,
+): string | undefined {
+  if (!systemInstruction) {
+    return undefined;
+  }
+  if (typeof systemInstruction === 'string') {
+    return systemInstruction;
+  }
+  const parts: Part[] = Array.isArray(systemInstruction)
+    ? systemInstruction.map((part) =>
+        typeof part === 'string' ? { text: part } : part,
+      )
+    : 'parts' in systemInstruction
+      ? (systemInstruction.parts ?? [])
+      : [systemInstruction as Part];
+  const text = parts
+    .map((part) => part.text)
+    .filter(Boolean)
+    .join('\n');
+  return text || undefined;
+}
+
 /**
  * Check if a part is a valid function call
  */
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+import { BudgetService } from './budgetService.js';
+
+describe('BudgetService', () => {
+  let tempDir: string;
+  let spendDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-'));
+    spendDir = path.join(tempDir, 'spend');
+    vi.spyOn(uiTelemetryService, 'getSessionCost').mockReturnValue(0.8);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    uiTelemetryService.removeAllListeners('update');
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('warns once when the soft budget is reached', () => {
+    const service = new BudgetService(
+      { session: { soft: 1 } },
+      'session-1',
+      spendDir,
+    );
+
+    expect(service.checkRequest(0.1).warnings).toEqual([]);
+    expect(service.checkRequest(0.3)).toEqual({
+      warnings: [
+        'The session cost of $0.8000 is reaching the soft budget of $1.00.',
+      ],
+    });
+    expect(service.checkRequest(0.3).warnings).toEqual([]);
+  });
+
+  it('stops requests that would exceed the hard budget', () => {
+    const service = new BudgetService(
+      { session: { hard: 1 } },
+      'session-1',
+      spendDir,
+    );
+
+    expect(service.checkRequest(0.1).exceeded).toBeUndefined();
+    expect(service.checkRequest(0.25).exceeded).toBe(
+      'The session budget of $1.00 is reached: $0.8000 spent, the next request costs about $0.2500. Raise budget.session.hard in your settings to continue.',
+    );
+  });
+
+  it('counts the cost of all sessions of the day', () => {
+    const other = new BudgetService(
+      { daily: { hard: 2 } },
+      'session-1',
+      spendDir,
+    );
+    uiTelemetryService.emit('update');
+    uiTelemetryService.removeAllListeners('update');
+
+    const service = new BudgetService(
+      { daily: { hard: 2 } },
+      'session-2',
+      spendDir,
+    );
+    uiTelemetryService.emit('update');
+
+    expect(other.getDailyCost()).toBeCloseTo(1.6);
+    expect(service.getDailyCost()).toBeCloseTo(1.6);
+    expect(service.checkRequest(0.5).exceeded).toMatch(
+      /^The daily budget of \$2\.00 is reached/,
+    );
+  });
+
+  it('keeps the cost of each session in its own file of the day', () => {
+    fs.mkdirSync(path.join(spendDir, '2000-01-01'), { recursive: true });
+    vi.mocked(uiTelemetryService.getSessionCost).mockReturnValue(0.5);
+    new BudgetService({ daily: { hard: 2 } }, 'session-1', spendDir);
+    uiTelemetryService.emit('update');
+    uiTelemetryService.removeAllListeners('update');
+
+    vi.mocked(uiTelemetryService.getSessionCost).mockReturnValue(0.8);
+    const service = new BudgetService(
+      { daily: { hard: 2 } },
+      'session-2',
+      spendDir,
+    );
+    uiTelemetryService.emit('update');
+
+    const days = fs.readdirSync(spendDir);
+    expect(days).toHaveLength(1);
+    expect(days[0]).not.toBe('2000-01-01');
+    const dayDir = path.join(spendDir, days[0]);
+    expect(fs.readdirSync(dayDir).sort()).toEqual([
+      'session-1.json',
+      'session-2.json',
+    ]);
+    expect(
+      JSON.parse(fs.readFileSync(path.join(dayDir, 'session-1.json'), 'utf-8')),
+    ).toEqual({ cost: 0.5 });
+    expect(service.getDailyCost()).toBeCloseTo(1.3);
+  });
+});
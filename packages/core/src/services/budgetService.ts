@@ -0,0 +1,218 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { GEMINI_DIR } from '../utils/paths.js';
+import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+import { formatCost } from '../models/pricing.js';
+
+const SPEND_DIRNAME = 'spend';
+
+/**
+ * Spending limits in USD
+ */
+export interface BudgetLimits {
+  /** Warns once the spend reaches it */
+  soft?: number;
+  /** Stops turns before a request would exceed it */
+  hard?: number;
+}
+
+/**
+ * The `budget` setting
+ */
+export interface BudgetSettings {
+  /** Limits of a single session */
+  session?: BudgetLimits;
+  /** Limits of all sessions of a calendar day */
+  daily?: BudgetLimits;
+}
+
+/**
+ * Outcome of checking a request against the budgets
+ */
+export interface BudgetCheckResult {
+  /** Soft budgets reached for the first time */
+  warnings: string[];
+  /** Why the request must not be sent, if a hard budget would be exceeded */
+  exceeded?: string;
+}
+
+/** Cost of a session on a day, in the file of the session. */
+interface SessionSpend {
+  cost: number;
+}
+
+/**
+ * Checks the cost of a session against the configured budgets. The cost of
+ * each day is kept on disk, so that the daily budget covers all sessions.
+ * Every session writes only its own file in the directory of the day, so
+ * that concurrent sessions cannot overwrite each other's cost.
+ */
+export class BudgetService {
+  private readonly warned = new Set<string>();
+  private day = getToday();
+  /** Session cost when the current day started */
+  private dayStartCost = 0;
+
+  constructor(
+    private readonly budget: BudgetSettings,
+    private readonly sessionId: string,
+    private readonly spendDir: string = getSpendDir(),
+  ) {
+    if (budget.daily) {
+      uiTelemetryService.on('update', () => this.recordDailyCost());
+    }
+  }
+
+  /** Cost of the session in USD */
+  getSessionCost(): number {
+    return uiTelemetryService.getSessionCost() ?? 0;
+  }
+
+  /** Cost of today in USD, of all sessions including this one */
+  getDailyCost(): number {
+    this.rollOverDay();
+    const others = this.readOtherSessionsCost();
+    return others + this.getSessionCost() - this.dayStartCost;
+  }
+
+  /**
+   * Checks whether a request fits the budgets
+   * @param estimatedCost What the request is expected to cost in USD, for
+   *   its prompt
+   */
+  checkRequest(estimatedCost: number): BudgetCheckResult {
+    const result: BudgetCheckResult = { warnings: [] };
+    const scopes = [
+      { name: 'session', limits: this.budget.session },
+      { name: 'daily', limits: this.budget.daily },
+    ];
+    for (const { name, limits } of scopes) {
+      if (limits?.soft === undefined && limits?.hard === undefined) {
+        continue;
+      }
+      const spent =
+        name === 'daily' ? this.getDailyCost() : this.getSessionCost();
+      if (limits.hard !== undefined && spent + estimatedCost > limits.hard) {
+        result.exceeded ??=
+          `The ${name} budget of ${formatCost(limits.hard)} is reached: ` +
+          `${formatCost(spent)} spent, the next request costs about ` +
+          `${formatCost(estimatedCost)}. Raise budget.${name}.hard in your settings to continue.`;
+      } else if (
+        limits.soft !== undefined &&
+        spent + estimatedCost >= limits.soft &&
+        !this.warned.has(name)
+      ) {
+        this.warned.add(name);
+        result.warnings.push(
+          `The ${name} cost of ${formatCost(spent)} is reaching the soft budget of ${formatCost(limits.soft)}.`,
+        );
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Writes the cost of the session today to its spend file, dropping the
+   * files of earlier days. The file is replaced atomically, so that other
+   * sessions never read a partial write.
+   */
+  private recordDailyCost(): void {
+    this.rollOverDay();
+    const file = this.getSessionFilePath();
+    const spend: SessionSpend = {
+      cost: this.getSessionCost() - this.dayStartCost,
+    };
+    const tempFile = `${file}.${process.pid}.tmp`;
+    try {
+      this.removeEarlierDays();
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(tempFile, JSON.stringify(spend), 'utf-8');
+      fs.renameSync(tempFile, file);
+    } catch (error) {
+      fs.rmSync(tempFile, { force: true });
+      console.warn(`Failed to record the daily cost: ${error}`);
+    }
+  }
+
+  /** Starts counting a new day after midnight */
+  private rollOverDay(): void {
+    const today = getToday();
+    if (today !== this.day) {
+      this.day = today;
+      this.dayStartCost = this.getSessionCost();
+    }
+  }
+
+  private getSessionFilePath(): string {
+    return path.join(
+      this.spendDir,
+      this.day,
+      `${encodeURIComponent(this.sessionId)}.json`,
+    );
+  }
+
+  /** Sums the recorded cost of the other sessions today */
+  private readOtherSessionsCost(): number {
+    const dayDir = path.join(this.spendDir, this.day);
+    const ownFile = path.basename(this.getSessionFilePath());
+    let files: string[];
+    try {
+      files = fs.readdirSync(dayDir);
+    } catch {
+      return 0;
+    }
+    return files
+      .filter((file) => file.endsWith('.json') && file !== ownFile)
+      .reduce((total, file) => {
+        try {
+          const spend = JSON.parse(
+            fs.readFileSync(path.join(dayDir, file), 'utf-8'),
+          ) as SessionSpend;
+          return total + (Number(spend.cost) || 0);
+        } catch {
+          return total;
+        }
+      }, 0);
+  }
+
+  private removeEarlierDays(): void {
+    let days: string[];
+    try {
+      days = fs.readdirSync(this.spendDir);
+    } catch {
+      return;
+    }
+    for (const day of days) {
+      if (day !== this.day) {
+        fs.rmSync(path.join(this.spendDir, day), {
+          recursive: true,
+          force: true,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Gets the directory the daily cost of the sessions is kept in
+ */
+export function getSpendDir(): string {
+  return path.join(os.homedir(), GEMINI_DIR, SPEND_DIRNAME);
+}
+
+/** The local date, e.g. "2025-08-01". */
+function getToday(): string {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0'),
+  ].join('-');
+}
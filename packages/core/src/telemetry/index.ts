@@ -26,6 +26,7 @@ export {
   logApiError,
   logApiResponse,
   logFlashFallback,
+  logProviderFailover,
 } from './loggers.js';
 export {
   StartSessionEvent,
@@ -37,6 +38,7 @@ export {
   ApiResponseEvent,
   TelemetryEvent,
   FlashFallbackEvent,
+  ProviderFailoverEvent,
 } from './types.js';
 export { SpanStatusCode, ValueType } from '@opentelemetry/api';
 export { SemanticAttributes } from '@opentelemetry/semantic-conventions';
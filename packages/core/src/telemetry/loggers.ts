@@ -15,6 +15,7 @@ import {
   EVENT_TOOL_CALL,
   EVENT_USER_PROMPT,
   EVENT_FLASH_FALLBACK,
+  EVENT_PROVIDER_FAILOVER,
   SERVICE_NAME,
 } from './constants.js';
 import {
@@ -25,6 +26,7 @@ import {
   ToolCallEvent,
   UserPromptEvent,
   FlashFallbackEvent,
+  ProviderFailoverEvent,
   LoopDetectedEvent,
 } from './types.js';
 import {
@@ -182,6 +184,27 @@ export function logFlashFallback(
   logger.emit(logRecord);
 }
 
+export function logProviderFailover(
+  config: Config,
+  event: ProviderFailoverEvent,
+): void {
+  if (!isTelemetrySdkInitialized()) return;
+
+  const attributes: LogAttributes = {
+    ...getCommonAttributes(config),
+    ...event,
+    'event.name': EVENT_PROVIDER_FAILOVER,
+    'event.timestamp': new Date().toISOString(),
+  };
+
+  const logger = logs.getLogger(SERVICE_NAME);
+  const logRecord: LogRecord = {
+    body: `Failing over from ${event.from_provider} to ${event.to_provider}.`,
+    attributes,
+  };
+  logger.emit(logRecord);
+}
+
 export function logApiError(config: Config, event: ApiErrorEvent): void {
   const uiEvent = {
     ...event,
@@ -206,6 +206,8 @@ export class ApiResponseEvent {
   response_text?: string;
   prompt_id: string;
   auth_type?: string;
+  /** LLM provider that served the model, undefined for Gemini */
+  provider?: string;
 
   constructor(
     model: string,
@@ -215,6 +217,7 @@ export class ApiResponseEvent {
     usage_data?: GenerateContentResponseUsageMetadata,
     response_text?: string,
     error?: string,
+    provider?: string,
   ) {
     this['event.name'] = 'api_response';
     this['event.timestamp'] = new Date().toISOString();
@@ -231,6 +234,7 @@ export class ApiResponseEvent {
     this.error = error;
     this.prompt_id = prompt_id;
     this.auth_type = auth_type;
+    this.provider = provider;
   }
 }
 
@@ -246,6 +250,32 @@ export class FlashFallbackEvent {
   }
 }
 
+export class ProviderFailoverEvent {
+  'event.name': 'provider_failover';
+  'event.timestamp': string; // ISO 8601
+  from_provider: string;
+  from_model: string;
+  to_provider: string;
+  to_model: string;
+  status_code?: number | string;
+
+  constructor(
+    from_provider: string,
+    from_model: string,
+    to_provider: string,
+    to_model: string,
+    status_code?: number | string,
+  ) {
+    this['event.name'] = 'provider_failover';
+    this['event.timestamp'] = new Date().toISOString();
+    this.from_provider = from_provider;
+    this.from_model = from_model;
+    this.to_provider = to_provider;
+    this.to_model = to_model;
+    this.status_code = status_code;
+  }
+}
+
 export enum LoopType {
   CONSECUTIVE_IDENTICAL_TOOL_CALLS = 'consecutive_identical_tool_calls',
   CHANTING_IDENTICAL_SENTENCES = 'chanting_identical_sentences',
@@ -273,4 +303,5 @@ export type TelemetryEvent =
   | ApiErrorEvent
   | ApiResponseEvent
   | FlashFallbackEvent
+  | ProviderFailoverEvent
   | LoopDetectedEvent;
@@ -23,6 +23,7 @@ import {
   SuccessfulToolCall,
 } from '../core/coreToolScheduler.js';
 import { Tool, ToolConfirmationOutcome } from '../tools/tools.js';
+import { ModelInfoSource, modelRegistry } from '../models/modelRegistry.js';
 
 const createFakeCompletedToolCall = (
   name: string,
@@ -167,6 +168,42 @@ describe('UiTelemetryService', () => {
       expect(service.getLastPromptTokenCount()).toBe(10);
     });
 
+    it('should compute the cost of models with known prices', () => {
+      modelRegistry.register(
+        'openrouter',
+        'openai/o3',
+        {
+          pricing: { prompt: 2, completion: 8, cachedPrompt: 0.5 },
+        },
+        ModelInfoSource.PROVIDER,
+      );
+      const event = {
+        'event.name': EVENT_API_RESPONSE,
+        model: 'openai/o3',
+        provider: 'openrouter',
+        duration_ms: 500,
+        input_token_count: 1_000_000,
+        output_token_count: 100_000,
+        total_token_count: 1_150_000,
+        cached_content_token_count: 400_000,
+        thoughts_token_count: 50_000,
+        tool_token_count: 0,
+      } as ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE };
+
+      service.addEvent(event);
+      service.addEvent(Object.assign({}, event, { model: 'unpriced-model' }));
+
+      // 600k prompt, 400k cached, 100k completion and 50k reasoning tokens
+      expect(service.getMetrics().models['openai/o3'].cost).toBeCloseTo(
+        1.2 + 0.2 + 0.8 + 0.4,
+      );
+      expect(service.getMetrics().models['unpriced-model'].cost).toBe(
+        undefined,
+      );
+      expect(service.getSessionCost()).toBeCloseTo(2.6);
+      modelRegistry.clear();
+    });
+
     it('should aggregate multiple ApiResponseEvents for the same model', () => {
       const event1 = {
         'event.name': EVENT_API_RESPONSE,
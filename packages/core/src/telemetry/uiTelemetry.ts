@@ -17,6 +17,8 @@ import {
   ToolCallEvent,
   ToolCallDecision,
 } from './types.js';
+import { modelRegistry } from '../models/modelRegistry.js';
+import { calculateCost } from '../models/pricing.js';
 
 export type UiEvent =
   | (ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE })
@@ -49,6 +51,8 @@ export interface ModelMetrics {
     thoughts: number;
     tool: number;
   };
+  /** Cost in USD, undefined while the price of the model is unknown */
+  cost?: number;
 }
 
 export interface SessionMetrics {
@@ -133,6 +137,19 @@ export class UiTelemetryService extends EventEmitter {
     return this.#lastPromptTokenCount;
   }
 
+  /**
+   * Returns the cost of the session in USD, undefined if the price of none
+   * of the models used is known
+   */
+  getSessionCost(): number | undefined {
+    const costs = Object.values(this.#metrics.models)
+      .map((metrics) => metrics.cost)
+      .filter((cost): cost is number => cost !== undefined);
+    return costs.length > 0
+      ? costs.reduce((total, cost) => total + cost, 0)
+      : undefined;
+  }
+
   resetLastPromptTokenCount(): void {
     this.#lastPromptTokenCount = 0;
     this.emit('update', {
@@ -161,6 +178,18 @@ export class UiTelemetryService extends EventEmitter {
     modelMetrics.tokens.thoughts += event.thoughts_token_count;
     modelMetrics.tokens.tool += event.tool_token_count;
 
+    const { pricing } = modelRegistry.get(event.model, event.provider);
+    if (pricing) {
+      modelMetrics.cost =
+        (modelMetrics.cost ?? 0) +
+        calculateCost(pricing, {
+          prompt: event.input_token_count,
+          candidates: event.output_token_count,
+          cached: event.cached_content_token_count,
+          thoughts: event.thoughts_token_count,
+        });
+    }
+
     this.#lastPromptTokenCount = event.input_token_count;
   }
 
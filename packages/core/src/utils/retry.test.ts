@@ -6,7 +6,7 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { retryWithBackoff } from './retry.js';
+import { isFailoverError, retryWithBackoff } from './retry.js';
 import { setSimulate429 } from './testUtils.js';
 
 // Define an interface for the error with a status property
@@ -404,4 +404,96 @@ describe('retryWithBackoff', () => {
       expect(fallbackCallback).toHaveBeenCalledWith('oauth-personal');
     });
   });
+
+  describe('Provider failover', () => {
+    it('should fail over and get fresh attempts once retries are exhausted', async () => {
+      let failedOver = false;
+      const mockFn = vi.fn(async () => {
+        if (failedOver) {
+          return 'success';
+        }
+        const error: HttpError = new Error('Service unavailable');
+        error.status = 503;
+        throw error;
+      });
+      const onFailover = vi.fn(async () => (failedOver = true));
+
+      const promise = retryWithBackoff(mockFn, {
+        maxAttempts: 2,
+        initialDelayMs: 10,
+        onFailover,
+      });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe('success');
+      expect(onFailover).toHaveBeenCalledTimes(1);
+      expect(mockFn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fail over on errors that are not retried', async () => {
+      const authError: HttpError = new Error('Unauthorized');
+      authError.status = 401;
+      const mockFn = vi
+        .fn()
+        .mockRejectedValueOnce(authError)
+        .mockResolvedValue('success');
+      const onFailover = vi.fn(async () => true);
+
+      const promise = retryWithBackoff(mockFn, { onFailover });
+      await vi.runAllTimersAsync();
+
+      await expect(promise).resolves.toBe('success');
+      expect(onFailover).toHaveBeenCalledWith(authError);
+    });
+
+    it('should throw the original error when no provider takes over', async () => {
+      const mockFn = createFailingFunction(5);
+      const onFailover = vi.fn(async () => false);
+
+      const promise = retryWithBackoff(mockFn, {
+        maxAttempts: 2,
+        initialDelayMs: 10,
+        onFailover,
+      });
+      const assertion = expect(promise).rejects.toThrow(
+        'Simulated error attempt 2',
+      );
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(onFailover).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not fail over on client errors', async () => {
+      const error: HttpError = new Error('Bad request');
+      error.status = 400;
+      const onFailover = vi.fn(async () => true);
+
+      await expect(
+        retryWithBackoff(vi.fn().mockRejectedValue(error), { onFailover }),
+      ).rejects.toThrow('Bad request');
+      expect(onFailover).not.toHaveBeenCalled();
+    });
+
+    it('should classify failover errors', () => {
+      const withStatus = (status: number) =>
+        Object.assign(new Error('error'), { status });
+      const timeout = new Error('The operation timed out');
+      timeout.name = 'TimeoutError';
+
+      expect(isFailoverError(withStatus(429))).toBe(true);
+      expect(isFailoverError(withStatus(502))).toBe(true);
+      expect(isFailoverError(withStatus(403))).toBe(true);
+      expect(isFailoverError(withStatus(404))).toBe(false);
+      expect(isFailoverError(timeout)).toBe(true);
+      expect(
+        isFailoverError(
+          Object.assign(new Error('fetch failed'), {
+            cause: { code: 'ECONNREFUSED' },
+          }),
+        ),
+      ).toBe(true);
+      expect(isFailoverError(new Error('Invalid JSON'))).toBe(false);
+    });
+  });
 });
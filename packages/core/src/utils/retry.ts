@@ -19,6 +19,12 @@ export interface RetryOptions {
     authType?: string,
     error?: unknown,
   ) => Promise<string | boolean | null>;
+  /**
+   * Called when the provider keeps failing, see isFailoverError. Returns true
+   * if it switched to another provider, which then gets a fresh set of
+   * attempts.
+   */
+  onFailover?: (error: unknown) => Promise<boolean>;
   authType?: string;
 }
 
@@ -75,6 +81,7 @@ export async function retryWithBackoff<T>(
     initialDelayMs,
     maxDelayMs,
     onPersistent429,
+    onFailover,
     authType,
     shouldRetry,
   } = {
@@ -180,6 +187,21 @@ export async function retryWithBackoff<T>(
 
       // Check if we've exhausted retries or shouldn't retry
       if (attempt >= maxAttempts || !shouldRetry(error as Error)) {
+        // Move on to the next provider, if there is one, before giving up
+        if (onFailover && isFailoverError(error)) {
+          let switched = false;
+          try {
+            switched = await onFailover(error);
+          } catch (failoverError) {
+            console.warn('Provider failover failed:', failoverError);
+          }
+          if (switched) {
+            attempt = 0;
+            consecutive429Count = 0;
+            currentDelay = initialDelayMs;
+            continue;
+          }
+        }
         throw error;
       }
 
@@ -211,6 +233,40 @@ export async function retryWithBackoff<T>(
   throw new Error('Retry attempts exhausted');
 }
 
+/**
+ * Determines whether an error means the provider is unusable for now, so that
+ * another provider should take over: rate limits, server errors, timeouts,
+ * network failures and rejected credentials.
+ * @param error The error object.
+ * @returns True if the request should fail over to another provider.
+ */
+export function isFailoverError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return [401, 403, 408, 429].includes(status) || status >= 500;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === 'TimeoutError') {
+    return true;
+  }
+  const code = (error as { cause?: { code?: unknown } }).cause?.code;
+  return (
+    (typeof code === 'string' && NETWORK_ERROR_CODES.includes(code)) ||
+    NETWORK_ERROR_CODES.some((c) => error.message.includes(c)) ||
+    /fetch failed|Cannot connect to API|\b(429|5\d{2})\b/.test(error.message)
+  );
+}
+
+const NETWORK_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'ETIMEDOUT',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
 /**
  * Extracts the HTTP status code from an error object.
  * @param error The error object.